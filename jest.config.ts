@@ -4,6 +4,10 @@
  */
 
 import type {Config} from 'jest';
+import nextJest from 'next/jest.js';
+
+// Compiles TypeScript and JSX with Next's SWC setup and loads .env files
+const createJestConfig = nextJest({ dir: './' });
 
 const config: Config = {
   // All imported modules in your tests should be mocked automatically
@@ -92,7 +96,9 @@ const config: Config = {
   // ],
 
   // A map from regular expressions to module names or to arrays of module names that allow to stub out resources with a single module
-  // moduleNameMapper: {},
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
 
   // An array of regexp pattern strings, matched against all module paths before considered 'visible' to the module loader
   // modulePathIgnorePatterns: [],
@@ -198,4 +204,4 @@ const config: Config = {
   // watchman: true,
 };
 
-export default config;
+export default createJestConfig(config);
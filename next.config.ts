@@ -2,6 +2,24 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   reactStrictMode: false,
+  experimental: {
+    serverActions: {
+      // JSON imports carry every todo with its content in one action call
+      bodySizeLimit: "10mb",
+    },
+  },
+  async headers() {
+    return [
+      {
+        // Browsers must always check for a new service worker, or updates never reach installed apps
+        source: "/sw.js",
+        headers: [
+          { key: "Cache-Control", value: "no-cache, no-store, must-revalidate" },
+          { key: "Content-Type", value: "application/javascript; charset=utf-8" },
+        ],
+      },
+    ];
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,111 @@
+/*
+ * Service worker for the installed app.
+ *
+ * - Pages are fetched from the network first and kept, so the workspace and
+ *   the sign-in pages still open offline; anything never visited falls back
+ *   to /offline.html. Opening an /api URL, such as the calendar feed, is
+ *   not a page and is never kept.
+ * - Next.js build output under /_next/static is content-hashed, so it is
+ *   served from the cache first.
+ * - Server actions are POST requests and always go to the network; the
+ *   workspace queues its own changes while offline.
+ *
+ * A new version waits until the page asks it to take over (see
+ * src/components/service-worker-registration.tsx), so an open workspace is
+ * never switched to new code mid-edit. Bump CACHE_VERSION to drop old caches.
+ */
+
+const CACHE_VERSION = "v1";
+const PAGE_CACHE = `pandora-box-pages-${CACHE_VERSION}`;
+const STATIC_CACHE = `pandora-box-static-${CACHE_VERSION}`;
+const OFFLINE_URL = "/offline.html";
+
+const SHELL_URLS = ["/", "/sign-in", "/sign-up"];
+const STATIC_URLS = [
+  OFFLINE_URL,
+  "/manifest.webmanifest",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+  "/icons/icon.svg",
+];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const staticCache = await caches.open(STATIC_CACHE);
+      await staticCache.addAll(STATIC_URLS);
+
+      // A page that fails now is cached on its first visit instead
+      const pageCache = await caches.open(PAGE_CACHE);
+      await Promise.allSettled(SHELL_URLS.map((url) => pageCache.add(url)));
+    })()
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter((name) => name !== PAGE_CACHE && name !== STATIC_CACHE)
+          .map((name) => caches.delete(name))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") {
+    self.skipWaiting();
+  }
+});
+
+const isStaticAsset = (url) =>
+  url.pathname.startsWith("/_next/static/") ||
+  url.pathname.startsWith("/icons/") ||
+  STATIC_URLS.includes(url.pathname);
+
+const handleNavigation = async (request) => {
+  const cache = await caches.open(PAGE_CACHE);
+  try {
+    const response = await fetch(request);
+    // Redirects (e.g. to sign-in) and errors are not worth keeping
+    if (response.ok && response.type === "basic" && !response.redirected) {
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch {
+    const cached = await cache.match(request, { ignoreSearch: true });
+    return cached ?? (await caches.match(OFFLINE_URL)) ?? Response.error();
+  }
+};
+
+const handleStaticAsset = async (request) => {
+  const cache = await caches.open(STATIC_CACHE);
+  const cached = await cache.match(request);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) {
+    return;
+  }
+
+  if (request.mode === "navigate" && !url.pathname.startsWith("/api/")) {
+    event.respondWith(handleNavigation(request));
+  } else if (isStaticAsset(url)) {
+    event.respondWith(handleStaticAsset(request));
+  }
+});
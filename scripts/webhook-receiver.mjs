@@ -0,0 +1,70 @@
+// Local webhook receiver for trying out outgoing webhooks.
+//
+//   WEBHOOK_SECRET=whsec_... node scripts/webhook-receiver.mjs [port]
+//
+// Start the app with WEBHOOK_ALLOW_LOCALHOST=true (webhooks may not post to
+// local addresses otherwise), add http://localhost:4000 as an endpoint under
+// Settings, then send a test event. Every request is printed with whether
+// its signature checks out.
+// Set WEBHOOK_FAIL_STATUS (e.g. 503) to answer with an error and watch the
+// retries in the delivery log.
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+
+const port = Number(process.argv[2] ?? process.env.PORT ?? 4000);
+const secret = process.env.WEBHOOK_SECRET;
+const failStatus = Number(process.env.WEBHOOK_FAIL_STATUS ?? 0);
+const toleranceSeconds = 5 * 60;
+
+const verifySignature = (header, body) => {
+  if (!secret) {
+    return "not checked (WEBHOOK_SECRET is not set)";
+  }
+  const parts = Object.fromEntries(
+    (header ?? "").split(",").map((part) => part.trim().split("="))
+  );
+  const timestamp = Number(parts.t);
+  if (!timestamp || !parts.v1) {
+    return "missing";
+  }
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    return "too old";
+  }
+  const expected = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest();
+  const received = Buffer.from(parts.v1, "hex");
+  return received.length === expected.length &&
+    timingSafeEqual(received, expected)
+    ? "valid"
+    : "INVALID";
+};
+
+createServer((request, response) => {
+  const chunks = [];
+  request.on("data", (chunk) => chunks.push(chunk));
+  request.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    const signature = verifySignature(
+      request.headers["x-pandora-signature"],
+      body
+    );
+
+    console.log(
+      `\n${new Date().toISOString()} ${request.method} ${request.url}`
+    );
+    console.log(`  event:     ${request.headers["x-pandora-event"]}`);
+    console.log(`  delivery:  ${request.headers["x-pandora-delivery"]}`);
+    console.log(`  signature: ${signature}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    const status = failStatus || (signature === "INVALID" ? 401 : 204);
+    response.writeHead(status).end();
+  });
+}).listen(port, () => {
+  console.log(`Listening for webhooks on http://localhost:${port}`);
+});
@@ -4,12 +4,14 @@ import Link from "next/link";
 import { useRouter, useSearchParams } from "next/navigation";
 import { FormEvent, useMemo, useState, useTransition } from "react";
 import { signIn } from "@/features/auth/actions/authActions";
+import { OfflineNotice, useIsOnline } from "@/components/offline-notice";
 
 export default function SignInPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [error, setError] = useState<string | null>(null);
   const [isPending, startTransition] = useTransition();
+  const isOnline = useIsOnline();
 
   const successMessage = useMemo(() => {
     if (searchParams?.get("registered") === "1") {
@@ -31,12 +33,18 @@ export default function SignInPage() {
 
     setError(null);
     startTransition(async () => {
-      const result = await signIn({ email, password: password ?? "" });
-      if (result.success) {
-        router.replace("/");
-        router.refresh();
-      } else {
-        setError(result.error ?? "Failed to sign in");
+      try {
+        const result = await signIn({ email, password: password ?? "" });
+        if (result.success) {
+          router.replace("/");
+          router.refresh();
+        } else {
+          setError(result.error ?? "Failed to sign in");
+        }
+      } catch (error) {
+        // The request never reached the server, usually because the connection dropped
+        console.error("Unexpected error signing in:", error);
+        setError("Could not reach the server. Check your connection and try again.");
       }
     });
   };
@@ -57,6 +65,10 @@ export default function SignInPage() {
           </div>
         )}
 
+        {!isOnline && (
+          <OfflineNotice message="You are offline. Signing in needs a connection; your workspace still opens if you signed in on this device before." />
+        )}
+
         {error && (
           <div className="rounded-md border border-red-500 bg-red-50 px-4 py-3 text-sm text-red-600 dark:border-red-400 dark:bg-red-950/20 dark:text-red-300">
             {error}
@@ -98,7 +110,7 @@ export default function SignInPage() {
 
           <button
             type="submit"
-            disabled={isPending}
+            disabled={isPending || !isOnline}
             className="w-full rounded-md bg-accent px-4 py-2 text-sm font-semibold text-accent-foreground transition hover:bg-accent/90 disabled:opacity-50"
           >
             {isPending ? "Signing in..." : "Sign in"}
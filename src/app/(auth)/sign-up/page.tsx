@@ -4,11 +4,13 @@ import Link from "next/link";
 import { FormEvent, useState, useTransition } from "react";
 import { useRouter } from "next/navigation";
 import { signUp } from "@/features/auth/actions/authActions";
+import { OfflineNotice, useIsOnline } from "@/components/offline-notice";
 
 export default function SignUpPage() {
   const router = useRouter();
   const [error, setError] = useState<string | null>(null);
   const [isPending, startTransition] = useTransition();
+  const isOnline = useIsOnline();
 
   const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
@@ -29,11 +31,17 @@ export default function SignUpPage() {
 
     setError(null);
     startTransition(async () => {
-      const result = await signUp({ email, password: password ?? "" });
-      if (result.success) {
-        router.replace("/sign-in?registered=1");
-      } else {
-        setError(result.error ?? "Failed to sign up");
+      try {
+        const result = await signUp({ email, password: password ?? "" });
+        if (result.success) {
+          router.replace("/sign-in?registered=1");
+        } else {
+          setError(result.error ?? "Failed to sign up");
+        }
+      } catch (error) {
+        // The request never reached the server, usually because the connection dropped
+        console.error("Unexpected error signing up:", error);
+        setError("Could not reach the server. Check your connection and try again.");
       }
     });
   };
@@ -48,6 +56,10 @@ export default function SignUpPage() {
           </p>
         </header>
 
+        {!isOnline && (
+          <OfflineNotice message="You are offline. Creating an account needs a connection." />
+        )}
+
         {error && (
           <div className="rounded-md border border-red-500 bg-red-50 px-4 py-3 text-sm text-red-600 dark:border-red-400 dark:bg-red-950/20 dark:text-red-300">
             {error}
@@ -107,7 +119,7 @@ export default function SignUpPage() {
 
           <button
             type="submit"
-            disabled={isPending}
+            disabled={isPending || !isOnline}
             className="w-full rounded-md bg-accent px-4 py-2 text-sm font-semibold text-accent-foreground transition hover:bg-accent/90 disabled:opacity-50"
           >
             {isPending ? "Creating account..." : "Sign up"}
@@ -0,0 +1,47 @@
+import type { NextRequest } from "next/server";
+import {
+  CALENDAR_FEED_TYPES,
+  type CalendarFeedType,
+} from "@/features/calendarFeeds/schemas/calendarFeedSchemas";
+import { loadCalendarFeedResponse } from "@/features/calendarFeeds/utils/calendarFeed";
+import { isCalendarFeedToken } from "@/features/calendarFeeds/utils/calendarFeedSecrets";
+
+type CalendarFeedRouteContext = {
+  params: Promise<{ token: string }>;
+};
+
+const notFound = () =>
+  new Response("Calendar feed not found", {
+    status: 404,
+    headers: { "Content-Type": "text/plain; charset=utf-8" },
+  });
+
+// GET /api/calendar/:token.ics: the user's dated todos as iCalendar; the
+// token in the URL is the only credential. ?type=events serves VEVENTs
+// for calendars that do not show VTODOs
+export async function GET(
+  request: NextRequest,
+  { params }: CalendarFeedRouteContext
+) {
+  const { token } = await params;
+  const secret = token.replace(/\.ics$/, "");
+  if (!isCalendarFeedToken(secret)) {
+    return notFound();
+  }
+
+  const typeParam = request.nextUrl.searchParams.get("type") ?? "todos";
+  const type = CALENDAR_FEED_TYPES.includes(typeParam as CalendarFeedType)
+    ? (typeParam as CalendarFeedType)
+    : "todos";
+
+  try {
+    const response = await loadCalendarFeedResponse(request, secret, type);
+    return response ?? notFound();
+  } catch (error) {
+    console.error("Unexpected error serving calendar feed:", error);
+    return new Response("Failed to load the calendar feed", {
+      status: 500,
+      headers: { "Content-Type": "text/plain; charset=utf-8" },
+    });
+  }
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { getTodoOpenApiDocument } from "@/features/todos/utils/todoOpenApi";
+
+export const dynamic = "force-static";
+
+// GET /api/v1/openapi.json: the OpenAPI document of this API version
+export function GET() {
+  return NextResponse.json(getTodoOpenApiDocument());
+}
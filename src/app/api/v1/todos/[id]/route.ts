@@ -0,0 +1,53 @@
+import type { NextRequest } from "next/server";
+import {
+  deleteTodo,
+  getTodoDetails,
+  updateTodo,
+} from "@/features/todos/actions/todoActions";
+import type { UpdateTodoInput } from "@/features/todos/schemas/todoSchemas";
+import {
+  INVALID_BODY_ERROR,
+  apiError,
+  parseTodoId,
+  readJsonObject,
+  toApiResponse,
+} from "@/features/todos/utils/todoApi";
+
+type TodoRouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// GET /api/v1/todos/:id: a todo with its content
+export async function GET(
+  _request: NextRequest,
+  { params }: TodoRouteContext
+) {
+  const { id } = await params;
+  return toApiResponse(await getTodoDetails({ id: parseTodoId(id) }));
+}
+
+// PATCH /api/v1/todos/:id: change some of a todo's fields; with
+// expectedUpdatedAt, a todo changed in the meantime answers 409
+export async function PATCH(
+  request: NextRequest,
+  { params }: TodoRouteContext
+) {
+  const { id } = await params;
+  const body = await readJsonObject(request);
+  if (!body) {
+    return apiError("validation_error", INVALID_BODY_ERROR);
+  }
+
+  return toApiResponse(
+    await updateTodo({ ...body, id: parseTodoId(id) } as UpdateTodoInput)
+  );
+}
+
+// DELETE /api/v1/todos/:id: move a todo and its subtasks to the trash
+export async function DELETE(
+  _request: NextRequest,
+  { params }: TodoRouteContext
+) {
+  const { id } = await params;
+  return toApiResponse(await deleteTodo({ id: parseTodoId(id) }), 204);
+}
@@ -0,0 +1,27 @@
+import type { NextRequest } from "next/server";
+import { toggleTodo } from "@/features/todos/actions/todoActions";
+import type { ToggleTodoInput } from "@/features/todos/schemas/todoSchemas";
+import {
+  INVALID_BODY_ERROR,
+  apiError,
+  parseTodoId,
+  readJsonObject,
+  toApiResponse,
+} from "@/features/todos/utils/todoApi";
+
+// POST /api/v1/todos/:id/toggle: complete or reopen a todo. The body is
+// optional and may set includeSubtasks and timeZone
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const body = await readJsonObject(request);
+  if (!body) {
+    return apiError("validation_error", INVALID_BODY_ERROR);
+  }
+
+  return toApiResponse(
+    await toggleTodo({ ...body, id: parseTodoId(id) } as ToggleTodoInput)
+  );
+}
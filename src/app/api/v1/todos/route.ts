@@ -0,0 +1,29 @@
+import type { NextRequest } from "next/server";
+import {
+  createTodo,
+  getTodos,
+} from "@/features/todos/actions/todoActions";
+import type { CreateTodoInput } from "@/features/todos/schemas/todoSchemas";
+import {
+  INVALID_BODY_ERROR,
+  apiError,
+  getTodosQueryInput,
+  readJsonObject,
+  toApiResponse,
+} from "@/features/todos/utils/todoApi";
+
+// GET /api/v1/todos: a page of todos, filtered and sorted like the list view
+export async function GET(request: NextRequest) {
+  const input = getTodosQueryInput(request.nextUrl.searchParams);
+  return toApiResponse(await getTodos(input));
+}
+
+// POST /api/v1/todos: create a todo
+export async function POST(request: NextRequest) {
+  const body = await readJsonObject(request);
+  if (!body) {
+    return apiError("validation_error", INVALID_BODY_ERROR);
+  }
+
+  return toApiResponse(await createTodo(body as CreateTodoInput), 201);
+}
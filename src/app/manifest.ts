@@ -0,0 +1,27 @@
+import type { MetadataRoute } from "next";
+
+// Served as /manifest.webmanifest; lets the workspace be installed as its own window
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Pandora Box",
+    short_name: "Pandora",
+    description: "Todos, notes and projects in one calm workspace.",
+    id: "/",
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    background_color: "#fafaf9",
+    theme_color: "#7c9885",
+    icons: [
+      { src: "/icons/icon-192.png", sizes: "192x192", type: "image/png" },
+      { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png" },
+      {
+        src: "/icons/icon-maskable-512.png",
+        sizes: "512x512",
+        type: "image/png",
+        purpose: "maskable",
+      },
+      { src: "/icons/icon.svg", sizes: "any", type: "image/svg+xml" },
+    ],
+  };
+}
@@ -2,7 +2,9 @@
 
 import {
   FormEvent,
+  Fragment,
   KeyboardEvent,
+  MouseEvent,
   useState,
   useEffect,
   useTransition,
@@ -13,37 +15,183 @@ import {
   ChangeEvent,
 } from "react";
 import { useRouter } from "next/navigation";
+import { Flag, Repeat } from "lucide-react";
 import type { RndDragCallback, RndResizeCallback } from "react-rnd";
 import {
   getTodos,
+  getTodoDetails,
   createTodo,
   toggleTodo,
   deleteTodo,
   clearCompletedTodos,
   updateTodoText,
   updateTodoContent,
+  updateTodo,
+  attachTagToTodo,
+  detachTagFromTodo,
+  moveTodoToProject,
+  createSubtask,
+  reparentTodo,
+  reorderSubtasks,
+  reorderTodo,
+  getTrashedTodos,
+  restoreTodo,
+  deleteTodoPermanently,
+  emptyTrash,
+  getArchivedTodos,
+  unarchiveTodo,
+  searchTodos,
+  bulkSetTodosDone,
+  bulkDeleteTodos,
+  bulkMoveTodos,
+  bulkTagTodos,
+  restoreTodos,
+  unarchiveTodos,
 } from "@/features/todos/actions/todoActions";
+import {
+  getProjects,
+  createProject,
+  updateProject,
+  setProjectArchived,
+  deleteProject,
+} from "@/features/projects/actions/projectActions";
+import type { ProjectIcon } from "@/features/projects/schemas/projectSchemas";
+import {
+  getTags,
+  createTag,
+  renameTag,
+  recolorTag,
+  deleteTag,
+} from "@/features/tags/actions/tagActions";
+import { TagChip } from "@/features/tags/components/TagChip";
 import { signOut } from "@/features/auth/actions/authActions";
 import { TodosBlock } from "@/features/todos/components/TodosBlock";
 import { TodoDetailsBlock } from "@/features/todos/components/TodoDetailsBlock";
+import { SubtaskProgress } from "@/features/todos/components/SubtaskProgress";
+import { HistoryToast } from "@/features/todos/components/HistoryToast";
 import type { OptimisticTodo } from "@/features/todos/types/optimisticTodo";
 import type {
   BlockId,
   BlockLayout,
   BlockLayouts,
   BlockRect,
+  TodosView,
 } from "@/features/todos/types/workspace";
+import type { TodoSearchResult } from "@/features/todos/types/todoSearch";
+import type {
+  PendingTodoConflict,
+  TodoEdit,
+} from "@/features/todos/types/todoConflict";
+import type {
+  TodoCommand,
+  TodoHistory,
+  TodoHistoryEntry,
+} from "@/features/todos/types/todoHistory";
+import type {
+  TodoRemoteChange,
+  TodoRow,
+} from "@/features/todos/types/todoRealtime";
+import type {
+  OfflineTodoMutation,
+  TodoSyncStatus,
+} from "@/features/todos/types/offlineQueue";
+import { useTodoRealtime } from "@/features/todos/hooks/useTodoRealtime";
+import {
+  EMPTY_TODO_HISTORY,
+  completeRedo,
+  completeUndo,
+  describeTodoCount,
+  isEditableTarget,
+  recordTodoHistory,
+} from "@/features/todos/utils/todoHistory";
+import {
+  applyRemoteTodoChange,
+  isListedTodo,
+  isNewerTodo,
+} from "@/features/todos/utils/todoRealtime";
+import {
+  applyOfflineMutation,
+  rebaseMutation,
+  referencesTodo,
+  remapMutationId,
+} from "@/features/todos/utils/todoOfflineQueue";
+import {
+  clearOfflineData,
+  deleteQueuedTodoMutation,
+  enqueueTodoMutation,
+  getQueuedTodoMutations,
+  loadCachedWorkspace,
+  rewriteQueuedTodoMutations,
+  saveCachedWorkspace,
+} from "@/features/todos/utils/todoOfflineStore";
+import {
+  groupTodosBySchedule,
+  groupTodosBySearchRank,
+} from "@/features/todos/utils/todoGroups";
+import { TODO_PRIORITY_LABELS } from "@/features/todos/utils/todoPriority";
+import {
+  compareByCreatedAt,
+  getTodoComparator,
+} from "@/features/todos/utils/todoSort";
+import { matchesTagFilter } from "@/features/todos/utils/todoTags";
+import {
+  getSubtaskProgress,
+  groupSubtasksByParent,
+} from "@/features/todos/utils/todoSubtasks";
+import { describeRecurrence } from "@/features/todos/utils/todoRecurrence";
+import { getPositionBetween } from "@/features/todos/utils/todoPosition";
+import {
+  TODO_SORT_ORDERS,
+  type TodoSortOrder,
+  type TodoTagMatchMode,
+} from "@/features/todos/schemas/todoSchemas";
+import type {
+  ActionResponse,
+  Project,
+  Tag,
+  Todo,
+  TodoListItem,
+  TodoPriority,
+  TodoRecurrence,
+} from "@/types/database";
 import type { PartialBlock } from "@blocknote/core";
 
 type OptimisticAction =
   | { type: "create"; todo: OptimisticTodo }
-  | { type: "toggle"; id: number }
+  | { type: "toggle"; id: number; includeSubtasks?: boolean }
   | { type: "delete"; id: number }
   | { type: "clearCompleted" }
-  | { type: "updateContent"; id: number; content: PartialBlock[] }
-  | { type: "updateText"; id: number; text: string };
+  | { type: "updateContent"; id: number }
+  | { type: "updateText"; id: number; text: string }
+  | { type: "updatePriority"; id: number; priority: TodoPriority }
+  | { type: "updateRecurrence"; id: number; recurrence: TodoRecurrence | null }
+  | { type: "updateTags"; id: number; tags: Tag[] }
+  | { type: "moveToProject"; id: number; projectId: number }
+  | { type: "reparent"; id: number; parentId: number | null }
+  | { type: "reorderSubtasks"; parentId: number; orderedIds: number[] }
+  | {
+      type: "reorder";
+      id: number;
+      previousId: number | null;
+      nextId: number | null;
+    }
+  | {
+      type: "updateSchedule";
+      id: number;
+      startAt: string | null;
+      dueAt: string | null;
+    }
+  | { type: "bulkSetDone"; ids: number[]; done: boolean }
+  | { type: "bulkDelete"; ids: number[] }
+  | { type: "bulkMove"; ids: number[]; projectId: number }
+  | { type: "bulkTag"; ids: number[]; tag: Tag; attach: boolean };
 
 const STORAGE_KEY = "workspace.layouts.v1";
+const SORT_STORAGE_KEY = "workspace.todoSort.v1";
+const SEARCH_DEBOUNCE_MS = 200;
+const TODO_PAGE_SIZE = 50;
+const SYNC_RETRY_INTERVAL_MS = 30_000;
+const DEFAULT_SORT_ORDER: TodoSortOrder = "due";
 const BLOCK_IDS: BlockId[] = ["todos", "todoDetails"];
 
 const createDefaultLayouts = (): BlockLayouts => {
@@ -284,6 +432,111 @@ const loadLayouts = (): BlockLayouts => {
   }
 };
 
+const loadSortOrder = (): TodoSortOrder => {
+  if (typeof window === "undefined") {
+    return DEFAULT_SORT_ORDER;
+  }
+
+  const stored = window.localStorage.getItem(SORT_STORAGE_KEY);
+  return TODO_SORT_ORDERS.find((order) => order === stored) ?? DEFAULT_SORT_ORDER;
+};
+
+// Key that places a new todo after every existing one, as the server does
+const getPositionAfterLast = (todos: OptimisticTodo[]) =>
+  getPositionBetween(
+    todos.reduce<string | null>(
+      (last, todo) => (last === null || todo.position > last ? todo.position : last),
+      null
+    ),
+    null
+  );
+
+// Key between two todos of the manual order, or null when theirs are out of order
+const getReorderPosition = (
+  todos: OptimisticTodo[],
+  previousId: number | null,
+  nextId: number | null
+) => {
+  const positionOf = (id: number | null) =>
+    id === null ? null : todos.find((todo) => todo.id === id)?.position ?? null;
+  try {
+    return getPositionBetween(positionOf(previousId), positionOf(nextId));
+  } catch {
+    return null;
+  }
+};
+
+// Clearing completed todos archives completed top-level todos together with
+// their subtasks, mirroring clearCompletedTodos on the server
+const removeCompletedTodos = <T extends OptimisticTodo>(todos: T[]) => {
+  const removedIds = new Set(
+    todos
+      .filter((todo) => todo.done && todo.parent_id === null)
+      .map((todo) => todo.id)
+  );
+  return todos.filter(
+    (todo) =>
+      !removedIds.has(todo.id) &&
+      (todo.parent_id === null || !removedIds.has(todo.parent_id))
+  );
+};
+
+// Replace the todos a bulk action changed with what the server sent back
+const mergeChangedTodos = <T extends OptimisticTodo>(
+  todos: T[],
+  changed: OptimisticTodo[]
+) => {
+  const changedById = new Map(changed.map((todo) => [todo.id, todo]));
+  return todos.map((todo) => {
+    const update = changedById.get(todo.id);
+    return update ? { ...todo, ...update } : todo;
+  });
+};
+
+// Add todos the server created; realtime may have delivered them already
+const appendCreatedTodos = <T extends OptimisticTodo>(todos: T[], created: T[]) => {
+  const createdIds = new Set(created.map((todo) => todo.id));
+  return [...todos.filter((todo) => !createdIds.has(todo.id)), ...created];
+};
+
+// Once a replayed change is saved, later offline edits to those todos build on the saved copy
+const rebaseQueuedEdits = (saved: OptimisticTodo[]) =>
+  rewriteQueuedTodoMutations((mutation) =>
+    saved.reduce(
+      (next, todo) => rebaseMutation(next, todo.id, todo.updated_at),
+      mutation
+    )
+  );
+
+// The part of the list filter the server applies, so pages hold only matches
+type TodoListFilter = {
+  projectId: number | null;
+  tagIds: number[];
+  tagMode: TodoTagMatchMode;
+};
+
+const UNFILTERED_TODO_LIST: TodoListFilter = {
+  projectId: null,
+  tagIds: [],
+  tagMode: "any",
+};
+
+const getTodoListQuery = ({ projectId, tagIds, tagMode }: TodoListFilter) => ({
+  projectId: projectId ?? undefined,
+  tagIds,
+  tagMode,
+});
+
+// Filters that pick the same todos share a key; the whole list has ""
+const getTodoListFilterKey = ({ projectId, tagIds, tagMode }: TodoListFilter) =>
+  projectId === null && tagIds.length === 0
+    ? ""
+    : JSON.stringify([
+        projectId,
+        [...tagIds].sort((a, b) => a - b),
+        tagIds.length > 1 ? tagMode : null,
+      ]);
+
 const getNextZ = (layouts: BlockLayouts) =>
   Object.values(layouts).reduce((highest, current) => Math.max(highest, current.z), 0) + 1;
 
@@ -296,22 +549,42 @@ export default function Home() {
     switch (action.type) {
       case "create":
         return [...currentTodos, action.todo];
-      case "toggle":
-        return currentTodos.map((todo) =>
-          todo.id === action.id
-            ? { ...todo, done: !todo.done, optimistic: true }
-            : todo
-        );
+      case "toggle": {
+        const target = currentTodos.find((todo) => todo.id === action.id);
+        const completesSubtasks =
+          action.includeSubtasks === true && target !== undefined && !target.done;
+        const completedAt = new Date().toISOString();
+        return currentTodos.map((todo) => {
+          if (todo.id === action.id) {
+            return {
+              ...todo,
+              done: !todo.done,
+              completed_at: todo.done ? null : completedAt,
+              optimistic: true,
+            };
+          }
+          if (completesSubtasks && todo.parent_id === action.id && !todo.done) {
+            return {
+              ...todo,
+              done: true,
+              completed_at: completedAt,
+              optimistic: true,
+            };
+          }
+          return todo;
+        });
+      }
       case "delete":
-        return currentTodos.filter((todo) => todo.id !== action.id);
+        return currentTodos.filter(
+          (todo) => todo.id !== action.id && todo.parent_id !== action.id
+        );
       case "clearCompleted":
-        return currentTodos.filter((todo) => !todo.done);
+        return removeCompletedTodos(currentTodos);
       case "updateContent":
         return currentTodos.map((todo) =>
           todo.id === action.id
             ? {
                 ...todo,
-                content: action.content,
                 optimistic: true,
                 updated_at: new Date().toISOString(),
               }
@@ -328,6 +601,140 @@ export default function Home() {
               }
             : todo
         );
+      case "updatePriority":
+        return currentTodos.map((todo) =>
+          todo.id === action.id
+            ? {
+                ...todo,
+                priority: action.priority,
+                optimistic: true,
+                updated_at: new Date().toISOString(),
+              }
+            : todo
+        );
+      case "updateRecurrence":
+        return currentTodos.map((todo) =>
+          todo.id === action.id
+            ? {
+                ...todo,
+                recurrence: action.recurrence,
+                optimistic: true,
+                updated_at: new Date().toISOString(),
+              }
+            : todo
+        );
+      case "updateTags":
+        return currentTodos.map((todo) =>
+          todo.id === action.id
+            ? { ...todo, tags: action.tags, optimistic: true }
+            : todo
+        );
+      case "moveToProject":
+        return currentTodos.map((todo) =>
+          todo.id === action.id || todo.parent_id === action.id
+            ? { ...todo, project_id: action.projectId, optimistic: true }
+            : todo
+        );
+      case "reparent": {
+        const parent = currentTodos.find((todo) => todo.id === action.parentId);
+        const siblingCount = currentTodos.filter(
+          (todo) => action.parentId !== null && todo.parent_id === action.parentId
+        ).length;
+        return currentTodos.map((todo) =>
+          todo.id === action.id
+            ? {
+                ...todo,
+                parent_id: action.parentId,
+                subtask_position: action.parentId === null ? 0 : siblingCount,
+                project_id: parent?.project_id ?? todo.project_id,
+                optimistic: true,
+              }
+            : todo
+        );
+      }
+      case "reorderSubtasks":
+        return currentTodos.map((todo) => {
+          const position = action.orderedIds.indexOf(todo.id);
+          return todo.parent_id === action.parentId && position !== -1
+            ? { ...todo, subtask_position: position, optimistic: true }
+            : todo;
+        });
+      case "reorder": {
+        const position = getReorderPosition(
+          currentTodos,
+          action.previousId,
+          action.nextId
+        );
+        if (position === null) {
+          return currentTodos;
+        }
+        return currentTodos.map((todo) =>
+          todo.id === action.id ? { ...todo, position, optimistic: true } : todo
+        );
+      }
+      case "updateSchedule":
+        return currentTodos.map((todo) =>
+          todo.id === action.id
+            ? {
+                ...todo,
+                start_at: action.startAt,
+                due_at: action.dueAt,
+                optimistic: true,
+                updated_at: new Date().toISOString(),
+              }
+            : todo
+        );
+      case "bulkSetDone": {
+        const ids = new Set(action.ids);
+        const completedAt = action.done ? new Date().toISOString() : null;
+        return currentTodos.map((todo) =>
+          ids.has(todo.id) && todo.done !== action.done
+            ? {
+                ...todo,
+                done: action.done,
+                completed_at: completedAt,
+                optimistic: true,
+              }
+            : todo
+        );
+      }
+      case "bulkDelete": {
+        const ids = new Set(action.ids);
+        return currentTodos.filter(
+          (todo) =>
+            !ids.has(todo.id) &&
+            (todo.parent_id === null || !ids.has(todo.parent_id))
+        );
+      }
+      case "bulkMove": {
+        // Only top-level todos move; their subtasks follow them
+        const movedIds = new Set(
+          currentTodos
+            .filter(
+              (todo) => todo.parent_id === null && action.ids.includes(todo.id)
+            )
+            .map((todo) => todo.id)
+        );
+        return currentTodos.map((todo) =>
+          movedIds.has(todo.id) ||
+          (todo.parent_id !== null && movedIds.has(todo.parent_id))
+            ? { ...todo, project_id: action.projectId, optimistic: true }
+            : todo
+        );
+      }
+      case "bulkTag": {
+        const ids = new Set(action.ids);
+        return currentTodos.map((todo) => {
+          if (!ids.has(todo.id)) {
+            return todo;
+          }
+          const others = todo.tags.filter((tag) => tag.id !== action.tag.id);
+          const tags = action.attach
+            ? [...others, action.tag].sort((a, b) => a.name.localeCompare(b.name))
+            : others;
+          return { ...todo, tags, optimistic: true };
+        });
+      }
       default:
         return currentTodos;
     }
@@ -337,8 +744,70 @@ export default function Home() {
   const [isSignOutPending, startSignOutTransition] = useTransition();
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Bumped whenever the list is replaced, so pages for an older list are dropped
+  const todosRequestRef = useRef(0);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [showCompleted, setShowCompleted] = useState(false);
+  const [todosView, setTodosView] = useState<TodosView>("list");
+  const [archivedTodos, setArchivedTodos] = useState<Todo[]>([]);
+  const [isArchiveLoading, setIsArchiveLoading] = useState(false);
+  const [trashedTodos, setTrashedTodos] = useState<Todo[]>([]);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(30);
+  const [isTrashLoading, setIsTrashLoading] = useState(false);
+  const [sortOrder, setSortOrder] = useState<TodoSortOrder>(() => loadSortOrder());
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [tagFilter, setTagFilter] = useState<number[]>([]);
+  const [tagMatchMode, setTagMatchMode] = useState<TodoTagMatchMode>("any");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<Map<
+    number,
+    TodoSearchResult
+  > | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [todoConflict, setTodoConflict] = useState<PendingTodoConflict | null>(
+    null
+  );
+  // A change made elsewhere to the open todo, kept out of the list until the user takes it
+  const [heldRemoteTodo, setHeldRemoteTodo] = useState<TodoRow | null>(null);
+  const [syncStatus, setSyncStatus] = useState<TodoSyncStatus>("online");
+  const [queuedMutationCount, setQueuedMutationCount] = useState(0);
+  const isSyncingRef = useRef(false);
+  // The list as last rendered, for lookups from callbacks that must stay stable
+  const latestTodosRef = useRef(todos);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(() => new Set());
+  // Where a shift-click range starts: the last todo selected without shift
+  const selectionAnchorRef = useRef<number | null>(null);
+  const historyRef = useRef<TodoHistory>(EMPTY_TODO_HISTORY);
+  // Set while an undo or redo runs, so the handlers it calls do not record it again
+  const isReplayingRef = useRef(false);
+  // What those handlers would have recorded, to rewrite a redone entry's undo
+  const replayedEntriesRef = useRef<TodoHistoryEntry[]>([]);
+  const runTodoCommandRef = useRef<(command: TodoCommand) => Promise<boolean>>(
+    () => Promise.resolve(false)
+  );
+  const [historyToast, setHistoryToast] = useState<{
+    id: number;
+    message: string;
+    action: "undo" | "redo" | null;
+  } | null>(null);
+  const searchRequestRef = useRef(0);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [selectedProjectId, setSelectedProjectId] = useState<number | null>(
+    null
+  );
+  const todoListFilter = useMemo<TodoListFilter>(
+    () => ({
+      projectId: selectedProjectId,
+      tagIds: tagFilter,
+      tagMode: tagMatchMode,
+    }),
+    [selectedProjectId, tagFilter, tagMatchMode]
+  );
+  // Key of the filter the loaded pages were fetched with
+  const loadedFilterKeyRef = useRef("");
   const router = useRouter();
   const canvasRef = useRef<HTMLDivElement | null>(null);
   const previousLayoutsRef = useRef<Partial<Record<BlockId, BlockLayout>>>({});
@@ -594,6 +1063,14 @@ export default function Home() {
     window.localStorage.setItem(STORAGE_KEY, JSON.stringify(blockLayouts));
   }, [blockLayouts, focusedBlockId]);
 
+  useEffect(() => {
+    if (typeof window === "undefined") {
+      return;
+    }
+
+    window.localStorage.setItem(SORT_STORAGE_KEY, sortOrder);
+  }, [sortOrder]);
+
   const isTodoFocused = focusedBlockId === "todos";
   const isDetailFocused = focusedBlockId === "todoDetails";
 
@@ -626,15 +1103,131 @@ export default function Home() {
   );
 
   useEffect(() => {
-    loadTodos();
+    loadTodos(loadSortOrder(), UNFILTERED_TODO_LIST);
   }, []);
 
-  const loadTodos = async () => {
+  // Debounce searches as the user types; responses to an outdated query are dropped
+  useEffect(() => {
+    const query = searchQuery.trim();
+    const requestId = ++searchRequestRef.current;
+
+    if (!query) {
+      setSearchResults(null);
+      setIsSearching(false);
+      return;
+    }
+
+    setIsSearching(true);
+    const timeout = window.setTimeout(async () => {
+      const result = await searchTodos({ query });
+      if (requestId !== searchRequestRef.current) {
+        return;
+      }
+
+      if (result.success && result.data) {
+        const matches = result.data;
+        // Matches can lie beyond the pages loaded so far; load those first,
+        // subtasks together with their parent
+        const knownIds = new Set(
+          latestTodosRef.current.map((todo) => todo.id)
+        );
+        const missingIds = matches
+          .map((match) => match.id)
+          .filter((id) => !knownIds.has(id));
+        if (missingIds.length > 0) {
+          const page = await getTodos({
+            ids: missingIds,
+            limit: missingIds.length,
+          });
+          if (requestId !== searchRequestRef.current) {
+            return;
+          }
+          if (page.success && page.data) {
+            const loaded = page.data.todos;
+            setTodos((previous) => {
+              const loadedIds = new Set(previous.map((todo) => todo.id));
+              return [
+                ...previous,
+                ...loaded.filter((todo) => !loadedIds.has(todo.id)),
+              ];
+            });
+          } else {
+            setError(page.error || "Failed to load the matching todos");
+          }
+        }
+        setSearchResults(
+          new Map(matches.map((match) => [match.id, match]))
+        );
+      } else {
+        setError(result.error || "Failed to search todos");
+      }
+      setIsSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => window.clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const loadTodos = async (sort: TodoSortOrder, filter: TodoListFilter) => {
+    const requestId = ++todosRequestRef.current;
     setIsLoading(true);
     setError(null);
-    const result = await getTodos();
+
+    // Offline starts show what the workspace last showed on this device
+    const loadCachedTodos = async () => {
+      const cached = await loadCachedWorkspace().catch((error) => {
+        console.error("Unexpected error reading the offline copy:", error);
+        return null;
+      });
+      if (requestId !== todosRequestRef.current) {
+        return;
+      }
+      if (cached) {
+        setTodos(cached.todos);
+        setNextCursor(null);
+        setTags(cached.tags);
+        setProjects(cached.projects);
+        setIsAuthenticated(true);
+      } else {
+        setError("You are offline and no todos are saved on this device yet");
+      }
+      setSyncStatus("offline");
+      setIsLoading(false);
+    };
+
+    if (!navigator.onLine) {
+      await loadCachedTodos();
+      return;
+    }
+
+    let results;
+    try {
+      results = await Promise.all([
+        getTodos({
+          sort,
+          limit: TODO_PAGE_SIZE,
+          ...getTodoListQuery(filter),
+        }),
+        getTags(),
+        getProjects(),
+      ]);
+    } catch (error) {
+      // Server actions only throw when the request never got through
+      console.error("Unexpected error loading todos:", error);
+      await loadCachedTodos();
+      return;
+    }
+    const [result, tagsResult, projectsResult] = results;
+    if (requestId !== todosRequestRef.current) {
+      return;
+    }
     if (result.success && result.data) {
-      setTodos(result.data);
+      setTodos(result.data.todos);
+      setNextCursor(result.data.nextCursor);
+      loadedFilterKeyRef.current = getTodoListFilterKey(filter);
+      setTags(tagsResult.success && tagsResult.data ? tagsResult.data : []);
+      setProjects(
+        projectsResult.success && projectsResult.data ? projectsResult.data : []
+      );
       setIsAuthenticated(true);
     } else {
       setError(result.error || "Failed to load todos");
@@ -643,18 +1236,156 @@ export default function Home() {
     setIsLoading(false);
   };
 
-  const sortByCreatedAt = (a: OptimisticTodo, b: OptimisticTodo) =>
-    new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+  // Changes to the open todo wait, so its edits are still checked against the copy they began from
+  const handleRemoteTodoChange = (change: TodoRemoteChange) => {
+    if (
+      change.type === "upsert" &&
+      change.row.id === selectedTodoId &&
+      isListedTodo(change.row)
+    ) {
+      setHeldRemoteTodo(change.row);
+      return;
+    }
+    setTodos((previous) => applyRemoteTodoChange(previous, change));
+  };
+
+  useTodoRealtime(isAuthenticated, handleRemoteTodoChange);
+
+  // Once another todo is opened, a held change goes into the list like any other
+  useEffect(() => {
+    if (heldRemoteTodo && heldRemoteTodo.id !== selectedTodoId) {
+      setTodos((previous) =>
+        applyRemoteTodoChange(previous, { type: "upsert", row: heldRemoteTodo })
+      );
+      setHeldRemoteTodo(null);
+    }
+  }, [heldRemoteTodo, selectedTodoId]);
+
+  const archivedProjectIds = new Set(
+    projects.filter((project) => project.archived).map((project) => project.id)
+  );
+  const inboxProjectId =
+    projects.find((project) => project.is_inbox)?.id ?? null;
+
+  // "All projects" leaves out todos whose project has been archived
+  const isInSelectedProject = (todo: OptimisticTodo) =>
+    selectedProjectId === null
+      ? !archivedProjectIds.has(todo.project_id)
+      : todo.project_id === selectedProjectId;
+
+  const subtasksByParent = groupSubtasksByParent(optimisticTodos);
+
+  const projectTodoCounts = new Map<number, number>();
+  for (const todo of optimisticTodos) {
+    if (!todo.done && todo.parent_id === null) {
+      projectTodoCounts.set(
+        todo.project_id,
+        (projectTodoCounts.get(todo.project_id) ?? 0) + 1
+      );
+    }
+  }
 
   const activeTodos = optimisticTodos
-    .filter((todo) => !todo.done)
-    .sort(sortByCreatedAt);
+    .filter(
+      (todo) =>
+        !todo.done && todo.parent_id === null && isInSelectedProject(todo)
+    )
+    .sort(getTodoComparator(sortOrder));
+
+  // Best rank of a todo or any of its subtasks; -1 when neither matched the search
+  const getSearchRank = (todo: OptimisticTodo) =>
+    Math.max(
+      ...[todo, ...(subtasksByParent.get(todo.id) ?? [])].map(
+        (candidate) => searchResults?.get(candidate.id)?.rank ?? -1
+      )
+    );
+
+  const isVisible = (todo: OptimisticTodo) =>
+    matchesTagFilter(todo, tagFilter, tagMatchMode) &&
+    (searchResults === null || getSearchRank(todo) >= 0);
+
+  const activeTodoGroups = searchResults
+    ? groupTodosBySearchRank(activeTodos.filter(isVisible), getSearchRank)
+    : groupTodosBySchedule(activeTodos.filter(isVisible));
 
   const completedTodos = optimisticTodos
-    .filter((todo) => todo.done)
-    .sort(sortByCreatedAt);
+    .filter(
+      (todo) =>
+        todo.done &&
+        todo.parent_id === null &&
+        isInSelectedProject(todo) &&
+        isVisible(todo)
+    )
+    .sort(compareByCreatedAt);
 
   const remaining = activeTodos.length;
+
+  // Todos multi-select can reach, in the order the list shows them
+  const selectableTodos = [
+    ...activeTodoGroups.flatMap((group) => group.todos),
+    ...(showCompleted ? completedTodos : []),
+  ].filter((todo) => todo.id > 0);
+  // The filtered list for the Markdown export: active todos in list order,
+  // then completed ones, each with its subtasks
+  const markdownSources = [
+    ...activeTodoGroups.flatMap((group) => group.todos),
+    ...completedTodos,
+  ]
+    .filter((todo) => todo.id > 0)
+    .map((todo) => ({ todo, subtasks: subtasksByParent.get(todo.id) ?? [] }));
+  // Selected todos that are still on screen; bulk actions only apply to these
+  const selectedTodoIds = selectableTodos
+    .filter((todo) => selectedIds.has(todo.id))
+    .map((todo) => todo.id);
+
+  const handleToggleSelecting = () => {
+    setIsSelecting((previous) => !previous);
+    setSelectedIds(new Set());
+    selectionAnchorRef.current = null;
+  };
+
+  const handleClearSelection = () => {
+    setSelectedIds(new Set());
+    selectionAnchorRef.current = null;
+  };
+
+  const handleSelectAll = () => {
+    setSelectedIds(new Set(selectableTodos.map((todo) => todo.id)));
+  };
+
+  // Shift-click selects everything between the anchor and this todo
+  const handleSelectionClick = (id: number, extendRange: boolean) => {
+    const index = selectableTodos.findIndex((todo) => todo.id === id);
+    const anchorIndex =
+      extendRange && selectionAnchorRef.current !== null
+        ? selectableTodos.findIndex(
+            (todo) => todo.id === selectionAnchorRef.current
+          )
+        : -1;
+
+    if (index !== -1 && anchorIndex !== -1) {
+      const range = selectableTodos.slice(
+        Math.min(index, anchorIndex),
+        Math.max(index, anchorIndex) + 1
+      );
+      setSelectedIds((previous) => {
+        const next = new Set(previous);
+        range.forEach((todo) => next.add(todo.id));
+        return next;
+      });
+      return;
+    }
+
+    selectionAnchorRef.current = id;
+    setSelectedIds((previous) => {
+      const next = new Set(previous);
+      if (!next.delete(id)) {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
 
@@ -671,23 +1402,48 @@ export default function Home() {
     setError(null);
     const tempId = -Math.floor(Math.random() * 1_000_000 + Date.now());
     const now = new Date().toISOString();
-    const optimisticTodo: OptimisticTodo = {
+    const draftTodo: TodoListItem = {
       id: tempId,
       text: value,
       description: null,
-      content: [],
       done: false,
+      start_at: null,
+      due_at: null,
+      priority: "none",
+      tags: [],
+      project_id: selectedProjectId ?? inboxProjectId ?? 0,
+      parent_id: null,
+      subtask_position: 0,
+      recurrence: null,
+      position: getPositionAfterLast(todos),
+      deleted_at: null,
+      completed_at: null,
+      archived_at: null,
       user_id: "optimistic",
       created_at: now,
       updated_at: now,
-      optimistic: true,
     };
+    const optimisticTodo: OptimisticTodo = { ...draftTodo, optimistic: true };
     setNewTodo("");
+    if (syncStatus !== "online") {
+      // Queued todos can be edited before they are saved, so they are not marked pending
+      queueOfflineMutation({
+        type: "create",
+        todo: draftTodo,
+        projectId: selectedProjectId ?? undefined,
+      });
+      return;
+    }
+
     startTransition(async () => {
       updateOptimisticTodos({ type: "create", todo: optimisticTodo });
-      const result = await createTodo({ text: value });
+      const result = await createTodo({
+        text: value,
+        projectId: selectedProjectId ?? undefined,
+      });
       if (result.success && result.data) {
-        setTodos((previous) => [...previous, result.data!]);
+        const created = result.data;
+        setTodos((previous) => appendCreatedTodos(previous, [created]));
       } else {
         setError(result.error || "Failed to create todo");
         setNewTodo(value);
@@ -702,54 +1458,694 @@ export default function Home() {
     []
   );
 
-  const handleToggleTodo = async (id: number) => {
-    setError(null);
-    startTransition(async () => {
-      updateOptimisticTodos({ type: "toggle", id });
-      const result = await toggleTodo({ id });
-      if (result.success && result.data) {
-        setTodos((previous) =>
-          previous.map((todo) => (todo.id === id ? result.data! : todo))
-        );
-      } else {
-        setError(result.error || "Failed to toggle todo");
+  const recordHistory = useCallback((entry: TodoHistoryEntry) => {
+    if (isReplayingRef.current) {
+      replayedEntriesRef.current.push(entry);
+      return;
+    }
+    historyRef.current = recordTodoHistory(historyRef.current, entry);
+    setHistoryToast(
+      entry.isDestructive
+        ? { id: Date.now(), message: entry.label, action: "undo" }
+        : null
+    );
+  }, []);
+
+  const handleToggleTodo = (
+    id: number,
+    includeSubtasks = false
+  ): Promise<boolean> => {
+    const target = todos.find((todo) => todo.id === id);
+    const openSubtaskIds = todos
+      .filter((todo) => todo.parent_id === id && !todo.done)
+      .map((todo) => todo.id);
+
+    if (syncStatus !== "online") {
+      if (!target) {
+        return Promise.resolve(false);
       }
+      queueOfflineMutation({
+        type: "setDone",
+        ids:
+          includeSubtasks && !target.done ? [id, ...openSubtaskIds] : [id],
+        done: !target.done,
+      });
+      return Promise.resolve(true);
+    }
+
+    setError(null);
+    return new Promise<boolean>((resolve) => {
+      startTransition(async () => {
+        let didSucceed = false;
+        try {
+          updateOptimisticTodos({ type: "toggle", id, includeSubtasks });
+          const result = await toggleTodo({
+            id,
+            includeSubtasks,
+            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          });
+          if (result.success && result.data) {
+            const { todo: toggled, nextOccurrence } = result.data;
+            const completesSubtasks = includeSubtasks && toggled.done;
+            setTodos((previous) => {
+              const next = previous.map((todo) => {
+                if (todo.id === id) {
+                  return toggled;
+                }
+                return completesSubtasks && todo.parent_id === id
+                  ? { ...todo, done: true, completed_at: toggled.completed_at }
+                  : todo;
+              });
+              return nextOccurrence
+                ? appendCreatedTodos(next, [nextOccurrence])
+                : next;
+            });
+            didSucceed = true;
+
+            const changedIds = completesSubtasks ? [id, ...openSubtaskIds] : [id];
+            // Undoing a recurring completion gives the rule back before reopening,
+            // and removes the occurrence it scheduled
+            const handBackRecurrence: TodoCommand[] =
+              nextOccurrence && target?.recurrence
+                ? [
+                    { type: "updateRecurrence", id, recurrence: target.recurrence },
+                    { type: "trash", ids: [nextOccurrence.id] },
+                  ]
+                : [];
+            recordHistory({
+              label: `${toggled.done ? "Completed" : "Reopened"} “${toggled.text}”`,
+              isDestructive: false,
+              undo: [
+                ...handBackRecurrence,
+                { type: "setDone", ids: changedIds, done: !toggled.done },
+              ],
+              redo: [{ type: "setDone", ids: changedIds, done: toggled.done }],
+            });
+          } else {
+            setError(result.error || "Failed to toggle todo");
+          }
+        } catch (error) {
+          console.error("Unexpected error toggling todo:", error);
+          setError("An unexpected error occurred");
+        } finally {
+          resolve(didSucceed);
+        }
+      });
     });
   };
 
-  const handleRemoveTodo = async (id: number) => {
+  const handleRemoveTodo = (id: number): Promise<boolean> => {
+    const target = todos.find((todo) => todo.id === id);
+    const trashedIds = todos
+      .filter((todo) => todo.id === id || todo.parent_id === id)
+      .map((todo) => todo.id);
+
+    if (syncStatus !== "online") {
+      queueOfflineMutation({ type: "trash", id });
+      return Promise.resolve(true);
+    }
+
     setError(null);
-    startTransition(async () => {
-      updateOptimisticTodos({ type: "delete", id });
-      const result = await deleteTodo({ id });
-      if (result.success) {
-        setTodos((previous) => previous.filter((todo) => todo.id !== id));
-      } else {
-        setError(result.error || "Failed to delete todo");
-      }
+    return new Promise<boolean>((resolve) => {
+      startTransition(async () => {
+        let didSucceed = false;
+        try {
+          updateOptimisticTodos({ type: "delete", id });
+          const result = await deleteTodo({ id });
+          if (result.success) {
+            setTodos((previous) =>
+              previous.filter((todo) => todo.id !== id && todo.parent_id !== id)
+            );
+            didSucceed = true;
+            recordHistory({
+              label: target
+                ? `Moved “${target.text}” to the trash`
+                : "Moved a todo to the trash",
+              isDestructive: true,
+              undo: [{ type: "restore", ids: trashedIds }],
+              redo: [{ type: "trash", ids: [id] }],
+            });
+          } else {
+            // Already trashed or deleted elsewhere: it leaves this list too
+            if (result.code === "not_found") {
+              setTodos((previous) =>
+                previous.filter(
+                  (todo) => todo.id !== id && todo.parent_id !== id
+                )
+              );
+            }
+            setError(result.error || "Failed to delete todo");
+          }
+        } catch (error) {
+          console.error("Unexpected error deleting todo:", error);
+          setError("An unexpected error occurred");
+        } finally {
+          resolve(didSucceed);
+        }
+      });
     });
   };
 
-  const handleClearCompleted = async () => {
+  const handleClearCompleted = (): Promise<boolean> => {
+    // Which todos are completed is only known for sure on the server
+    if (syncStatus !== "online") {
+      setError("Archiving completed todos needs a connection");
+      return Promise.resolve(false);
+    }
+
     setError(null);
-    startTransition(async () => {
-      updateOptimisticTodos({ type: "clearCompleted" });
-      const result = await clearCompletedTodos();
-      if (result.success) {
-        setTodos((previous) => previous.filter((todo) => !todo.done));
-      } else {
-        setError(result.error || "Failed to clear completed todos");
-      }
+    return new Promise<boolean>((resolve) => {
+      startTransition(async () => {
+        let didSucceed = false;
+        try {
+          updateOptimisticTodos({ type: "clearCompleted" });
+          const result = await clearCompletedTodos();
+          if (result.success && result.data) {
+            setTodos((previous) => removeCompletedTodos(previous));
+            didSucceed = true;
+
+            const archivedIds = result.data;
+            if (archivedIds.length > 0) {
+              recordHistory({
+                label: `Archived ${describeTodoCount(
+                  todos.filter(
+                    (todo) =>
+                      todo.parent_id === null && archivedIds.includes(todo.id)
+                  ).length
+                )}`,
+                isDestructive: true,
+                undo: [{ type: "unarchive", ids: archivedIds }],
+                redo: [{ type: "clearCompleted" }],
+              });
+            }
+          } else {
+            setError(result.error || "Failed to clear completed todos");
+          }
+        } catch (error) {
+          console.error("Unexpected error clearing completed todos:", error);
+          setError("An unexpected error occurred");
+        } finally {
+          resolve(didSucceed);
+        }
+      });
     });
   };
 
-  const handleUpdateContent = useCallback(
-    (id: number, nextContent: PartialBlock[]): Promise<boolean> => {
-      if (!isAuthenticated) {
-        setError("Please sign in to update content");
-        return Promise.resolve(false);
-      }
-
+  const loadArchive = async () => {
+    setIsArchiveLoading(true);
+    const result = await getArchivedTodos();
+    if (result.success && result.data) {
+      setArchivedTodos(result.data);
+    } else {
+      setError(result.error || "Failed to load the archive");
+    }
+    setIsArchiveLoading(false);
+  };
+
+  const loadTrash = async () => {
+    setIsTrashLoading(true);
+    const result = await getTrashedTodos();
+    if (result.success && result.data) {
+      setTrashedTodos(result.data.todos);
+      setTrashRetentionDays(result.data.retentionDays);
+    } else {
+      setError(result.error || "Failed to load the trash");
+    }
+    setIsTrashLoading(false);
+  };
+
+  // History views load fresh every time they are opened
+  const handleViewChange = (view: TodosView) => {
+    setTodosView(view);
+    setError(null);
+    if (view === "archive") {
+      void loadArchive();
+    } else if (view === "trash") {
+      void loadTrash();
+    }
+  };
+
+  // An import can change any todo, project or tag, so everything loads again
+  const handleTodosImported = () => {
+    void loadTodos(sortOrder, todoListFilter);
+  };
+
+  const handleUnarchiveTodo = useCallback(
+    async (id: number): Promise<boolean> => {
+      setError(null);
+      const result = await unarchiveTodo({ id });
+      if (result.success && result.data) {
+        const restored = new Map(result.data.map((todo) => [todo.id, todo]));
+        setArchivedTodos((previous) =>
+          previous.filter((todo) => !restored.has(todo.id))
+        );
+        setTodos((previous) => [
+          ...previous.filter((todo) => !restored.has(todo.id)),
+          ...restored.values(),
+        ]);
+        return true;
+      }
+
+      setError(result.error || "Failed to restore todo");
+      return false;
+    },
+    []
+  );
+
+  const handleRestoreTodo = useCallback(
+    async (id: number): Promise<boolean> => {
+      setError(null);
+      const result = await restoreTodo({ id });
+      if (result.success && result.data) {
+        const restored = new Map(result.data.map((todo) => [todo.id, todo]));
+        setTrashedTodos((previous) =>
+          previous.filter((todo) => !restored.has(todo.id))
+        );
+        // Archived todos go back to the archive, not the list
+        const restoredToList = result.data.filter(
+          (todo) => todo.archived_at === null
+        );
+        setTodos((previous) => [
+          ...previous.filter((todo) => !restored.has(todo.id)),
+          ...restoredToList,
+        ]);
+        return true;
+      }
+
+      setError(result.error || "Failed to restore todo");
+      return false;
+    },
+    []
+  );
+
+  // Undo of a trash: brings back exactly the todos that were trashed
+  const handleRestoreTodos = useCallback(
+    async (ids: number[]): Promise<boolean> => {
+      setError(null);
+      const result = await restoreTodos({ ids });
+      if (result.success && result.data) {
+        const restored = new Map(result.data.map((todo) => [todo.id, todo]));
+        setTrashedTodos((previous) =>
+          previous.filter((todo) => !restored.has(todo.id))
+        );
+        const restoredToList = result.data.filter(
+          (todo) => todo.archived_at === null
+        );
+        setTodos((previous) => [
+          ...previous.filter((todo) => !restored.has(todo.id)),
+          ...restoredToList,
+        ]);
+        return true;
+      }
+
+      setError(result.error || "Failed to restore todos");
+      return false;
+    },
+    []
+  );
+
+  // Undo of clearing completed todos: takes exactly those todos out of the archive
+  const handleUnarchiveTodos = useCallback(
+    async (ids: number[]): Promise<boolean> => {
+      setError(null);
+      const result = await unarchiveTodos({ ids });
+      if (result.success && result.data) {
+        const restored = new Map(result.data.map((todo) => [todo.id, todo]));
+        setArchivedTodos((previous) =>
+          previous.filter((todo) => !restored.has(todo.id))
+        );
+        setTodos((previous) => [
+          ...previous.filter((todo) => !restored.has(todo.id)),
+          ...restored.values(),
+        ]);
+        return true;
+      }
+
+      setError(result.error || "Failed to restore todos");
+      return false;
+    },
+    []
+  );
+
+  const handleDeleteTodoPermanently = useCallback(
+    async (id: number): Promise<boolean> => {
+      setError(null);
+      const result = await deleteTodoPermanently({ id });
+      if (result.success) {
+        setTrashedTodos((previous) =>
+          previous.filter((todo) => todo.id !== id && todo.parent_id !== id)
+        );
+        return true;
+      }
+
+      setError(result.error || "Failed to delete todo");
+      return false;
+    },
+    []
+  );
+
+  const handleEmptyTrash = useCallback(async (): Promise<boolean> => {
+    setError(null);
+    const result = await emptyTrash();
+    if (result.success) {
+      setTrashedTodos([]);
+      return true;
+    }
+
+    setError(result.error || "Failed to empty the trash");
+    return false;
+  }, []);
+
+  // updated_at of the last copy the server sent, so writes based on an older copy are refused
+  const getLastSeenUpdatedAt = useCallback(
+    (id: number) => todos.find((todo) => todo.id === id)?.updated_at,
+    [todos]
+  );
+
+  // A conflict keeps what the user tried to save, so it can be written over the saved version later
+  const reportFailedEdit = useCallback(
+    (
+      id: number,
+      result: ActionResponse<Todo>,
+      attempted: TodoEdit,
+      fallbackError: string
+    ) => {
+      const conflict = result.conflict;
+      if (!conflict) {
+        setError(result.error || fallbackError);
+        return;
+      }
+
+      setTodoConflict((previous) => ({
+        id,
+        current: conflict.current,
+        attempted:
+          previous?.id === id
+            ? { ...previous.attempted, ...attempted }
+            : attempted,
+      }));
+    },
+    []
+  );
+
+  // Drop the refused edit and take the saved todo
+  const handleReloadConflict = useCallback(() => {
+    if (!todoConflict) {
+      return null;
+    }
+
+    const { current } = todoConflict;
+    setTodos((previous) =>
+      previous.map((todo) => (todo.id === current.id ? current : todo))
+    );
+    setTodoConflict(null);
+    return current;
+  }, [todoConflict]);
+
+  // Take the change made elsewhere into the open todo, dropping what the details showed
+  const handleApplyRemoteUpdate = useCallback(() => {
+    if (!heldRemoteTodo) {
+      return null;
+    }
+
+    const tags =
+      todos.find((todo) => todo.id === heldRemoteTodo.id)?.tags ?? [];
+    const latest: Todo = { ...heldRemoteTodo, tags };
+    setTodos((previous) =>
+      previous.map((todo) => (todo.id === latest.id ? latest : todo))
+    );
+    setHeldRemoteTodo(null);
+    return latest;
+  }, [heldRemoteTodo, todos]);
+
+  // Write the refused edit again, this time over the version that caused the conflict
+  const handleOverwriteConflict = useCallback(async () => {
+    if (!todoConflict) {
+      return null;
+    }
+
+    const { id, current, attempted } = todoConflict;
+    const result = await updateTodo({
+      id,
+      ...attempted,
+      expectedUpdatedAt: current.updated_at,
+    });
+
+    if (result.success && result.data) {
+      const saved = result.data;
+      setTodos((previous) =>
+        previous.map((todo) => (todo.id === id ? saved : todo))
+      );
+      setTodoConflict(null);
+      return saved;
+    }
+
+    setTodoConflict(null);
+    reportFailedEdit(id, result, attempted, "Failed to update todo");
+    return null;
+  }, [todoConflict, reportFailedEdit]);
+
+  // Offline, a change is applied here and kept in IndexedDB until it can be replayed
+  const queueOfflineMutation = useCallback((mutation: OfflineTodoMutation) => {
+    setTodos((previous) => applyOfflineMutation(previous, mutation));
+    setQueuedMutationCount((count) => count + 1);
+    enqueueTodoMutation(mutation).catch((error) => {
+      console.error("Unexpected error queueing a change:", error);
+      setQueuedMutationCount((count) => count - 1);
+      setError("This change could not be kept on this device");
+    });
+  }, []);
+
+  // Temporary todos have no saved copy for an edit to be checked against
+  const queueOfflineEdit = useCallback(
+    (id: number, edit: TodoEdit) => {
+      queueOfflineMutation({
+        type: "update",
+        id,
+        edit,
+        expectedUpdatedAt: id > 0 ? getLastSeenUpdatedAt(id) : undefined,
+      });
+      return Promise.resolve(true);
+    },
+    [queueOfflineMutation, getLastSeenUpdatedAt]
+  );
+
+  /*
+   * Replay the queue oldest first, one mutation at a time, reading it again
+   * after each so changes queued meanwhile are included. A mutation the server
+   * refuses is dropped with an error; a request that does not get through
+   * stops the replay until the connection is back.
+   */
+  const syncQueuedMutations = useCallback(async () => {
+    if (isSyncingRef.current) {
+      return;
+    }
+
+    isSyncingRef.current = true;
+    setSyncStatus("syncing");
+    try {
+      for (;;) {
+        const [queued] = await getQueuedTodoMutations();
+        if (!queued) {
+          setQueuedMutationCount(0);
+          break;
+        }
+
+        try {
+          switch (queued.type) {
+            case "create": {
+              const tempId = queued.todo.id;
+              const result = await createTodo({
+                text: queued.todo.text,
+                projectId: queued.projectId,
+              });
+              if (result.success && result.data) {
+                const created = result.data;
+                setTodos((previous) =>
+                  previous.map((todo) => (todo.id === tempId ? created : todo))
+                );
+                setSelectedTodoId((previous) =>
+                  previous === tempId ? created.id : previous
+                );
+                await rewriteQueuedTodoMutations((mutation) =>
+                  remapMutationId(mutation, tempId, created.id)
+                );
+              } else {
+                // Whatever was done to the todo offline goes with it
+                setTodos((previous) =>
+                  previous.filter((todo) => todo.id !== tempId)
+                );
+                await rewriteQueuedTodoMutations((mutation) =>
+                  referencesTodo(mutation, tempId) ? null : mutation
+                );
+                setError(result.error || "Failed to create todo");
+              }
+              break;
+            }
+            case "setDone": {
+              const result = await bulkSetTodosDone({
+                ids: queued.ids,
+                done: queued.done,
+                timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+              });
+              if (result.success && result.data) {
+                const { todos: changed, nextOccurrences } = result.data;
+                setTodos((previous) =>
+                  appendCreatedTodos(
+                    mergeChangedTodos(previous, changed),
+                    nextOccurrences
+                  )
+                );
+                await rebaseQueuedEdits(changed);
+              } else {
+                setError(result.error || "Failed to update todos");
+              }
+              break;
+            }
+            case "trash": {
+              const result = await deleteTodo({ id: queued.id });
+              // A todo trashed elsewhere in the meantime needs nothing more
+              if (!result.success && result.code !== "not_found") {
+                setError(result.error || "Failed to delete todo");
+              }
+              break;
+            }
+            case "move": {
+              const result = await bulkMoveTodos({
+                ids: queued.ids,
+                projectId: queued.projectId,
+              });
+              if (result.success && result.data) {
+                const moved = result.data;
+                setTodos((previous) => mergeChangedTodos(previous, moved));
+                await rebaseQueuedEdits(moved);
+              } else {
+                setError(result.error || "Failed to move todos");
+              }
+              break;
+            }
+            case "setTag": {
+              const result = await bulkTagTodos({
+                ids: queued.ids,
+                tagId: queued.tag.id,
+                attach: queued.attach,
+              });
+              if (result.success && result.data) {
+                const tagged = result.data;
+                setTodos((previous) => mergeChangedTodos(previous, tagged));
+                await rebaseQueuedEdits(tagged);
+              } else {
+                setError(result.error || "Failed to update tags");
+              }
+              break;
+            }
+            case "update": {
+              const result = await updateTodo({
+                id: queued.id,
+                ...queued.edit,
+                expectedUpdatedAt: queued.expectedUpdatedAt,
+              });
+              if (result.success && result.data) {
+                const saved = result.data;
+                setTodos((previous) =>
+                  previous.map((todo) => (todo.id === saved.id ? saved : todo))
+                );
+                await rebaseQueuedEdits([saved]);
+              } else {
+                reportFailedEdit(
+                  queued.id,
+                  result,
+                  queued.edit,
+                  "Failed to update todo"
+                );
+              }
+              break;
+            }
+          }
+        } catch (error) {
+          console.error("Unexpected error replaying a change:", error);
+          setSyncStatus("offline");
+          return;
+        }
+
+        await deleteQueuedTodoMutation(queued.key);
+        setQueuedMutationCount((count) => Math.max(0, count - 1));
+      }
+
+      setSyncStatus(navigator.onLine ? "online" : "offline");
+    } catch (error) {
+      console.error("Unexpected error syncing offline changes:", error);
+      setError("Changes made offline could not be synced");
+      setSyncStatus(navigator.onLine ? "online" : "offline");
+    } finally {
+      isSyncingRef.current = false;
+    }
+  }, [reportFailedEdit]);
+
+  useEffect(() => {
+    latestTodosRef.current = todos;
+  });
+
+  // Keep what the workspace shows on the device, for the next offline start
+  useEffect(() => {
+    if (!isAuthenticated || isLoading) {
+      return;
+    }
+
+    saveCachedWorkspace({ todos, tags, projects }).catch((error) => {
+      console.error("Unexpected error saving the offline copy:", error);
+    });
+  }, [todos, tags, projects, isAuthenticated, isLoading]);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    getQueuedTodoMutations()
+      .then((queued) => setQueuedMutationCount(queued.length))
+      .catch((error) => {
+        console.error("Unexpected error reading queued changes:", error);
+      });
+
+    const handleOnline = () => setSyncStatus("online");
+    const handleOffline = () => setSyncStatus("offline");
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [isAuthenticated]);
+
+  // A replay cut short while the browser still reports a connection is tried again now and then
+  useEffect(() => {
+    if (syncStatus !== "offline" || queuedMutationCount === 0) {
+      return;
+    }
+
+    const interval = window.setInterval(() => {
+      if (navigator.onLine) {
+        setSyncStatus("online");
+      }
+    }, SYNC_RETRY_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [syncStatus, queuedMutationCount]);
+
+  // Back online with changes waiting, or with some queued during the last replay
+  useEffect(() => {
+    if (syncStatus === "online" && queuedMutationCount > 0) {
+      void syncQueuedMutations();
+    }
+  }, [syncStatus, queuedMutationCount, syncQueuedMutations]);
+
+  const handleUpdateContent = useCallback(
+    (id: number, nextContent: PartialBlock[]): Promise<boolean> => {
+      if (!isAuthenticated) {
+        setError("Please sign in to update content");
+        return Promise.resolve(false);
+      }
+
       const snapshot =
         typeof structuredClone === "function"
           ? structuredClone(nextContent ?? [])
@@ -757,18 +2153,1056 @@ export default function Home() {
               JSON.stringify(nextContent ?? [])
             ) as PartialBlock[]);
 
+      if (syncStatus !== "online") {
+        return queueOfflineEdit(id, { content: snapshot });
+      }
+
+      setError(null);
+      return new Promise<boolean>((resolve) => {
+        startTransition(async () => {
+          let didSucceed = false;
+          try {
+            updateOptimisticTodos({ type: "updateContent", id });
+
+            const result = await updateTodoContent({
+              id,
+              content: snapshot,
+              expectedUpdatedAt: getLastSeenUpdatedAt(id),
+            });
+
+            if (result.success && result.data) {
+              setTodos((previous) =>
+                previous.map((todo) => (todo.id === id ? result.data! : todo))
+              );
+              didSucceed = true;
+            } else {
+              reportFailedEdit(
+                id,
+                result,
+                { content: snapshot },
+                "Failed to update todo content"
+              );
+            }
+          } catch (error) {
+            console.error("Unexpected error updating content:", error);
+            setError("An unexpected error occurred");
+          } finally {
+            resolve(didSucceed);
+          }
+        });
+      });
+    },
+    [
+      isAuthenticated,
+      startTransition,
+      updateOptimisticTodos,
+      setError,
+      setTodos,
+      getLastSeenUpdatedAt,
+      reportFailedEdit,
+      syncStatus,
+      queueOfflineEdit,
+    ]
+  );
+
+  const handleUpdateText = useCallback(
+    (id: number, nextText: string): Promise<boolean> => {
+      if (!isAuthenticated) {
+        setError("Please sign in to update todo title");
+        return Promise.resolve(false);
+      }
+
+      const trimmed = nextText.trim();
+      if (trimmed.length === 0) {
+        setError("Todo text cannot be empty");
+        return Promise.resolve(false);
+      }
+
+      const previousText = todos.find((todo) => todo.id === id)?.text;
+
+      if (syncStatus !== "online") {
+        return queueOfflineEdit(id, { text: trimmed });
+      }
+
+      setError(null);
+      return new Promise<boolean>((resolve) => {
+        startTransition(async () => {
+          let didSucceed = false;
+          try {
+            updateOptimisticTodos({ type: "updateText", id, text: trimmed });
+
+            const result = await updateTodoText({
+              id,
+              text: trimmed,
+              expectedUpdatedAt: getLastSeenUpdatedAt(id),
+            });
+
+            if (result.success && result.data) {
+              setTodos((previous) =>
+                previous.map((todo) => (todo.id === id ? result.data! : todo))
+              );
+              didSucceed = true;
+              if (previousText !== undefined && previousText !== trimmed) {
+                recordHistory({
+                  label: `Renamed “${previousText}”`,
+                  isDestructive: false,
+                  undo: [{ type: "updateText", id, text: previousText }],
+                  redo: [{ type: "updateText", id, text: trimmed }],
+                });
+              }
+            } else {
+              reportFailedEdit(
+                id,
+                result,
+                { text: trimmed },
+                "Failed to update todo"
+              );
+            }
+          } catch (error) {
+            console.error("Unexpected error updating todo title:", error);
+            setError("An unexpected error occurred");
+          } finally {
+            resolve(didSucceed);
+          }
+        });
+      });
+    },
+    [
+      isAuthenticated,
+      todos,
+      startTransition,
+      updateOptimisticTodos,
+      setError,
+      setTodos,
+      getLastSeenUpdatedAt,
+      reportFailedEdit,
+      recordHistory,
+      syncStatus,
+      queueOfflineEdit,
+    ]
+  );
+
+  const handleUpdateSchedule = useCallback(
+    (
+      id: number,
+      startAt: string | null,
+      dueAt: string | null
+    ): Promise<boolean> => {
+      if (!isAuthenticated) {
+        setError("Please sign in to update todo dates");
+        return Promise.resolve(false);
+      }
+
+      const previousTodo = todos.find((todo) => todo.id === id);
+
+      if (syncStatus !== "online") {
+        return queueOfflineEdit(id, { start_at: startAt, due_at: dueAt });
+      }
+
+      setError(null);
+      return new Promise<boolean>((resolve) => {
+        startTransition(async () => {
+          let didSucceed = false;
+          try {
+            updateOptimisticTodos({
+              type: "updateSchedule",
+              id,
+              startAt,
+              dueAt,
+            });
+
+            const result = await updateTodo({
+              id,
+              start_at: startAt,
+              due_at: dueAt,
+              expectedUpdatedAt: getLastSeenUpdatedAt(id),
+            });
+
+            if (result.success && result.data) {
+              setTodos((previous) =>
+                previous.map((todo) => (todo.id === id ? result.data! : todo))
+              );
+              didSucceed = true;
+              if (previousTodo) {
+                recordHistory({
+                  label: `Rescheduled “${previousTodo.text}”`,
+                  isDestructive: false,
+                  undo: [
+                    {
+                      type: "updateSchedule",
+                      id,
+                      startAt: previousTodo.start_at,
+                      dueAt: previousTodo.due_at,
+                    },
+                  ],
+                  redo: [{ type: "updateSchedule", id, startAt, dueAt }],
+                });
+              }
+            } else {
+              reportFailedEdit(
+                id,
+                result,
+                { start_at: startAt, due_at: dueAt },
+                "Failed to update todo dates"
+              );
+            }
+          } catch (error) {
+            console.error("Unexpected error updating todo dates:", error);
+            setError("An unexpected error occurred");
+          } finally {
+            resolve(didSucceed);
+          }
+        });
+      });
+    },
+    [
+      isAuthenticated,
+      todos,
+      startTransition,
+      updateOptimisticTodos,
+      setError,
+      setTodos,
+      getLastSeenUpdatedAt,
+      reportFailedEdit,
+      recordHistory,
+      syncStatus,
+      queueOfflineEdit,
+    ]
+  );
+
+  const handleUpdatePriority = useCallback(
+    (id: number, priority: TodoPriority): Promise<boolean> => {
+      if (!isAuthenticated) {
+        setError("Please sign in to update todo priority");
+        return Promise.resolve(false);
+      }
+
+      const previousTodo = todos.find((todo) => todo.id === id);
+
+      if (syncStatus !== "online") {
+        return queueOfflineEdit(id, { priority });
+      }
+
+      setError(null);
+      return new Promise<boolean>((resolve) => {
+        startTransition(async () => {
+          let didSucceed = false;
+          try {
+            updateOptimisticTodos({ type: "updatePriority", id, priority });
+
+            const result = await updateTodo({
+              id,
+              priority,
+              expectedUpdatedAt: getLastSeenUpdatedAt(id),
+            });
+
+            if (result.success && result.data) {
+              setTodos((previous) =>
+                previous.map((todo) => (todo.id === id ? result.data! : todo))
+              );
+              didSucceed = true;
+              if (previousTodo && previousTodo.priority !== priority) {
+                recordHistory({
+                  label: `Changed the priority of “${previousTodo.text}”`,
+                  isDestructive: false,
+                  undo: [
+                    { type: "updatePriority", id, priority: previousTodo.priority },
+                  ],
+                  redo: [{ type: "updatePriority", id, priority }],
+                });
+              }
+            } else {
+              reportFailedEdit(
+                id,
+                result,
+                { priority },
+                "Failed to update todo priority"
+              );
+            }
+          } catch (error) {
+            console.error("Unexpected error updating todo priority:", error);
+            setError("An unexpected error occurred");
+          } finally {
+            resolve(didSucceed);
+          }
+        });
+      });
+    },
+    [
+      isAuthenticated,
+      todos,
+      startTransition,
+      updateOptimisticTodos,
+      setError,
+      setTodos,
+      getLastSeenUpdatedAt,
+      reportFailedEdit,
+      recordHistory,
+      syncStatus,
+      queueOfflineEdit,
+    ]
+  );
+
+  const handleUpdateRecurrence = useCallback(
+    (id: number, recurrence: TodoRecurrence | null): Promise<boolean> => {
+      if (!isAuthenticated) {
+        setError("Please sign in to update how a todo repeats");
+        return Promise.resolve(false);
+      }
+
+      const previousTodo = todos.find((todo) => todo.id === id);
+
+      if (syncStatus !== "online") {
+        return queueOfflineEdit(id, { recurrence });
+      }
+
+      setError(null);
+      return new Promise<boolean>((resolve) => {
+        startTransition(async () => {
+          let didSucceed = false;
+          try {
+            updateOptimisticTodos({ type: "updateRecurrence", id, recurrence });
+
+            const result = await updateTodo({
+              id,
+              recurrence,
+              expectedUpdatedAt: getLastSeenUpdatedAt(id),
+            });
+
+            if (result.success && result.data) {
+              setTodos((previous) =>
+                previous.map((todo) => (todo.id === id ? result.data! : todo))
+              );
+              didSucceed = true;
+              if (previousTodo) {
+                recordHistory({
+                  label: `Changed how “${previousTodo.text}” repeats`,
+                  isDestructive: false,
+                  undo: [
+                    {
+                      type: "updateRecurrence",
+                      id,
+                      recurrence: previousTodo.recurrence,
+                    },
+                  ],
+                  redo: [{ type: "updateRecurrence", id, recurrence }],
+                });
+              }
+            } else {
+              reportFailedEdit(
+                id,
+                result,
+                { recurrence },
+                "Failed to update how the todo repeats"
+              );
+            }
+          } catch (error) {
+            console.error("Unexpected error updating todo recurrence:", error);
+            setError("An unexpected error occurred");
+          } finally {
+            resolve(didSucceed);
+          }
+        });
+      });
+    },
+    [
+      isAuthenticated,
+      todos,
+      startTransition,
+      updateOptimisticTodos,
+      setError,
+      setTodos,
+      getLastSeenUpdatedAt,
+      reportFailedEdit,
+      recordHistory,
+      syncStatus,
+      queueOfflineEdit,
+    ]
+  );
+
+  const handleToggleTodoTag = useCallback(
+    (id: number, tag: Tag): Promise<boolean> => {
+      if (!isAuthenticated) {
+        setError("Please sign in to update tags");
+        return Promise.resolve(false);
+      }
+
+      const todo = todos.find((item) => item.id === id);
+      if (!todo) {
+        return Promise.resolve(false);
+      }
+
+      const isAttached = todo.tags.some((item) => item.id === tag.id);
+      const nextTags = isAttached
+        ? todo.tags.filter((item) => item.id !== tag.id)
+        : [...todo.tags, tag].sort((a, b) => a.name.localeCompare(b.name));
+
+      if (syncStatus !== "online") {
+        queueOfflineMutation({
+          type: "setTag",
+          ids: [id],
+          tag,
+          attach: !isAttached,
+        });
+        return Promise.resolve(true);
+      }
+
+      setError(null);
+      return new Promise<boolean>((resolve) => {
+        startTransition(async () => {
+          let didSucceed = false;
+          try {
+            updateOptimisticTodos({ type: "updateTags", id, tags: nextTags });
+
+            const result = isAttached
+              ? await detachTagFromTodo({ todoId: id, tagId: tag.id })
+              : await attachTagToTodo({ todoId: id, tagId: tag.id });
+
+            if (result.success && result.data) {
+              setTodos((previous) =>
+                previous.map((item) => (item.id === id ? result.data! : item))
+              );
+              didSucceed = true;
+              recordHistory({
+                label: isAttached
+                  ? `Removed ${tag.name} from “${todo.text}”`
+                  : `Tagged “${todo.text}” with ${tag.name}`,
+                isDestructive: false,
+                undo: [{ type: "setTag", ids: [id], tag, attach: isAttached }],
+                redo: [{ type: "setTag", ids: [id], tag, attach: !isAttached }],
+              });
+            } else {
+              setError(result.error || "Failed to update tags");
+            }
+          } catch (error) {
+            console.error("Unexpected error updating tags:", error);
+            setError("An unexpected error occurred");
+          } finally {
+            resolve(didSucceed);
+          }
+        });
+      });
+    },
+    [
+      isAuthenticated,
+      todos,
+      startTransition,
+      updateOptimisticTodos,
+      setError,
+      setTodos,
+      recordHistory,
+      syncStatus,
+      queueOfflineMutation,
+    ]
+  );
+
+  const replaceTagEverywhere = useCallback((tag: Tag) => {
+    setTags((previous) =>
+      previous
+        .map((item) => (item.id === tag.id ? tag : item))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    );
+    setTodos((previous) =>
+      previous.map((todo) =>
+        todo.tags.some((item) => item.id === tag.id)
+          ? {
+              ...todo,
+              tags: todo.tags.map((item) => (item.id === tag.id ? tag : item)),
+            }
+          : todo
+      )
+    );
+  }, []);
+
+  const handleCreateTag = useCallback(
+    async (name: string, color: string): Promise<Tag | null> => {
+      setError(null);
+      const result = await createTag({ name, color });
+      if (result.success && result.data) {
+        const created = result.data;
+        setTags((previous) =>
+          [...previous, created].sort((a, b) => a.name.localeCompare(b.name))
+        );
+        return created;
+      }
+
+      setError(result.error || "Failed to create tag");
+      return null;
+    },
+    []
+  );
+
+  const handleRenameTag = useCallback(
+    async (id: number, name: string): Promise<boolean> => {
+      setError(null);
+      const result = await renameTag({ id, name });
+      if (result.success && result.data) {
+        replaceTagEverywhere(result.data);
+        return true;
+      }
+
+      setError(result.error || "Failed to rename tag");
+      return false;
+    },
+    [replaceTagEverywhere]
+  );
+
+  const handleRecolorTag = useCallback(
+    async (id: number, color: string): Promise<boolean> => {
+      setError(null);
+      const result = await recolorTag({ id, color });
+      if (result.success && result.data) {
+        replaceTagEverywhere(result.data);
+        return true;
+      }
+
+      setError(result.error || "Failed to update tag color");
+      return false;
+    },
+    [replaceTagEverywhere]
+  );
+
+  const handleDeleteTag = useCallback(
+    async (id: number): Promise<boolean> => {
+      setError(null);
+      const result = await deleteTag({ id });
+      if (result.success) {
+        setTags((previous) => previous.filter((tag) => tag.id !== id));
+        setTagFilter((previous) => previous.filter((tagId) => tagId !== id));
+        setTodos((previous) =>
+          previous.map((todo) =>
+            todo.tags.some((tag) => tag.id === id)
+              ? { ...todo, tags: todo.tags.filter((tag) => tag.id !== id) }
+              : todo
+          )
+        );
+        return true;
+      }
+
+      setError(result.error || "Failed to delete tag");
+      return false;
+    },
+    []
+  );
+
+  const handleMoveTodoToProject = useCallback(
+    (id: number, projectId: number): Promise<boolean> => {
+      if (!isAuthenticated) {
+        setError("Please sign in to move todos");
+        return Promise.resolve(false);
+      }
+
+      const previousTodo = todos.find((todo) => todo.id === id);
+
+      if (syncStatus !== "online") {
+        queueOfflineMutation({ type: "move", ids: [id], projectId });
+        return Promise.resolve(true);
+      }
+
+      setError(null);
+      return new Promise<boolean>((resolve) => {
+        startTransition(async () => {
+          let didSucceed = false;
+          try {
+            updateOptimisticTodos({ type: "moveToProject", id, projectId });
+
+            const result = await moveTodoToProject({ id, projectId });
+
+            if (result.success && result.data) {
+              setTodos((previous) =>
+                previous.map((todo) => {
+                  if (todo.id === id) {
+                    return result.data!;
+                  }
+                  return todo.parent_id === id
+                    ? { ...todo, project_id: projectId }
+                    : todo;
+                })
+              );
+              didSucceed = true;
+              if (previousTodo && previousTodo.project_id !== projectId) {
+                recordHistory({
+                  label: `Moved “${previousTodo.text}” to another project`,
+                  isDestructive: false,
+                  undo: [
+                    {
+                      type: "move",
+                      ids: [id],
+                      projectId: previousTodo.project_id,
+                    },
+                  ],
+                  redo: [{ type: "move", ids: [id], projectId }],
+                });
+              }
+            } else {
+              setError(result.error || "Failed to move todo");
+            }
+          } catch (error) {
+            console.error("Unexpected error moving todo:", error);
+            setError("An unexpected error occurred");
+          } finally {
+            resolve(didSucceed);
+          }
+        });
+      });
+    },
+    [
+      isAuthenticated,
+      todos,
+      startTransition,
+      updateOptimisticTodos,
+      setError,
+      setTodos,
+      recordHistory,
+      syncStatus,
+      queueOfflineMutation,
+    ]
+  );
+
+  // Complete or reopen every selected todo in one request
+  const handleBulkSetDone = useCallback(
+    (ids: number[], done: boolean): Promise<boolean> => {
+      if (!isAuthenticated) {
+        setError("Please sign in to update todos");
+        return Promise.resolve(false);
+      }
+
+      if (syncStatus !== "online") {
+        queueOfflineMutation({ type: "setDone", ids, done });
+        return Promise.resolve(true);
+      }
+
+      const recurrenceById = new Map(
+        todos.map((todo) => [todo.id, todo.recurrence] as const)
+      );
+
+      setError(null);
+      return new Promise<boolean>((resolve) => {
+        startTransition(async () => {
+          let didSucceed = false;
+          try {
+            updateOptimisticTodos({ type: "bulkSetDone", ids, done });
+
+            const result = await bulkSetTodosDone({
+              ids,
+              done,
+              timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+            });
+
+            if (result.success && result.data) {
+              const { todos: changed, nextOccurrences } = result.data;
+              setTodos((previous) =>
+                appendCreatedTodos(
+                  mergeChangedTodos(previous, changed),
+                  nextOccurrences
+                )
+              );
+              didSucceed = true;
+
+              const changedIds = changed.map((todo) => todo.id);
+              // Recurring todos get their rule back and lose the occurrence they scheduled
+              const handBackRecurrence: TodoCommand[] = [];
+              if (nextOccurrences.length > 0) {
+                for (const id of changedIds) {
+                  const recurrence = recurrenceById.get(id);
+                  if (recurrence) {
+                    handBackRecurrence.push({ type: "updateRecurrence", id, recurrence });
+                  }
+                }
+                handBackRecurrence.push({
+                  type: "trash",
+                  ids: nextOccurrences.map((todo) => todo.id),
+                });
+              }
+              if (changedIds.length > 0) {
+                recordHistory({
+                  label: `${done ? "Completed" : "Reopened"} ${describeTodoCount(
+                    changedIds.length
+                  )}`,
+                  isDestructive: false,
+                  undo: [
+                    ...handBackRecurrence,
+                    { type: "setDone", ids: changedIds, done: !done },
+                  ],
+                  redo: [{ type: "setDone", ids: changedIds, done }],
+                });
+              }
+            } else {
+              setError(
+                result.error ||
+                  (done ? "Failed to complete todos" : "Failed to reopen todos")
+              );
+            }
+          } catch (error) {
+            console.error("Unexpected error updating todos:", error);
+            setError("An unexpected error occurred");
+          } finally {
+            resolve(didSucceed);
+          }
+        });
+      });
+    },
+    [
+      isAuthenticated,
+      todos,
+      startTransition,
+      updateOptimisticTodos,
+      setError,
+      setTodos,
+      recordHistory,
+      syncStatus,
+      queueOfflineMutation,
+    ]
+  );
+
+  // Move every selected todo, with its subtasks, to the trash in one request
+  const handleBulkDelete = useCallback(
+    (ids: number[]): Promise<boolean> => {
+      if (!isAuthenticated) {
+        setError("Please sign in to delete todos");
+        return Promise.resolve(false);
+      }
+
+      if (syncStatus !== "online") {
+        for (const id of ids) {
+          queueOfflineMutation({ type: "trash", id });
+        }
+        return Promise.resolve(true);
+      }
+
+      setError(null);
+      return new Promise<boolean>((resolve) => {
+        startTransition(async () => {
+          let didSucceed = false;
+          try {
+            updateOptimisticTodos({ type: "bulkDelete", ids });
+
+            const result = await bulkDeleteTodos({ ids });
+
+            if (result.success && result.data) {
+              const deletedIds = new Set(ids);
+              setTodos((previous) =>
+                previous.filter(
+                  (todo) =>
+                    !deletedIds.has(todo.id) &&
+                    (todo.parent_id === null || !deletedIds.has(todo.parent_id))
+                )
+              );
+              didSucceed = true;
+
+              const trashedIds = result.data;
+              if (trashedIds.length > 0) {
+                recordHistory({
+                  label: `Moved ${describeTodoCount(
+                    ids.filter((id) => trashedIds.includes(id)).length
+                  )} to the trash`,
+                  isDestructive: true,
+                  undo: [{ type: "restore", ids: trashedIds }],
+                  redo: [{ type: "trash", ids }],
+                });
+              }
+            } else {
+              setError(result.error || "Failed to delete todos");
+            }
+          } catch (error) {
+            console.error("Unexpected error deleting todos:", error);
+            setError("An unexpected error occurred");
+          } finally {
+            resolve(didSucceed);
+          }
+        });
+      });
+    },
+    [
+      isAuthenticated,
+      startTransition,
+      updateOptimisticTodos,
+      setError,
+      setTodos,
+      recordHistory,
+      syncStatus,
+      queueOfflineMutation,
+    ]
+  );
+
+  // Move every selected todo, with its subtasks, to another project in one request
+  const handleBulkMove = useCallback(
+    (ids: number[], projectId: number): Promise<boolean> => {
+      if (!isAuthenticated) {
+        setError("Please sign in to move todos");
+        return Promise.resolve(false);
+      }
+
+      if (syncStatus !== "online") {
+        queueOfflineMutation({ type: "move", ids, projectId });
+        return Promise.resolve(true);
+      }
+
+      const projectById = new Map(
+        todos.map((todo) => [todo.id, todo.project_id] as const)
+      );
+
+      setError(null);
+      return new Promise<boolean>((resolve) => {
+        startTransition(async () => {
+          let didSucceed = false;
+          try {
+            updateOptimisticTodos({ type: "bulkMove", ids, projectId });
+
+            const result = await bulkMoveTodos({ ids, projectId });
+
+            if (result.success && result.data) {
+              const moved = result.data;
+              setTodos((previous) => mergeChangedTodos(previous, moved));
+              didSucceed = true;
+
+              // Each todo goes back to the project it came from
+              const movedIdsByProject = new Map<number, number[]>();
+              for (const todo of moved) {
+                const previousProjectId = projectById.get(todo.id);
+                if (
+                  todo.parent_id === null &&
+                  previousProjectId !== undefined &&
+                  previousProjectId !== projectId
+                ) {
+                  movedIdsByProject.set(previousProjectId, [
+                    ...(movedIdsByProject.get(previousProjectId) ?? []),
+                    todo.id,
+                  ]);
+                }
+              }
+              const movedIds = [...movedIdsByProject.values()].flat();
+              if (movedIds.length > 0) {
+                recordHistory({
+                  label: `Moved ${describeTodoCount(movedIds.length)} to another project`,
+                  isDestructive: false,
+                  undo: [...movedIdsByProject].map(
+                    ([previousProjectId, projectIds]): TodoCommand => ({
+                      type: "move",
+                      ids: projectIds,
+                      projectId: previousProjectId,
+                    })
+                  ),
+                  redo: [{ type: "move", ids: movedIds, projectId }],
+                });
+              }
+            } else {
+              setError(result.error || "Failed to move todos");
+            }
+          } catch (error) {
+            console.error("Unexpected error moving todos:", error);
+            setError("An unexpected error occurred");
+          } finally {
+            resolve(didSucceed);
+          }
+        });
+      });
+    },
+    [
+      isAuthenticated,
+      todos,
+      startTransition,
+      updateOptimisticTodos,
+      setError,
+      setTodos,
+      recordHistory,
+      syncStatus,
+      queueOfflineMutation,
+    ]
+  );
+
+  // Attach a tag to, or detach it from, every selected todo in one request
+  const handleBulkTag = useCallback(
+    (ids: number[], tag: Tag, attach: boolean): Promise<boolean> => {
+      if (!isAuthenticated) {
+        setError("Please sign in to update tags");
+        return Promise.resolve(false);
+      }
+
+      if (syncStatus !== "online") {
+        queueOfflineMutation({ type: "setTag", ids, tag, attach });
+        return Promise.resolve(true);
+      }
+
+      setError(null);
+      return new Promise<boolean>((resolve) => {
+        startTransition(async () => {
+          let didSucceed = false;
+          try {
+            updateOptimisticTodos({ type: "bulkTag", ids, tag, attach });
+
+            const result = await bulkTagTodos({ ids, tagId: tag.id, attach });
+
+            if (result.success && result.data) {
+              const tagged = result.data;
+              setTodos((previous) => mergeChangedTodos(previous, tagged));
+              didSucceed = true;
+
+              const taggedIds = tagged.map((todo) => todo.id);
+              if (taggedIds.length > 0) {
+                recordHistory({
+                  label: attach
+                    ? `Tagged ${describeTodoCount(taggedIds.length)} with ${tag.name}`
+                    : `Removed ${tag.name} from ${describeTodoCount(taggedIds.length)}`,
+                  isDestructive: false,
+                  undo: [{ type: "setTag", ids: taggedIds, tag, attach: !attach }],
+                  redo: [{ type: "setTag", ids: taggedIds, tag, attach }],
+                });
+              }
+            } else {
+              setError(result.error || "Failed to update tags");
+            }
+          } catch (error) {
+            console.error("Unexpected error updating tags:", error);
+            setError("An unexpected error occurred");
+          } finally {
+            resolve(didSucceed);
+          }
+        });
+      });
+    },
+    [
+      isAuthenticated,
+      startTransition,
+      updateOptimisticTodos,
+      setError,
+      setTodos,
+      recordHistory,
+      syncStatus,
+      queueOfflineMutation,
+    ]
+  );
+
+  const runTodoCommand = (command: TodoCommand): Promise<boolean> => {
+    switch (command.type) {
+      case "setDone":
+        return handleBulkSetDone(command.ids, command.done);
+      case "trash":
+        return handleBulkDelete(command.ids);
+      case "restore":
+        return handleRestoreTodos(command.ids);
+      case "clearCompleted":
+        return handleClearCompleted();
+      case "unarchive":
+        return handleUnarchiveTodos(command.ids);
+      case "updateText":
+        return handleUpdateText(command.id, command.text);
+      case "updatePriority":
+        return handleUpdatePriority(command.id, command.priority);
+      case "updateSchedule":
+        return handleUpdateSchedule(command.id, command.startAt, command.dueAt);
+      case "updateRecurrence":
+        return handleUpdateRecurrence(command.id, command.recurrence);
+      case "setTag":
+        return handleBulkTag(command.ids, command.tag, command.attach);
+      case "move":
+        return handleBulkMove(command.ids, command.projectId);
+    }
+  };
+
+  // Replayed commands see the latest todos, not the ones from when the change was recorded
+  useEffect(() => {
+    runTodoCommandRef.current = runTodoCommand;
+  });
+
+  // Each command waits for the one before it, so a later call never races an earlier one
+  const replayCommands = useCallback(async (commands: TodoCommand[]) => {
+    isReplayingRef.current = true;
+    replayedEntriesRef.current = [];
+    try {
+      for (const command of commands) {
+        if (!(await runTodoCommandRef.current(command))) {
+          return false;
+        }
+      }
+      return true;
+    } finally {
+      isReplayingRef.current = false;
+    }
+  }, []);
+
+  const handleUndo = useCallback(async () => {
+    const entry = historyRef.current.past[historyRef.current.past.length - 1];
+    if (!entry || isReplayingRef.current) {
+      return;
+    }
+
+    const succeeded = await replayCommands(entry.undo);
+    historyRef.current = completeUndo(historyRef.current, succeeded);
+    setHistoryToast(
+      succeeded
+        ? { id: Date.now(), message: `Undid: ${entry.label}`, action: "redo" }
+        : null
+    );
+  }, [replayCommands]);
+
+  const handleRedo = useCallback(async () => {
+    const entry =
+      historyRef.current.future[historyRef.current.future.length - 1];
+    if (!entry || isReplayingRef.current) {
+      return;
+    }
+
+    const succeeded = await replayCommands(entry.redo);
+    historyRef.current = completeRedo(
+      historyRef.current,
+      succeeded,
+      replayedEntriesRef.current
+    );
+    setHistoryToast(
+      succeeded
+        ? { id: Date.now(), message: `Redid: ${entry.label}`, action: "undo" }
+        : null
+    );
+  }, [replayCommands]);
+
+  const handleDismissHistoryToast = useCallback(() => {
+    setHistoryToast(null);
+  }, []);
+
+  // Ctrl/Cmd+Z undoes and Ctrl/Cmd+Shift+Z redoes, except while typing
+  useEffect(() => {
+    const handleKeyDown = (event: globalThis.KeyboardEvent) => {
+      if (
+        !(event.ctrlKey || event.metaKey) ||
+        event.altKey ||
+        event.key.toLowerCase() !== "z" ||
+        isEditableTarget(event.target)
+      ) {
+        return;
+      }
+      event.preventDefault();
+      void (event.shiftKey ? handleRedo() : handleUndo());
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const handleReorderTodo = useCallback(
+    (
+      id: number,
+      previousId: number | null,
+      nextId: number | null
+    ): Promise<boolean> => {
+      if (!isAuthenticated) {
+        setError("Please sign in to reorder todos");
+        return Promise.resolve(false);
+      }
+
+      if (syncStatus !== "online") {
+        setError("Reordering todos needs a connection");
+        return Promise.resolve(false);
+      }
+
       setError(null);
       return new Promise<boolean>((resolve) => {
         startTransition(async () => {
           let didSucceed = false;
           try {
-            updateOptimisticTodos({
-              type: "updateContent",
-              id,
-              content: snapshot,
-            });
+            updateOptimisticTodos({ type: "reorder", id, previousId, nextId });
 
-            const result = await updateTodoContent({ id, content: snapshot });
+            const result = await reorderTodo({ id, previousId, nextId });
 
             if (result.success && result.data) {
               setTodos((previous) =>
@@ -776,10 +3210,87 @@ export default function Home() {
               );
               didSucceed = true;
             } else {
-              setError(result.error || "Failed to update todo content");
+              setError(result.error || "Failed to reorder todo");
             }
           } catch (error) {
-            console.error("Unexpected error updating content:", error);
+            console.error("Unexpected error reordering todo:", error);
+            setError("An unexpected error occurred");
+          } finally {
+            resolve(didSucceed);
+          }
+        });
+      });
+    },
+    [
+      isAuthenticated,
+      startTransition,
+      updateOptimisticTodos,
+      setError,
+      setTodos,
+      syncStatus,
+    ]
+  );
+
+  const handleCreateSubtask = useCallback(
+    (parentId: number, text: string): Promise<boolean> => {
+      if (!isAuthenticated) {
+        setError("Please sign in to add subtasks");
+        return Promise.resolve(false);
+      }
+
+      if (syncStatus !== "online") {
+        setError("Adding subtasks needs a connection");
+        return Promise.resolve(false);
+      }
+
+      const parent = todos.find((todo) => todo.id === parentId);
+      if (!parent) {
+        return Promise.resolve(false);
+      }
+
+      const tempId = -Math.floor(Math.random() * 1_000_000 + Date.now());
+      const now = new Date().toISOString();
+      const optimisticSubtask: OptimisticTodo = {
+        id: tempId,
+        text,
+        description: null,
+        done: false,
+        start_at: null,
+        due_at: null,
+        priority: "none",
+        tags: [],
+        project_id: parent.project_id,
+        parent_id: parentId,
+        subtask_position: Number.MAX_SAFE_INTEGER,
+        recurrence: null,
+        position: getPositionAfterLast(todos),
+        deleted_at: null,
+        completed_at: null,
+        archived_at: null,
+        user_id: "optimistic",
+        created_at: now,
+        updated_at: now,
+        optimistic: true,
+      };
+
+      setError(null);
+      return new Promise<boolean>((resolve) => {
+        startTransition(async () => {
+          let didSucceed = false;
+          try {
+            updateOptimisticTodos({ type: "create", todo: optimisticSubtask });
+
+            const result = await createSubtask({ parentId, text });
+
+            if (result.success && result.data) {
+              const created = result.data;
+              setTodos((previous) => appendCreatedTodos(previous, [created]));
+              didSucceed = true;
+            } else {
+              setError(result.error || "Failed to create subtask");
+            }
+          } catch (error) {
+            console.error("Unexpected error creating subtask:", error);
             setError("An unexpected error occurred");
           } finally {
             resolve(didSucceed);
@@ -787,19 +3298,26 @@ export default function Home() {
         });
       });
     },
-    [isAuthenticated, startTransition, updateOptimisticTodos, setError, setTodos]
+    [
+      isAuthenticated,
+      todos,
+      startTransition,
+      updateOptimisticTodos,
+      setError,
+      setTodos,
+      syncStatus,
+    ]
   );
 
-  const handleUpdateText = useCallback(
-    (id: number, nextText: string): Promise<boolean> => {
+  const handleReparentTodo = useCallback(
+    (id: number, parentId: number | null): Promise<boolean> => {
       if (!isAuthenticated) {
-        setError("Please sign in to update todo title");
+        setError("Please sign in to move todos");
         return Promise.resolve(false);
       }
 
-      const trimmed = nextText.trim();
-      if (trimmed.length === 0) {
-        setError("Todo text cannot be empty");
+      if (syncStatus !== "online") {
+        setError("Moving todos into or out of a checklist needs a connection");
         return Promise.resolve(false);
       }
 
@@ -808,9 +3326,9 @@ export default function Home() {
         startTransition(async () => {
           let didSucceed = false;
           try {
-            updateOptimisticTodos({ type: "updateText", id, text: trimmed });
+            updateOptimisticTodos({ type: "reparent", id, parentId });
 
-            const result = await updateTodoText({ id, text: trimmed });
+            const result = await reparentTodo({ id, parentId });
 
             if (result.success && result.data) {
               setTodos((previous) =>
@@ -818,10 +3336,65 @@ export default function Home() {
               );
               didSucceed = true;
             } else {
-              setError(result.error || "Failed to update todo");
+              setError(result.error || "Failed to move todo");
             }
           } catch (error) {
-            console.error("Unexpected error updating todo title:", error);
+            console.error("Unexpected error reparenting todo:", error);
+            setError("An unexpected error occurred");
+          } finally {
+            resolve(didSucceed);
+          }
+        });
+      });
+    },
+    [
+      isAuthenticated,
+      startTransition,
+      updateOptimisticTodos,
+      setError,
+      setTodos,
+      syncStatus,
+    ]
+  );
+
+  const handleReorderSubtasks = useCallback(
+    (parentId: number, orderedIds: number[]): Promise<boolean> => {
+      if (!isAuthenticated) {
+        setError("Please sign in to reorder subtasks");
+        return Promise.resolve(false);
+      }
+
+      if (syncStatus !== "online") {
+        setError("Reordering subtasks needs a connection");
+        return Promise.resolve(false);
+      }
+
+      setError(null);
+      return new Promise<boolean>((resolve) => {
+        startTransition(async () => {
+          let didSucceed = false;
+          try {
+            updateOptimisticTodos({
+              type: "reorderSubtasks",
+              parentId,
+              orderedIds,
+            });
+
+            const result = await reorderSubtasks({ parentId, orderedIds });
+
+            if (result.success && result.data) {
+              const reordered = new Map(
+                result.data.map((todo) => [todo.id, todo])
+              );
+              setTodos((previous) =>
+                previous.map((todo) => reordered.get(todo.id) ?? todo)
+              );
+              didSucceed = true;
+            } else {
+              setError(result.error || "Failed to reorder subtasks");
+            }
+          } catch (error) {
+            console.error("Unexpected error reordering subtasks:", error);
             setError("An unexpected error occurred");
           } finally {
             resolve(didSucceed);
@@ -835,9 +3408,225 @@ export default function Home() {
       updateOptimisticTodos,
       setError,
       setTodos,
+      syncStatus,
     ]
   );
 
+  const replaceProject = useCallback((project: Project) => {
+    setProjects((previous) =>
+      previous.map((item) => (item.id === project.id ? project : item))
+    );
+  }, []);
+
+  const handleCreateProject = useCallback(
+    async (
+      name: string,
+      color: string,
+      icon: ProjectIcon
+    ): Promise<Project | null> => {
+      setError(null);
+      const result = await createProject({ name, color, icon });
+      if (result.success && result.data) {
+        const created = result.data;
+        setProjects((previous) => [...previous, created]);
+        return created;
+      }
+
+      setError(result.error || "Failed to create project");
+      return null;
+    },
+    []
+  );
+
+  const handleUpdateProject = useCallback(
+    async (
+      id: number,
+      updates: { name?: string; color?: string; icon?: ProjectIcon }
+    ): Promise<boolean> => {
+      setError(null);
+      const result = await updateProject({ id, ...updates });
+      if (result.success && result.data) {
+        replaceProject(result.data);
+        return true;
+      }
+
+      setError(result.error || "Failed to update project");
+      return false;
+    },
+    [replaceProject]
+  );
+
+  const handleSetProjectArchived = useCallback(
+    async (id: number, archived: boolean): Promise<boolean> => {
+      setError(null);
+      const result = await setProjectArchived({ id, archived });
+      if (result.success && result.data) {
+        replaceProject(result.data);
+        if (archived) {
+          setSelectedProjectId((current) => (current === id ? null : current));
+        }
+        return true;
+      }
+
+      setError(result.error || "Failed to update project");
+      return false;
+    },
+    [replaceProject]
+  );
+
+  const handleDeleteProject = useCallback(
+    async (id: number): Promise<boolean> => {
+      setError(null);
+      const result = await deleteProject({ id });
+      if (result.success && result.data) {
+        const { inboxProjectId: inboxId } = result.data;
+        setProjects((previous) =>
+          previous.filter((project) => project.id !== id)
+        );
+        setTodos((previous) =>
+          previous.map((todo) =>
+            todo.project_id === id ? { ...todo, project_id: inboxId } : todo
+          )
+        );
+        setSelectedProjectId((current) => (current === id ? null : current));
+        return true;
+      }
+
+      setError(result.error || "Failed to delete project");
+      return false;
+    },
+    []
+  );
+
+  // Load the list again from its first page, for a new sort or filter
+  const reloadTodos = useCallback(
+    async (sort: TodoSortOrder, filter: TodoListFilter) => {
+      const requestId = ++todosRequestRef.current;
+      setIsLoading(true);
+      const result = await getTodos({
+        sort,
+        limit: TODO_PAGE_SIZE,
+        ...getTodoListQuery(filter),
+      });
+      if (requestId !== todosRequestRef.current) {
+        return;
+      }
+
+      if (result.success && result.data) {
+        setTodos(result.data.todos);
+        setNextCursor(result.data.nextCursor);
+        loadedFilterKeyRef.current = getTodoListFilterKey(filter);
+      } else {
+        setError(result.error || "Failed to fetch todos");
+      }
+      setIsLoading(false);
+    },
+    []
+  );
+
+  // Pages are cut in sort order, so a partly loaded list starts over in the new sort
+  const handleSortOrderChange = useCallback(
+    async (order: TodoSortOrder) => {
+      setSortOrder(order);
+      if (nextCursor === null) {
+        return;
+      }
+
+      await reloadTodos(order, todoListFilter);
+    },
+    [nextCursor, todoListFilter, reloadTodos]
+  );
+
+  // Pages are cut from the filtered list too, so a partly loaded list, or one
+  // loaded for another filter, starts over when the filter changes; the whole
+  // list is filtered here without a round trip
+  useEffect(() => {
+    if (!isAuthenticated || syncStatus !== "online") {
+      return;
+    }
+
+    const loadedKey = loadedFilterKeyRef.current;
+    if (
+      getTodoListFilterKey(todoListFilter) === loadedKey ||
+      (loadedKey === "" && nextCursor === null)
+    ) {
+      return;
+    }
+    void reloadTodos(sortOrder, todoListFilter);
+  }, [
+    isAuthenticated,
+    syncStatus,
+    todoListFilter,
+    nextCursor,
+    sortOrder,
+    reloadTodos,
+  ]);
+
+  const handleLoadMoreTodos = useCallback(async () => {
+    if (nextCursor === null || isLoadingMore) {
+      return;
+    }
+
+    const requestId = todosRequestRef.current;
+    setIsLoadingMore(true);
+    const result = await getTodos({
+      sort: sortOrder,
+      cursor: nextCursor,
+      limit: TODO_PAGE_SIZE,
+      ...getTodoListQuery(todoListFilter),
+    });
+    setIsLoadingMore(false);
+    if (requestId !== todosRequestRef.current) {
+      return;
+    }
+
+    if (result.success && result.data) {
+      const page = result.data;
+      // Todos created here since the first page may turn up again further down
+      setTodos((previous) => {
+        const knownIds = new Set(previous.map((todo) => todo.id));
+        return [
+          ...previous,
+          ...page.todos.filter((todo) => !knownIds.has(todo.id)),
+        ];
+      });
+      setNextCursor(page.nextCursor);
+    } else {
+      setError(result.error || "Failed to load more todos");
+    }
+  }, [isLoadingMore, nextCursor, sortOrder, todoListFilter]);
+
+  const handleLoadTodoDetails = useCallback(async (id: number) => {
+    let result;
+    try {
+      result = await getTodoDetails({ id });
+    } catch (error) {
+      // Offline, the details show the content the list last held, if any
+      console.error("Unexpected error loading todo details:", error);
+      const cached = latestTodosRef.current.find((todo) => todo.id === id);
+      return cached && "content" in cached ? (cached as Todo) : null;
+    }
+    if (result.success && result.data) {
+      // Edits made from the details are checked against this copy
+      const details = result.data;
+      setTodos((previous) =>
+        previous.map((todo) => (todo.id === id ? details : todo))
+      );
+      return details;
+    }
+
+    setError(result.error || "Failed to load todo");
+    return null;
+  }, []);
+
+  const handleToggleTagFilter = useCallback((id: number) => {
+    setTagFilter((previous) =>
+      previous.includes(id)
+        ? previous.filter((tagId) => tagId !== id)
+        : [...previous, id]
+    );
+  }, []);
+
   const handleSelectTodo = useCallback(
     (todo: OptimisticTodo) => {
       if (todo.done) {
@@ -873,7 +3662,15 @@ export default function Home() {
     startSignOutTransition(async () => {
       const result = await signOut();
       if (result.success) {
+        clearOfflineData().catch((error) => {
+          console.error("Unexpected error clearing offline data:", error);
+        });
+        setQueuedMutationCount(0);
         setTodos([]);
+        setTags([]);
+        setTagFilter([]);
+        setProjects([]);
+        setSelectedProjectId(null);
         setIsAuthenticated(false);
         router.replace("/sign-in");
         router.refresh();
@@ -884,27 +3681,41 @@ export default function Home() {
   };
 
   const renderTodo = (todo: OptimisticTodo) => {
+    const subtasks = subtasksByParent.get(todo.id) ?? [];
+    const searchMatch = searchResults?.get(todo.id);
     const isCompleted = todo.done;
     const isDisabled = isPending || todo.optimistic;
     const isSelected = selectedTodo?.id === todo.id;
+    // In select mode top-level rows pick the todo instead of opening it
+    const isBulkSelectable = isSelecting && todo.parent_id === null && todo.id > 0;
+    const isBulkSelected = isBulkSelectable && selectedIds.has(todo.id);
     const createdAt = new Date(todo.created_at);
     const createdOn = Number.isNaN(createdAt.getTime())
       ? null
       : dayFormatter.format(createdAt);
+    const dueAt = todo.due_at ? new Date(todo.due_at) : null;
+    const dueOn =
+      dueAt && !Number.isNaN(dueAt.getTime()) ? dayFormatter.format(dueAt) : null;
 
     const containerClasses = ["todo-item", "group"];
     if (todo.optimistic) {
       containerClasses.push("todo-item--optimistic");
     }
-    if (!isCompleted) {
+    if (!isCompleted || isBulkSelectable) {
       containerClasses.push("todo-item--selectable");
     }
     if (isSelected) {
       containerClasses.push("todo-item--selected");
     }
+    if (isBulkSelectable) {
+      containerClasses.push("todo-item--picking");
+    }
+    if (isBulkSelected) {
+      containerClasses.push("todo-item--picked");
+    }
 
     const bodyClasses = ["flex", "flex-1", "flex-col", "gap-1"];
-    if (!isCompleted) {
+    if (!isCompleted || isBulkSelectable) {
       bodyClasses.push("todo-item__body");
     }
 
@@ -922,67 +3733,164 @@ export default function Home() {
     };
 
     return (
-      <div key={todo.id} className={containerClasses.join(" ")}>
-        <button
-          type="button"
-          onClick={() => handleToggleTodo(todo.id)}
-          className={`todo-checkbox ${isCompleted ? "todo-checkbox--checked" : ""}`}
-          aria-pressed={isCompleted}
-          aria-label={isCompleted ? "Mark todo as active" : "Mark todo as done"}
-          disabled={isDisabled}
-        >
-          <svg aria-hidden="true" viewBox="0 0 20 20" className="h-3.5 w-3.5">
-            <path
-              d="M16.5 5.75 8.25 14 4.5 10.25"
-              fill="none"
-              stroke="currentColor"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth="1.75"
-            />
-          </svg>
-        </button>
-
-        <div
-          className={bodyClasses.join(" ")}
-          {...(!isCompleted
-            ? {
-                role: "button",
-                tabIndex: 0,
-                onClick: handleViewDetails,
-                onKeyDown: handleViewDetailsKeyDown,
-                "aria-pressed": isSelected,
-                "aria-label": `View details for ${todo.text}`,
-              }
-            : undefined)}
-        >
-          <p className={`todo-text ${isCompleted ? "todo-text--completed" : ""}`}>
-            {todo.text}
-          </p>
-          {createdOn && <span className="todo-meta">Added {createdOn}</span>}
+      <Fragment key={todo.id}>
+        <div className={containerClasses.join(" ")}>
+          {isBulkSelectable ? (
+            <button
+              type="button"
+              role="checkbox"
+              onClick={(event) => handleSelectionClick(todo.id, event.shiftKey)}
+              className={`todo-checkbox todo-checkbox--pick ${
+                isBulkSelected ? "todo-checkbox--checked" : ""
+              }`}
+              aria-checked={isBulkSelected}
+              aria-label={`Select ${todo.text}`}
+            >
+              <svg aria-hidden="true" viewBox="0 0 20 20" className="h-3.5 w-3.5">
+                <path
+                  d="M16.5 5.75 8.25 14 4.5 10.25"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth="1.75"
+                />
+              </svg>
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={() => handleToggleTodo(todo.id)}
+              className={`todo-checkbox ${isCompleted ? "todo-checkbox--checked" : ""}`}
+              aria-pressed={isCompleted}
+              aria-label={isCompleted ? "Mark todo as active" : "Mark todo as done"}
+              disabled={isDisabled}
+            >
+              <svg aria-hidden="true" viewBox="0 0 20 20" className="h-3.5 w-3.5">
+                <path
+                  d="M16.5 5.75 8.25 14 4.5 10.25"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth="1.75"
+                />
+              </svg>
+            </button>
+          )}
+
+          <div
+            className={bodyClasses.join(" ")}
+            {...(isBulkSelectable
+              ? {
+                  onClick: (event: MouseEvent<HTMLDivElement>) =>
+                    handleSelectionClick(todo.id, event.shiftKey),
+                }
+              : !isCompleted
+              ? {
+                  role: "button",
+                  tabIndex: 0,
+                  onClick: handleViewDetails,
+                  onKeyDown: handleViewDetailsKeyDown,
+                  "aria-pressed": isSelected,
+                  "aria-label": `View details for ${todo.text}`,
+                }
+              : undefined)}
+          >
+            <div className="flex items-start gap-2">
+              {todo.priority !== "none" && (
+                <span
+                  className={`priority-marker priority-marker--${todo.priority}`}
+                  title={`${TODO_PRIORITY_LABELS[todo.priority]} priority`}
+                >
+                  <Flag aria-hidden="true" className="h-3.5 w-3.5" />
+                  <span className="sr-only">
+                    {TODO_PRIORITY_LABELS[todo.priority]} priority
+                  </span>
+                </span>
+              )}
+              <p className={`todo-text ${isCompleted ? "todo-text--completed" : ""}`}>
+                {todo.text}
+              </p>
+              {todo.recurrence && (
+                <span
+                  className="inline-flex h-7 shrink-0 items-center text-foreground-subtle"
+                  title={describeRecurrence(todo.recurrence)}
+                >
+                  <Repeat aria-hidden="true" className="h-3.5 w-3.5" />
+                  <span className="sr-only">
+                    {describeRecurrence(todo.recurrence)}
+                  </span>
+                </span>
+              )}
+            </div>
+            {searchMatch && searchMatch.snippet.length > 0 && (
+              <p className="todo-snippet">
+                {searchMatch.snippet.map((part, index) =>
+                  part.highlighted ? (
+                    <mark key={index}>{part.text}</mark>
+                  ) : (
+                    <Fragment key={index}>{part.text}</Fragment>
+                  )
+                )}
+              </p>
+            )}
+            {todo.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {todo.tags.map((tag) => (
+                  <TagChip key={tag.id} tag={tag} />
+                ))}
+              </div>
+            )}
+            {dueOn ? (
+              <span className="todo-meta">Due {dueOn}</span>
+            ) : (
+              createdOn && <span className="todo-meta">Added {createdOn}</span>
+            )}
+            {subtasks.length > 0 && (
+              <SubtaskProgress progress={getSubtaskProgress(subtasks)} />
+            )}
+          </div>
+
+          {!isBulkSelectable && (
+            <button
+              type="button"
+              onClick={() => handleRemoveTodo(todo.id)}
+              className="todo-action"
+              disabled={isDisabled}
+              aria-label="Move todo to trash"
+              title="Move to trash"
+            >
+              <svg aria-hidden="true" viewBox="0 0 20 20" className="h-4 w-4">
+                <path
+                  d="m6 6 8 8M14 6l-8 8"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeLinecap="round"
+                  strokeWidth="1.6"
+                />
+              </svg>
+            </button>
+          )}
         </div>
-
-        <button
-          type="button"
-          onClick={() => handleRemoveTodo(todo.id)}
-          className="todo-action"
-          disabled={isDisabled}
-          aria-label="Delete todo"
-        >
-          <svg aria-hidden="true" viewBox="0 0 20 20" className="h-4 w-4">
-            <path
-              d="m6 6 8 8M14 6l-8 8"
-              fill="none"
-              stroke="currentColor"
-              strokeLinecap="round"
-              strokeWidth="1.6"
-            />
-          </svg>
-        </button>
-      </div>
+        {subtasks.length > 0 && (
+          <div className="todo-subtasks">{subtasks.map(renderTodo)}</div>
+        )}
+      </Fragment>
     );
   };
 
+  // Active top-level todos the selected todo could be nested beneath
+  const parentCandidates = selectedTodo
+    ? optimisticTodos.filter(
+        (todo) =>
+          todo.id !== selectedTodo.id &&
+          todo.id > 0 &&
+          todo.parent_id === null &&
+          !todo.done
+      )
+    : [];
+
   const detailCreatedAt = selectedTodo ? new Date(selectedTodo.created_at) : null;
   const detailUpdatedAt = selectedTodo ? new Date(selectedTodo.updated_at) : null;
   const detailCreatedLabel =
@@ -1008,6 +3916,8 @@ export default function Home() {
           onDragStop={handleTodosDragStop}
           onResizeStop={handleTodosResizeStop}
           remainingCount={remaining}
+          syncStatus={syncStatus}
+          queuedChangeCount={queuedMutationCount}
           fullDateLabel={fullDateLabel}
           isAuthenticated={isAuthenticated}
           isSignOutPending={isSignOutPending}
@@ -1018,12 +3928,66 @@ export default function Home() {
           isPending={isPending}
           isLoading={isLoading}
           error={error}
-          activeTodos={activeTodos}
+          projects={projects}
+          selectedProjectId={selectedProjectId}
+          projectTodoCounts={projectTodoCounts}
+          onSelectProject={setSelectedProjectId}
+          onCreateProject={handleCreateProject}
+          onUpdateProject={handleUpdateProject}
+          onSetProjectArchived={handleSetProjectArchived}
+          onDeleteProject={handleDeleteProject}
+          activeTodoGroups={activeTodoGroups}
+          searchQuery={searchQuery}
+          onSearchQueryChange={setSearchQuery}
+          isSearching={isSearching}
+          hasMoreTodos={nextCursor !== null}
+          isLoadingMore={isLoadingMore}
+          onLoadMoreTodos={handleLoadMoreTodos}
+          sortOrder={sortOrder}
+          onSortOrderChange={handleSortOrderChange}
+          onReorderTodo={handleReorderTodo}
+          tags={tags}
+          tagFilter={tagFilter}
+          onToggleTagFilter={handleToggleTagFilter}
+          onClearTagFilter={() => setTagFilter([])}
+          tagMatchMode={tagMatchMode}
+          onTagMatchModeChange={setTagMatchMode}
           completedTodos={completedTodos}
+          markdownSources={markdownSources}
           renderTodo={renderTodo}
+          isSelecting={isSelecting}
+          onToggleSelecting={handleToggleSelecting}
+          selectedCount={selectedTodoIds.length}
+          selectableCount={selectableTodos.length}
+          onSelectAll={handleSelectAll}
+          onClearSelection={handleClearSelection}
+          onBulkSetDone={(done) => handleBulkSetDone(selectedTodoIds, done)}
+          onBulkMoveToProject={(projectId) =>
+            handleBulkMove(selectedTodoIds, projectId)
+          }
+          onBulkSetTag={(tag, attach) =>
+            handleBulkTag(selectedTodoIds, tag, attach)
+          }
+          onBulkDelete={async () => {
+            if (await handleBulkDelete(selectedTodoIds)) {
+              handleClearSelection();
+            }
+          }}
           showCompleted={showCompleted}
           onToggleShowCompleted={() => setShowCompleted((previous) => !previous)}
           onClearCompleted={handleClearCompleted}
+          view={todosView}
+          onViewChange={handleViewChange}
+          archivedTodos={archivedTodos}
+          isArchiveLoading={isArchiveLoading}
+          onUnarchiveTodo={handleUnarchiveTodo}
+          trashedTodos={trashedTodos}
+          trashRetentionDays={trashRetentionDays}
+          isTrashLoading={isTrashLoading}
+          onRestoreTodo={handleRestoreTodo}
+          onDeleteTodoPermanently={handleDeleteTodoPermanently}
+          onEmptyTrash={handleEmptyTrash}
+          onTodosImported={handleTodosImported}
         />
         <TodoDetailsBlock
           layout={detailLayout}
@@ -1036,10 +4000,65 @@ export default function Home() {
           onResizeStop={handleDetailsResizeStop}
           createdLabel={detailCreatedLabel}
           updatedLabel={detailUpdatedLabel}
+          onLoadDetails={handleLoadTodoDetails}
+          conflict={
+            todoConflict && todoConflict.id === selectedTodo?.id
+              ? todoConflict
+              : null
+          }
+          onReloadConflict={handleReloadConflict}
+          hasRemoteUpdate={
+            heldRemoteTodo !== null &&
+            todos.some(
+              (todo) =>
+                todo.id === heldRemoteTodo.id &&
+                todo.id === selectedTodo?.id &&
+                isNewerTodo(heldRemoteTodo, todo)
+            )
+          }
+          onApplyRemoteUpdate={handleApplyRemoteUpdate}
+          onOverwriteConflict={handleOverwriteConflict}
           onUpdateContent={handleUpdateContent}
           onUpdateText={handleUpdateText}
+          onUpdateSchedule={handleUpdateSchedule}
+          onUpdatePriority={handleUpdatePriority}
+          onUpdateRecurrence={handleUpdateRecurrence}
+          projects={projects}
+          onMoveToProject={handleMoveTodoToProject}
+          subtasks={
+            selectedTodo ? subtasksByParent.get(selectedTodo.id) ?? [] : []
+          }
+          parentCandidates={parentCandidates}
+          onCreateSubtask={handleCreateSubtask}
+          onToggleSubtask={(id) => handleToggleTodo(id)}
+          onReorderSubtasks={handleReorderSubtasks}
+          onReparentTodo={handleReparentTodo}
+          onCompleteWithSubtasks={(id) => handleToggleTodo(id, true)}
+          isOffline={syncStatus !== "online"}
+          allTags={tags}
+          onToggleTag={handleToggleTodoTag}
+          onCreateTag={handleCreateTag}
+          onRenameTag={handleRenameTag}
+          onRecolorTag={handleRecolorTag}
+          onDeleteTag={handleDeleteTag}
         />
       </div>
+
+      {historyToast && (
+        <HistoryToast
+          key={historyToast.id}
+          message={historyToast.message}
+          actionLabel={
+            historyToast.action === "undo"
+              ? "Undo"
+              : historyToast.action === "redo"
+                ? "Redo"
+                : null
+          }
+          onAction={historyToast.action === "redo" ? handleRedo : handleUndo}
+          onDismiss={handleDismissHistoryToast}
+        />
+      )}
     </main>
   );
 }
@@ -0,0 +1,37 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+
+import { ApiTokenSettings } from "@/features/apiTokens/components/ApiTokenSettings";
+import { CalendarFeedSettings } from "@/features/calendarFeeds/components/CalendarFeedSettings";
+import { WebhookSettings } from "@/features/webhooks/components/WebhookSettings";
+
+export const metadata: Metadata = {
+  title: "Settings · Pandora Box",
+};
+
+export default function SettingsPage() {
+  return (
+    <main className="flex min-h-screen justify-center bg-background px-6 py-16">
+      <div className="w-full max-w-2xl space-y-8 rounded-lg border border-border bg-surface p-8 shadow-[var(--shadow-soft)]">
+        <header className="flex items-center gap-3">
+          <Link
+            href="/"
+            className="inline-flex h-10 w-10 items-center justify-center rounded-full border border-border text-foreground-muted transition hover:border-accent/60 hover:text-foreground"
+            aria-label="Back to todos"
+            title="Back to todos"
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+          <h1 className="text-2xl font-semibold">Settings</h1>
+        </header>
+
+        <ApiTokenSettings />
+
+        <WebhookSettings />
+
+        <CalendarFeedSettings />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+};
+
+// Rendered on the server as online, so the first paint matches
+export const useIsOnline = () =>
+  useSyncExternalStore(
+    subscribe,
+    () => navigator.onLine,
+    () => true
+  );
+
+type OfflineNoticeProps = {
+  message: string;
+};
+
+export function OfflineNotice({ message }: OfflineNoticeProps) {
+  return (
+    <div
+      className="rounded-md border border-amber-500 bg-amber-50 px-4 py-3 text-sm text-amber-700 dark:border-amber-400 dark:bg-amber-950/20 dark:text-amber-300"
+      role="status"
+    >
+      {message}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+/*
+ * Registers public/sw.js and offers a new version once it has installed.
+ * Only production builds register it; in development it would serve stale
+ * chunks across reloads.
+ */
+export function ServiceWorkerRegistration() {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+  const hasAcceptedUpdateRef = useRef(false);
+
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) {
+      return;
+    }
+
+    let registration: ServiceWorkerRegistration | null = null;
+
+    // The first install has no controller yet; it has nothing to replace
+    const offerUpdate = (worker: ServiceWorker | null) => {
+      if (worker && navigator.serviceWorker.controller) {
+        setWaitingWorker(worker);
+      }
+    };
+
+    const handleUpdateFound = () => {
+      const installing = registration?.installing ?? null;
+      installing?.addEventListener('statechange', () => {
+        if (installing.state === 'installed') {
+          offerUpdate(installing);
+        }
+      });
+    };
+
+    // Long-lived windows look for a new version whenever they come back into view
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        registration?.update().catch(() => undefined);
+      }
+    };
+
+    const handleControllerChange = () => {
+      if (hasAcceptedUpdateRef.current) {
+        window.location.reload();
+      }
+    };
+
+    navigator.serviceWorker
+      .register('/sw.js')
+      .then((result) => {
+        registration = result;
+        offerUpdate(result.waiting);
+        result.addEventListener('updatefound', handleUpdateFound);
+      })
+      .catch((error) => {
+        console.error('Service worker registration failed:', error);
+      });
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    navigator.serviceWorker.addEventListener('controllerchange', handleControllerChange);
+
+    return () => {
+      registration?.removeEventListener('updatefound', handleUpdateFound);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      navigator.serviceWorker.removeEventListener(
+        'controllerchange',
+        handleControllerChange
+      );
+    };
+  }, []);
+
+  if (!waitingWorker) {
+    return null;
+  }
+
+  const handleReload = () => {
+    hasAcceptedUpdateRef.current = true;
+    waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+  };
+
+  return (
+    <div className="history-toast update-prompt" role="status" aria-live="polite">
+      <p className="history-toast__message">A new version is available.</p>
+      <button type="button" onClick={handleReload} className="history-toast__action">
+        Reload
+      </button>
+      <button
+        type="button"
+        onClick={() => setWaitingWorker(null)}
+        className="history-toast__action"
+      >
+        Later
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/utils/supabase/server";
+import type { ActionResponse, ApiToken } from "@/types/database";
+import type { CreatedApiToken } from "../types/createdApiToken";
+import {
+  createApiTokenSchema,
+  revokeApiTokenSchema,
+  type CreateApiTokenInput,
+  type RevokeApiTokenInput,
+} from "../schemas/apiTokenSchemas";
+import {
+  generateApiToken,
+  getApiTokenDisplayPrefix,
+  hashApiToken,
+} from "../utils/apiTokenSecrets";
+import { ZodError } from "zod";
+
+// Every column except the hash
+const API_TOKEN_COLUMNS =
+  "id, name, scope, token_prefix, last_used_at, created_at";
+
+function getZodErrorMessage(error: ZodError<unknown>) {
+  return error.issues[0]?.message ?? "Validation failed";
+}
+
+// Tokens are managed from the cookie session only; a token cannot mint or
+// revoke tokens
+async function getAuthenticatedUser() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    return { user: null, error: "You must be logged in to perform this action" };
+  }
+
+  return { user, error: null };
+}
+
+// Get the current user's tokens, newest first
+export async function getApiTokens(): Promise<ActionResponse<ApiToken[]>> {
+  try {
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("api_tokens")
+      .select(API_TOKEN_COLUMNS)
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching API tokens:", error);
+      return { success: false, error: "Failed to fetch API tokens" };
+    }
+
+    return { success: true, data: (data ?? []) as ApiToken[] };
+  } catch (error) {
+    console.error("Unexpected error in getApiTokens:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Create a token; its secret is returned this once and only its hash is kept
+export async function createApiToken(
+  input: CreateApiTokenInput
+): Promise<ActionResponse<CreatedApiToken>> {
+  try {
+    const validatedInput = createApiTokenSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+    const secret = generateApiToken();
+
+    const { data, error } = await supabase
+      .from("api_tokens")
+      .insert({
+        name: validatedInput.name,
+        scope: validatedInput.scope,
+        token_hash: hashApiToken(secret),
+        token_prefix: getApiTokenDisplayPrefix(secret),
+        user_id: user.id,
+      })
+      .select(API_TOKEN_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error("Error creating API token:", error);
+      return { success: false, error: "Failed to create API token" };
+    }
+
+    revalidatePath("/settings");
+    return { success: true, data: { token: data as ApiToken, secret } };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in createApiToken:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Revoke a token; requests made with it are refused from then on
+export async function revokeApiToken(
+  input: RevokeApiTokenInput
+): Promise<ActionResponse<void>> {
+  try {
+    const validatedInput = revokeApiTokenSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("api_tokens")
+      .delete()
+      .eq("id", validatedInput.id)
+      .eq("user_id", user.id)
+      .select("id");
+
+    if (error) {
+      console.error("Error revoking API token:", error);
+      return { success: false, error: "Failed to revoke API token" };
+    }
+
+    if (!data || data.length === 0) {
+      return { success: false, error: "Token not found or access denied" };
+    }
+
+    revalidatePath("/settings");
+    return { success: true };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in revokeApiToken:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
@@ -0,0 +1,269 @@
+"use client";
+
+import { FormEvent, useEffect, useState, useTransition } from "react";
+import { Check, Copy, KeyRound, Trash2 } from "lucide-react";
+
+import type { ApiToken, ApiTokenScope } from "@/types/database";
+import {
+  createApiToken,
+  getApiTokens,
+  revokeApiToken,
+} from "@/features/apiTokens/actions/apiTokenActions";
+import type { CreatedApiToken } from "@/features/apiTokens/types/createdApiToken";
+
+const inputClassName =
+  "w-full rounded-md border border-border bg-background px-3 py-2 text-sm focus:border-accent focus:outline-none focus:ring-2 focus:ring-accent/30 disabled:opacity-60";
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  read: "Read only",
+  write: "Read and write",
+};
+
+const dateFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+const formatDate = (value: string) => dateFormatter.format(new Date(value));
+
+export function ApiTokenSettings() {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<ApiTokenScope>("read");
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+  const [hasCopied, setHasCopied] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    let isCurrent = true;
+    getApiTokens()
+      .then((result) => {
+        if (!isCurrent) {
+          return;
+        }
+        if (result.success) {
+          setTokens(result.data ?? []);
+        } else {
+          setError(result.error ?? "Failed to load API tokens");
+        }
+      })
+      .catch((loadError) => {
+        console.error("Unexpected error loading API tokens:", loadError);
+        if (isCurrent) {
+          setError("Failed to load API tokens");
+        }
+      })
+      .finally(() => {
+        if (isCurrent) {
+          setIsLoading(false);
+        }
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, []);
+
+  const handleCreate = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    startTransition(async () => {
+      try {
+        const result = await createApiToken({ name, scope });
+        if (result.success && result.data) {
+          const createdToken = result.data;
+          setTokens((current) => [createdToken.token, ...current]);
+          setCreated(createdToken);
+          setHasCopied(false);
+          setName("");
+        } else {
+          setError(result.error ?? "Failed to create API token");
+        }
+      } catch (createError) {
+        console.error("Unexpected error creating API token:", createError);
+        setError("Failed to create API token");
+      }
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!created) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(created.secret);
+      setHasCopied(true);
+    } catch (copyError) {
+      console.error("Unexpected error copying API token:", copyError);
+      setError("Could not copy the token. Select it and copy it by hand.");
+    }
+  };
+
+  const handleRevoke = (token: ApiToken) => {
+    if (
+      !window.confirm(
+        `Revoke "${token.name}"? Scripts using it will stop working.`
+      )
+    ) {
+      return;
+    }
+
+    setError(null);
+    startTransition(async () => {
+      try {
+        const result = await revokeApiToken({ id: token.id });
+        if (result.success) {
+          setTokens((current) =>
+            current.filter((item) => item.id !== token.id)
+          );
+          setCreated((current) =>
+            current?.token.id === token.id ? null : current
+          );
+        } else {
+          setError(result.error ?? "Failed to revoke API token");
+        }
+      } catch (revokeError) {
+        console.error("Unexpected error revoking API token:", revokeError);
+        setError("Failed to revoke API token");
+      }
+    });
+  };
+
+  return (
+    <section className="space-y-6" aria-labelledby="api-tokens-heading">
+      <header className="space-y-2">
+        <h2 id="api-tokens-heading" className="text-lg font-semibold">
+          API tokens
+        </h2>
+        <p className="text-sm text-foreground-muted">
+          Personal tokens let scripts use the REST API at{" "}
+          <code>/api/v1</code> as you. Send one as{" "}
+          <code>Authorization: Bearer &lt;token&gt;</code>.
+        </p>
+      </header>
+
+      {error && (
+        <div className="rounded-md border border-red-500 bg-red-50 px-4 py-3 text-sm text-red-600 dark:border-red-400 dark:bg-red-950/20 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {created && (
+        <div className="space-y-2 rounded-md border border-accent/60 bg-accent/5 px-4 py-3 text-sm">
+          <p className="font-medium">
+            Copy &ldquo;{created.token.name}&rdquo; now. It will not be shown
+            again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="min-w-0 flex-1 break-all rounded bg-background px-2 py-1">
+              {created.secret}
+            </code>
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="inline-flex h-8 w-8 shrink-0 items-center justify-center rounded-full border border-border text-foreground-muted transition hover:border-accent hover:text-foreground"
+              aria-label="Copy token"
+              title={hasCopied ? "Copied" : "Copy"}
+            >
+              {hasCopied ? (
+                <Check className="h-3.5 w-3.5" />
+              ) : (
+                <Copy className="h-3.5 w-3.5" />
+              )}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <form
+        onSubmit={handleCreate}
+        className="flex flex-wrap items-end gap-3"
+        aria-label="Create API token"
+      >
+        <div className="min-w-[12rem] flex-1 space-y-2">
+          <label
+            className="block text-sm font-medium text-foreground"
+            htmlFor="api-token-name"
+          >
+            Name
+          </label>
+          <input
+            id="api-token-name"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            className={inputClassName}
+            placeholder="Backup script"
+            maxLength={60}
+            required
+            disabled={isPending}
+          />
+        </div>
+        <div className="space-y-2">
+          <label
+            className="block text-sm font-medium text-foreground"
+            htmlFor="api-token-scope"
+          >
+            Access
+          </label>
+          <select
+            id="api-token-scope"
+            value={scope}
+            onChange={(event) => setScope(event.target.value as ApiTokenScope)}
+            className={inputClassName}
+            disabled={isPending}
+          >
+            <option value="read">{SCOPE_LABELS.read}</option>
+            <option value="write">{SCOPE_LABELS.write}</option>
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={isPending || name.trim() === ""}
+          className="rounded-md bg-accent px-4 py-2 text-sm font-semibold text-accent-foreground transition hover:bg-accent/90 disabled:opacity-50"
+        >
+          Create token
+        </button>
+      </form>
+
+      {isLoading ? (
+        <p className="text-sm text-foreground-muted">Loading tokens…</p>
+      ) : tokens.length === 0 ? (
+        <p className="text-sm text-foreground-muted">No API tokens yet.</p>
+      ) : (
+        <ul className="divide-y divide-border rounded-md border border-border">
+          {tokens.map((token) => (
+            <li key={token.id} className="flex items-center gap-3 px-4 py-3">
+              <KeyRound className="h-4 w-4 shrink-0 text-foreground-muted" />
+              <div className="min-w-0 flex-1 space-y-1">
+                <p className="truncate text-sm font-medium">
+                  {token.name}{" "}
+                  <span className="text-xs font-normal text-foreground-muted">
+                    {SCOPE_LABELS[token.scope]}
+                  </span>
+                </p>
+                <p className="text-xs text-foreground-muted">
+                  <code>{token.token_prefix}…</code> · Created{" "}
+                  {formatDate(token.created_at)} ·{" "}
+                  {token.last_used_at
+                    ? `Last used ${formatDate(token.last_used_at)}`
+                    : "Never used"}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRevoke(token)}
+                className="inline-flex h-8 w-8 shrink-0 items-center justify-center rounded-full border border-border text-foreground-muted transition hover:border-red-400 hover:text-red-500 disabled:cursor-not-allowed disabled:opacity-60"
+                aria-label={`Revoke ${token.name}`}
+                title="Revoke"
+                disabled={isPending}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+export const API_TOKEN_SCOPES = ["read", "write"] as const;
+
+// Schema for creating a personal access token
+export const createApiTokenSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Token name cannot be empty")
+    .max(60, "Token name cannot exceed 60 characters"),
+  scope: z.enum(API_TOKEN_SCOPES, { message: "Invalid token scope" }),
+});
+
+// Schema for revoking a personal access token
+export const revokeApiTokenSchema = z.object({
+  id: z.number().int().positive("Invalid token ID"),
+});
+
+// Export types inferred from schemas
+export type CreateApiTokenInput = z.infer<typeof createApiTokenSchema>;
+export type RevokeApiTokenInput = z.infer<typeof revokeApiTokenSchema>;
@@ -0,0 +1,7 @@
+import type { ApiToken } from "@/types/database";
+
+// A token just created; `secret` is the only time the full token is available
+export type CreatedApiToken = {
+  token: ApiToken;
+  secret: string;
+};
@@ -0,0 +1,17 @@
+import { createHash, randomBytes } from "node:crypto";
+
+// Marks the string as one of our tokens, for secret scanners and for people
+const API_TOKEN_PREFIX = "pbx_";
+
+// Characters kept in the list so users can tell their tokens apart
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+export const generateApiToken = () =>
+  `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+
+// Tokens are long and random, so a plain hash is as good as a slow one here
+export const hashApiToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+export const getApiTokenDisplayPrefix = (token: string) =>
+  token.slice(0, DISPLAY_PREFIX_LENGTH);
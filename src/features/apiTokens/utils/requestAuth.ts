@@ -0,0 +1,184 @@
+import { createHmac } from "node:crypto";
+import { headers } from "next/headers";
+import {
+  createClient as createSupabaseClient,
+  type SupabaseClient,
+} from "@supabase/supabase-js";
+import type { ActionErrorCode, ApiTokenScope } from "@/types/database";
+import { createClient } from "@/utils/supabase/server";
+import { hashApiToken } from "./apiTokenSecrets";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+// Lifetime of the access token minted for one request made with an API token;
+// webhook deliveries keep using it for a while after the response
+const ACCESS_TOKEN_TTL_SECONDS = 5 * 60;
+
+type TokenSession = {
+  userId: string;
+  scope: ApiTokenScope;
+  supabase: SupabaseClient;
+};
+
+// `scope` is what the request may do: a cookie session may always write
+export type RequestUser =
+  | {
+      user: { id: string };
+      scope: ApiTokenScope;
+      error: null;
+      code?: undefined;
+    }
+  | { user: null; scope?: undefined; error: string; code: ActionErrorCode };
+
+// Every headers() call of one request returns the same object, so a token is
+// looked up (and its last use recorded) once per request
+const tokenSessions = new WeakMap<Headers, Promise<TokenSession | null>>();
+
+const getBearerToken = (requestHeaders: Headers) => {
+  const match = /^Bearer\s+(\S+)$/i.exec(
+    requestHeaders.get("authorization") ?? ""
+  );
+  return match?.[1] ?? null;
+};
+
+const toBase64Url = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+/*
+ * A short-lived Supabase access token for the token's user, signed with the
+ * project's JWT secret, so queries run as that user and row level security
+ * applies exactly as it does for a cookie session.
+ */
+function signAccessToken(userId: string) {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) {
+    throw new Error(
+      "SUPABASE_JWT_SECRET must be set to accept API tokens and calendar feeds"
+    );
+  }
+
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const header = toBase64Url({ alg: "HS256", typ: "JWT" });
+  const payload = toBase64Url({
+    sub: userId,
+    role: "authenticated",
+    aud: "authenticated",
+    iat: issuedAt,
+    exp: issuedAt + ACCESS_TOKEN_TTL_SECONDS,
+  });
+  const unsigned = `${header}.${payload}`;
+  const signature = createHmac("sha256", secret)
+    .update(unsigned)
+    .digest("base64url");
+  return `${unsigned}.${signature}`;
+}
+
+// Without an access token the client is anonymous; only functions granted to
+// anon, such as the token lookups, work with it
+export const createAnonClient = (accessToken?: string) =>
+  createSupabaseClient(supabaseUrl!, supabaseKey!, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    global: accessToken
+      ? { headers: { Authorization: `Bearer ${accessToken}` } }
+      : undefined,
+  });
+
+// Supabase client acting as a user resolved from a secret of theirs, such as
+// an API token or a calendar feed URL
+export const createUserClient = (userId: string) =>
+  createAnonClient(signAccessToken(userId));
+
+// The user and scope behind an API token; null when it is unknown or revoked
+async function resolveTokenSession(token: string): Promise<TokenSession | null> {
+  const { data, error } = await createAnonClient().rpc(
+    "authenticate_api_token",
+    { hash: hashApiToken(token) }
+  );
+  if (error) {
+    throw error;
+  }
+
+  const row = (data as { user_id: string; scope: ApiTokenScope }[] | null)?.[0];
+  if (!row) {
+    return null;
+  }
+
+  return {
+    userId: row.user_id,
+    scope: row.scope,
+    supabase: createUserClient(row.user_id),
+  };
+}
+
+// undefined when the request carries no bearer token
+async function getTokenSession() {
+  const requestHeaders = await headers();
+  const token = getBearerToken(requestHeaders);
+  if (token === null) {
+    return undefined;
+  }
+
+  let session = tokenSessions.get(requestHeaders);
+  if (!session) {
+    session = resolveTokenSession(token);
+    tokenSessions.set(requestHeaders, session);
+  }
+  return session;
+}
+
+/*
+ * The user a request acts for: the owner of its bearer API token, or else the
+ * signed-in user of the cookie session. `access` is what the caller is about
+ * to do; read-only tokens are refused anything but "read".
+ */
+export async function getRequestUser(
+  access: ApiTokenScope
+): Promise<RequestUser> {
+  const session = await getTokenSession();
+
+  if (session === undefined) {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error,
+    } = await supabase.auth.getUser();
+
+    if (error || !user) {
+      return {
+        user: null,
+        error: "You must be logged in to perform this action",
+        code: "unauthorized",
+      };
+    }
+    return { user: { id: user.id }, scope: "write", error: null };
+  }
+
+  if (!session) {
+    return {
+      user: null,
+      error: "The API token is invalid or has been revoked",
+      code: "unauthorized",
+    };
+  }
+  if (access === "write" && session.scope !== "write") {
+    return {
+      user: null,
+      error: "This API token can only read todos",
+      code: "forbidden",
+    };
+  }
+  return { user: { id: session.userId }, scope: session.scope, error: null };
+}
+
+// Supabase client acting as the same user getRequestUser resolved
+export async function createRequestClient(): Promise<SupabaseClient> {
+  const session = await getTokenSession();
+  if (session === undefined) {
+    return createClient();
+  }
+  if (!session) {
+    throw new Error("The API token is invalid or has been revoked");
+  }
+  return session.supabase;
+}
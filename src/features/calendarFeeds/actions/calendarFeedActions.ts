@@ -0,0 +1,145 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/utils/supabase/server";
+import type { ActionResponse, CalendarFeed } from "@/types/database";
+import type { GeneratedCalendarFeed } from "../types/generatedCalendarFeed";
+import {
+  generateCalendarFeedSchema,
+  type GenerateCalendarFeedInput,
+} from "../schemas/calendarFeedSchemas";
+import {
+  generateCalendarFeedToken,
+  getCalendarFeedDisplayPrefix,
+  hashCalendarFeedToken,
+} from "../utils/calendarFeedSecrets";
+import { ZodError } from "zod";
+
+// Every column except the hash and the owner
+const CALENDAR_FEED_COLUMNS =
+  "token_prefix, time_zone, last_fetched_at, created_at";
+
+function getZodErrorMessage(error: ZodError<unknown>) {
+  return error.issues[0]?.message ?? "Validation failed";
+}
+
+// Helper function to get authenticated user
+async function getAuthenticatedUser() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    return { user: null, error: "You must be logged in to perform this action" };
+  }
+
+  return { user, error: null };
+}
+
+// Get the current user's calendar feed; null when it is turned off
+export async function getCalendarFeed(): Promise<
+  ActionResponse<CalendarFeed | null>
+> {
+  try {
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("calendar_feeds")
+      .select(CALENDAR_FEED_COLUMNS)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching calendar feed:", error);
+      return { success: false, error: "Failed to fetch calendar feed" };
+    }
+
+    return { success: true, data: (data as CalendarFeed | null) ?? null };
+  } catch (error) {
+    console.error("Unexpected error in getCalendarFeed:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Generate the feed URL, replacing any earlier one so it stops working; the
+// token is returned this once and only its hash is kept
+export async function generateCalendarFeed(
+  input: GenerateCalendarFeedInput
+): Promise<ActionResponse<GeneratedCalendarFeed>> {
+  try {
+    const validatedInput = generateCalendarFeedSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+    const secret = generateCalendarFeedToken();
+
+    const { data, error } = await supabase
+      .from("calendar_feeds")
+      .upsert(
+        {
+          user_id: user.id,
+          token_hash: hashCalendarFeedToken(secret),
+          token_prefix: getCalendarFeedDisplayPrefix(secret),
+          time_zone: validatedInput.timeZone,
+          last_fetched_at: null,
+          created_at: new Date().toISOString(),
+        },
+        { onConflict: "user_id" }
+      )
+      .select(CALENDAR_FEED_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error("Error generating calendar feed:", error);
+      return { success: false, error: "Failed to generate calendar feed" };
+    }
+
+    revalidatePath("/settings");
+    return { success: true, data: { feed: data as CalendarFeed, secret } };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in generateCalendarFeed:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Turn the feed off; calendar apps subscribed to it get 404 from then on
+export async function deleteCalendarFeed(): Promise<ActionResponse<void>> {
+  try {
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+
+    const { error } = await supabase
+      .from("calendar_feeds")
+      .delete()
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("Error deleting calendar feed:", error);
+      return { success: false, error: "Failed to turn off calendar feed" };
+    }
+
+    revalidatePath("/settings");
+    return { success: true };
+  } catch (error) {
+    console.error("Unexpected error in deleteCalendarFeed:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
@@ -0,0 +1,263 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { CalendarDays, Check, Copy, RefreshCw, Trash2 } from "lucide-react";
+
+import type { CalendarFeed } from "@/types/database";
+import {
+  deleteCalendarFeed,
+  generateCalendarFeed,
+  getCalendarFeed,
+} from "@/features/calendarFeeds/actions/calendarFeedActions";
+import type { CalendarFeedType } from "@/features/calendarFeeds/schemas/calendarFeedSchemas";
+
+const inputClassName =
+  "rounded-md border border-border bg-background px-3 py-2 text-sm focus:border-accent focus:outline-none focus:ring-2 focus:ring-accent/30 disabled:opacity-60";
+
+const TYPE_LABELS: Record<CalendarFeedType, string> = {
+  todos: "As tasks (VTODO)",
+  events: "As all-day events (VEVENT)",
+};
+
+const dateFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+const formatDate = (value: string) => dateFormatter.format(new Date(value));
+
+const getFeedUrl = (secret: string, type: CalendarFeedType) =>
+  `${window.location.origin}/api/calendar/${secret}.ics${
+    type === "events" ? "?type=events" : ""
+  }`;
+
+export function CalendarFeedSettings() {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [type, setType] = useState<CalendarFeedType>("todos");
+  const [hasCopied, setHasCopied] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    let isCurrent = true;
+    getCalendarFeed()
+      .then((result) => {
+        if (!isCurrent) {
+          return;
+        }
+        if (result.success) {
+          setFeed(result.data ?? null);
+        } else {
+          setError(result.error ?? "Failed to load calendar feed");
+        }
+      })
+      .catch((loadError) => {
+        console.error("Unexpected error loading calendar feed:", loadError);
+        if (isCurrent) {
+          setError("Failed to load calendar feed");
+        }
+      })
+      .finally(() => {
+        if (isCurrent) {
+          setIsLoading(false);
+        }
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, []);
+
+  const handleGenerate = () => {
+    if (
+      feed &&
+      !window.confirm(
+        "Regenerate the feed URL? Calendars subscribed to the current " +
+          "one will stop updating."
+      )
+    ) {
+      return;
+    }
+
+    setError(null);
+    startTransition(async () => {
+      try {
+        // Todo dates are local days, so the feed keeps this browser's zone
+        const result = await generateCalendarFeed({
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        });
+        if (result.success && result.data) {
+          setFeed(result.data.feed);
+          setSecret(result.data.secret);
+          setHasCopied(false);
+        } else {
+          setError(result.error ?? "Failed to generate calendar feed");
+        }
+      } catch (generateError) {
+        console.error(
+          "Unexpected error generating calendar feed:",
+          generateError
+        );
+        setError("Failed to generate calendar feed");
+      }
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!secret) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(getFeedUrl(secret, type));
+      setHasCopied(true);
+    } catch (copyError) {
+      console.error("Unexpected error copying calendar feed URL:", copyError);
+      setError("Could not copy the URL. Select it and copy it by hand.");
+    }
+  };
+
+  const handleDelete = () => {
+    if (
+      !window.confirm(
+        "Turn off the calendar feed? Subscribed calendars will stop updating."
+      )
+    ) {
+      return;
+    }
+
+    setError(null);
+    startTransition(async () => {
+      try {
+        const result = await deleteCalendarFeed();
+        if (result.success) {
+          setFeed(null);
+          setSecret(null);
+        } else {
+          setError(result.error ?? "Failed to turn off calendar feed");
+        }
+      } catch (deleteError) {
+        console.error("Unexpected error deleting calendar feed:", deleteError);
+        setError("Failed to turn off calendar feed");
+      }
+    });
+  };
+
+  return (
+    <section className="space-y-6" aria-labelledby="calendar-feed-heading">
+      <header className="space-y-2">
+        <h2 id="calendar-feed-heading" className="text-lg font-semibold">
+          Calendar feed
+        </h2>
+        <p className="text-sm text-foreground-muted">
+          Subscribe to your todos with a start or due date from a calendar
+          app. Anyone with the URL can read them, so keep it private.
+        </p>
+      </header>
+
+      {error && (
+        <div className="rounded-md border border-red-500 bg-red-50 px-4 py-3 text-sm text-red-600 dark:border-red-400 dark:bg-red-950/20 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {secret && (
+        <div className="space-y-2 rounded-md border border-accent/60 bg-accent/5 px-4 py-3 text-sm">
+          <p className="font-medium">
+            Copy the feed URL now. It will not be shown again.
+          </p>
+          <select
+            value={type}
+            onChange={(event) => {
+              setType(event.target.value as CalendarFeedType);
+              setHasCopied(false);
+            }}
+            className={inputClassName}
+            aria-label="Show todos"
+          >
+            <option value="todos">{TYPE_LABELS.todos}</option>
+            <option value="events">{TYPE_LABELS.events}</option>
+          </select>
+          <div className="flex items-center gap-2">
+            <code className="min-w-0 flex-1 break-all rounded bg-background px-2 py-1">
+              {getFeedUrl(secret, type)}
+            </code>
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="inline-flex h-8 w-8 shrink-0 items-center justify-center rounded-full border border-border text-foreground-muted transition hover:border-accent hover:text-foreground"
+              aria-label="Copy feed URL"
+              title={hasCopied ? "Copied" : "Copy"}
+            >
+              {hasCopied ? (
+                <Check className="h-3.5 w-3.5" />
+              ) : (
+                <Copy className="h-3.5 w-3.5" />
+              )}
+            </button>
+          </div>
+          <p className="text-xs text-foreground-muted">
+            Google Calendar and Outlook only show events; Apple Calendar and
+            Thunderbird can show tasks.
+          </p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-foreground-muted">Loading calendar feed…</p>
+      ) : feed ? (
+        <div className="flex items-center gap-3 rounded-md border border-border px-4 py-3">
+          <CalendarDays className="h-4 w-4 shrink-0 text-foreground-muted" />
+          <div className="min-w-0 flex-1 space-y-1">
+            <p className="truncate text-sm font-medium">
+              <code>{feed.token_prefix}…</code>{" "}
+              <span className="text-xs font-normal text-foreground-muted">
+                Dates in {feed.time_zone}
+              </span>
+            </p>
+            <p className="text-xs text-foreground-muted">
+              Created {formatDate(feed.created_at)} ·{" "}
+              {feed.last_fetched_at
+                ? `Last fetched ${formatDate(feed.last_fetched_at)}`
+                : "Never fetched"}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleGenerate}
+            className="inline-flex h-8 w-8 shrink-0 items-center justify-center rounded-full border border-border text-foreground-muted transition hover:border-accent hover:text-foreground disabled:cursor-not-allowed disabled:opacity-60"
+            aria-label="Regenerate feed URL"
+            title="Regenerate URL"
+            disabled={isPending}
+          >
+            <RefreshCw className="h-3.5 w-3.5" />
+          </button>
+          <button
+            type="button"
+            onClick={handleDelete}
+            className="inline-flex h-8 w-8 shrink-0 items-center justify-center rounded-full border border-border text-foreground-muted transition hover:border-red-400 hover:text-red-500 disabled:cursor-not-allowed disabled:opacity-60"
+            aria-label="Turn off calendar feed"
+            title="Turn off"
+            disabled={isPending}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-3">
+          <p className="flex-1 text-sm text-foreground-muted">
+            The calendar feed is off.
+          </p>
+          <button
+            type="button"
+            onClick={handleGenerate}
+            disabled={isPending}
+            className="rounded-md bg-accent px-4 py-2 text-sm font-semibold text-accent-foreground transition hover:bg-accent/90 disabled:opacity-50"
+          >
+            Create feed URL
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+// What each todo becomes in the feed, picked with ?type= on the feed URL
+export const CALENDAR_FEED_TYPES = ["todos", "events"] as const;
+
+const isTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Schema for generating (or regenerating) the calendar feed URL
+export const generateCalendarFeedSchema = z.object({
+  timeZone: z
+    .string()
+    .trim()
+    .min(1, "Time zone cannot be empty")
+    .max(64, "Time zone cannot exceed 64 characters")
+    .refine(isTimeZone, "Unknown time zone"),
+});
+
+// Export types inferred from schemas
+export type CalendarFeedType = (typeof CALENDAR_FEED_TYPES)[number];
+export type GenerateCalendarFeedInput = z.infer<
+  typeof generateCalendarFeedSchema
+>;
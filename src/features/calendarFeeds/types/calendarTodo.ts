@@ -0,0 +1,16 @@
+import type { Todo } from "@/types/database";
+
+// The columns of a dated todo the calendar feed is built from
+export type CalendarTodo = Pick<
+  Todo,
+  | "id"
+  | "text"
+  | "content"
+  | "done"
+  | "start_at"
+  | "due_at"
+  | "priority"
+  | "completed_at"
+  | "created_at"
+  | "updated_at"
+>;
@@ -0,0 +1,7 @@
+import type { CalendarFeed } from "@/types/database";
+
+// A feed just generated; `secret` is the only time its token is available
+export type GeneratedCalendarFeed = {
+  feed: CalendarFeed;
+  secret: string;
+};
@@ -0,0 +1,146 @@
+import { createHash } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createAnonClient,
+  createUserClient,
+} from "@/features/apiTokens/utils/requestAuth";
+import type { CalendarFeedType } from "../schemas/calendarFeedSchemas";
+import type { CalendarTodo } from "../types/calendarTodo";
+import { hashCalendarFeedToken } from "./calendarFeedSecrets";
+import { renderTodoCalendar } from "./todoCalendar";
+
+// PostgREST caps every response at 1000 rows, so todos are read page by page
+const PAGE_SIZE = 1000;
+
+const CALENDAR_TODO_COLUMNS =
+  "id, text, content, done, start_at, due_at, priority, completed_at, created_at, updated_at";
+
+// Bump when the rendered feed changes for the same todos, so clients that
+// cached the old output fetch it again
+const FEED_FORMAT_VERSION = 1;
+
+type CalendarFeed = { user_id: string; time_zone: string };
+
+type CalendarFeedVersion = {
+  todo_count: number;
+  last_updated_at: string | null;
+  last_todo_id: number | null;
+};
+
+// The feed behind a token, or null when it is unknown or has been regenerated
+async function authenticateCalendarFeed(
+  token: string
+): Promise<CalendarFeed | null> {
+  const { data, error } = await createAnonClient().rpc(
+    "authenticate_calendar_feed",
+    { hash: hashCalendarFeedToken(token) }
+  );
+  if (error) {
+    throw error;
+  }
+  return (data as CalendarFeed[] | null)?.[0] ?? null;
+}
+
+/*
+ * A strong ETag of the feed, derived from a summary of its todos instead of
+ * its bytes: editing a todo raises the latest updated_at, and adding or
+ * removing one changes the count or the highest id. The feed has no
+ * timestamps of its own, so nothing else changes its output.
+ */
+async function getCalendarFeedETag(
+  supabase: SupabaseClient,
+  feed: CalendarFeed,
+  type: CalendarFeedType
+) {
+  const { data, error } = await supabase.rpc("calendar_feed_version");
+  if (error) {
+    throw error;
+  }
+
+  const version = (data as CalendarFeedVersion[] | null)?.[0];
+  const summary = JSON.stringify([
+    FEED_FORMAT_VERSION,
+    type,
+    feed.time_zone,
+    version?.todo_count ?? 0,
+    version?.last_updated_at ?? null,
+    version?.last_todo_id ?? null,
+  ]);
+  return `"${createHash("sha256").update(summary).digest("base64url")}"`;
+}
+
+// The dated todos of the feed's owner, out of the trash and the archive
+async function loadCalendarTodos(
+  supabase: SupabaseClient,
+  userId: string
+) {
+  const todos: CalendarTodo[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page, error } = await supabase
+      .from("todos")
+      .select(CALENDAR_TODO_COLUMNS)
+      .eq("user_id", userId)
+      .or("start_at.not.is.null,due_at.not.is.null")
+      .is("deleted_at", null)
+      .is("archived_at", null)
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw error;
+    }
+    todos.push(...((page ?? []) as CalendarTodo[]));
+    if (!page || page.length < PAGE_SIZE) {
+      break;
+    }
+  }
+  return todos;
+}
+
+const matchesETag = (ifNoneMatch: string | null, etag: string) =>
+  ifNoneMatch !== null &&
+  ifNoneMatch
+    .split(",")
+    .map((value) => value.trim().replace(/^W\//, ""))
+    .some((value) => value === "*" || value === etag);
+
+/*
+ * Answer a request for the .ics feed behind a token, or null when the token
+ * is unknown or has been regenerated. The todos are read as the feed's
+ * owner, so row level security applies as it does in the app. Clients
+ * revalidate on every poll, so the ETag is checked first: an unchanged feed
+ * is a 304 without reading or rendering its todos.
+ */
+export async function loadCalendarFeedResponse(
+  request: Request,
+  token: string,
+  type: CalendarFeedType
+): Promise<Response | null> {
+  const feed = await authenticateCalendarFeed(token);
+  if (!feed) {
+    return null;
+  }
+
+  const supabase = createUserClient(feed.user_id);
+  const etag = await getCalendarFeedETag(supabase, feed, type);
+  const headers = {
+    ETag: etag,
+    "Cache-Control": "private, no-cache",
+  };
+
+  if (matchesETag(request.headers.get("if-none-match"), etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  const todos = await loadCalendarTodos(supabase, feed.user_id);
+  const calendar = renderTodoCalendar(todos, {
+    timeZone: feed.time_zone,
+    type,
+  });
+  return new Response(calendar, {
+    headers: {
+      ...headers,
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="pandora-box.ics"',
+    },
+  });
+}
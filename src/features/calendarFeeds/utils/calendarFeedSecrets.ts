@@ -0,0 +1,21 @@
+import { createHash, randomBytes } from "node:crypto";
+
+// Tells feed tokens apart from API tokens, which start with pbx_
+const CALENDAR_FEED_TOKEN_PREFIX = "pbc_";
+
+// Characters kept so users can recognise the URL they subscribed to
+const DISPLAY_PREFIX_LENGTH = CALENDAR_FEED_TOKEN_PREFIX.length + 6;
+
+export const generateCalendarFeedToken = () =>
+  `${CALENDAR_FEED_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+
+export const hashCalendarFeedToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+export const getCalendarFeedDisplayPrefix = (token: string) =>
+  token.slice(0, DISPLAY_PREFIX_LENGTH);
+
+// Tokens are 43 base64url characters after the prefix; anything else is
+// refused without a database lookup
+export const isCalendarFeedToken = (value: string) =>
+  /^pbc_[A-Za-z0-9_-]{43}$/.test(value);
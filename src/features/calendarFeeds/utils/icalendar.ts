@@ -0,0 +1,75 @@
+// A content line's name, with any parameters (`DUE;VALUE=DATE`), and value
+export type ICalendarProperty = [name: string, value: string];
+
+export type ICalendarComponent = {
+  name: "VTODO" | "VEVENT";
+  properties: ICalendarProperty[];
+};
+
+// Longest content line, in octets, before it must be folded
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+// Escape a TEXT value; dates and other structured values are left alone
+export const escapeICalendarText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n?|\n/g, "\\n");
+
+// An ISO timestamp as a UTC DATE-TIME, such as 20261020T081500Z
+export const formatICalendarDateTime = (value: string) =>
+  new Date(value)
+    .toISOString()
+    .replace(/\.\d{3}/, "")
+    .replace(/[-:]/g, "");
+
+/*
+ * Split a content line into lines of at most 75 octets, each continuation
+ * starting with a space. Splits fall between characters, never inside a
+ * multi-byte one.
+ */
+const foldLine = (line: string) => {
+  const lines: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    // Continuation lines give one octet to their leading space
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (size + charSize > limit) {
+      lines.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  lines.push(current);
+  return lines.join("\r\n ");
+};
+
+// A VCALENDAR object with CRLF line endings, as RFC 5545 requires
+export function formatICalendar(
+  properties: ICalendarProperty[],
+  components: ICalendarComponent[]
+) {
+  const toLines = (items: ICalendarProperty[]) =>
+    items.map(([name, value]) => `${name}:${value}`);
+
+  return [
+    "BEGIN:VCALENDAR",
+    ...toLines(properties),
+    ...components.flatMap((component) => [
+      `BEGIN:${component.name}`,
+      ...toLines(component.properties),
+      `END:${component.name}`,
+    ]),
+    "END:VCALENDAR",
+  ]
+    .map(foldLine)
+    .map((line) => `${line}\r\n`)
+    .join("");
+}
@@ -0,0 +1,173 @@
+import type { TodoPriority } from "@/types/database";
+import { getBlocksPlainText } from "@/features/todos/utils/blockNoteText";
+import type { CalendarFeedType } from "../schemas/calendarFeedSchemas";
+import type { CalendarTodo } from "../types/calendarTodo";
+import {
+  escapeICalendarText,
+  formatICalendar,
+  formatICalendarDateTime,
+  type ICalendarComponent,
+  type ICalendarProperty,
+} from "./icalendar";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// RFC 5545 priorities run from 1 (highest) to 9; 0 would mean none
+const ICALENDAR_PRIORITIES: Record<TodoPriority, number | null> = {
+  none: null,
+  low: 7,
+  medium: 5,
+  high: 3,
+  urgent: 1,
+};
+
+// How often calendar apps are asked to poll
+const REFRESH_INTERVAL = "PT1H";
+
+/*
+ * Todo dates are the local midnight of the day picked in the browser, so
+ * the day is read back in the feed's time zone. Days are kept as the UTC
+ * midnight of that date, which makes adding a day plain arithmetic.
+ */
+const createDayReader = (timeZone: string) => {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  });
+
+  return (value: string | null) => {
+    if (!value) {
+      return null;
+    }
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      return null;
+    }
+    const parts = formatter.formatToParts(date);
+    const get = (type: Intl.DateTimeFormatPartTypes) =>
+      Number(parts.find((part) => part.type === type)?.value);
+    return Date.UTC(get("year"), get("month") - 1, get("day"));
+  };
+};
+
+// A day as a DATE value, such as 20261020
+const formatDay = (day: number) =>
+  new Date(day).toISOString().slice(0, 10).replace(/-/g, "");
+
+// Properties a todo has whichever component it becomes
+const getCommonProperties = (
+  todo: CalendarTodo,
+  summary: string
+): ICalendarProperty[] => {
+  const description = Array.isArray(todo.content)
+    ? getBlocksPlainText(todo.content).trim()
+    : "";
+  const priority = ICALENDAR_PRIORITIES[todo.priority];
+
+  return [
+    ["UID", `todo-${todo.id}@pandora-box`],
+    // The last change rather than the time of the request, so an unchanged
+    // feed renders the same bytes and keeps its ETag
+    ["DTSTAMP", formatICalendarDateTime(todo.updated_at)],
+    ["CREATED", formatICalendarDateTime(todo.created_at)],
+    ["LAST-MODIFIED", formatICalendarDateTime(todo.updated_at)],
+    ["SUMMARY", escapeICalendarText(summary)],
+    ...(description
+      ? [["DESCRIPTION", escapeICalendarText(description)] as ICalendarProperty]
+      : []),
+    ...(priority !== null
+      ? [["PRIORITY", String(priority)] as ICalendarProperty]
+      : []),
+  ];
+};
+
+// A VTODO due on the due day; it starts on the start day when that is earlier
+const toTodoComponent = (
+  todo: CalendarTodo,
+  start: number | null,
+  due: number | null
+): ICalendarComponent => {
+  const properties = getCommonProperties(todo, todo.text);
+  if (start !== null && (due === null || start < due)) {
+    properties.push(["DTSTART;VALUE=DATE", formatDay(start)]);
+  }
+  if (due !== null) {
+    properties.push(["DUE;VALUE=DATE", formatDay(due)]);
+  }
+  properties.push(["STATUS", todo.done ? "COMPLETED" : "NEEDS-ACTION"]);
+  if (todo.done) {
+    properties.push(["PERCENT-COMPLETE", "100"]);
+    if (todo.completed_at) {
+      properties.push([
+        "COMPLETED",
+        formatICalendarDateTime(todo.completed_at),
+      ]);
+    }
+  }
+  return { name: "VTODO", properties };
+};
+
+// An all-day VEVENT from the start day through the due day. Events have no
+// done state, so a done todo's title gets a check mark
+const toEventComponent = (
+  todo: CalendarTodo,
+  start: number | null,
+  due: number | null
+): ICalendarComponent => {
+  const first = start ?? due!;
+  const last = due ?? start!;
+  const properties = getCommonProperties(
+    todo,
+    todo.done ? `✓ ${todo.text}` : todo.text
+  );
+  properties.push(
+    ["DTSTART;VALUE=DATE", formatDay(first)],
+    // DTEND is exclusive: the day after the last one
+    ["DTEND;VALUE=DATE", formatDay(last + DAY_MS)],
+    ["STATUS", "CONFIRMED"],
+    // Todos do not make the user busy
+    ["TRANSP", "TRANSPARENT"]
+  );
+  return { name: "VEVENT", properties };
+};
+
+/*
+ * The iCalendar feed of a user's todos: one VTODO, or one all-day VEVENT,
+ * per todo with a start or due date. Undated todos are left out. The
+ * output depends only on the todos, so it can be compared for an ETag.
+ */
+export function renderTodoCalendar(
+  todos: CalendarTodo[],
+  options: { timeZone: string; type: CalendarFeedType }
+) {
+  const readDay = createDayReader(options.timeZone);
+  const components: ICalendarComponent[] = [];
+  for (const todo of todos) {
+    const start = readDay(todo.start_at);
+    const due = readDay(todo.due_at);
+    if (start === null && due === null) {
+      continue;
+    }
+    components.push(
+      options.type === "events"
+        ? toEventComponent(todo, start, due)
+        : toTodoComponent(todo, start, due)
+    );
+  }
+
+  return formatICalendar(
+    [
+      ["VERSION", "2.0"],
+      ["PRODID", "-//Pandora Box//Todos//EN"],
+      ["CALSCALE", "GREGORIAN"],
+      ["METHOD", "PUBLISH"],
+      ["NAME", "Pandora Box"],
+      ["X-WR-CALNAME", "Pandora Box"],
+      ["REFRESH-INTERVAL;VALUE=DURATION", REFRESH_INTERVAL],
+      ["X-PUBLISHED-TTL", REFRESH_INTERVAL],
+    ],
+    components
+  );
+}
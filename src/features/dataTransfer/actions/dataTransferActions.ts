@@ -0,0 +1,707 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@/utils/supabase/server";
+import type { PartialBlock } from "@blocknote/core";
+import type { ActionResponse, Project, Tag, Todo } from "@/types/database";
+import {
+  importTodosSchema,
+  todoExportDocumentSchema,
+  type ExportedTodo,
+  type ImportTodosInput,
+} from "../schemas/todoExportSchemas";
+import {
+  csvDoneSchema,
+  importTodosFromCsvSchema,
+  type ImportTodosFromCsvInput,
+} from "../schemas/todoCsvSchemas";
+import {
+  getTodoContentsSchema,
+  type GetTodoContentsInput,
+} from "../schemas/todoMarkdownSchemas";
+import type { TodoExportDocument } from "../types/todoExport";
+import type {
+  TodoCsvImportResult,
+  TodoCsvRowError,
+} from "../types/todoCsvImportResult";
+import type {
+  TodoImportItemError,
+  TodoImportResult,
+} from "../types/todoImportResult";
+import {
+  buildTodoExportDocument,
+  type ExportTodoRow,
+} from "../utils/todoExport";
+import { planTodoImport, type ImportItem } from "../utils/todoImport";
+import { ensureInboxProjectId } from "@/features/projects/utils/inboxProject";
+import { getPositionBetween } from "@/features/todos/utils/todoPosition";
+import { createTodoSchema } from "@/features/todos/schemas/todoSchemas";
+import { ZodError } from "zod";
+
+// PostgREST caps every response at 1000 rows, so full reads go page by page
+const PAGE_SIZE = 1000;
+
+// Rows per insert; a failed batch is retried row by row to find the bad ones
+const INSERT_BATCH_SIZE = 200;
+
+const PROJECT_COLUMNS =
+  "id, name, color, icon, archived, is_inbox, user_id, created_at, updated_at";
+
+const TAG_COLUMNS = "id, name, color, user_id, created_at, updated_at";
+
+const EXPORT_TODO_SELECT =
+  "id, text, description, content, done, start_at, due_at, priority, project_id, parent_id, subtask_position, recurrence, position, deleted_at, completed_at, archived_at, created_at, updated_at, todo_tags(tag_id)";
+
+const SAVE_FAILED_MESSAGE = "Could not be saved";
+
+type PageResult = { data: unknown[] | null; error: unknown };
+
+// A row waiting to be inserted, with what is needed to report it
+type PendingRow = {
+  index: number;
+  label: string;
+  // The item's id in the document
+  key: number;
+  row: Record<string, unknown>;
+};
+
+// A todo waiting to be imported. New projects, tags and parents are referred
+// to by their key in the document, since their ids are only known once
+// import_todos saves them; existing ones by their id
+type PendingTodo = PendingRow & {
+  project_key: number | null;
+  parent_key: number | null;
+  tag_ids: number[];
+  tag_keys: number[];
+};
+
+function getZodErrorMessage(error: ZodError<unknown>) {
+  return error.issues[0]?.message ?? "Validation failed";
+}
+
+// Helper function to get authenticated user
+async function getAuthenticatedUser() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    return { user: null, error: "You must be logged in to perform this action" };
+  }
+
+  return { user, error: null };
+}
+
+async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<PageResult>
+): Promise<{ rows: T[]; error: unknown }> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) {
+      return { rows, error };
+    }
+    rows.push(...((data ?? []) as T[]));
+    if (!data || data.length < PAGE_SIZE) {
+      return { rows, error: null };
+    }
+  }
+}
+
+// Insert rows in batches and map each item's document id to its new id.
+// Postgres returns a batch in the order it was given; rows that fail on
+// their own are reported and left out
+async function insertRows(
+  supabase: SupabaseClient,
+  table: "projects" | "tags" | "todos",
+  rows: PendingRow[],
+  errors: TodoImportItemError[]
+) {
+  const ids = new Map<number, number>();
+
+  for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+    const batch = rows.slice(start, start + INSERT_BATCH_SIZE);
+    const { data, error } = await supabase
+      .from(table)
+      // Columns a row leaves out keep their defaults instead of turning null
+      .insert(
+        batch.map((entry) => entry.row),
+        { defaultToNull: false }
+      )
+      .select("id");
+
+    if (!error && data) {
+      batch.forEach((entry, position) =>
+        ids.set(entry.key, data[position].id as number)
+      );
+      continue;
+    }
+
+    console.error(`Error importing ${table}, retrying one by one:`, error);
+    for (const entry of batch) {
+      const { data: inserted, error: rowError } = await supabase
+        .from(table)
+        .insert(entry.row)
+        .select("id")
+        .single();
+
+      if (rowError || !inserted) {
+        console.error(`Error importing ${table} item:`, rowError);
+        errors.push({
+          list: table,
+          index: entry.index,
+          label: entry.label,
+          message: SAVE_FAILED_MESSAGE,
+        });
+      } else {
+        ids.set(entry.key, inserted.id as number);
+      }
+    }
+  }
+
+  return ids;
+}
+
+// Existing todos are matched on their text and creation time
+const getTodoKey = (text: string, createdAt: string) =>
+  `${new Date(createdAt).getTime()}:${text}`;
+
+// Export every project, tag and todo of the current user, trash and archive included
+export async function exportTodos(): Promise<
+  ActionResponse<TodoExportDocument>
+> {
+  try {
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+
+    const [projects, tags, todos] = await Promise.all([
+      fetchAllRows<Project>((from, to) =>
+        supabase
+          .from("projects")
+          .select(PROJECT_COLUMNS)
+          .eq("user_id", user.id)
+          .order("id", { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllRows<Tag>((from, to) =>
+        supabase
+          .from("tags")
+          .select(TAG_COLUMNS)
+          .eq("user_id", user.id)
+          .order("id", { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllRows<ExportTodoRow>((from, to) =>
+        supabase
+          .from("todos")
+          .select(EXPORT_TODO_SELECT)
+          .eq("user_id", user.id)
+          .order("id", { ascending: true })
+          .range(from, to)
+      ),
+    ]);
+
+    const error = projects.error ?? tags.error ?? todos.error;
+    if (error) {
+      console.error("Error loading todos for export:", error);
+      return { success: false, error: "Failed to export todos" };
+    }
+
+    return {
+      success: true,
+      data: buildTodoExportDocument(projects.rows, tags.rows, todos.rows),
+    };
+  } catch (error) {
+    console.error("Unexpected error in exportTodos:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Import an export document. Projects and tags are matched to existing ones
+// by name (the inbox to the inbox) and created otherwise; todos get new ids
+// and go to the end of the list in their saved order. merge keeps what is
+// there and skips todos it already has; replace removes the old todos, and
+// the projects and tags the file does not use. import_todos writes it all in
+// one transaction, so an import that fails changes nothing
+export async function importTodos(
+  input: ImportTodosInput
+): Promise<ActionResponse<TodoImportResult>> {
+  try {
+    const { document, mode } = importTodosSchema.parse(input);
+    const envelope = todoExportDocumentSchema.parse(document);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+    const plan = planTodoImport(envelope);
+    const errors = [...plan.errors];
+
+    const inboxId = await ensureInboxProjectId(supabase, user.id);
+    if (inboxId === null) {
+      return { success: false, error: "Failed to import todos" };
+    }
+
+    const [existingProjects, existingTags, existingTodos, lastPosition] =
+      await Promise.all([
+        fetchAllRows<Pick<Project, "id" | "name" | "is_inbox">>((from, to) =>
+          supabase
+            .from("projects")
+            .select("id, name, is_inbox")
+            .eq("user_id", user.id)
+            .order("id", { ascending: true })
+            .range(from, to)
+        ),
+        fetchAllRows<Pick<Tag, "id" | "name">>((from, to) =>
+          supabase
+            .from("tags")
+            .select("id, name")
+            .eq("user_id", user.id)
+            .order("id", { ascending: true })
+            .range(from, to)
+        ),
+        fetchAllRows<{ id: number; text: string; created_at: string }>(
+          (from, to) =>
+            supabase
+              .from("todos")
+              .select("id, text, created_at")
+              .eq("user_id", user.id)
+              .order("id", { ascending: true })
+              .range(from, to)
+        ),
+        supabase
+          .from("todos")
+          .select("position")
+          .eq("user_id", user.id)
+          .order("position", { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+      ]);
+
+    const loadError =
+      existingProjects.error ??
+      existingTags.error ??
+      existingTodos.error ??
+      lastPosition.error;
+    if (loadError) {
+      console.error("Error loading existing todos for import:", loadError);
+      return { success: false, error: "Failed to import todos" };
+    }
+
+    // Projects: the inbox and same-named projects are reused
+    const projectIds = new Map<number, number>();
+    const projectsByName = new Map(
+      existingProjects.rows
+        .filter((project) => !project.is_inbox)
+        .map((project) => [project.name.toLowerCase(), project.id])
+    );
+    const newProjects: PendingRow[] = [];
+    for (const { index, item } of plan.projects) {
+      const existingId = item.is_inbox
+        ? inboxId
+        : projectsByName.get(item.name.toLowerCase());
+      if (existingId !== undefined) {
+        projectIds.set(item.id, existingId);
+        continue;
+      }
+      newProjects.push({
+        index,
+        label: item.name,
+        key: item.id,
+        row: {
+          name: item.name,
+          color: item.color,
+          icon: item.icon,
+          archived: item.archived,
+          created_at: item.created_at,
+          updated_at: item.updated_at,
+        },
+      });
+    }
+    const newProjectKeys = new Set(newProjects.map((project) => project.key));
+
+    // Tags: names are unique per user, so a repeated name shares one tag
+    const tagIds = new Map<number, number>();
+    const tagsByName = new Map(
+      existingTags.rows.map((tag) => [tag.name.toLowerCase(), tag.id])
+    );
+    const firstNewTagByName = new Map<string, number>();
+    const newTagKeys = new Map<number, number>();
+    const newTags: PendingRow[] = [];
+    for (const { index, item } of plan.tags) {
+      const name = item.name.toLowerCase();
+      const existingId = tagsByName.get(name);
+      const firstNewTag = firstNewTagByName.get(name);
+      if (existingId !== undefined) {
+        tagIds.set(item.id, existingId);
+      } else if (firstNewTag !== undefined) {
+        newTagKeys.set(item.id, firstNewTag);
+      } else {
+        firstNewTagByName.set(name, item.id);
+        newTagKeys.set(item.id, item.id);
+        newTags.push({
+          index,
+          label: item.name,
+          key: item.id,
+          row: {
+            name: item.name,
+            color: item.color,
+            created_at: item.created_at,
+            updated_at: item.updated_at,
+          },
+        });
+      }
+    }
+
+    // Todos: parents first, so subtasks can point at their new ids
+    const existingTodoIds = new Map(
+      mode === "merge"
+        ? existingTodos.rows.map((todo) => [
+            getTodoKey(todo.text, todo.created_at),
+            todo.id,
+          ])
+        : []
+    );
+    const todoIds = new Map<number, number>();
+    const newTodoKeys = new Set<number>();
+    let skippedTodos = 0;
+    let position = (lastPosition.data?.position as string | undefined) ?? null;
+
+    const toPendingTodo = ({
+      index,
+      item,
+    }: ImportItem<ExportedTodo>): PendingTodo => {
+      position = getPositionBetween(position, null);
+      const parentKey = item.parent_id;
+      const isNewParent = parentKey !== null && newTodoKeys.has(parentKey);
+      newTodoKeys.add(item.id);
+      return {
+        index,
+        label: item.text,
+        key: item.id,
+        project_key:
+          item.project_id !== null && newProjectKeys.has(item.project_id)
+            ? item.project_id
+            : null,
+        parent_key: isNewParent ? parentKey : null,
+        tag_ids: [
+          ...new Set(
+            item.tag_ids
+              .map((tagId) => tagIds.get(tagId))
+              .filter((tagId): tagId is number => tagId !== undefined)
+          ),
+        ],
+        tag_keys: [
+          ...new Set(
+            item.tag_ids
+              .map((tagId) => newTagKeys.get(tagId))
+              .filter((tagKey): tagKey is number => tagKey !== undefined)
+          ),
+        ],
+        row: {
+          text: item.text,
+          description: item.description || null,
+          content: item.content,
+          done: item.done,
+          start_at: item.start_at,
+          due_at: item.due_at,
+          priority: item.priority,
+          recurrence: item.recurrence,
+          // Where the todo goes when its new project could not be saved
+          project_id:
+            (item.project_id !== null && projectIds.get(item.project_id)) ||
+            inboxId,
+          parent_id:
+            parentKey !== null && !isNewParent
+              ? (todoIds.get(parentKey) ?? null)
+              : null,
+          subtask_position: item.subtask_position,
+          position,
+          deleted_at: item.deleted_at,
+          completed_at: item.completed_at,
+          archived_at: item.archived_at,
+          created_at: item.created_at,
+          updated_at: item.updated_at,
+        },
+      };
+    };
+
+    // Skipped todos stand in for themselves, so new subtasks still find them
+    const isAlreadyImported = (item: ExportedTodo) => {
+      const existingId =
+        item.created_at === undefined
+          ? undefined
+          : existingTodoIds.get(getTodoKey(item.text, item.created_at));
+      if (existingId === undefined) {
+        return false;
+      }
+      todoIds.set(item.id, existingId);
+      skippedTodos += 1;
+      return true;
+    };
+
+    const newTodos: PendingTodo[] = [];
+    const subtasks: ImportItem<ExportedTodo>[] = [];
+    for (const todo of plan.todos) {
+      if (todo.item.parent_id !== null) {
+        subtasks.push(todo);
+      } else if (!isAlreadyImported(todo.item)) {
+        newTodos.push(toPendingTodo(todo));
+      }
+    }
+    for (const todo of subtasks) {
+      const parentKey = todo.item.parent_id as number;
+      if (!todoIds.has(parentKey) && !newTodoKeys.has(parentKey)) {
+        errors.push({
+          list: "todos",
+          index: todo.index,
+          label: todo.item.text,
+          message: "Its parent todo could not be imported",
+        });
+      } else if (!isAlreadyImported(todo.item)) {
+        newTodos.push(toPendingTodo(todo));
+      }
+    }
+
+    // Replace removes the old todos, and the projects and tags the file does
+    // not use, in the same transaction as the import
+    const keptProjectIds = new Set([inboxId, ...projectIds.values()]);
+    const keptTagIds = new Set(tagIds.values());
+    const removals =
+      mode === "replace"
+        ? {
+            remove_todo_ids: existingTodos.rows.map((todo) => todo.id),
+            remove_tag_ids: existingTags.rows
+              .filter((tag) => !keptTagIds.has(tag.id))
+              .map((tag) => tag.id),
+            remove_project_ids: existingProjects.rows
+              .filter((project) => !keptProjectIds.has(project.id))
+              .map((project) => project.id),
+          }
+        : {};
+
+    const { data: saved, error: importError } = await supabase.rpc(
+      "import_todos",
+      {
+        import_plan: {
+          projects: newProjects,
+          tags: newTags,
+          todos: newTodos,
+          ...removals,
+        },
+      }
+    );
+
+    if (importError || !saved) {
+      console.error("Error importing todos:", importError);
+      return { success: false, error: "Failed to import todos" };
+    }
+
+    const result = saved as {
+      project_keys: number[];
+      tag_keys: number[];
+      todo_keys: number[];
+      removed_todos: number;
+      errors: TodoImportItemError[];
+    };
+    errors.push(...result.errors);
+    const importedTodoKeys = new Set(result.todo_keys);
+    const importedTodos = plan.todos.filter(({ item }) =>
+      importedTodoKeys.has(item.id)
+    );
+
+    revalidatePath("/");
+    return {
+      success: true,
+      data: {
+        mode,
+        createdProjects: result.project_keys.length,
+        createdTags: result.tag_keys.length,
+        importedTodos: importedTodos.length,
+        skippedTodos,
+        removedTodos: result.removed_todos,
+        errors: errors.sort(
+          (a, b) => a.list.localeCompare(b.list) || a.index - b.index
+        ),
+      },
+    };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in importTodos:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Get the BlockNote content of the given todos, for the Markdown export.
+// The list only carries the other columns, which the client already has
+export async function getTodoContents(
+  input: GetTodoContentsInput
+): Promise<ActionResponse<Pick<Todo, "id" | "content">[]>> {
+  try {
+    const validatedInput = getTodoContentsSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("todos")
+      .select("id, content")
+      .in("id", validatedInput.ids)
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("Error loading todo content:", error);
+      return { success: false, error: "Failed to load todo notes" };
+    }
+
+    return {
+      success: true,
+      data: (data ?? []).map((row) => ({
+        id: row.id as number,
+        content: Array.isArray(row.content)
+          ? (row.content as PartialBlock[])
+          : [],
+      })),
+    };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in getTodoContents:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Import mapped CSV rows as new todos at the end of the inbox. Each row is
+// checked against createTodoSchema; bad rows fail the whole import unless
+// skipInvalid is set, in which case they are reported and left out
+export async function importTodosFromCsv(
+  input: ImportTodosFromCsvInput
+): Promise<ActionResponse<TodoCsvImportResult>> {
+  try {
+    const { rows, skipInvalid } = importTodosFromCsvSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const errors: TodoCsvRowError[] = [];
+    const validRows = rows.flatMap(({ line, done, todo }) => {
+      const parsedDone = csvDoneSchema.safeParse(done);
+      const parsedTodo = createTodoSchema.safeParse(todo);
+      if (!parsedDone.success || !parsedTodo.success) {
+        const issue = !parsedDone.success
+          ? parsedDone.error.issues[0]
+          : parsedTodo.error?.issues[0];
+        errors.push({ line, message: issue?.message ?? "Validation failed" });
+        return [];
+      }
+      return [{ line, done: parsedDone.data, todo: parsedTodo.data }];
+    });
+
+    if (errors.length > 0 && !skipInvalid) {
+      const [first] = errors;
+      return {
+        success: false,
+        error:
+          errors.length === 1
+            ? `Line ${first.line}: ${first.message}`
+            : `Line ${first.line}: ${first.message} (and ${
+                errors.length - 1
+              } more rows with errors)`,
+      };
+    }
+
+    const supabase = await createClient();
+
+    const inboxId = await ensureInboxProjectId(supabase, user.id);
+    if (inboxId === null) {
+      return { success: false, error: "Failed to import todos" };
+    }
+
+    const { data: last, error: positionError } = await supabase
+      .from("todos")
+      .select("position")
+      .eq("user_id", user.id)
+      .order("position", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (positionError) {
+      console.error("Error loading todo positions for import:", positionError);
+      return { success: false, error: "Failed to import todos" };
+    }
+
+    let position = (last?.position as string | undefined) ?? null;
+    const completedAt = new Date().toISOString();
+    const pendingRows: PendingRow[] = validRows.map(
+      ({ line, done, todo }, index) => {
+        position = getPositionBetween(position, null);
+        return {
+          index: line,
+          label: todo.text,
+          key: index,
+          row: {
+            text: todo.text,
+            description: todo.description || null,
+            content: [],
+            done,
+            completed_at: done ? completedAt : null,
+            start_at: todo.start_at ?? null,
+            due_at: todo.due_at ?? null,
+            priority: todo.priority ?? "none",
+            project_id: inboxId,
+            position,
+            user_id: user.id,
+          },
+        };
+      }
+    );
+
+    const saveErrors: TodoImportItemError[] = [];
+    const createdIds = await insertRows(
+      supabase,
+      "todos",
+      pendingRows,
+      saveErrors
+    );
+    errors.push(
+      ...saveErrors.map((error) => ({
+        line: error.index,
+        message: error.message,
+      }))
+    );
+    errors.sort((a, b) => a.line - b.line);
+
+    revalidatePath("/");
+    return {
+      success: true,
+      data: {
+        importedTodos: createdIds.size,
+        skippedRows: errors.length,
+        errors,
+      },
+    };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in importTodosFromCsv:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { Download } from "lucide-react";
+
+import { exportTodos } from "@/features/dataTransfer/actions/dataTransferActions";
+import {
+  TODO_CSV_COLUMNS,
+  type TodoCsvColumn,
+} from "@/features/dataTransfer/schemas/todoCsvSchemas";
+import { formatCsv } from "@/features/dataTransfer/utils/csv";
+import {
+  downloadFile,
+  getFileDateStamp,
+} from "@/features/dataTransfer/utils/downloadFile";
+import {
+  DEFAULT_TODO_CSV_COLUMNS,
+  TODO_CSV_COLUMN_LABELS,
+  buildTodoCsvRows,
+} from "@/features/dataTransfer/utils/todoCsv";
+
+export function CsvExportForm() {
+  const [columns, setColumns] = useState<TodoCsvColumn[]>(
+    DEFAULT_TODO_CSV_COLUMNS
+  );
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleColumn = (column: TodoCsvColumn) => {
+    setColumns((current) =>
+      current.includes(column)
+        ? current.filter((item) => item !== column)
+        : [...current, column]
+    );
+  };
+
+  const handleExport = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsExporting(true);
+    setError(null);
+    try {
+      const exported = await exportTodos();
+      if (exported.success && exported.data) {
+        // Columns keep their fixed order, whatever order they were picked in
+        const rows = buildTodoCsvRows(
+          exported.data,
+          TODO_CSV_COLUMNS.filter((column) => columns.includes(column))
+        );
+        downloadFile(
+          formatCsv(rows),
+          `pandora-box-todos-${getFileDateStamp()}.csv`,
+          "text/csv;charset=utf-8"
+        );
+      } else {
+        setError(exported.error || "Failed to export todos");
+      }
+    } catch (exportError) {
+      console.error("Unexpected error exporting CSV:", exportError);
+      setError("Failed to export todos");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleExport} className="space-y-3">
+      <h3 className="text-sm font-semibold text-foreground">Export CSV</h3>
+      <p className="text-xs text-foreground-subtle">
+        Open todos and completed ones, subtasks after their parent, for
+        spreadsheets. Trash and archive are left out.
+      </p>
+
+      {error && (
+        <div className="notice notice--error">
+          <p>{error}</p>
+        </div>
+      )}
+
+      <fieldset className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+        <legend className="sr-only">Columns</legend>
+        {TODO_CSV_COLUMNS.map((column) => (
+          <label key={column} className="flex items-center gap-2 text-xs">
+            <input
+              type="checkbox"
+              checked={columns.includes(column)}
+              onChange={() => toggleColumn(column)}
+              disabled={isExporting}
+            />
+            <span>{TODO_CSV_COLUMN_LABELS[column]}</span>
+          </label>
+        ))}
+      </fieldset>
+
+      <button
+        type="submit"
+        className="completed-clear inline-flex items-center gap-2"
+        disabled={isExporting || columns.length === 0}
+      >
+        <Download aria-hidden="true" className="h-3.5 w-3.5" />
+        <span>{isExporting ? "Exporting…" : "Download CSV"}</span>
+      </button>
+    </form>
+  );
+}
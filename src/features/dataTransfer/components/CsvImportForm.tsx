@@ -0,0 +1,304 @@
+"use client";
+
+import { ChangeEvent, FormEvent, useMemo, useRef, useState } from "react";
+import { Upload } from "lucide-react";
+
+import { importTodosFromCsv } from "@/features/dataTransfer/actions/dataTransferActions";
+import {
+  TODO_CSV_FIELDS,
+  type TodoCsvField,
+} from "@/features/dataTransfer/schemas/todoCsvSchemas";
+import type { CsvRow } from "@/features/dataTransfer/types/csvRow";
+import type { TodoCsvImportResult } from "@/features/dataTransfer/types/todoCsvImportResult";
+import type { TodoCsvMapping } from "@/features/dataTransfer/types/todoCsvMapping";
+import { parseCsv } from "@/features/dataTransfer/utils/csv";
+import { pluralize } from "@/features/dataTransfer/utils/importSummary";
+import {
+  TODO_CSV_FIELD_LABELS,
+  guessTodoCsvMapping,
+  previewTodoCsvRows,
+} from "@/features/dataTransfer/utils/todoCsv";
+
+// Rows shown in the preview table, and row errors listed under it
+const PREVIEW_ROW_COUNT = 10;
+const VISIBLE_ERROR_COUNT = 50;
+
+const selectClassName =
+  "max-w-[12rem] rounded-full border border-border bg-surface/80 px-3 py-1 text-xs text-foreground transition focus:border-accent focus:outline-none disabled:cursor-not-allowed disabled:opacity-60";
+
+// The file once parsed: its header and the rows below it
+type CsvFile = {
+  name: string;
+  headers: string[];
+  rows: CsvRow[];
+};
+
+type CsvImportFormProps = {
+  // Called once an import went in, so the workspace can load it
+  onImported: () => void;
+};
+
+export function CsvImportForm({ onImported }: CsvImportFormProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [csvFile, setCsvFile] = useState<CsvFile | null>(null);
+  const [mapping, setMapping] = useState<TodoCsvMapping | null>(null);
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<TodoCsvImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const preview = useMemo(
+    () =>
+      csvFile && mapping ? previewTodoCsvRows(csvFile.rows, mapping) : [],
+    [csvFile, mapping]
+  );
+  const invalidRows = preview.filter((item) => item.error !== null);
+  const validCount = preview.length - invalidRows.length;
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] ?? null;
+    setCsvFile(null);
+    setMapping(null);
+    setResult(null);
+    setError(null);
+    if (!file) {
+      return;
+    }
+
+    try {
+      const [header, ...rows] = parseCsv(await file.text());
+      if (!header || rows.length === 0) {
+        setError("The file has no rows below its header");
+        return;
+      }
+      setCsvFile({ name: file.name, headers: header.cells, rows });
+      setMapping(guessTodoCsvMapping(header.cells));
+    } catch (readError) {
+      console.error("Unexpected error reading CSV:", readError);
+      setError("Could not read this file");
+    }
+  };
+
+  const handleMappingChange = (field: TodoCsvField, value: string) => {
+    setMapping((current) =>
+      current
+        ? { ...current, [field]: value === "" ? null : Number(value) }
+        : current
+    );
+    setResult(null);
+  };
+
+  const handleImport = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (preview.length === 0) {
+      return;
+    }
+
+    setIsImporting(true);
+    setError(null);
+    setResult(null);
+    try {
+      const imported = await importTodosFromCsv({
+        rows: preview.map((item) => item.row),
+        skipInvalid,
+      });
+      if (imported.success && imported.data) {
+        setResult(imported.data);
+        setCsvFile(null);
+        setMapping(null);
+        if (fileInputRef.current) {
+          fileInputRef.current.value = "";
+        }
+        onImported();
+      } else {
+        setError(imported.error || "Failed to import todos");
+      }
+    } catch (importError) {
+      console.error("Unexpected error importing CSV:", importError);
+      setError("Failed to import todos");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const canImport =
+    validCount > 0 &&
+    (invalidRows.length === 0 || skipInvalid) &&
+    !isImporting;
+
+  return (
+    <form onSubmit={handleImport} className="space-y-3">
+      <h3 className="text-sm font-semibold text-foreground">Import CSV</h3>
+      <p className="text-xs text-foreground-subtle">
+        The first row names the columns. Todos are added to your inbox; dates
+        are read as YYYY-MM-DD and done as yes or no.
+      </p>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="text/csv,.csv"
+        onChange={handleFileChange}
+        className="block w-full text-xs text-foreground-muted file:mr-3 file:rounded-full file:border file:border-border file:bg-transparent file:px-3 file:py-1 file:text-xs file:text-foreground-muted"
+        aria-label="CSV file to import"
+        disabled={isImporting}
+      />
+
+      {error && (
+        <div className="notice notice--error">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {csvFile && mapping && (
+        <>
+          <fieldset className="space-y-2">
+            <legend className="text-xs font-semibold text-foreground">
+              Columns of {csvFile.name}
+            </legend>
+            {TODO_CSV_FIELDS.map((field) => (
+              <label
+                key={field}
+                className="flex items-center justify-between gap-3 text-xs"
+              >
+                <span className="text-foreground-muted">
+                  {TODO_CSV_FIELD_LABELS[field]}
+                </span>
+                <select
+                  value={mapping[field] ?? ""}
+                  onChange={(event) =>
+                    handleMappingChange(field, event.target.value)
+                  }
+                  className={selectClassName}
+                  disabled={isImporting}
+                >
+                  <option value="">Not imported</option>
+                  {csvFile.headers.map((header, index) => (
+                    <option key={index} value={index}>
+                      {header.trim() || `Column ${index + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </fieldset>
+
+          <div className="space-y-2">
+            <p className="text-xs text-foreground-subtle" role="status">
+              {pluralize(validCount, "row")} ready to import
+              {invalidRows.length > 0 &&
+                `, ${pluralize(invalidRows.length, "row")} with errors`}
+              .
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-xs">
+                <thead className="text-foreground-subtle">
+                  <tr>
+                    <th className="py-1 pr-3 font-medium">Line</th>
+                    {TODO_CSV_FIELDS.map((field) => (
+                      <th key={field} className="py-1 pr-3 font-medium">
+                        {TODO_CSV_FIELD_LABELS[field]}
+                      </th>
+                    ))}
+                    <th className="py-1 font-medium">Check</th>
+                  </tr>
+                </thead>
+                <tbody className="text-foreground-muted">
+                  {preview.slice(0, PREVIEW_ROW_COUNT).map((item) => (
+                    <tr key={item.row.line} className="border-t border-border">
+                      <td className="py-1 pr-3">{item.row.line}</td>
+                      {TODO_CSV_FIELDS.map((field) => (
+                        <td
+                          key={field}
+                          className="max-w-[10rem] truncate py-1 pr-3"
+                        >
+                          {item.values[field]}
+                        </td>
+                      ))}
+                      <td
+                        className={`py-1 ${
+                          item.error ? "text-red-500" : "text-foreground"
+                        }`}
+                      >
+                        {item.error ?? "OK"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {preview.length > PREVIEW_ROW_COUNT && (
+              <p className="text-xs text-foreground-subtle">
+                …and {preview.length - PREVIEW_ROW_COUNT} more rows.
+              </p>
+            )}
+          </div>
+
+          {invalidRows.length > 0 && (
+            <div className="space-y-2">
+              <ul className="space-y-1 text-xs text-foreground-muted">
+                {invalidRows.slice(0, VISIBLE_ERROR_COUNT).map((item) => (
+                  <li key={item.row.line}>
+                    <span className="text-foreground-subtle">
+                      Line {item.row.line}:
+                    </span>{" "}
+                    {item.error}
+                  </li>
+                ))}
+              </ul>
+              {invalidRows.length > VISIBLE_ERROR_COUNT && (
+                <p className="text-xs text-foreground-subtle">
+                  …and {invalidRows.length - VISIBLE_ERROR_COUNT} more.
+                </p>
+              )}
+              <label className="flex items-center gap-2 text-xs">
+                <input
+                  type="checkbox"
+                  checked={skipInvalid}
+                  onChange={(event) => setSkipInvalid(event.target.checked)}
+                  disabled={isImporting}
+                />
+                <span>Skip rows with errors and import the rest</span>
+              </label>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            className="completed-clear inline-flex items-center gap-2"
+            disabled={!canImport}
+          >
+            <Upload aria-hidden="true" className="h-3.5 w-3.5" />
+            <span>
+              {isImporting
+                ? "Importing…"
+                : `Import ${pluralize(validCount, "todo")}`}
+            </span>
+          </button>
+        </>
+      )}
+
+      {result && (
+        <div className="space-y-2" role="status">
+          <p className="text-sm text-foreground">
+            Imported {pluralize(result.importedTodos, "todo")}
+            {result.skippedRows > 0 &&
+              `, skipped ${pluralize(result.skippedRows, "row")}`}
+            .
+          </p>
+          {result.errors.length > 0 && (
+            <ul className="space-y-1 text-xs text-foreground-muted">
+              {result.errors.slice(0, VISIBLE_ERROR_COUNT).map((item) => (
+                <li key={item.line}>
+                  <span className="text-foreground-subtle">
+                    Line {item.line}:
+                  </span>{" "}
+                  {item.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </form>
+  );
+}
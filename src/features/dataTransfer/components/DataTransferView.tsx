@@ -0,0 +1,254 @@
+"use client";
+
+import { ChangeEvent, FormEvent, useState } from "react";
+import { ArrowLeft, Download, Upload } from "lucide-react";
+
+import {
+  exportTodos,
+  importTodos,
+} from "@/features/dataTransfer/actions/dataTransferActions";
+import type { TodoImportMode } from "@/features/dataTransfer/schemas/todoExportSchemas";
+import type { TodoImportResult } from "@/features/dataTransfer/types/todoImportResult";
+import { CsvExportForm } from "@/features/dataTransfer/components/CsvExportForm";
+import { CsvImportForm } from "@/features/dataTransfer/components/CsvImportForm";
+import { ExternalImportForm } from "@/features/dataTransfer/components/ExternalImportForm";
+import { TodoImportErrorList } from "@/features/dataTransfer/components/TodoImportErrorList";
+import { describeTodoImportResult } from "@/features/dataTransfer/utils/importSummary";
+import {
+  downloadFile,
+  getFileDateStamp,
+} from "@/features/dataTransfer/utils/downloadFile";
+
+const IMPORT_MODE_LABELS: Record<
+  TodoImportMode,
+  { title: string; description: string }
+> = {
+  merge: {
+    title: "Merge",
+    description:
+      "Add the file's todos to yours. Todos you already have are skipped.",
+  },
+  replace: {
+    title: "Replace",
+    description:
+      "Swap all of your todos, including trash and archive, for the file's.",
+  },
+};
+
+type DataTransferViewProps = {
+  onClose: () => void;
+  // Called once an import went in, so the workspace can load it
+  onImported: () => void;
+};
+
+export function DataTransferView({ onClose, onImported }: DataTransferViewProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<TodoImportMode>("merge");
+  const [isConfirmingReplace, setIsConfirmingReplace] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<TodoImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const exported = await exportTodos();
+      if (exported.success && exported.data) {
+        downloadFile(
+          JSON.stringify(exported.data, null, 2),
+          `pandora-box-todos-${getFileDateStamp()}.json`,
+          "application/json"
+        );
+      } else {
+        setError(exported.error || "Failed to export todos");
+      }
+    } catch (exportError) {
+      console.error("Unexpected error exporting todos:", exportError);
+      setError("Failed to export todos");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    setFile(event.target.files?.[0] ?? null);
+    setResult(null);
+    setError(null);
+  };
+
+  const runImport = async () => {
+    if (!file) {
+      return;
+    }
+
+    setIsConfirmingReplace(false);
+    setIsImporting(true);
+    setError(null);
+    setResult(null);
+    try {
+      let document: unknown;
+      try {
+        document = JSON.parse(await file.text());
+      } catch {
+        setError("This file is not valid JSON");
+        return;
+      }
+
+      const imported = await importTodos({ document, mode });
+      if (imported.success && imported.data) {
+        setResult(imported.data);
+        onImported();
+      } else {
+        setError(imported.error || "Failed to import todos");
+      }
+    } catch (importError) {
+      console.error("Unexpected error importing todos:", importError);
+      setError("Failed to import todos");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleImport = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (mode === "replace") {
+      setIsConfirmingReplace(true);
+      return;
+    }
+    void runImport();
+  };
+
+  return (
+    <section className="mt-12 space-y-8">
+      <button
+        type="button"
+        onClick={onClose}
+        className="completed-clear inline-flex items-center gap-2"
+      >
+        <ArrowLeft aria-hidden="true" className="h-3.5 w-3.5" />
+        <span>Back to todos</span>
+      </button>
+
+      <div>
+        <h2 className="section-title">Import &amp; export</h2>
+        <p className="mt-2 text-xs text-foreground-subtle">
+          Move your todos between accounts, or keep a copy of your own.
+        </p>
+      </div>
+
+      {error && (
+        <div className="notice notice--error">
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-foreground">Export JSON</h3>
+        <p className="text-xs text-foreground-subtle">
+          Every todo with its notes, subtasks, tags and projects, including
+          trash and archive, as one JSON file.
+        </p>
+        <button
+          type="button"
+          onClick={handleExport}
+          className="completed-clear inline-flex items-center gap-2"
+          disabled={isExporting || isImporting}
+        >
+          <Download aria-hidden="true" className="h-3.5 w-3.5" />
+          <span>{isExporting ? "Exporting…" : "Download JSON"}</span>
+        </button>
+      </div>
+
+      <form onSubmit={handleImport} className="space-y-3">
+        <h3 className="text-sm font-semibold text-foreground">Import JSON</h3>
+        <input
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          className="block w-full text-xs text-foreground-muted file:mr-3 file:rounded-full file:border file:border-border file:bg-transparent file:px-3 file:py-1 file:text-xs file:text-foreground-muted"
+          aria-label="Export file to import"
+          disabled={isImporting}
+        />
+
+        <fieldset className="space-y-2">
+          <legend className="sr-only">Import mode</legend>
+          {(Object.keys(IMPORT_MODE_LABELS) as TodoImportMode[]).map(
+            (option) => (
+              <label key={option} className="flex items-start gap-2 text-xs">
+                <input
+                  type="radio"
+                  name="import-mode"
+                  value={option}
+                  checked={mode === option}
+                  onChange={() => {
+                    setMode(option);
+                    setIsConfirmingReplace(false);
+                  }}
+                  className="mt-0.5"
+                  disabled={isImporting}
+                />
+                <span>
+                  <span className="font-semibold text-foreground">
+                    {IMPORT_MODE_LABELS[option].title}
+                  </span>{" "}
+                  <span className="text-foreground-subtle">
+                    {IMPORT_MODE_LABELS[option].description}
+                  </span>
+                </span>
+              </label>
+            )
+          )}
+        </fieldset>
+
+        {isConfirmingReplace ? (
+          <div className="notice notice--error">
+            <p>
+              Replace all of your todos with the ones in {file?.name}? Todos
+              that are not in the file are deleted for good.
+            </p>
+            <div className="mt-2 flex gap-3">
+              <button
+                type="button"
+                onClick={() => void runImport()}
+                className="completed-clear"
+              >
+                Replace everything
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsConfirmingReplace(false)}
+                className="completed-clear"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            type="submit"
+            className="completed-clear inline-flex items-center gap-2"
+            disabled={!file || isImporting || isExporting}
+          >
+            <Upload aria-hidden="true" className="h-3.5 w-3.5" />
+            <span>{isImporting ? "Importing…" : "Import"}</span>
+          </button>
+        )}
+      </form>
+
+      {result && (
+        <div className="space-y-2" role="status">
+          <p className="text-sm text-foreground">
+            {describeTodoImportResult(result)}
+          </p>
+          <TodoImportErrorList errors={result.errors} tense="past" />
+        </div>
+      )}
+
+      <CsvExportForm />
+      <CsvImportForm onImported={onImported} />
+      <ExternalImportForm onImported={onImported} />
+    </section>
+  );
+}
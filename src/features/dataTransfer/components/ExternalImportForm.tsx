@@ -0,0 +1,172 @@
+"use client";
+
+import { ChangeEvent, FormEvent, useRef, useState } from "react";
+import { Upload } from "lucide-react";
+
+import { importTodos } from "@/features/dataTransfer/actions/dataTransferActions";
+import { TodoImportErrorList } from "@/features/dataTransfer/components/TodoImportErrorList";
+import type { ExternalImportPreview } from "@/features/dataTransfer/types/externalImportPreview";
+import type { TodoImportResult } from "@/features/dataTransfer/types/todoImportResult";
+import {
+  EXTERNAL_IMPORT_SOURCE_LABELS,
+  previewExternalImport,
+} from "@/features/dataTransfer/utils/externalImport";
+import {
+  describeTodoImportResult,
+  pluralize,
+} from "@/features/dataTransfer/utils/importSummary";
+
+// The dry run of a converted file, one fact per line
+const describePreview = (preview: ExternalImportPreview) =>
+  [
+    pluralize(preview.projects, "project"),
+    `${pluralize(preview.tags, "tag")} from labels and ${
+      preview.source === "trello" ? "lists" : "sections"
+    }`,
+    `${pluralize(preview.todos, "todo")} with ${pluralize(
+      preview.subtasks,
+      "subtask"
+    )}`,
+    `${preview.completed} completed`,
+    preview.archived > 0 && `${preview.archived} archived`,
+    `${preview.withNotes} with notes from their description`,
+  ].filter((line): line is string => Boolean(line));
+
+type ExternalImportFormProps = {
+  // Called once an import went in, so the workspace can load it
+  onImported: () => void;
+};
+
+export function ExternalImportForm({ onImported }: ExternalImportFormProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [preview, setPreview] = useState<ExternalImportPreview | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<TodoImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] ?? null;
+    setPreview(null);
+    setResult(null);
+    setError(null);
+    if (!file) {
+      return;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      setError("This file is not valid JSON");
+      return;
+    }
+
+    const converted = previewExternalImport(data);
+    if (converted.error !== null) {
+      setError(converted.error);
+    } else {
+      setPreview(converted.preview);
+    }
+  };
+
+  // Runs as a merge, so importing the same file again skips what is there
+  const handleImport = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!preview) {
+      return;
+    }
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      const imported = await importTodos({
+        document: preview.document,
+        mode: "merge",
+      });
+      if (imported.success && imported.data) {
+        setResult(imported.data);
+        setPreview(null);
+        if (fileInputRef.current) {
+          fileInputRef.current.value = "";
+        }
+        onImported();
+      } else {
+        setError(imported.error || "Failed to import todos");
+      }
+    } catch (importError) {
+      console.error("Unexpected error importing an export:", importError);
+      setError("Failed to import todos");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleImport} className="space-y-3">
+      <h3 className="text-sm font-semibold text-foreground">
+        Import from Todoist or Trello
+      </h3>
+      <p className="text-xs text-foreground-subtle">
+        Pick a Todoist JSON backup or a board exported from Trello as JSON.
+        Nothing is saved until you confirm the summary.
+      </p>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleFileChange}
+        className="block w-full text-xs text-foreground-muted file:mr-3 file:rounded-full file:border file:border-border file:bg-transparent file:px-3 file:py-1 file:text-xs file:text-foreground-muted"
+        aria-label="Todoist or Trello export to import"
+        disabled={isImporting}
+      />
+
+      {error && (
+        <div className="notice notice--error">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {preview && (
+        <div className="space-y-2" role="status">
+          <p className="text-sm text-foreground">
+            This {EXTERNAL_IMPORT_SOURCE_LABELS[preview.source]} export would
+            add:
+          </p>
+          <ul className="list-disc space-y-1 pl-5 text-xs text-foreground-muted">
+            {describePreview(preview).map((line) => (
+              <li key={line}>{line}</li>
+            ))}
+          </ul>
+          <p className="text-xs text-foreground-subtle">
+            Projects and tags you already have are reused by name.
+          </p>
+          <TodoImportErrorList errors={preview.errors} tense="future" />
+          <button
+            type="submit"
+            className="completed-clear inline-flex items-center gap-2"
+            disabled={isImporting || preview.todos === 0}
+          >
+            <Upload aria-hidden="true" className="h-3.5 w-3.5" />
+            <span>
+              {isImporting
+                ? "Importing…"
+                : `Import ${pluralize(
+                    preview.todos + preview.subtasks,
+                    "todo"
+                  )}`}
+            </span>
+          </button>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-2" role="status">
+          <p className="text-sm text-foreground">
+            {describeTodoImportResult(result)}
+          </p>
+          <TodoImportErrorList errors={result.errors} tense="past" />
+        </div>
+      )}
+    </form>
+  );
+}
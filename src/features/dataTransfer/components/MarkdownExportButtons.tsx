@@ -0,0 +1,148 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, Copy, FileDown } from "lucide-react";
+
+import { getTodoContents } from "@/features/dataTransfer/actions/dataTransferActions";
+import type { TodoMarkdownSource } from "@/features/dataTransfer/types/todoMarkdownSource";
+import { downloadFile } from "@/features/dataTransfer/utils/downloadFile";
+import {
+  getMarkdownFileName,
+  renderTodoListMarkdown,
+  renderTodoMarkdown,
+} from "@/features/dataTransfer/utils/todoMarkdown";
+import type { Project } from "@/types/database";
+
+// How long "Copied" stays on the copy button
+const COPIED_DURATION_MS = 2000;
+
+type MarkdownExportButtonsProps = {
+  // Heading and file name of the document
+  title: string;
+  sources: TodoMarkdownSource[];
+  projects: Project[];
+  // "todo" exports the first source as its own document, "list" all of them
+  variant: "todo" | "list";
+  disabled?: boolean;
+};
+
+export function MarkdownExportButtons({
+  title,
+  sources,
+  projects,
+  variant,
+  disabled = false,
+}: MarkdownExportButtonsProps) {
+  const [pendingAction, setPendingAction] = useState<
+    "copy" | "download" | null
+  >(null);
+  const [hasCopied, setHasCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!hasCopied) {
+      return;
+    }
+    const timeout = window.setTimeout(
+      () => setHasCopied(false),
+      COPIED_DURATION_MS
+    );
+    return () => window.clearTimeout(timeout);
+  }, [hasCopied]);
+
+  // The notes live only on the server, so they are loaded on every export
+  const buildMarkdown = async () => {
+    const result = await getTodoContents({
+      ids: sources.map((source) => source.todo.id),
+    });
+    if (!result.success || !result.data) {
+      setError(result.error || "Failed to export Markdown");
+      return null;
+    }
+
+    const contents = new Map(result.data.map((row) => [row.id, row.content]));
+    return variant === "todo"
+      ? renderTodoMarkdown(
+          sources[0],
+          contents.get(sources[0].todo.id),
+          projects
+        )
+      : renderTodoListMarkdown(title, sources, contents, projects);
+  };
+
+  const runExport = async (action: "copy" | "download") => {
+    setPendingAction(action);
+    setHasCopied(false);
+    setError(null);
+    try {
+      const markdown = await buildMarkdown();
+      if (markdown === null) {
+        return;
+      }
+
+      if (action === "copy") {
+        try {
+          await navigator.clipboard.writeText(markdown);
+          setHasCopied(true);
+        } catch (copyError) {
+          console.error("Unexpected error copying Markdown:", copyError);
+          setError("Could not copy to the clipboard. Download it instead.");
+        }
+      } else {
+        downloadFile(markdown, getMarkdownFileName(title), "text/markdown");
+      }
+    } catch (exportError) {
+      console.error("Unexpected error exporting Markdown:", exportError);
+      setError("Failed to export Markdown");
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const isDisabled =
+    disabled || sources.length === 0 || pendingAction !== null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => void runExport("copy")}
+          className="completed-clear inline-flex items-center gap-2"
+          disabled={isDisabled}
+          title="Copy as Markdown"
+        >
+          {hasCopied ? (
+            <Check aria-hidden="true" className="h-3.5 w-3.5" />
+          ) : (
+            <Copy aria-hidden="true" className="h-3.5 w-3.5" />
+          )}
+          <span>
+            {pendingAction === "copy"
+              ? "Copying…"
+              : hasCopied
+                ? "Copied"
+                : "Copy Markdown"}
+          </span>
+        </button>
+        <button
+          type="button"
+          onClick={() => void runExport("download")}
+          className="completed-clear inline-flex items-center gap-2"
+          disabled={isDisabled}
+          title="Download as a Markdown file"
+        >
+          <FileDown aria-hidden="true" className="h-3.5 w-3.5" />
+          <span>
+            {pendingAction === "download" ? "Exporting…" : "Download .md"}
+          </span>
+        </button>
+      </div>
+      {error && (
+        <div className="notice notice--error" role="alert">
+          <p>{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import type { TodoImportItemError } from "@/features/dataTransfer/types/todoImportResult";
+import { pluralize } from "@/features/dataTransfer/utils/importSummary";
+
+// Item errors shown at once; the rest are summed up
+const VISIBLE_ERROR_COUNT = 50;
+
+type TodoImportErrorListProps = {
+  errors: TodoImportItemError[];
+  // Whether the items were left out already or will be
+  tense: "past" | "future";
+};
+
+export function TodoImportErrorList({
+  errors,
+  tense,
+}: TodoImportErrorListProps) {
+  if (errors.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <p className="text-xs text-foreground-subtle">
+        {pluralize(errors.length, "item")}{" "}
+        {tense === "past" ? "could not be imported" : "will be skipped"}:
+      </p>
+      <ul className="space-y-1 text-xs text-foreground-muted">
+        {errors.slice(0, VISIBLE_ERROR_COUNT).map((item) => (
+          <li key={`${item.list}-${item.index}`}>
+            <span className="text-foreground-subtle">
+              {item.list} #{item.index + 1}
+              {item.label && ` “${item.label}”`}:
+            </span>{" "}
+            {item.message}
+          </li>
+        ))}
+      </ul>
+      {errors.length > VISIBLE_ERROR_COUNT && (
+        <p className="text-xs text-foreground-subtle">
+          …and {errors.length - VISIBLE_ERROR_COUNT} more.
+        </p>
+      )}
+    </>
+  );
+}
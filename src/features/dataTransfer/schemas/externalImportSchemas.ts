@@ -0,0 +1,127 @@
+import { z } from "zod";
+
+// Tools whose export files can be imported
+export const EXTERNAL_IMPORT_SOURCES = ["todoist", "trello"] as const;
+
+// Todoist ids are strings in newer exports and numbers in older ones
+const todoistIdSchema = z
+  .union([z.string(), z.number()])
+  .transform((id) => String(id));
+
+const todoistProjectSchema = z.object({
+  id: todoistIdSchema,
+  name: z.string(),
+  color: z.string().optional(),
+  parent_id: todoistIdSchema.nullable().optional(),
+  is_archived: z.boolean().optional(),
+  is_deleted: z.boolean().optional(),
+  inbox_project: z.boolean().optional(),
+  is_inbox_project: z.boolean().optional(),
+});
+
+const todoistSectionSchema = z.object({
+  id: todoistIdSchema,
+  name: z.string(),
+  project_id: todoistIdSchema,
+  is_deleted: z.boolean().optional(),
+});
+
+const todoistLabelSchema = z.object({
+  name: z.string(),
+  color: z.string().optional(),
+  is_deleted: z.boolean().optional(),
+});
+
+const todoistTaskSchema = z.object({
+  id: todoistIdSchema,
+  project_id: todoistIdSchema,
+  section_id: todoistIdSchema.nullable().optional(),
+  parent_id: todoistIdSchema.nullable().optional(),
+  content: z.string(),
+  description: z.string().optional(),
+  // Sync exports use checked, the REST API is_completed
+  checked: z.union([z.boolean(), z.number()]).optional(),
+  is_completed: z.boolean().optional(),
+  is_deleted: z.union([z.boolean(), z.number()]).optional(),
+  // 4 is Todoist's highest priority (p1), 1 its default
+  priority: z.number().int().min(1).max(4).optional(),
+  labels: z.array(z.string()).optional(),
+  due: z.object({ date: z.string() }).nullable().optional(),
+  child_order: z.number().optional(),
+  order: z.number().optional(),
+  added_at: z.string().nullable().optional(),
+  created_at: z.string().nullable().optional(),
+  completed_at: z.string().nullable().optional(),
+});
+
+// A Todoist backup or Sync API dump; tasks are called items there
+export const todoistExportSchema = z
+  .object({
+    projects: z.array(todoistProjectSchema).default([]),
+    sections: z.array(todoistSectionSchema).default([]),
+    labels: z.array(todoistLabelSchema).default([]),
+    items: z.array(todoistTaskSchema).optional(),
+    tasks: z.array(todoistTaskSchema).optional(),
+  })
+  .refine((data) => data.items !== undefined || data.tasks !== undefined, {
+    message: "This Todoist export has no tasks",
+  });
+
+const trelloListSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  closed: z.boolean().default(false),
+  pos: z.number().default(0),
+});
+
+const trelloLabelSchema = z.object({
+  id: z.string(),
+  name: z.string().default(""),
+  color: z.string().nullable().optional(),
+});
+
+const trelloCardSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  desc: z.string().default(""),
+  closed: z.boolean().default(false),
+  idList: z.string(),
+  idLabels: z.array(z.string()).default([]),
+  start: z.string().nullable().optional(),
+  due: z.string().nullable().optional(),
+  dueComplete: z.boolean().default(false),
+  pos: z.number().default(0),
+  dateLastActivity: z.string().nullable().optional(),
+});
+
+const trelloChecklistSchema = z.object({
+  id: z.string(),
+  idCard: z.string(),
+  pos: z.number().default(0),
+  checkItems: z
+    .array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        state: z.string(),
+        pos: z.number().default(0),
+      })
+    )
+    .default([]),
+});
+
+// A board exported from Trello's "Print, export and share" menu
+export const trelloBoardSchema = z.object({
+  name: z.string(),
+  closed: z.boolean().default(false),
+  lists: z.array(trelloListSchema),
+  cards: z.array(trelloCardSchema),
+  labels: z.array(trelloLabelSchema).default([]),
+  checklists: z.array(trelloChecklistSchema).default([]),
+});
+
+// Export types inferred from schemas
+export type ExternalImportSource = (typeof EXTERNAL_IMPORT_SOURCES)[number];
+export type TodoistExport = z.infer<typeof todoistExportSchema>;
+export type TodoistTask = z.infer<typeof todoistTaskSchema>;
+export type TrelloBoard = z.infer<typeof trelloBoardSchema>;
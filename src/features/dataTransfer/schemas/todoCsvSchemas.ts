@@ -0,0 +1,72 @@
+import { z } from "zod";
+
+// Columns a CSV export can include, in the order they are written
+export const TODO_CSV_COLUMNS = [
+  "text",
+  "description",
+  "done",
+  "priority",
+  "project",
+  "tags",
+  "parent",
+  "start_at",
+  "due_at",
+  "recurrence",
+  "completed_at",
+  "created_at",
+  "updated_at",
+] as const;
+
+// Todo fields a CSV import can fill from the file's columns
+export const TODO_CSV_FIELDS = [
+  "text",
+  "description",
+  "done",
+  "start_at",
+  "due_at",
+] as const;
+
+const MAX_IMPORTED_ROWS = 5000;
+
+const CSV_TRUE_VALUES = ["yes", "y", "true", "1", "x", "done", "completed"];
+const CSV_FALSE_VALUES = ["no", "n", "false", "0", "", "open"];
+
+// A done cell as written in the file; a blank one means open
+export const csvDoneSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .refine(
+    (value) =>
+      CSV_TRUE_VALUES.includes(value) || CSV_FALSE_VALUES.includes(value),
+    "Done must be yes or no"
+  )
+  .transform((value) => CSV_TRUE_VALUES.includes(value));
+
+// A mapped row. Its cells stay unchecked here, so a bad row is reported on
+// its own: done against csvDoneSchema, the todo against createTodoSchema
+const csvTodoRowSchema = z.object({
+  // Line of the file the row came from, for error messages
+  line: z.number().int().positive("Invalid line number"),
+  done: z.unknown(),
+  todo: z.unknown(),
+});
+
+// Schema for importing mapped CSV rows; without skipInvalid one bad row
+// stops the whole import
+export const importTodosFromCsvSchema = z.object({
+  rows: z
+    .array(csvTodoRowSchema)
+    .min(1, "The file has no rows to import")
+    .max(
+      MAX_IMPORTED_ROWS,
+      `Cannot import more than ${MAX_IMPORTED_ROWS} rows at once`
+    ),
+  skipInvalid: z.boolean().default(false),
+});
+
+// Export types inferred from schemas
+export type TodoCsvColumn = (typeof TODO_CSV_COLUMNS)[number];
+export type TodoCsvField = (typeof TODO_CSV_FIELDS)[number];
+export type CsvTodoRow = z.input<typeof csvTodoRowSchema>;
+export type ImportTodosFromCsvInput = z.input<typeof importTodosFromCsvSchema>;
@@ -0,0 +1,135 @@
+import { z } from "zod";
+
+import {
+  TODO_PRIORITIES,
+  createTodoSchema,
+  todoRecurrenceSchema,
+} from "@/features/todos/schemas/todoSchemas";
+import {
+  PROJECT_ICONS,
+  createProjectSchema,
+} from "@/features/projects/schemas/projectSchemas";
+import { createTagSchema } from "@/features/tags/schemas/tagSchemas";
+
+// Identifies an export; bump the version whenever the document shape changes
+export const TODO_EXPORT_FORMAT = "pandora-box/todos";
+export const TODO_EXPORT_VERSION = 1;
+
+// merge adds to what is there; replace swaps the whole dataset for the file's
+export const TODO_IMPORT_MODES = ["merge", "replace"] as const;
+
+const MAX_IMPORTED_PROJECTS = 500;
+const MAX_IMPORTED_TAGS = 1000;
+const MAX_IMPORTED_TODOS = 10000;
+
+// Ids in a document only link its items together; imports assign new ones
+const exportIdSchema = z.number().int().positive("Invalid ID");
+
+const timestampSchema = z.iso.datetime({
+  offset: true,
+  message: "Invalid timestamp",
+});
+
+const optionalTimestampSchema = timestampSchema.nullable().default(null);
+
+export const exportedProjectSchema = z.object({
+  id: exportIdSchema,
+  name: createProjectSchema.shape.name,
+  color: createProjectSchema.shape.color,
+  icon: z.enum(PROJECT_ICONS, { message: "Invalid icon" }).optional(),
+  archived: z.boolean().default(false),
+  // The inbox is merged into the importing user's own inbox
+  is_inbox: z.boolean().default(false),
+  created_at: timestampSchema.optional(),
+  updated_at: timestampSchema.optional(),
+});
+
+export const exportedTagSchema = z.object({
+  id: exportIdSchema,
+  name: createTagSchema.shape.name,
+  color: createTagSchema.shape.color,
+  created_at: timestampSchema.optional(),
+  updated_at: timestampSchema.optional(),
+});
+
+export const exportedTodoSchema = z
+  .object({
+    id: exportIdSchema,
+    text: createTodoSchema.shape.text,
+    description: createTodoSchema.shape.description,
+    content: z.array(z.unknown()).default([]),
+    done: z.boolean().default(false),
+    start_at: optionalTimestampSchema,
+    due_at: optionalTimestampSchema,
+    priority: z
+      .enum(TODO_PRIORITIES, { message: "Invalid priority" })
+      .default("none"),
+    recurrence: todoRecurrenceSchema.nullable().default(null),
+    // A missing or unknown project puts the todo in the inbox
+    project_id: exportIdSchema.nullable().default(null),
+    parent_id: exportIdSchema.nullable().default(null),
+    subtask_position: z.number().int().min(0).default(0),
+    // Only the order matters; imports give todos fresh keys
+    position: z.string().max(200).optional(),
+    tag_ids: z.array(exportIdSchema).max(100).default([]),
+    deleted_at: optionalTimestampSchema,
+    completed_at: optionalTimestampSchema,
+    archived_at: optionalTimestampSchema,
+    created_at: timestampSchema.optional(),
+    updated_at: timestampSchema.optional(),
+  })
+  .refine(
+    (data) =>
+      !data.start_at ||
+      !data.due_at ||
+      new Date(data.start_at).getTime() <= new Date(data.due_at).getTime(),
+    {
+      message: "Start date must be on or before the due date",
+      path: ["start_at"],
+    }
+  );
+
+/*
+ * The document itself. Items stay unknown here so one bad todo is reported
+ * on its own instead of rejecting the whole file.
+ */
+export const todoExportDocumentSchema = z.object({
+  format: z.literal(TODO_EXPORT_FORMAT, {
+    message: "This file is not a Pandora Box export",
+  }),
+  version: z.literal(TODO_EXPORT_VERSION, {
+    message: `Only version ${TODO_EXPORT_VERSION} exports can be imported`,
+  }),
+  exported_at: timestampSchema.optional(),
+  projects: z
+    .array(z.unknown())
+    .max(
+      MAX_IMPORTED_PROJECTS,
+      `Cannot import more than ${MAX_IMPORTED_PROJECTS} projects`
+    )
+    .default([]),
+  tags: z
+    .array(z.unknown())
+    .max(MAX_IMPORTED_TAGS, `Cannot import more than ${MAX_IMPORTED_TAGS} tags`)
+    .default([]),
+  todos: z
+    .array(z.unknown())
+    .max(
+      MAX_IMPORTED_TODOS,
+      `Cannot import more than ${MAX_IMPORTED_TODOS} todos`
+    ),
+});
+
+// Schema for importing an export document
+export const importTodosSchema = z.object({
+  document: z.unknown(),
+  mode: z.enum(TODO_IMPORT_MODES).optional().default("merge"),
+});
+
+// Export types inferred from schemas
+export type ExportedProject = z.infer<typeof exportedProjectSchema>;
+export type ExportedTag = z.infer<typeof exportedTagSchema>;
+export type ExportedTodo = z.infer<typeof exportedTodoSchema>;
+export type TodoExportEnvelope = z.infer<typeof todoExportDocumentSchema>;
+export type TodoImportMode = (typeof TODO_IMPORT_MODES)[number];
+export type ImportTodosInput = z.input<typeof importTodosSchema>;
@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+// Schema for loading the content of the todos exported as Markdown
+export const getTodoContentsSchema = z.object({
+  ids: z
+    .array(z.number().int().positive("Invalid todo ID"))
+    .min(1, "There are no todos to export")
+    .max(1000, "Cannot export more than 1000 todos at once"),
+});
+
+// Export types inferred from schemas
+export type GetTodoContentsInput = z.infer<typeof getTodoContentsSchema>;
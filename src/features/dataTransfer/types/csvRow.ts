@@ -0,0 +1,5 @@
+// A parsed CSV row with the line of the file it starts on
+export type CsvRow = {
+  line: number;
+  cells: string[];
+};
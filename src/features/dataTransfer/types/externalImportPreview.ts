@@ -0,0 +1,19 @@
+import type { ExternalImportSource } from "../schemas/externalImportSchemas";
+import type { TodoExportDocument } from "./todoExport";
+import type { TodoImportItemError } from "./todoImportResult";
+
+// A converted export file and what importing it would add, before anything
+// is written
+export type ExternalImportPreview = {
+  source: ExternalImportSource;
+  document: TodoExportDocument;
+  projects: number;
+  tags: number;
+  todos: number;
+  subtasks: number;
+  completed: number;
+  archived: number;
+  // Todos whose description became notes
+  withNotes: number;
+  errors: TodoImportItemError[];
+};
@@ -0,0 +1,12 @@
+// A row of the file that could not be imported, by its line number
+export type TodoCsvRowError = {
+  line: number;
+  message: string;
+};
+
+// What a CSV import added; rows with errors were skipped
+export type TodoCsvImportResult = {
+  importedTodos: number;
+  skippedRows: number;
+  errors: TodoCsvRowError[];
+};
@@ -0,0 +1,4 @@
+import type { TodoCsvField } from "../schemas/todoCsvSchemas";
+
+// The column of the file each todo field is read from; null leaves it empty
+export type TodoCsvMapping = Record<TodoCsvField, number | null>;
@@ -0,0 +1,9 @@
+import type { CsvTodoRow, TodoCsvField } from "../schemas/todoCsvSchemas";
+
+// A mapped row as the preview shows it, with the first problem it has
+export type TodoCsvPreviewRow = {
+  row: CsvTodoRow;
+  // The mapped cells as they appear in the file
+  values: Record<TodoCsvField, string>;
+  error: string | null;
+};
@@ -0,0 +1,17 @@
+import type {
+  ExportedProject,
+  ExportedTag,
+  ExportedTodo,
+  TODO_EXPORT_FORMAT,
+  TODO_EXPORT_VERSION,
+} from "../schemas/todoExportSchemas";
+
+// Every project, tag and todo of a user (trash and archive included)
+export type TodoExportDocument = {
+  format: typeof TODO_EXPORT_FORMAT;
+  version: typeof TODO_EXPORT_VERSION;
+  exported_at: string;
+  projects: ExportedProject[];
+  tags: ExportedTag[];
+  todos: ExportedTodo[];
+};
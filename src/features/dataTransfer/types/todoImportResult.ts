@@ -0,0 +1,23 @@
+import type { TodoImportMode } from "../schemas/todoExportSchemas";
+
+// An item of the document that was left out, by its place in its list
+export type TodoImportItemError = {
+  list: "projects" | "tags" | "todos";
+  index: number;
+  // The item's name or text, when it had a readable one
+  label: string | null;
+  message: string;
+};
+
+// What an import changed; items with errors were skipped, the rest went in
+export type TodoImportResult = {
+  mode: TodoImportMode;
+  createdProjects: number;
+  createdTags: number;
+  importedTodos: number;
+  // Merge only: todos already there, matched on text and creation time
+  skippedTodos: number;
+  // Replace only: todos that were there before the import
+  removedTodos: number;
+  errors: TodoImportItemError[];
+};
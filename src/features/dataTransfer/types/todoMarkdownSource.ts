@@ -0,0 +1,7 @@
+import type { TodoListItem } from "@/types/database";
+
+// A todo to export as Markdown, with its subtasks in checklist order
+export type TodoMarkdownSource = {
+  todo: TodoListItem;
+  subtasks: TodoListItem[];
+};
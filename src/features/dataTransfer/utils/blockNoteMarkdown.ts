@@ -0,0 +1,294 @@
+import type { PartialBlock } from "@blocknote/core";
+
+type InlineNode = {
+  type?: string;
+  text?: string;
+  href?: string;
+  styles?: Record<string, unknown>;
+  content?: unknown;
+};
+
+type BlockProps = Record<string, unknown>;
+
+type TableContent = {
+  type: "tableContent";
+  rows: { cells: unknown[] }[];
+};
+
+const LIST_BLOCK_TYPES = new Set([
+  "bulletListItem",
+  "numberedListItem",
+  "checkListItem",
+  "toggleListItem",
+]);
+
+// Characters that would otherwise start emphasis, code or links
+export const escapeMarkdown = (text: string) =>
+  text.replace(/([\\`*_[\]])/g, "\\$1");
+
+// Wrap text in backticks that cannot clash with the ones inside it
+const toCodeSpan = (text: string) => {
+  const longestRun = Math.max(
+    0,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length)
+  );
+  const fence = "`".repeat(longestRun + 1);
+  const padding = text.startsWith("`") || text.endsWith("`") ? " " : "";
+  return `${fence}${padding}${text}${padding}${fence}`;
+};
+
+const styleText = (node: InlineNode) => {
+  const text = node.text ?? "";
+  const styles = node.styles ?? {};
+  if (!text.trim()) {
+    return text;
+  }
+  if (styles.code) {
+    return toCodeSpan(text);
+  }
+
+  let styled = escapeMarkdown(text);
+  if (styles.strike) {
+    styled = `~~${styled}~~`;
+  }
+  if (styles.italic) {
+    styled = `_${styled}_`;
+  }
+  if (styles.bold) {
+    styled = `**${styled}**`;
+  }
+  return styled;
+};
+
+const getInlineMarkdown = (content: unknown): string => {
+  if (typeof content === "string") {
+    return escapeMarkdown(content);
+  }
+  if (!Array.isArray(content)) {
+    // Table cells wrap their inline content in a cell object
+    return typeof content === "object" && content !== null
+      ? getInlineMarkdown((content as InlineNode).content)
+      : "";
+  }
+
+  return (content as (InlineNode | string)[])
+    .map((node) => {
+      if (typeof node === "string") {
+        return escapeMarkdown(node);
+      }
+      if (node.type === "link") {
+        return `[${getInlineMarkdown(node.content)}](${node.href ?? ""})`;
+      }
+      return styleText(node);
+    })
+    .join("")
+    .replace(/\n/g, "  \n");
+};
+
+// Plain text of inline content, for code blocks
+const getInlineText = (content: unknown): string => {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return "";
+  }
+  return (content as (InlineNode | string)[])
+    .map((node) =>
+      typeof node === "string"
+        ? node
+        : node.type === "link"
+          ? getInlineText(node.content)
+          : (node.text ?? "")
+    )
+    .join("");
+};
+
+const isTableContent = (content: unknown): content is TableContent =>
+  typeof content === "object" &&
+  content !== null &&
+  (content as { type?: unknown }).type === "tableContent" &&
+  Array.isArray((content as { rows?: unknown }).rows);
+
+const renderTable = (content: TableContent) => {
+  const rows = content.rows.map((row) =>
+    (row.cells ?? []).map((cell) =>
+      getInlineMarkdown(cell).replace(/\|/g, "\\|").replace(/ {2}\n/g, " ")
+    )
+  );
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const columnCount = Math.max(...rows.map((row) => row.length));
+  const toLine = (cells: string[]) =>
+    `| ${Array.from(
+      { length: columnCount },
+      (_, index) => cells[index] ?? ""
+    ).join(" | ")} |`;
+
+  return [
+    toLine(rows[0]),
+    toLine(Array.from({ length: columnCount }, () => "---")),
+    ...rows.slice(1).map(toLine),
+  ];
+};
+
+const renderCodeBlock = (content: unknown, props: BlockProps) => {
+  const code = getInlineText(content);
+  const longestRun = Math.max(
+    2,
+    ...(code.match(/`+/g) ?? []).map((run) => run.length)
+  );
+  const fence = "`".repeat(longestRun + 1);
+  const language =
+    typeof props.language === "string" && props.language !== "text"
+      ? props.language
+      : "";
+  return [`${fence}${language}`, ...code.split("\n"), fence];
+};
+
+// Images, videos, audio and files become links to where they are stored
+const renderMedia = (type: string, props: BlockProps) => {
+  const url = typeof props.url === "string" ? props.url : "";
+  if (!url) {
+    return [];
+  }
+  const name =
+    (typeof props.caption === "string" && props.caption) ||
+    (typeof props.name === "string" && props.name) ||
+    url;
+  return [
+    `${type === "image" ? "!" : ""}[${escapeMarkdown(name)}](${url})`,
+  ];
+};
+
+type RenderOptions = {
+  // Added to heading levels, so notes sit below the todo's own heading
+  headingOffset: number;
+};
+
+// Markdown lines of one block; the marker is the list prefix, if any
+const renderBlock = (
+  block: PartialBlock,
+  listNumber: number,
+  options: RenderOptions
+): { marker: string; lines: string[] } => {
+  const props = (block.props ?? {}) as BlockProps;
+  const content: unknown = block.content;
+  const text = () => getInlineMarkdown(content);
+
+  switch (block.type) {
+    case "heading": {
+      const level = Math.min(
+        6,
+        (typeof props.level === "number" ? props.level : 1) +
+          options.headingOffset
+      );
+      return { marker: "", lines: [`${"#".repeat(level)} ${text()}`] };
+    }
+    case "quote":
+      return {
+        marker: "",
+        lines: text()
+          .split("\n")
+          .map((line) => `> ${line}`),
+      };
+    case "bulletListItem":
+    case "toggleListItem":
+      return { marker: "- ", lines: [text()] };
+    case "numberedListItem":
+      return { marker: `${listNumber}. `, lines: [text()] };
+    case "checkListItem":
+      return {
+        marker: props.checked ? "- [x] " : "- [ ] ",
+        lines: [text()],
+      };
+    case "codeBlock":
+      return { marker: "", lines: renderCodeBlock(content, props) };
+    case "table":
+      return {
+        marker: "",
+        lines: isTableContent(content) ? renderTable(content) : [],
+      };
+    case "image":
+    case "video":
+    case "audio":
+    case "file":
+      return { marker: "", lines: renderMedia(block.type, props) };
+    case "divider":
+      return { marker: "", lines: ["---"] };
+    default:
+      return { marker: "", lines: isTableContent(content) ? [] : [text()] };
+  }
+};
+
+const renderBlocks = (
+  blocks: PartialBlock[],
+  options: RenderOptions
+): string[] => {
+  const output: string[] = [];
+  let previousType: string | undefined;
+  let listNumber = 0;
+
+  for (const block of blocks) {
+    const type = block.type ?? "paragraph";
+    const start = (block.props as BlockProps | undefined)?.start;
+    listNumber =
+      type === "numberedListItem"
+        ? previousType === "numberedListItem"
+          ? listNumber + 1
+          : typeof start === "number"
+            ? start
+            : 1
+        : 0;
+
+    const { marker, lines } = renderBlock(block, listNumber, options);
+    const children = Array.isArray(block.children)
+      ? renderBlocks(block.children as PartialBlock[], options)
+      : [];
+    const isEmpty =
+      lines.every((line) => !line.trim()) && children.length === 0;
+    if (isEmpty && !marker) {
+      previousType = type;
+      continue;
+    }
+
+    // Items of one list stay together; everything else is its own paragraph
+    const isListItem = LIST_BLOCK_TYPES.has(type);
+    const continuesList =
+      isListItem &&
+      previousType !== undefined &&
+      LIST_BLOCK_TYPES.has(previousType);
+    if (output.length > 0 && !continuesList) {
+      output.push("");
+    }
+
+    // Nested blocks are indented under list items and follow anything else
+    const indent = " ".repeat(marker.length);
+    output.push(
+      ...lines.map((line, index) =>
+        index === 0 ? `${marker}${line}` : line ? `${indent}${line}` : line
+      )
+    );
+    if (children.length > 0) {
+      if (!isListItem) {
+        output.push("");
+      }
+      output.push(
+        ...children.map((line) =>
+          isListItem && line ? `${indent}${line}` : line
+        )
+      );
+    }
+    previousType = type;
+  }
+
+  return output;
+};
+
+// Markdown for BlockNote blocks: headings, lists, checklists, code and tables
+export const blocksToMarkdown = (
+  blocks: PartialBlock[],
+  headingOffset = 0
+): string => renderBlocks(blocks, { headingOffset }).join("\n").trim();
@@ -0,0 +1,86 @@
+import type { CsvRow } from "../types/csvRow";
+
+// Spreadsheets run cells that start with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quote a cell when it holds a separator, quote or line break, and keep
+// spreadsheets from running it as a formula
+const formatCell = (value: string) => {
+  const cell = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+// Rows as CSV text (RFC 4180), with a byte order mark so Excel reads UTF-8
+export const formatCsv = (rows: string[][]) =>
+  `\uFEFF${rows
+    .map((row) => row.map(formatCell).join(","))
+    .join("\r\n")}\r\n`;
+
+/* Parse CSV text (RFC 4180) into rows of cells. Quoted cells can hold
+ * separators, doubled quotes and line breaks; a leading byte order mark
+ * and rows without any value are dropped. */
+export const parseCsv = (text: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  const input = text.replace(/^\uFEFF/, "");
+  let cells: string[] = [];
+  let cell = "";
+  let isQuoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some((value) => value.trim() !== "")) {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = "";
+  };
+
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+
+    if (isQuoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        if (char === "\n") {
+          line += 1;
+        }
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === "") {
+      isQuoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") {
+        index += 1;
+      }
+      endRow();
+      line += 1;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || cells.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+// Undo the formula guard of formatCsv
+export const unguardCsvCell = (value: string) =>
+  value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1))
+    ? value.slice(1)
+    : value;
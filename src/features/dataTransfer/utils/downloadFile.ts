@@ -0,0 +1,24 @@
+// Save generated text as a file through a temporary link
+export const downloadFile = (
+  contents: string,
+  fileName: string,
+  type: string
+) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.append(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download only after the click handler returns
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Today's date as YYYY-MM-DD, for file names
+export const getFileDateStamp = (date = new Date()) =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
@@ -0,0 +1,97 @@
+import type { z } from "zod";
+
+import {
+  todoistExportSchema,
+  trelloBoardSchema,
+  type ExternalImportSource,
+} from "../schemas/externalImportSchemas";
+import type { ExternalImportPreview } from "../types/externalImportPreview";
+import type { TodoExportDocument } from "../types/todoExport";
+import { planTodoImport } from "./todoImport";
+import { convertTodoistExport } from "./todoistImport";
+import { convertTrelloBoard } from "./trelloImport";
+
+export const EXTERNAL_IMPORT_SOURCE_LABELS: Record<
+  ExternalImportSource,
+  string
+> = {
+  todoist: "Todoist",
+  trello: "Trello",
+};
+
+const hasArray = (data: object, key: string) =>
+  Array.isArray((data as Record<string, unknown>)[key]);
+
+// Which tool a parsed JSON file came from, going by its top-level lists
+const detectSource = (data: unknown): ExternalImportSource | null => {
+  if (typeof data !== "object" || data === null) {
+    return null;
+  }
+  if (hasArray(data, "cards") && hasArray(data, "lists")) {
+    return "trello";
+  }
+  if (hasArray(data, "items") || hasArray(data, "tasks")) {
+    return "todoist";
+  }
+  return null;
+};
+
+const formatIssue = (issue: z.core.$ZodIssue | undefined) =>
+  issue
+    ? [issue.path.join("."), issue.message].filter(Boolean).join(": ")
+    : "Validation failed";
+
+/*
+ * Convert a Todoist or Trello export and plan its import the way the
+ * server will, so the summary can be shown as a dry run. Returns an error
+ * message when the file is neither, or cannot be read as one.
+ */
+export function previewExternalImport(
+  data: unknown
+): { preview: ExternalImportPreview; error: null } | { error: string } {
+  const source = detectSource(data);
+  if (!source) {
+    return { error: "This file is not a Todoist or Trello JSON export" };
+  }
+
+  let document: TodoExportDocument;
+  if (source === "trello") {
+    const parsed = trelloBoardSchema.safeParse(data);
+    if (!parsed.success) {
+      return {
+        error: `This Trello board could not be read (${formatIssue(
+          parsed.error.issues[0]
+        )})`,
+      };
+    }
+    document = convertTrelloBoard(parsed.data);
+  } else {
+    const parsed = todoistExportSchema.safeParse(data);
+    if (!parsed.success) {
+      return {
+        error: `This Todoist export could not be read (${formatIssue(
+          parsed.error.issues[0]
+        )})`,
+      };
+    }
+    document = convertTodoistExport(parsed.data);
+  }
+
+  const plan = planTodoImport(document);
+  const todos = plan.todos.map(({ item }) => item);
+  return {
+    error: null,
+    preview: {
+      source,
+      document,
+      projects: plan.projects.length,
+      tags: plan.tags.length,
+      todos: todos.filter((todo) => todo.parent_id === null).length,
+      subtasks: todos.filter((todo) => todo.parent_id !== null).length,
+      completed: todos.filter((todo) => todo.done).length,
+      archived: todos.filter((todo) => todo.archived_at !== null).length,
+      withNotes: todos.filter((todo) => todo.content.length > 0).length,
+      errors: plan.errors,
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import type { PartialBlock } from "@blocknote/core";
+
+import {
+  fromDateInputValue,
+  startOfDay,
+} from "@/features/todos/utils/todoDates";
+import { markdownToBlocks } from "./markdownBlocks";
+
+// Field limits of todos, projects and tags
+const MAX_TODO_TEXT_LENGTH = 500;
+export const MAX_PROJECT_NAME_LENGTH = 60;
+export const MAX_TAG_NAME_LENGTH = 40;
+
+// Shorten text to a field's limit, marking the cut with an ellipsis
+export const truncate = (text: string, maxLength: number) => {
+  const trimmed = text.trim();
+  return trimmed.length > maxLength
+    ? `${trimmed.slice(0, maxLength - 1).trimEnd()}…`
+    : trimmed;
+};
+
+// Other tools allow longer titles than todos do
+export const toTodoText = (text: string) =>
+  truncate(text.replace(/\s+/g, " "), MAX_TODO_TEXT_LENGTH) || "Untitled";
+
+// A day as local midnight, the way todo dates are stored; a plain date is
+// that day, a date and time the day it falls on here
+export const toLocalDay = (value: string | null | undefined) => {
+  if (!value) {
+    return null;
+  }
+  const day = fromDateInputValue(value);
+  if (day) {
+    return day;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : startOfDay(date).toISOString();
+};
+
+// An ISO timestamp with its offset, or undefined when it cannot be read
+export const toTimestamp = (value: string | null | undefined) => {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+// A description written in Markdown, as BlockNote content
+export const toTodoContent = (description: string | null | undefined) =>
+  description?.trim() ? markdownToBlocks(description) : ([] as PartialBlock[]);
+
+// Hands out the positive ids that link the items of a converted document
+export const createIdMap = () => {
+  const ids = new Map<string, number>();
+  return (key: string) => {
+    const existing = ids.get(key);
+    if (existing !== undefined) {
+      return existing;
+    }
+    const id = ids.size + 1;
+    ids.set(key, id);
+    return id;
+  };
+};
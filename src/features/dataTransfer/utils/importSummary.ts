@@ -0,0 +1,19 @@
+import type { TodoImportResult } from "../types/todoImportResult";
+
+export const pluralize = (count: number, word: string) =>
+  `${count} ${count === 1 ? word : `${word}s`}`;
+
+// One sentence on what an import of an export document changed
+export const describeTodoImportResult = (result: TodoImportResult) =>
+  [
+    `Imported ${pluralize(result.importedTodos, "todo")}`,
+    result.createdProjects > 0 &&
+      `added ${pluralize(result.createdProjects, "project")}`,
+    result.createdTags > 0 && `added ${pluralize(result.createdTags, "tag")}`,
+    result.skippedTodos > 0 &&
+      `skipped ${result.skippedTodos} already there`,
+    result.removedTodos > 0 &&
+      `removed ${pluralize(result.removedTodos, "old todo")}`,
+  ]
+    .filter(Boolean)
+    .join(", ") + ".";
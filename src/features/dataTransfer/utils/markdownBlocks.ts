@@ -0,0 +1,141 @@
+import type { PartialBlock } from "@blocknote/core";
+
+type InlineStyles = { bold?: true; italic?: true; code?: true };
+
+type InlineNode =
+  | { type: "text"; text: string; styles: InlineStyles }
+  | {
+      type: "link";
+      href: string;
+      content: { type: "text"; text: string; styles: InlineStyles }[];
+    };
+
+// Links, code spans, bold and italic, tried in that order at each position
+const INLINE_PATTERN =
+  /\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)|`([^`]+)`|\*\*([^*]+)\*\*|__([^_]+)__|\*([^*\s][^*]*)\*|_([^_\s][^_]*)_/g;
+
+// Inline Markdown as BlockNote inline content; anything else stays text
+const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  const pushText = (value: string, styles: InlineStyles = {}) => {
+    if (value) {
+      nodes.push({ type: "text", text: value, styles });
+    }
+  };
+
+  let lastIndex = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    pushText(text.slice(lastIndex, match.index));
+    const [, linkText, href, code, bold, boldAlt, italic, italicAlt] = match;
+    if (href) {
+      nodes.push({
+        type: "link",
+        href,
+        content: [{ type: "text", text: linkText, styles: {} }],
+      });
+    } else if (code) {
+      pushText(code, { code: true });
+    } else if (bold || boldAlt) {
+      pushText(bold || boldAlt, { bold: true });
+    } else {
+      pushText(italic || italicAlt, { italic: true });
+    }
+    lastIndex = match.index + match[0].length;
+  }
+  pushText(text.slice(lastIndex));
+
+  return nodes;
+};
+
+const toBlock = (
+  type: string,
+  text: string,
+  props?: Record<string, unknown>
+) =>
+  ({
+    type,
+    ...(props ? { props } : {}),
+    content: parseInline(text),
+  }) as PartialBlock;
+
+/* Markdown as BlockNote blocks, for notes brought in from other tools.
+ * Headings, bullet, numbered and check lists, quotes, rules and fenced
+ * code get their own blocks; other lines are joined into paragraphs.
+ * Nesting is flattened. */
+export const markdownToBlocks = (markdown: string): PartialBlock[] => {
+  const blocks: PartialBlock[] = [];
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push(toBlock("paragraph", paragraph.join("\n")));
+      paragraph = [];
+    }
+  };
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const trimmed = lines[index].trim();
+
+    const fence = /^(`{3,}|~{3,})\s*([\w+-]*)/.exec(trimmed);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      index += 1;
+      while (
+        index < lines.length &&
+        !lines[index].trim().startsWith(fence[1])
+      ) {
+        code.push(lines[index]);
+        index += 1;
+      }
+      blocks.push({
+        type: "codeBlock",
+        props: { language: fence[2] || "text" },
+        content: code.join("\n"),
+      } as PartialBlock);
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*)$/.exec(trimmed);
+    const checkItem = /^[-*+]\s+\[([ xX])\]\s+(.*)$/.exec(trimmed);
+    const bulletItem = /^[-*+]\s+(.*)$/.exec(trimmed);
+    const numberedItem = /^\d+[.)]\s+(.*)$/.exec(trimmed);
+    const quote = /^>\s?(.*)$/.exec(trimmed);
+
+    if (!trimmed) {
+      flushParagraph();
+    } else if (heading) {
+      flushParagraph();
+      blocks.push(
+        toBlock("heading", heading[2], {
+          level: Math.min(heading[1].length, 3),
+        })
+      );
+    } else if (checkItem) {
+      flushParagraph();
+      blocks.push(
+        toBlock("checkListItem", checkItem[2], {
+          checked: checkItem[1] !== " ",
+        })
+      );
+    } else if (/^([-*_])(\s*\1){2,}$/.test(trimmed)) {
+      flushParagraph();
+      blocks.push({ type: "divider" } as PartialBlock);
+    } else if (bulletItem) {
+      flushParagraph();
+      blocks.push(toBlock("bulletListItem", bulletItem[1]));
+    } else if (numberedItem) {
+      flushParagraph();
+      blocks.push(toBlock("numberedListItem", numberedItem[1]));
+    } else if (quote) {
+      flushParagraph();
+      blocks.push(toBlock("quote", quote[1]));
+    } else {
+      paragraph.push(trimmed);
+    }
+  }
+  flushParagraph();
+
+  return blocks;
+};
@@ -0,0 +1,223 @@
+import { createTodoSchema } from "@/features/todos/schemas/todoSchemas";
+import { comparePositions } from "@/features/todos/utils/todoPosition";
+import { describeRecurrence } from "@/features/todos/utils/todoRecurrence";
+import {
+  fromDateInputValue,
+  startOfDay,
+  toDateInputValue,
+} from "@/features/todos/utils/todoDates";
+import {
+  TODO_CSV_FIELDS,
+  csvDoneSchema,
+  type CsvTodoRow,
+  type TodoCsvColumn,
+  type TodoCsvField,
+} from "../schemas/todoCsvSchemas";
+import type { ExportedTodo } from "../schemas/todoExportSchemas";
+import type { CsvRow } from "../types/csvRow";
+import type { TodoCsvMapping } from "../types/todoCsvMapping";
+import type { TodoCsvPreviewRow } from "../types/todoCsvPreviewRow";
+import type { TodoExportDocument } from "../types/todoExport";
+import { unguardCsvCell } from "./csv";
+
+export const TODO_CSV_COLUMN_LABELS: Record<TodoCsvColumn, string> = {
+  text: "Title",
+  description: "Description",
+  done: "Done",
+  priority: "Priority",
+  project: "Project",
+  tags: "Tags",
+  parent: "Parent todo",
+  start_at: "Start date",
+  due_at: "Due date",
+  recurrence: "Repeats",
+  completed_at: "Completed at",
+  created_at: "Created at",
+  updated_at: "Updated at",
+};
+
+export const DEFAULT_TODO_CSV_COLUMNS: TodoCsvColumn[] = [
+  "text",
+  "description",
+  "done",
+  "project",
+  "tags",
+  "start_at",
+  "due_at",
+];
+
+export const TODO_CSV_FIELD_LABELS: Record<TodoCsvField, string> = {
+  text: "Title",
+  description: "Description",
+  done: "Done",
+  start_at: "Start date",
+  due_at: "Due date",
+};
+
+// Header names recognised for each field, compared without case or spacing
+const FIELD_ALIASES: Record<TodoCsvField, string[]> = {
+  text: ["text", "title", "name", "task", "todo", "subject"],
+  description: ["description", "notes", "note", "details"],
+  done: ["done", "completed", "complete", "status", "isdone"],
+  start_at: ["startat", "start", "startdate", "starts"],
+  due_at: ["dueat", "due", "duedate", "deadline"],
+};
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Live todos in list order, each parent followed by its subtasks
+const getListOrder = (todos: ExportedTodo[]) => {
+  const live = todos.filter(
+    (todo) => todo.deleted_at === null && todo.archived_at === null
+  );
+  const parents = live
+    .filter((todo) => todo.parent_id === null)
+    .sort(
+      (a, b) =>
+        comparePositions(a.position ?? "", b.position ?? "") || a.id - b.id
+    );
+  const subtasks = live
+    .filter((todo) => todo.parent_id !== null)
+    .sort((a, b) => a.subtask_position - b.subtask_position || a.id - b.id);
+
+  const ordered = parents.flatMap((parent) => [
+    parent,
+    ...subtasks.filter((subtask) => subtask.parent_id === parent.id),
+  ]);
+  // Subtasks whose parent is trashed or archived still get a row
+  const listed = new Set(ordered.map((todo) => todo.id));
+  return [...ordered, ...subtasks.filter((todo) => !listed.has(todo.id))];
+};
+
+// The live todos of an export as CSV rows, with a header of column names.
+// Dates are local calendar days, like the date inputs
+export function buildTodoCsvRows(
+  document: TodoExportDocument,
+  columns: TodoCsvColumn[]
+): string[][] {
+  const projectNames = new Map(
+    document.projects.map((project) => [project.id, project.name])
+  );
+  const tagNames = new Map(document.tags.map((tag) => [tag.id, tag.name]));
+  const todoTexts = new Map(
+    document.todos.map((todo) => [todo.id, todo.text])
+  );
+
+  const getCell = (todo: ExportedTodo, column: TodoCsvColumn): string => {
+    switch (column) {
+      case "text":
+        return todo.text;
+      case "description":
+        return todo.description ?? "";
+      case "done":
+        return todo.done ? "yes" : "no";
+      case "priority":
+        return todo.priority;
+      case "project":
+        return (todo.project_id && projectNames.get(todo.project_id)) || "";
+      case "tags":
+        return todo.tag_ids
+          .map((id) => tagNames.get(id))
+          .filter(Boolean)
+          .join(", ");
+      case "parent":
+        return (todo.parent_id && todoTexts.get(todo.parent_id)) || "";
+      case "start_at":
+        return toDateInputValue(todo.start_at);
+      case "due_at":
+        return toDateInputValue(todo.due_at);
+      case "recurrence":
+        return todo.recurrence ? describeRecurrence(todo.recurrence) : "";
+      case "completed_at":
+        return todo.completed_at ?? "";
+      case "created_at":
+        return todo.created_at ?? "";
+      case "updated_at":
+        return todo.updated_at ?? "";
+    }
+  };
+
+  return [
+    columns,
+    ...getListOrder(document.todos).map((todo) =>
+      columns.map((column) => getCell(todo, column))
+    ),
+  ];
+}
+
+// Match the file's header to todo fields; each column is used once
+export function guessTodoCsvMapping(headers: string[]): TodoCsvMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as TodoCsvMapping;
+
+  for (const field of TODO_CSV_FIELDS) {
+    const index = normalized.findIndex(
+      (header, column) =>
+        !used.has(column) && FIELD_ALIASES[field].includes(header)
+    );
+    mapping[field] = index === -1 ? null : index;
+    if (index !== -1) {
+      used.add(index);
+    }
+  }
+
+  return mapping;
+}
+
+// YYYY-MM-DD is a local day; other ISO dates are moved to the start of
+// theirs. Anything else is passed on for the schema to reject
+const parseCsvDate = (value: string) => {
+  if (!value) {
+    return null;
+  }
+  const day = fromDateInputValue(value);
+  if (day) {
+    return day;
+  }
+  const date = new Date(value);
+  return /^\d{4}-\d{2}-\d{2}T/.test(value) && !Number.isNaN(date.getTime())
+    ? startOfDay(date).toISOString()
+    : value;
+};
+
+// The first problem of a mapped row, checked the way the import checks it
+// on the server; null when the row can be imported
+export function getTodoCsvRowError(row: CsvTodoRow): string | null {
+  const done = csvDoneSchema.safeParse(row.done);
+  if (!done.success) {
+    return done.error.issues[0]?.message ?? "Validation failed";
+  }
+  const todo = createTodoSchema.safeParse(row.todo);
+  return todo.success
+    ? null
+    : (todo.error.issues[0]?.message ?? "Validation failed");
+}
+
+// Rows of the file, header excluded, mapped to todos with their errors
+export function previewTodoCsvRows(
+  rows: CsvRow[],
+  mapping: TodoCsvMapping
+): TodoCsvPreviewRow[] {
+  return rows.map(({ line, cells }) => {
+    const values = {} as Record<TodoCsvField, string>;
+    for (const field of TODO_CSV_FIELDS) {
+      const column = mapping[field];
+      values[field] =
+        column === null ? "" : unguardCsvCell(cells[column] ?? "").trim();
+    }
+
+    const row: CsvTodoRow = {
+      line,
+      done: values.done,
+      todo: {
+        text: values.text,
+        description: values.description || null,
+        start_at: parseCsvDate(values.start_at),
+        due_at: parseCsvDate(values.due_at),
+      },
+    };
+    return { row, values, error: getTodoCsvRowError(row) };
+  });
+}
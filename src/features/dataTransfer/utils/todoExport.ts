@@ -0,0 +1,65 @@
+import type { Project, Tag, Todo } from "@/types/database";
+import type { ProjectIcon } from "@/features/projects/schemas/projectSchemas";
+import {
+  TODO_EXPORT_FORMAT,
+  TODO_EXPORT_VERSION,
+  type ExportedTodo,
+} from "../schemas/todoExportSchemas";
+import type { TodoExportDocument } from "../types/todoExport";
+
+// A todo row as the export loads it, with its tag links instead of full tags
+export type ExportTodoRow = Omit<Todo, "tags" | "user_id"> & {
+  todo_tags: { tag_id: number }[] | null;
+};
+
+const toExportedTodo = (row: ExportTodoRow): ExportedTodo => ({
+  id: row.id,
+  text: row.text,
+  description: row.description,
+  content: Array.isArray(row.content) ? row.content : [],
+  done: row.done,
+  start_at: row.start_at,
+  due_at: row.due_at,
+  priority: row.priority,
+  recurrence: row.recurrence,
+  project_id: row.project_id,
+  parent_id: row.parent_id,
+  subtask_position: row.subtask_position,
+  position: row.position,
+  tag_ids: (row.todo_tags ?? []).map((link) => link.tag_id),
+  deleted_at: row.deleted_at,
+  completed_at: row.completed_at,
+  archived_at: row.archived_at,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+export function buildTodoExportDocument(
+  projects: Project[],
+  tags: Tag[],
+  todos: ExportTodoRow[]
+): TodoExportDocument {
+  return {
+    format: TODO_EXPORT_FORMAT,
+    version: TODO_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    projects: projects.map((project) => ({
+      id: project.id,
+      name: project.name,
+      color: project.color,
+      icon: project.icon as ProjectIcon,
+      archived: project.archived,
+      is_inbox: project.is_inbox,
+      created_at: project.created_at,
+      updated_at: project.updated_at,
+    })),
+    tags: tags.map((tag) => ({
+      id: tag.id,
+      name: tag.name,
+      color: tag.color,
+      created_at: tag.created_at,
+      updated_at: tag.updated_at,
+    })),
+    todos: todos.map(toExportedTodo),
+  };
+}
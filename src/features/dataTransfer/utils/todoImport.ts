@@ -0,0 +1,164 @@
+import type { z } from "zod";
+
+import {
+  exportedProjectSchema,
+  exportedTagSchema,
+  exportedTodoSchema,
+  type ExportedProject,
+  type ExportedTag,
+  type ExportedTodo,
+  type TodoExportEnvelope,
+} from "../schemas/todoExportSchemas";
+import type { TodoImportItemError } from "../types/todoImportResult";
+import { comparePositions } from "@/features/todos/utils/todoPosition";
+
+const MAX_LABEL_LENGTH = 80;
+
+// A valid item together with its place in the document, for error reports
+export type ImportItem<T> = {
+  index: number;
+  item: T;
+};
+
+// The valid items of a document, in the order they should be inserted
+export type TodoImportPlan = {
+  projects: ImportItem<ExportedProject>[];
+  tags: ImportItem<ExportedTag>[];
+  // Top-level todos in list order, then subtasks in checklist order
+  todos: ImportItem<ExportedTodo>[];
+  errors: TodoImportItemError[];
+};
+
+const getItemLabel = (item: unknown, key: "name" | "text") => {
+  if (typeof item !== "object" || item === null) {
+    return null;
+  }
+  const value = (item as Record<string, unknown>)[key];
+  return typeof value === "string" ? value.slice(0, MAX_LABEL_LENGTH) : null;
+};
+
+const formatIssue = (issue: z.core.$ZodIssue | undefined) => {
+  if (!issue) {
+    return "Validation failed";
+  }
+  return issue.path.length > 0
+    ? `${issue.path.join(".")}: ${issue.message}`
+    : issue.message;
+};
+
+// Validate each item on its own; invalid items and repeated ids become errors
+const validateItems = <T extends { id: number }>(
+  list: TodoImportItemError["list"],
+  items: unknown[],
+  schema: z.ZodType<T>,
+  labelKey: "name" | "text",
+  errors: TodoImportItemError[]
+) => {
+  const seenIds = new Set<number>();
+  const valid: ImportItem<T>[] = [];
+
+  items.forEach((item, index) => {
+    const label = getItemLabel(item, labelKey);
+    const result = schema.safeParse(item);
+    if (!result.success) {
+      errors.push({
+        list,
+        index,
+        label,
+        message: formatIssue(result.error.issues[0]),
+      });
+      return;
+    }
+    if (seenIds.has(result.data.id)) {
+      errors.push({
+        list,
+        index,
+        label,
+        message: `Another item already uses ID ${result.data.id}`,
+      });
+      return;
+    }
+    seenIds.add(result.data.id);
+    valid.push({ index, item: result.data });
+  });
+
+  return valid;
+};
+
+/*
+ * Check a document's items and order them for insertion. Subtasks whose
+ * parent is missing, invalid or itself a subtask are reported and left out.
+ */
+export function planTodoImport(document: TodoExportEnvelope): TodoImportPlan {
+  const errors: TodoImportItemError[] = [];
+
+  const projects = validateItems(
+    "projects",
+    document.projects,
+    exportedProjectSchema,
+    "name",
+    errors
+  );
+  const tags = validateItems(
+    "tags",
+    document.tags,
+    exportedTagSchema,
+    "name",
+    errors
+  );
+  const todos = validateItems(
+    "todos",
+    document.todos,
+    exportedTodoSchema,
+    "text",
+    errors
+  );
+
+  const todosById = new Map(todos.map((todo) => [todo.item.id, todo.item]));
+  const topLevel: ImportItem<ExportedTodo>[] = [];
+  const subtasks: ImportItem<ExportedTodo>[] = [];
+
+  for (const todo of todos) {
+    const parentId = todo.item.parent_id;
+    if (parentId === null) {
+      topLevel.push(todo);
+      continue;
+    }
+
+    const parent = todosById.get(parentId);
+    const message = !parent
+      ? `Parent todo ${parentId} is missing or could not be imported`
+      : parent.parent_id !== null
+        ? "Subtasks cannot have subtasks"
+        : null;
+    if (message) {
+      errors.push({
+        list: "todos",
+        index: todo.index,
+        label: todo.item.text,
+        message,
+      });
+    } else {
+      subtasks.push(todo);
+    }
+  }
+
+  // Saved order when every todo has a position key, file order otherwise
+  const hasPositions = topLevel.every(
+    (todo) => todo.item.position !== undefined
+  );
+  topLevel.sort(
+    (a, b) =>
+      (hasPositions
+        ? comparePositions(a.item.position ?? "", b.item.position ?? "")
+        : 0) || a.index - b.index
+  );
+  subtasks.sort(
+    (a, b) =>
+      a.item.subtask_position - b.item.subtask_position || a.index - b.index
+  );
+
+  errors.sort((a, b) => a.list.localeCompare(b.list) || a.index - b.index);
+
+  return { projects, tags, todos: [...topLevel, ...subtasks], errors };
+}
@@ -0,0 +1,149 @@
+import type { PartialBlock } from "@blocknote/core";
+
+import type { Project, TodoListItem } from "@/types/database";
+import type { TodoMarkdownSource } from "../types/todoMarkdownSource";
+import { blocksToMarkdown, escapeMarkdown } from "./blockNoteMarkdown";
+import { TODO_PRIORITY_LABELS } from "@/features/todos/utils/todoPriority";
+import { describeRecurrence } from "@/features/todos/utils/todoRecurrence";
+import { toDateInputValue } from "@/features/todos/utils/todoDates";
+
+type FrontMatterValue = string | number | boolean | string[];
+
+// YAML front matter; strings are written as JSON, which YAML reads as-is
+const toYamlValue = (value: FrontMatterValue) =>
+  Array.isArray(value)
+    ? `[${value.map((item) => JSON.stringify(item)).join(", ")}]`
+    : JSON.stringify(value);
+
+const renderFrontMatter = (
+  fields: [string, FrontMatterValue | null | undefined][]
+) => [
+  "---",
+  ...fields.flatMap(([key, value]) =>
+    value === null || value === undefined
+      ? []
+      : [`${key}: ${toYamlValue(value)}`]
+  ),
+  "---",
+];
+
+const indentLines = (text: string, indent: string) =>
+  text
+    .split("\n")
+    .map((line) => (line ? `${indent}${line}` : line))
+    .join("\n");
+
+const getChecklistLine = (todo: TodoListItem) =>
+  `- [${todo.done ? "x" : " "}] ${escapeMarkdown(todo.text)}`;
+
+// One line of schedule, priority, project and tags, or null when there is none
+const getTodoMetadataLine = (
+  todo: TodoListItem,
+  projectName: string | null
+) => {
+  const parts = [
+    todo.start_at && `Starts ${toDateInputValue(todo.start_at)}`,
+    todo.due_at && `Due ${toDateInputValue(todo.due_at)}`,
+    todo.recurrence && describeRecurrence(todo.recurrence),
+    todo.priority !== "none" &&
+      `${TODO_PRIORITY_LABELS[todo.priority]} priority`,
+    projectName,
+    todo.tags.length > 0 &&
+      todo.tags.map((tag) => `#${tag.name.replace(/\s+/g, "-")}`).join(" "),
+  ].filter(Boolean);
+  return parts.length > 0 ? `_${escapeMarkdown(parts.join(" · "))}_` : null;
+};
+
+const getNotes = (todo: TodoListItem, content: PartialBlock[] | undefined) =>
+  [
+    todo.description ? escapeMarkdown(todo.description) : "",
+    // Notes sit below the todo's own heading
+    content ? blocksToMarkdown(content, 1) : "",
+  ].filter(Boolean);
+
+const getProjectName = (projects: Project[], projectId: number) =>
+  projects.find((project) => project.id === projectId)?.name ?? null;
+
+// A single todo as a Markdown document: front matter, heading, notes, subtasks
+export const renderTodoMarkdown = (
+  source: TodoMarkdownSource,
+  content: PartialBlock[] | undefined,
+  projects: Project[]
+) => {
+  const { todo, subtasks } = source;
+  const sections = [
+    renderFrontMatter([
+      ["title", todo.text],
+      ["done", todo.done],
+      ["priority", todo.priority],
+      ["project", getProjectName(projects, todo.project_id)],
+      [
+        "tags",
+        todo.tags.length > 0 ? todo.tags.map((tag) => tag.name) : null,
+      ],
+      ["start_at", todo.start_at],
+      ["due_at", todo.due_at],
+      ["recurrence", todo.recurrence && describeRecurrence(todo.recurrence)],
+      ["completed_at", todo.completed_at],
+      ["created_at", todo.created_at],
+      ["updated_at", todo.updated_at],
+    ]).join("\n"),
+    `# ${escapeMarkdown(todo.text)}`,
+    ...getNotes(todo, content),
+  ];
+  if (subtasks.length > 0) {
+    sections.push(
+      "## Subtasks",
+      subtasks.map(getChecklistLine).join("\n")
+    );
+  }
+  return `${sections.join("\n\n")}\n`;
+};
+
+// A list of todos as one checklist, each with its notes and subtasks beneath.
+// contents holds the BlockNote content of each todo by id
+export const renderTodoListMarkdown = (
+  title: string,
+  sources: TodoMarkdownSource[],
+  contents: Map<number, PartialBlock[]>,
+  projects: Project[]
+) => {
+  const items = sources.map((source) => {
+    const metadata = getTodoMetadataLine(
+      source.todo,
+      getProjectName(projects, source.todo.project_id)
+    );
+    const details = [
+      ...(metadata ? [metadata] : []),
+      ...getNotes(source.todo, contents.get(source.todo.id)),
+      ...(source.subtasks.length > 0
+        ? [source.subtasks.map(getChecklistLine).join("\n")]
+        : []),
+    ];
+    return [
+      getChecklistLine(source.todo),
+      ...details.map((detail) => indentLines(detail, "  ")),
+    ].join("\n\n");
+  });
+
+  return `${[
+    renderFrontMatter([
+      ["title", title],
+      ["exported_at", new Date().toISOString()],
+      ["todos", sources.length],
+    ]).join("\n"),
+    `# ${escapeMarkdown(title)}`,
+    ...items,
+  ].join("\n\n")}\n`;
+};
+
+// A file name made from a title, such as "groceries.md"
+export const getMarkdownFileName = (title: string) =>
+  `${
+    title
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "todos"
+  }.md`;
@@ -0,0 +1,216 @@
+import {
+  TODO_EXPORT_FORMAT,
+  TODO_EXPORT_VERSION,
+  type ExportedProject,
+  type ExportedTag,
+  type ExportedTodo,
+} from "../schemas/todoExportSchemas";
+import type {
+  TodoistExport,
+  TodoistTask,
+} from "../schemas/externalImportSchemas";
+import type { TodoExportDocument } from "../types/todoExport";
+import {
+  MAX_PROJECT_NAME_LENGTH,
+  MAX_TAG_NAME_LENGTH,
+  createIdMap,
+  toLocalDay,
+  toTimestamp,
+  toTodoContent,
+  toTodoText,
+  truncate,
+} from "./externalImportFields";
+import type { TodoPriority } from "@/types/database";
+
+// Todoist's palette by name
+const TODOIST_COLORS: Record<string, string> = {
+  berry_red: "#b8256f",
+  red: "#db4035",
+  orange: "#ff9933",
+  yellow: "#fad000",
+  olive_green: "#afb83b",
+  lime_green: "#7ecc49",
+  green: "#299438",
+  mint_green: "#6accbc",
+  teal: "#158fad",
+  sky_blue: "#14aaf5",
+  light_blue: "#96c3eb",
+  blue: "#4073ff",
+  grape: "#884dff",
+  violet: "#af38eb",
+  lavender: "#eb96eb",
+  magenta: "#e05194",
+  salmon: "#ff8d85",
+  charcoal: "#808080",
+  grey: "#b8b8b8",
+  taupe: "#ccac93",
+};
+
+// Todoist counts priorities down from p1, which it stores as 4
+const TODOIST_PRIORITIES: Record<number, TodoPriority> = {
+  1: "none",
+  2: "medium",
+  3: "high",
+  4: "urgent",
+};
+
+/*
+ * A Todoist export as a Pandora Box export document. Projects stay
+ * projects, nested ones named after their parents; labels and sections
+ * become tags. Todoist nests subtasks freely, while todos have one level,
+ * so deeper subtasks join their top-level task's checklist in tree order.
+ */
+export function convertTodoistExport(data: TodoistExport): TodoExportDocument {
+  const getProjectId = createIdMap();
+  const getTagId = createIdMap();
+  const getTodoId = createIdMap();
+
+  const projectsById = new Map(
+    data.projects
+      .filter((project) => !project.is_deleted)
+      .map((project) => [project.id, project])
+  );
+  const getProjectName = (id: string, depth = 0): string => {
+    const project = projectsById.get(id);
+    if (!project) {
+      return "";
+    }
+    // Depth guards against a parent loop in a damaged file
+    const parentName =
+      project.parent_id && depth < 10
+        ? getProjectName(project.parent_id, depth + 1)
+        : "";
+    return parentName ? `${parentName} / ${project.name}` : project.name;
+  };
+  const projects: ExportedProject[] = [...projectsById.values()].map(
+    (project) => ({
+      id: getProjectId(project.id),
+      name:
+        truncate(getProjectName(project.id), MAX_PROJECT_NAME_LENGTH) ||
+        "Untitled",
+      color: TODOIST_COLORS[project.color ?? ""],
+      archived: project.is_archived ?? false,
+      is_inbox: Boolean(project.inbox_project || project.is_inbox_project),
+    })
+  );
+
+  // Tags are keyed by name, so a label and a section can share one
+  const tags = new Map<string, ExportedTag>();
+  const addTag = (name: string, color?: string) => {
+    const tagName = truncate(name, MAX_TAG_NAME_LENGTH);
+    if (!tagName) {
+      return null;
+    }
+    const key = tagName.toLowerCase();
+    if (!tags.has(key)) {
+      tags.set(key, { id: getTagId(key), name: tagName, color });
+    }
+    return getTagId(key);
+  };
+  for (const label of data.labels) {
+    if (!label.is_deleted) {
+      addTag(label.name, TODOIST_COLORS[label.color ?? ""]);
+    }
+  }
+  const sectionNames = new Map(
+    data.sections
+      .filter((section) => !section.is_deleted)
+      .map((section) => [section.id, section.name])
+  );
+
+  const tasks = (data.items ?? data.tasks ?? []).filter(
+    (task) => !task.is_deleted
+  );
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+  const projectOrder = new Map(
+    [...projectsById.keys()].map((id, index) => [id, index])
+  );
+  const fileOrder = new Map(tasks.map((task, index) => [task, index]));
+  const compareTasks = (a: TodoistTask, b: TodoistTask) =>
+    (projectOrder.get(a.project_id) ?? Infinity) -
+      (projectOrder.get(b.project_id) ?? Infinity) ||
+    (a.child_order ?? a.order ?? 0) - (b.child_order ?? b.order ?? 0) ||
+    (fileOrder.get(a) ?? 0) - (fileOrder.get(b) ?? 0);
+
+  const childrenByParent = new Map<string, TodoistTask[]>();
+  const roots: TodoistTask[] = [];
+  for (const task of tasks) {
+    if (task.parent_id && tasksById.has(task.parent_id)) {
+      const siblings = childrenByParent.get(task.parent_id) ?? [];
+      siblings.push(task);
+      childrenByParent.set(task.parent_id, siblings);
+    } else {
+      roots.push(task);
+    }
+  }
+
+  const toTodo = (
+    task: TodoistTask,
+    parent: ExportedTodo | null,
+    subtaskPosition: number
+  ): ExportedTodo => {
+    const done = Boolean(task.checked) || task.is_completed === true;
+    const sectionName = task.section_id
+      ? sectionNames.get(task.section_id)
+      : undefined;
+    const tagIds = [
+      ...(task.labels ?? []).map((label) => addTag(label)),
+      sectionName ? addTag(sectionName) : null,
+    ].filter((id): id is number => id !== null);
+
+    return {
+      id: getTodoId(task.id),
+      text: toTodoText(task.content),
+      description: null,
+      content: toTodoContent(task.description),
+      done,
+      start_at: null,
+      due_at: toLocalDay(task.due?.date),
+      priority: TODOIST_PRIORITIES[task.priority ?? 1] ?? "none",
+      recurrence: null,
+      // Subtasks live in their parent's project
+      project_id:
+        parent?.project_id ??
+        (projectsById.has(task.project_id)
+          ? getProjectId(task.project_id)
+          : null),
+      parent_id: parent?.id ?? null,
+      subtask_position: subtaskPosition,
+      tag_ids: [...new Set(tagIds)],
+      deleted_at: null,
+      completed_at: done ? (toTimestamp(task.completed_at) ?? null) : null,
+      archived_at: null,
+      created_at: toTimestamp(task.added_at ?? task.created_at),
+    };
+  };
+
+  const todos: ExportedTodo[] = [];
+  for (const root of roots.sort(compareTasks)) {
+    const parent = toTodo(root, null, 0);
+    todos.push(parent);
+
+    // Every descendant, depth first, in Todoist's order
+    let position = 0;
+    const visit = (id: string, depth: number) => {
+      if (depth > 10) {
+        return;
+      }
+      for (const child of (childrenByParent.get(id) ?? []).sort(
+        compareTasks
+      )) {
+        todos.push(toTodo(child, parent, position++));
+        visit(child.id, depth + 1);
+      }
+    };
+    visit(root.id, 0);
+  }
+
+  return {
+    format: TODO_EXPORT_FORMAT,
+    version: TODO_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    projects,
+    tags: [...tags.values()],
+    todos,
+  };
+}
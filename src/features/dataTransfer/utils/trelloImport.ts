@@ -0,0 +1,186 @@
+import {
+  TODO_EXPORT_FORMAT,
+  TODO_EXPORT_VERSION,
+  type ExportedTag,
+  type ExportedTodo,
+} from "../schemas/todoExportSchemas";
+import type { TrelloBoard } from "../schemas/externalImportSchemas";
+import type { TodoExportDocument } from "../types/todoExport";
+import {
+  MAX_PROJECT_NAME_LENGTH,
+  MAX_TAG_NAME_LENGTH,
+  createIdMap,
+  toLocalDay,
+  toTimestamp,
+  toTodoContent,
+  toTodoText,
+  truncate,
+} from "./externalImportFields";
+
+// Trello's label colors; the _light and _dark shades map to the same one
+const TRELLO_COLORS: Record<string, string> = {
+  green: "#4bce97",
+  yellow: "#f5cd47",
+  orange: "#fea362",
+  red: "#f87168",
+  purple: "#9f8fef",
+  blue: "#579dff",
+  sky: "#6cc3e0",
+  lime: "#94c748",
+  pink: "#e774bb",
+  black: "#8590a2",
+};
+
+const getTrelloColor = (color: string | null | undefined) =>
+  color ? TRELLO_COLORS[color.replace(/_(light|dark)$/, "")] : undefined;
+
+// Trello ids start with the creation time in seconds, as hex
+const getCreatedAt = (id: string) => {
+  const seconds = Number.parseInt(id.slice(0, 8), 16);
+  return Number.isNaN(seconds)
+    ? undefined
+    : toTimestamp(new Date(seconds * 1000).toISOString());
+};
+
+/*
+ * A Trello board as a Pandora Box export document. The board becomes a
+ * project and each card a todo; lists and labels become tags, so cards
+ * keep their column. Checklist items become subtasks, and archived cards
+ * and cards of archived lists go to the archive.
+ */
+export function convertTrelloBoard(board: TrelloBoard): TodoExportDocument {
+  const getTagId = createIdMap();
+  const getTodoId = createIdMap();
+  const projectId = 1;
+
+  const tags = new Map<string, ExportedTag>();
+  const addTag = (name: string, color?: string) => {
+    const tagName = truncate(name, MAX_TAG_NAME_LENGTH);
+    if (!tagName) {
+      return null;
+    }
+    const key = tagName.toLowerCase();
+    if (!tags.has(key)) {
+      tags.set(key, { id: getTagId(key), name: tagName, color });
+    }
+    return getTagId(key);
+  };
+
+  const lists = new Map(board.lists.map((list) => [list.id, list]));
+  const listTagIds = new Map(
+    [...board.lists]
+      .sort((a, b) => a.pos - b.pos)
+      .map((list) => [list.id, addTag(list.name)])
+  );
+  // Unnamed labels go by their color
+  const labelTagIds = new Map(
+    board.labels.map((label) => [
+      label.id,
+      addTag(label.name || label.color || "", getTrelloColor(label.color)),
+    ])
+  );
+
+  const checklistsByCard = new Map<string, TrelloBoard["checklists"]>();
+  for (const checklist of board.checklists) {
+    const cardChecklists = checklistsByCard.get(checklist.idCard) ?? [];
+    cardChecklists.push(checklist);
+    checklistsByCard.set(checklist.idCard, cardChecklists);
+  }
+
+  // Cards in board order: list by list, top to bottom
+  const cards = [...board.cards].sort(
+    (a, b) =>
+      (lists.get(a.idList)?.pos ?? Infinity) -
+        (lists.get(b.idList)?.pos ?? Infinity) || a.pos - b.pos
+  );
+
+  const todos: ExportedTodo[] = [];
+  for (const card of cards) {
+    const list = lists.get(card.idList);
+    const done = card.dueComplete;
+    const lastActivity = toTimestamp(card.dateLastActivity);
+    const isArchived = card.closed || list?.closed === true;
+    const tagIds = [
+      listTagIds.get(card.idList) ?? null,
+      ...card.idLabels.map((id) => labelTagIds.get(id) ?? null),
+    ].filter((id): id is number => id !== null);
+
+    const todo: ExportedTodo = {
+      id: getTodoId(card.id),
+      text: toTodoText(card.name),
+      description: null,
+      content: toTodoContent(card.desc),
+      done,
+      start_at: toLocalDay(card.start),
+      due_at: toLocalDay(card.due),
+      priority: "none",
+      recurrence: null,
+      project_id: projectId,
+      parent_id: null,
+      subtask_position: 0,
+      tag_ids: [...new Set(tagIds)],
+      deleted_at: null,
+      completed_at: done ? (lastActivity ?? null) : null,
+      archived_at: isArchived
+        ? (lastActivity ?? new Date().toISOString())
+        : null,
+      created_at: getCreatedAt(card.id),
+      updated_at: lastActivity,
+    };
+    // A start after the due date would fail validation; keep the due date
+    if (
+      todo.start_at &&
+      todo.due_at &&
+      new Date(todo.start_at).getTime() > new Date(todo.due_at).getTime()
+    ) {
+      todo.start_at = null;
+    }
+    todos.push(todo);
+
+    const checkItems = (checklistsByCard.get(card.id) ?? [])
+      .sort((a, b) => a.pos - b.pos)
+      .flatMap((checklist) =>
+        [...checklist.checkItems].sort((a, b) => a.pos - b.pos)
+      );
+    checkItems.forEach((item, index) => {
+      const isComplete = item.state === "complete";
+      todos.push({
+        id: getTodoId(item.id),
+        text: toTodoText(item.name),
+        description: null,
+        content: [],
+        done: isComplete,
+        start_at: null,
+        due_at: null,
+        priority: "none",
+        recurrence: null,
+        project_id: projectId,
+        parent_id: todo.id,
+        subtask_position: index,
+        tag_ids: [],
+        deleted_at: null,
+        completed_at: isComplete ? (lastActivity ?? null) : null,
+        archived_at: todo.archived_at,
+        created_at: getCreatedAt(item.id),
+        updated_at: lastActivity,
+      });
+    });
+  }
+
+  return {
+    format: TODO_EXPORT_FORMAT,
+    version: TODO_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    projects: [
+      {
+        id: projectId,
+        name:
+          truncate(board.name, MAX_PROJECT_NAME_LENGTH) || "Trello board",
+        archived: board.closed,
+        is_inbox: false,
+      },
+    ],
+    tags: [...tags.values()],
+    todos,
+  };
+}
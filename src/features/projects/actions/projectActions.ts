@@ -0,0 +1,295 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/utils/supabase/server";
+import type { ActionResponse, Project } from "@/types/database";
+import {
+  createProjectSchema,
+  updateProjectSchema,
+  setProjectArchivedSchema,
+  deleteProjectSchema,
+  type CreateProjectInput,
+  type UpdateProjectInput,
+  type SetProjectArchivedInput,
+  type DeleteProjectInput,
+} from "../schemas/projectSchemas";
+import { ensureInboxProjectId } from "../utils/inboxProject";
+import { ZodError } from "zod";
+
+const DEFAULT_PROJECT_COLOR = "#7c9885";
+
+function getZodErrorMessage(error: ZodError<unknown>) {
+  return error.issues[0]?.message ?? "Validation failed";
+}
+
+function normalizeProjectRecord(record: Record<string, unknown>): Project {
+  const row = record as {
+    id: number;
+    name: string;
+    color?: string | null;
+    icon?: string | null;
+    archived?: boolean | null;
+    is_inbox?: boolean | null;
+    user_id: string;
+    created_at: string;
+    updated_at: string;
+  };
+
+  return {
+    id: row.id,
+    name: row.name,
+    color: row.color ?? DEFAULT_PROJECT_COLOR,
+    icon: row.icon ?? "folder",
+    archived: row.archived ?? false,
+    is_inbox: row.is_inbox ?? false,
+    user_id: row.user_id,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+// Helper function to get authenticated user
+async function getAuthenticatedUser() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    return { user: null, error: "You must be logged in to perform this action" };
+  }
+
+  return { user, error: null };
+}
+
+// Get all projects for the current user, inbox first
+export async function getProjects(): Promise<ActionResponse<Project[]>> {
+  try {
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+
+    const inboxId = await ensureInboxProjectId(supabase, user.id);
+    if (inboxId === null) {
+      return { success: false, error: "Failed to fetch projects" };
+    }
+
+    const { data, error } = await supabase
+      .from("projects")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("is_inbox", { ascending: false })
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching projects:", error);
+      return { success: false, error: "Failed to fetch projects" };
+    }
+
+    return {
+      success: true,
+      data: (data ?? []).map((record) => normalizeProjectRecord(record)),
+    };
+  } catch (error) {
+    console.error("Unexpected error in getProjects:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Create a new project
+export async function createProject(
+  input: CreateProjectInput
+): Promise<ActionResponse<Project>> {
+  try {
+    const validatedInput = createProjectSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("projects")
+      .insert({
+        name: validatedInput.name,
+        color: validatedInput.color ?? DEFAULT_PROJECT_COLOR,
+        icon: validatedInput.icon ?? "folder",
+        user_id: user.id,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error("Error creating project:", error);
+      return { success: false, error: "Failed to create project" };
+    }
+
+    revalidatePath("/");
+    return { success: true, data: normalizeProjectRecord(data) };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in createProject:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Update a project's name, color or icon
+export async function updateProject(
+  input: UpdateProjectInput
+): Promise<ActionResponse<Project>> {
+  try {
+    const validatedInput = updateProjectSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+
+    const updates: { name?: string; color?: string; icon?: string } = {};
+    if (validatedInput.name !== undefined) {
+      updates.name = validatedInput.name;
+    }
+    if (validatedInput.color !== undefined) {
+      updates.color = validatedInput.color;
+    }
+    if (validatedInput.icon !== undefined) {
+      updates.icon = validatedInput.icon;
+    }
+
+    const { data, error } = await supabase
+      .from("projects")
+      .update(updates)
+      .eq("id", validatedInput.id)
+      .eq("user_id", user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating project:", error);
+      return { success: false, error: "Failed to update project" };
+    }
+
+    if (!data) {
+      return { success: false, error: "Project not found or access denied" };
+    }
+
+    revalidatePath("/");
+    return { success: true, data: normalizeProjectRecord(data) };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in updateProject:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Archive or restore a project (the inbox cannot be archived)
+export async function setProjectArchived(
+  input: SetProjectArchivedInput
+): Promise<ActionResponse<Project>> {
+  try {
+    const validatedInput = setProjectArchivedSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("projects")
+      .update({ archived: validatedInput.archived })
+      .eq("id", validatedInput.id)
+      .eq("user_id", user.id)
+      .eq("is_inbox", false)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error archiving project:", error);
+      return { success: false, error: "Failed to update project" };
+    }
+
+    if (!data) {
+      return { success: false, error: "Project not found or access denied" };
+    }
+
+    revalidatePath("/");
+    return { success: true, data: normalizeProjectRecord(data) };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in setProjectArchived:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Delete a project after moving its todos to the inbox; returns the inbox id
+export async function deleteProject(
+  input: DeleteProjectInput
+): Promise<ActionResponse<{ inboxProjectId: number }>> {
+  try {
+    const validatedInput = deleteProjectSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+
+    const inboxId = await ensureInboxProjectId(supabase, user.id);
+    if (inboxId === null) {
+      return { success: false, error: "Failed to delete project" };
+    }
+
+    if (inboxId === validatedInput.id) {
+      return { success: false, error: "The inbox cannot be deleted" };
+    }
+
+    // Re-home the project's todos so the delete never cascades to them
+    const { error: moveError } = await supabase
+      .from("todos")
+      .update({ project_id: inboxId })
+      .eq("project_id", validatedInput.id)
+      .eq("user_id", user.id);
+
+    if (moveError) {
+      console.error("Error moving project todos to inbox:", moveError);
+      return { success: false, error: "Failed to move todos to the inbox" };
+    }
+
+    const { error } = await supabase
+      .from("projects")
+      .delete()
+      .eq("id", validatedInput.id)
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("Error deleting project:", error);
+      return { success: false, error: "Failed to delete project" };
+    }
+
+    revalidatePath("/");
+    return { success: true, data: { inboxProjectId: inboxId } };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in deleteProject:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
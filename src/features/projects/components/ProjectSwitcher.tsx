@@ -0,0 +1,373 @@
+"use client";
+
+import {
+  useState,
+  type CSSProperties,
+  type FormEvent,
+  type KeyboardEvent,
+} from "react";
+import { Archive, ArchiveRestore, Layers, Settings2 } from "lucide-react";
+
+import type { Project } from "@/types/database";
+import {
+  PROJECT_ICONS,
+  type ProjectIcon,
+} from "@/features/projects/schemas/projectSchemas";
+import { getProjectIcon } from "@/features/projects/utils/projectIcons";
+
+const DEFAULT_NEW_PROJECT_COLOR = "#7c9885";
+
+type ProjectSwitcherProps = {
+  projects: Project[];
+  selectedProjectId: number | null;
+  todoCounts: Map<number, number>;
+  onSelectProject: (id: number | null) => void;
+  onCreateProject: (
+    name: string,
+    color: string,
+    icon: ProjectIcon
+  ) => Promise<Project | null>;
+  onUpdateProject: (
+    id: number,
+    updates: { name?: string; color?: string; icon?: ProjectIcon }
+  ) => Promise<boolean>;
+  onSetProjectArchived: (id: number, archived: boolean) => Promise<boolean>;
+  onDeleteProject: (id: number) => Promise<boolean>;
+  disabled?: boolean;
+};
+
+export function ProjectSwitcher({
+  projects,
+  selectedProjectId,
+  todoCounts,
+  onSelectProject,
+  onCreateProject,
+  onUpdateProject,
+  onSetProjectArchived,
+  onDeleteProject,
+  disabled = false,
+}: ProjectSwitcherProps) {
+  const [isManaging, setIsManaging] = useState(false);
+  const [newProjectName, setNewProjectName] = useState("");
+  const [newProjectColor, setNewProjectColor] = useState(
+    DEFAULT_NEW_PROJECT_COLOR
+  );
+  const [newProjectIcon, setNewProjectIcon] = useState<ProjectIcon>("folder");
+  const [isCreating, setIsCreating] = useState(false);
+  const [pendingProjectId, setPendingProjectId] = useState<number | null>(
+    null
+  );
+  const [confirmDeleteId, setConfirmDeleteId] = useState<number | null>(null);
+
+  const visibleProjects = projects.filter((project) => !project.archived);
+
+  const runForProject = async (id: number, task: () => Promise<unknown>) => {
+    setPendingProjectId(id);
+    try {
+      await task();
+    } finally {
+      setPendingProjectId(null);
+    }
+  };
+
+  const handleCreate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const name = newProjectName.trim();
+    if (!name || isCreating) {
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const created = await onCreateProject(
+        name,
+        newProjectColor,
+        newProjectIcon
+      );
+      if (created) {
+        setNewProjectName("");
+        onSelectProject(created.id);
+      }
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRename = async (project: Project, value: string) => {
+    const name = value.trim();
+    if (!name || name === project.name) {
+      return;
+    }
+
+    await runForProject(project.id, () =>
+      onUpdateProject(project.id, { name })
+    );
+  };
+
+  const handleRenameKeyDown = (
+    project: Project,
+    event: KeyboardEvent<HTMLInputElement>
+  ) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      event.currentTarget.blur();
+    } else if (event.key === "Escape") {
+      event.currentTarget.value = project.name;
+      event.currentTarget.blur();
+    }
+  };
+
+  const handleDelete = async (project: Project) => {
+    await runForProject(project.id, async () => {
+      const deleted = await onDeleteProject(project.id);
+      if (deleted) {
+        setConfirmDeleteId(null);
+      }
+    });
+  };
+
+  const renderPill = (project: Project) => {
+    const Icon = getProjectIcon(project.icon);
+    const isActive = selectedProjectId === project.id;
+
+    return (
+      <button
+        key={project.id}
+        type="button"
+        role="radio"
+        aria-checked={isActive}
+        onClick={() => onSelectProject(project.id)}
+        className={`project-pill ${isActive ? "project-pill--active" : ""}`}
+        style={{ "--project-color": project.color } as CSSProperties}
+        disabled={disabled}
+      >
+        <Icon className="h-3.5 w-3.5" aria-hidden="true" />
+        <span>{project.name}</span>
+        <span className="project-pill__count">
+          {todoCounts.get(project.id) ?? 0}
+        </span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div
+          className="flex flex-wrap items-center gap-2"
+          role="radiogroup"
+          aria-label="Project"
+        >
+          <button
+            type="button"
+            role="radio"
+            aria-checked={selectedProjectId === null}
+            onClick={() => onSelectProject(null)}
+            className={`project-pill ${
+              selectedProjectId === null ? "project-pill--active" : ""
+            }`}
+            disabled={disabled}
+          >
+            <Layers className="h-3.5 w-3.5" aria-hidden="true" />
+            <span>All projects</span>
+          </button>
+          {visibleProjects.map(renderPill)}
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsManaging((previous) => !previous)}
+          className="project-pill"
+          aria-expanded={isManaging}
+          aria-label={isManaging ? "Done managing projects" : "Manage projects"}
+          title={isManaging ? "Done managing projects" : "Manage projects"}
+          disabled={disabled}
+        >
+          <Settings2 className="h-3.5 w-3.5" aria-hidden="true" />
+        </button>
+      </div>
+
+      {isManaging && (
+        <div className="project-manager">
+          <form onSubmit={handleCreate} className="flex items-center gap-2">
+            <input
+              type="color"
+              value={newProjectColor}
+              onChange={(event) => setNewProjectColor(event.target.value)}
+              className="h-8 w-8 shrink-0 cursor-pointer rounded-full border border-border bg-transparent"
+              aria-label="New project color"
+              disabled={isCreating}
+            />
+            <select
+              value={newProjectIcon}
+              onChange={(event) =>
+                setNewProjectIcon(event.target.value as ProjectIcon)
+              }
+              className="rounded-full border border-border bg-surface/80 px-2 py-1 text-sm text-foreground focus:border-accent focus:outline-none"
+              aria-label="New project icon"
+              disabled={isCreating}
+            >
+              {PROJECT_ICONS.map((icon) => (
+                <option key={icon} value={icon}>
+                  {icon}
+                </option>
+              ))}
+            </select>
+            <input
+              value={newProjectName}
+              onChange={(event) => setNewProjectName(event.target.value)}
+              placeholder="New project"
+              maxLength={60}
+              className="min-w-0 flex-1 rounded-full border border-border bg-surface/80 px-3 py-1 text-sm text-foreground transition focus:border-accent focus:outline-none disabled:cursor-not-allowed disabled:opacity-60"
+              aria-label="New project name"
+              disabled={isCreating}
+            />
+            <button
+              type="submit"
+              className="inline-flex h-8 items-center justify-center rounded-full border border-border px-3 text-[0.7rem] font-semibold uppercase cursor-pointer tracking-[0.18em] text-foreground transition hover:border-accent hover:text-accent disabled:cursor-not-allowed disabled:opacity-60"
+              disabled={isCreating || !newProjectName.trim()}
+            >
+              {isCreating ? "Adding…" : "Add"}
+            </button>
+          </form>
+
+          <ul className="mt-4 space-y-2">
+            {projects.map((project) => {
+              const isPendingProject = pendingProjectId === project.id;
+              const todoCount = todoCounts.get(project.id) ?? 0;
+
+              return (
+                <li key={project.id} className="space-y-2">
+                  <div
+                    className={`flex items-center gap-2 ${
+                      project.archived ? "opacity-60" : ""
+                    }`}
+                  >
+                    <input
+                      type="color"
+                      defaultValue={project.color}
+                      onChange={(event) =>
+                        runForProject(project.id, () =>
+                          onUpdateProject(project.id, {
+                            color: event.target.value,
+                          })
+                        )
+                      }
+                      className="h-7 w-7 shrink-0 cursor-pointer rounded-full border border-border bg-transparent"
+                      aria-label={`Color for ${project.name}`}
+                      disabled={isPendingProject}
+                    />
+                    <select
+                      value={project.icon}
+                      onChange={(event) =>
+                        runForProject(project.id, () =>
+                          onUpdateProject(project.id, {
+                            icon: event.target.value as ProjectIcon,
+                          })
+                        )
+                      }
+                      className="rounded-full border border-border bg-surface/80 px-2 py-1 text-sm text-foreground focus:border-accent focus:outline-none"
+                      aria-label={`Icon for ${project.name}`}
+                      disabled={isPendingProject}
+                    >
+                      {PROJECT_ICONS.map((icon) => (
+                        <option key={icon} value={icon}>
+                          {icon}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      key={project.name}
+                      defaultValue={project.name}
+                      maxLength={60}
+                      onBlur={(event) =>
+                        handleRename(project, event.target.value)
+                      }
+                      onKeyDown={(event) => handleRenameKeyDown(project, event)}
+                      className="min-w-0 flex-1 rounded-full border border-border bg-surface/80 px-3 py-1 text-sm text-foreground transition focus:border-accent focus:outline-none disabled:opacity-60"
+                      aria-label={`Rename ${project.name}`}
+                      disabled={isPendingProject}
+                    />
+                    {!project.is_inbox && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            runForProject(project.id, () =>
+                              onSetProjectArchived(
+                                project.id,
+                                !project.archived
+                              )
+                            )
+                          }
+                          className="inline-flex h-7 w-7 items-center justify-center rounded-full border border-border text-foreground-muted transition hover:border-accent hover:text-foreground disabled:cursor-not-allowed disabled:opacity-60"
+                          aria-label={
+                            project.archived
+                              ? `Restore ${project.name}`
+                              : `Archive ${project.name}`
+                          }
+                          title={project.archived ? "Restore" : "Archive"}
+                          disabled={isPendingProject}
+                        >
+                          {project.archived ? (
+                            <ArchiveRestore className="h-3.5 w-3.5" />
+                          ) : (
+                            <Archive className="h-3.5 w-3.5" />
+                          )}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setConfirmDeleteId((current) =>
+                              current === project.id ? null : project.id
+                            )
+                          }
+                          className="inline-flex h-7 items-center justify-center rounded-full border border-border px-3 text-[0.65rem] font-semibold uppercase tracking-[0.16em] text-foreground-muted transition hover:border-red-400 hover:text-red-500 disabled:cursor-not-allowed disabled:opacity-60"
+                          aria-expanded={confirmDeleteId === project.id}
+                          disabled={isPendingProject}
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )}
+                  </div>
+
+                  {confirmDeleteId === project.id && (
+                    <div className="notice notice--error">
+                      <p>
+                        {todoCount === 0
+                          ? `Delete “${project.name}”?`
+                          : `Delete “${project.name}”? Its ${todoCount} ${
+                              todoCount === 1 ? "todo" : "todos"
+                            } will be moved to Inbox.`}
+                      </p>
+                      <div className="mt-2 flex gap-3">
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(project)}
+                          className="completed-clear"
+                          disabled={isPendingProject}
+                        >
+                          {todoCount === 0
+                            ? "Delete project"
+                            : "Move to Inbox and delete"}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setConfirmDeleteId(null)}
+                          className="completed-clear"
+                          disabled={isPendingProject}
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
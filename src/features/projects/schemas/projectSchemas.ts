@@ -0,0 +1,69 @@
+import { z } from "zod";
+
+export const PROJECT_ICONS = [
+  "inbox",
+  "folder",
+  "briefcase",
+  "home",
+  "book",
+  "star",
+  "heart",
+  "code",
+  "cart",
+  "calendar",
+] as const;
+
+const projectIdSchema = z.number().int().positive("Invalid project ID");
+
+const projectNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Project name cannot be empty")
+  .max(60, "Project name cannot exceed 60 characters");
+
+const projectColorSchema = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, "Project color must be a hex value like #7c9885");
+
+const projectIconSchema = z.enum(PROJECT_ICONS, { message: "Invalid icon" });
+
+// Schema for creating a project
+export const createProjectSchema = z.object({
+  name: projectNameSchema,
+  color: projectColorSchema.optional(),
+  icon: projectIconSchema.optional(),
+});
+
+// Schema for updating a project's name, color or icon
+export const updateProjectSchema = z
+  .object({
+    id: projectIdSchema,
+    name: projectNameSchema.optional(),
+    color: projectColorSchema.optional(),
+    icon: projectIconSchema.optional(),
+  })
+  .refine(
+    (data) =>
+      data.name !== undefined ||
+      data.color !== undefined ||
+      data.icon !== undefined,
+    { message: "At least one field (name, color, or icon) must be provided" }
+  );
+
+// Schema for archiving or restoring a project
+export const setProjectArchivedSchema = z.object({
+  id: projectIdSchema,
+  archived: z.boolean(),
+});
+
+// Schema for deleting a project; its todos are moved to the inbox
+export const deleteProjectSchema = z.object({
+  id: projectIdSchema,
+});
+
+// Export types inferred from schemas
+export type ProjectIcon = (typeof PROJECT_ICONS)[number];
+export type CreateProjectInput = z.infer<typeof createProjectSchema>;
+export type UpdateProjectInput = z.infer<typeof updateProjectSchema>;
+export type SetProjectArchivedInput = z.infer<typeof setProjectArchivedSchema>;
+export type DeleteProjectInput = z.infer<typeof deleteProjectSchema>;
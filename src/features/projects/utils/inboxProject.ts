@@ -0,0 +1,45 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+const UNIQUE_VIOLATION = "23505";
+
+// Return the id of the user's inbox project, creating it on first use
+export const ensureInboxProjectId = async (
+  supabase: SupabaseClient,
+  userId: string
+): Promise<number | null> => {
+  const findInbox = () =>
+    supabase
+      .from("projects")
+      .select("id")
+      .eq("user_id", userId)
+      .eq("is_inbox", true)
+      .maybeSingle();
+
+  const { data: existing, error: fetchError } = await findInbox();
+  if (fetchError) {
+    console.error("Error fetching inbox project:", fetchError);
+    return null;
+  }
+  if (existing) {
+    return existing.id as number;
+  }
+
+  const { data: created, error: insertError } = await supabase
+    .from("projects")
+    .insert({ name: "Inbox", icon: "inbox", is_inbox: true, user_id: userId })
+    .select("id")
+    .single();
+
+  // Another request created the inbox first; use that one
+  if (insertError?.code === UNIQUE_VIOLATION) {
+    const { data: raced } = await findInbox();
+    return (raced?.id as number | undefined) ?? null;
+  }
+
+  if (insertError || !created) {
+    console.error("Error creating inbox project:", insertError);
+    return null;
+  }
+
+  return created.id as number;
+};
@@ -0,0 +1,32 @@
+import {
+  BookOpen,
+  Briefcase,
+  Calendar,
+  Code,
+  Folder,
+  Heart,
+  House,
+  Inbox,
+  ShoppingCart,
+  Star,
+  type LucideIcon,
+} from "lucide-react";
+
+import type { ProjectIcon } from "@/features/projects/schemas/projectSchemas";
+
+export const PROJECT_ICON_COMPONENTS: Record<ProjectIcon, LucideIcon> = {
+  inbox: Inbox,
+  folder: Folder,
+  briefcase: Briefcase,
+  home: House,
+  book: BookOpen,
+  star: Star,
+  heart: Heart,
+  code: Code,
+  cart: ShoppingCart,
+  calendar: Calendar,
+};
+
+// Unknown icon keys (e.g. from older rows) fall back to a plain folder
+export const getProjectIcon = (icon: string): LucideIcon =>
+  PROJECT_ICON_COMPONENTS[icon as ProjectIcon] ?? Folder;
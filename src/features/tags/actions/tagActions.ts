@@ -0,0 +1,257 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/utils/supabase/server";
+import type { ActionResponse, Tag } from "@/types/database";
+import {
+  createTagSchema,
+  renameTagSchema,
+  recolorTagSchema,
+  deleteTagSchema,
+  type CreateTagInput,
+  type RenameTagInput,
+  type RecolorTagInput,
+  type DeleteTagInput,
+} from "../schemas/tagSchemas";
+import { ZodError } from "zod";
+
+const DEFAULT_TAG_COLOR = "#7c9885";
+const UNIQUE_VIOLATION = "23505";
+
+function getZodErrorMessage(error: ZodError<unknown>) {
+  return error.issues[0]?.message ?? "Validation failed";
+}
+
+function normalizeTagRecord(record: Record<string, unknown>): Tag {
+  const row = record as {
+    id: number;
+    name: string;
+    color?: string | null;
+    user_id: string;
+    created_at: string;
+    updated_at: string;
+  };
+
+  return {
+    id: row.id,
+    name: row.name,
+    color: row.color ?? DEFAULT_TAG_COLOR,
+    user_id: row.user_id,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+// Helper function to get authenticated user
+async function getAuthenticatedUser() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    return { user: null, error: "You must be logged in to perform this action" };
+  }
+
+  return { user, error: null };
+}
+
+// Get all tags for the current user
+export async function getTags(): Promise<ActionResponse<Tag[]>> {
+  try {
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("tags")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching tags:", error);
+      return { success: false, error: "Failed to fetch tags" };
+    }
+
+    return {
+      success: true,
+      data: (data ?? []).map((record) => normalizeTagRecord(record)),
+    };
+  } catch (error) {
+    console.error("Unexpected error in getTags:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Create a new tag
+export async function createTag(
+  input: CreateTagInput
+): Promise<ActionResponse<Tag>> {
+  try {
+    const validatedInput = createTagSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("tags")
+      .insert({
+        name: validatedInput.name,
+        color: validatedInput.color ?? DEFAULT_TAG_COLOR,
+        user_id: user.id,
+      })
+      .select()
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      return { success: false, error: "A tag with this name already exists" };
+    }
+
+    if (error || !data) {
+      console.error("Error creating tag:", error);
+      return { success: false, error: "Failed to create tag" };
+    }
+
+    revalidatePath("/");
+    return { success: true, data: normalizeTagRecord(data) };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in createTag:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Rename a tag
+export async function renameTag(
+  input: RenameTagInput
+): Promise<ActionResponse<Tag>> {
+  try {
+    const validatedInput = renameTagSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("tags")
+      .update({ name: validatedInput.name })
+      .eq("id", validatedInput.id)
+      .eq("user_id", user.id)
+      .select()
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      return { success: false, error: "A tag with this name already exists" };
+    }
+
+    if (error) {
+      console.error("Error renaming tag:", error);
+      return { success: false, error: "Failed to rename tag" };
+    }
+
+    if (!data) {
+      return { success: false, error: "Tag not found or access denied" };
+    }
+
+    revalidatePath("/");
+    return { success: true, data: normalizeTagRecord(data) };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in renameTag:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Change a tag's color
+export async function recolorTag(
+  input: RecolorTagInput
+): Promise<ActionResponse<Tag>> {
+  try {
+    const validatedInput = recolorTagSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("tags")
+      .update({ color: validatedInput.color })
+      .eq("id", validatedInput.id)
+      .eq("user_id", user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error recoloring tag:", error);
+      return { success: false, error: "Failed to update tag color" };
+    }
+
+    if (!data) {
+      return { success: false, error: "Tag not found or access denied" };
+    }
+
+    revalidatePath("/");
+    return { success: true, data: normalizeTagRecord(data) };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in recolorTag:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Delete a tag (links to todos are removed by the database cascade)
+export async function deleteTag(
+  input: DeleteTagInput
+): Promise<ActionResponse<void>> {
+  try {
+    const validatedInput = deleteTagSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+
+    const { error } = await supabase
+      .from("tags")
+      .delete()
+      .eq("id", validatedInput.id)
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("Error deleting tag:", error);
+      return { success: false, error: "Failed to delete tag" };
+    }
+
+    revalidatePath("/");
+    return { success: true };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in deleteTag:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
@@ -0,0 +1,49 @@
+import type { CSSProperties, ReactNode } from "react";
+
+import type { Tag } from "@/types/database";
+
+type TagChipProps = {
+  tag: Pick<Tag, "name" | "color">;
+  isActive?: boolean;
+  onClick?: () => void;
+  title?: string;
+  children?: ReactNode;
+};
+
+export function TagChip({
+  tag,
+  isActive = true,
+  onClick,
+  title,
+  children,
+}: TagChipProps) {
+  const className = `tag-chip ${isActive ? "tag-chip--active" : ""} ${
+    onClick ? "tag-chip--interactive" : ""
+  }`;
+  const style = { "--tag-color": tag.color } as CSSProperties;
+
+  if (onClick) {
+    return (
+      <button
+        type="button"
+        onClick={onClick}
+        className={className}
+        style={style}
+        aria-pressed={isActive}
+        title={title}
+      >
+        <span className="tag-chip__dot" aria-hidden="true" />
+        <span>{tag.name}</span>
+        {children}
+      </button>
+    );
+  }
+
+  return (
+    <span className={className} style={style} title={title}>
+      <span className="tag-chip__dot" aria-hidden="true" />
+      <span>{tag.name}</span>
+      {children}
+    </span>
+  );
+}
@@ -0,0 +1,227 @@
+"use client";
+
+import {
+  useState,
+  type ChangeEvent,
+  type FormEvent,
+  type KeyboardEvent,
+} from "react";
+
+import type { Tag } from "@/types/database";
+import { TagChip } from "@/features/tags/components/TagChip";
+
+const DEFAULT_NEW_TAG_COLOR = "#7c9885";
+
+type TodoTagEditorProps = {
+  todoTags: Tag[];
+  allTags: Tag[];
+  onToggleTag: (tag: Tag) => Promise<boolean>;
+  onCreateTag: (name: string, color: string) => Promise<Tag | null>;
+  onRenameTag: (id: number, name: string) => Promise<boolean>;
+  onRecolorTag: (id: number, color: string) => Promise<boolean>;
+  onDeleteTag: (id: number) => Promise<boolean>;
+};
+
+export function TodoTagEditor({
+  todoTags,
+  allTags,
+  onToggleTag,
+  onCreateTag,
+  onRenameTag,
+  onRecolorTag,
+  onDeleteTag,
+}: TodoTagEditorProps) {
+  const [newTagName, setNewTagName] = useState("");
+  const [newTagColor, setNewTagColor] = useState(DEFAULT_NEW_TAG_COLOR);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isManaging, setIsManaging] = useState(false);
+  const [pendingTagId, setPendingTagId] = useState<number | null>(null);
+  const attachedIds = new Set(todoTags.map((tag) => tag.id));
+
+  const handleToggle = async (tag: Tag) => {
+    setPendingTagId(tag.id);
+    try {
+      await onToggleTag(tag);
+    } finally {
+      setPendingTagId(null);
+    }
+  };
+
+  const handleCreate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const name = newTagName.trim();
+    if (!name || isCreating) {
+      return;
+    }
+
+    const existing = allTags.find(
+      (tag) => tag.name.toLowerCase() === name.toLowerCase()
+    );
+    if (existing) {
+      if (!attachedIds.has(existing.id)) {
+        await handleToggle(existing);
+      }
+      setNewTagName("");
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const created = await onCreateTag(name, newTagColor);
+      if (created) {
+        setNewTagName("");
+        await onToggleTag(created);
+      }
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRename = async (tag: Tag, value: string) => {
+    const name = value.trim();
+    if (!name || name === tag.name) {
+      return;
+    }
+
+    setPendingTagId(tag.id);
+    try {
+      await onRenameTag(tag.id, name);
+    } finally {
+      setPendingTagId(null);
+    }
+  };
+
+  const handleRenameKeyDown = (
+    tag: Tag,
+    event: KeyboardEvent<HTMLInputElement>
+  ) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      event.currentTarget.blur();
+    } else if (event.key === "Escape") {
+      event.currentTarget.value = tag.name;
+      event.currentTarget.blur();
+    }
+  };
+
+  const handleRecolor = async (tag: Tag, event: ChangeEvent<HTMLInputElement>) => {
+    setPendingTagId(tag.id);
+    try {
+      await onRecolorTag(tag.id, event.target.value);
+    } finally {
+      setPendingTagId(null);
+    }
+  };
+
+  const handleDelete = async (tag: Tag) => {
+    setPendingTagId(tag.id);
+    try {
+      await onDeleteTag(tag.id);
+    } finally {
+      setPendingTagId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {allTags.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {allTags.map((tag) => (
+            <TagChip
+              key={tag.id}
+              tag={tag}
+              isActive={attachedIds.has(tag.id)}
+              onClick={
+                pendingTagId === tag.id ? undefined : () => handleToggle(tag)
+              }
+              title={
+                attachedIds.has(tag.id)
+                  ? `Remove ${tag.name}`
+                  : `Add ${tag.name}`
+              }
+            />
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-foreground-subtle">
+          No tags yet. Create one below.
+        </p>
+      )}
+
+      <form onSubmit={handleCreate} className="flex items-center gap-2">
+        <input
+          type="color"
+          value={newTagColor}
+          onChange={(event) => setNewTagColor(event.target.value)}
+          className="h-8 w-8 shrink-0 cursor-pointer rounded-full border border-border bg-transparent"
+          aria-label="New tag color"
+          disabled={isCreating}
+        />
+        <input
+          value={newTagName}
+          onChange={(event) => setNewTagName(event.target.value)}
+          placeholder="New tag"
+          maxLength={40}
+          className="min-w-0 flex-1 rounded-full border border-border bg-surface/80 px-3 py-1 text-sm text-foreground transition focus:border-accent focus:outline-none disabled:cursor-not-allowed disabled:opacity-60"
+          aria-label="New tag name"
+          disabled={isCreating}
+        />
+        <button
+          type="submit"
+          className="inline-flex h-8 items-center justify-center rounded-full border border-border px-3 text-[0.7rem] font-semibold uppercase cursor-pointer tracking-[0.18em] text-foreground transition hover:border-accent hover:text-accent disabled:cursor-not-allowed disabled:opacity-60"
+          disabled={isCreating || !newTagName.trim()}
+        >
+          {isCreating ? "Adding…" : "Add"}
+        </button>
+      </form>
+
+      {allTags.length > 0 && (
+        <div>
+          <button
+            type="button"
+            onClick={() => setIsManaging((previous) => !previous)}
+            className="text-[0.7rem] font-semibold uppercase tracking-[0.16em] text-foreground-subtle transition hover:text-foreground"
+            aria-expanded={isManaging}
+          >
+            {isManaging ? "Done managing" : "Manage tags"}
+          </button>
+
+          {isManaging && (
+            <ul className="mt-3 space-y-2">
+              {allTags.map((tag) => (
+                <li key={tag.id} className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    defaultValue={tag.color}
+                    onChange={(event) => handleRecolor(tag, event)}
+                    className="h-7 w-7 shrink-0 cursor-pointer rounded-full border border-border bg-transparent"
+                    aria-label={`Color for ${tag.name}`}
+                    disabled={pendingTagId === tag.id}
+                  />
+                  <input
+                    key={tag.name}
+                    defaultValue={tag.name}
+                    maxLength={40}
+                    onBlur={(event) => handleRename(tag, event.target.value)}
+                    onKeyDown={(event) => handleRenameKeyDown(tag, event)}
+                    className="min-w-0 flex-1 rounded-full border border-border bg-surface/80 px-3 py-1 text-sm text-foreground transition focus:border-accent focus:outline-none disabled:opacity-60"
+                    aria-label={`Rename ${tag.name}`}
+                    disabled={pendingTagId === tag.id}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(tag)}
+                    className="inline-flex h-7 items-center justify-center rounded-full border border-border px-3 text-[0.65rem] font-semibold uppercase tracking-[0.16em] text-foreground-muted transition hover:border-red-400 hover:text-red-500 disabled:cursor-not-allowed disabled:opacity-60"
+                    disabled={pendingTagId === tag.id}
+                  >
+                    Delete
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
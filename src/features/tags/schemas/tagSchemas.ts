@@ -0,0 +1,42 @@
+import { z } from "zod";
+
+const tagIdSchema = z.number().int().positive("Invalid tag ID");
+
+const tagNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Tag name cannot be empty")
+  .max(40, "Tag name cannot exceed 40 characters");
+
+const tagColorSchema = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, "Tag color must be a hex value like #7c9885");
+
+// Schema for creating a tag
+export const createTagSchema = z.object({
+  name: tagNameSchema,
+  color: tagColorSchema.optional(),
+});
+
+// Schema for renaming a tag
+export const renameTagSchema = z.object({
+  id: tagIdSchema,
+  name: tagNameSchema,
+});
+
+// Schema for changing a tag's color
+export const recolorTagSchema = z.object({
+  id: tagIdSchema,
+  color: tagColorSchema,
+});
+
+// Schema for deleting a tag
+export const deleteTagSchema = z.object({
+  id: tagIdSchema,
+});
+
+// Export types inferred from schemas
+export type CreateTagInput = z.infer<typeof createTagSchema>;
+export type RenameTagInput = z.infer<typeof renameTagSchema>;
+export type RecolorTagInput = z.infer<typeof recolorTagSchema>;
+export type DeleteTagInput = z.infer<typeof deleteTagSchema>;
@@ -1,8 +1,23 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
-import { createClient } from "@/utils/supabase/server";
-import type { ActionResponse, Todo } from "@/types/database";
+import type { PostgrestError } from "@supabase/supabase-js";
+import type {
+  ActionResponse,
+  ApiTokenScope,
+  Tag,
+  Todo,
+  TodoConflict,
+  TodoListItem,
+  TodoPriority,
+  TodoRecurrence,
+  TodoUpdate,
+} from "@/types/database";
+import type { ToggleTodoResult } from "../types/toggleTodoResult";
+import type { BulkCompletionResult } from "../types/bulkCompletionResult";
+import type { TrashContents } from "../types/trashContents";
+import type { TodoSearchResult } from "../types/todoSearch";
+import type { TodoPage } from "../types/todoPage";
 import {
   createTodoSchema,
   updateTodoSchema,
@@ -11,7 +26,26 @@ import {
   updateTodoContentSchema,
   toggleTodoSchema,
   deleteTodoSchema,
+  restoreTodoSchema,
+  unarchiveTodoSchema,
+  deleteTodoPermanentlySchema,
   getTodosSchema,
+  getTodoDetailsSchema,
+  searchTodosSchema,
+  todoTagSchema,
+  moveTodoToProjectSchema,
+  bulkSetTodosDoneSchema,
+  bulkDeleteTodosSchema,
+  bulkMoveTodosSchema,
+  bulkTagTodosSchema,
+  restoreTodosSchema,
+  unarchiveTodosSchema,
+  createSubtaskSchema,
+  reparentTodoSchema,
+  reorderSubtasksSchema,
+  reorderTodoSchema,
+  todoRecurrenceSchema,
+  SCHEDULE_ORDER_ERROR,
   type CreateTodoInput,
   type UpdateTodoInput,
   type UpdateTodoDescriptionInput,
@@ -19,10 +53,68 @@ import {
   type UpdateTodoContentInput,
   type ToggleTodoInput,
   type DeleteTodoInput,
+  type RestoreTodoInput,
+  type UnarchiveTodoInput,
+  type DeleteTodoPermanentlyInput,
   type GetTodosInput,
+  type GetTodoDetailsInput,
+  type SearchTodosInput,
+  type TodoTagInput,
+  type TodoTagMatchMode,
+  type MoveTodoToProjectInput,
+  type BulkSetTodosDoneInput,
+  type BulkDeleteTodosInput,
+  type BulkMoveTodosInput,
+  type BulkTagTodosInput,
+  type RestoreTodosInput,
+  type UnarchiveTodosInput,
+  type CreateSubtaskInput,
+  type ReparentTodoInput,
+  type ReorderSubtasksInput,
+  type ReorderTodoInput,
 } from "../schemas/todoSchemas";
+import { ensureInboxProjectId } from "@/features/projects/utils/inboxProject";
+import {
+  createRequestClient,
+  getRequestUser,
+} from "@/features/apiTokens/utils/requestAuth";
+import { emitTodoEvents } from "@/features/webhooks/utils/webhookDelivery";
+import { getNextOccurrenceSchedule } from "../utils/todoRecurrence";
+import { getPositionBetween } from "../utils/todoPosition";
+import { parseSearchSnippet } from "../utils/todoSearch";
+import {
+  TODO_SORT_KEYS,
+  decodeTodoCursor,
+  encodeTodoCursor,
+  getTodoCursorFilter,
+} from "../utils/todoCursor";
 import { ZodError } from "zod";
 
+// Every todo column except the BlockNote content (and the search index)
+const TODO_LIST_COLUMNS =
+  "id, text, description, done, start_at, due_at, priority, project_id, parent_id, subtask_position, recurrence, position, deleted_at, completed_at, archived_at, user_id, created_at, updated_at";
+
+// List columns plus the tags embedded through the todo_tags join table
+const TODO_LIST_SELECT = `${TODO_LIST_COLUMNS}, tags(*)`;
+
+// The full todo, content included
+const TODO_SELECT = `${TODO_LIST_COLUMNS}, content, tags(*)`;
+
+const CONFLICT_ERROR = "This todo was changed somewhere else";
+
+// Raised by the bulk_* functions for a project or tag the user does not own
+const FOREIGN_KEY_VIOLATION = "23503";
+
+// Raised by todos_start_before_due_check when a patch with one date crosses
+// the other date already stored
+const CHECK_VIOLATION = "23514";
+
+// Raised by reorder_subtasks for an order that is not the todo's subtasks
+const INVALID_PARAMETER_VALUE = "22023";
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 function getZodErrorMessage(error: ZodError<unknown>) {
   return error.issues[0]?.message ?? "Validation failed";
 }
@@ -48,13 +140,46 @@ function normalizeContent(content: unknown): Todo["content"] {
   }
 }
 
-function normalizeTodoRecord(record: Record<string, unknown>): Todo {
+function normalizeTags(tags: unknown): Tag[] {
+  if (!Array.isArray(tags)) {
+    return [];
+  }
+
+  return (tags as Tag[])
+    .map((tag) => ({
+      id: tag.id,
+      name: tag.name,
+      color: tag.color,
+      user_id: tag.user_id,
+      created_at: tag.created_at,
+      updated_at: tag.updated_at,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function normalizeRecurrence(recurrence: unknown): TodoRecurrence | null {
+  const parsed = todoRecurrenceSchema.safeParse(recurrence);
+  return parsed.success ? parsed.data : null;
+}
+
+function normalizeTodoListRecord(record: Record<string, unknown>): TodoListItem {
   const row = record as {
     id: number;
     text: string;
     description?: string | null;
-    content?: unknown;
     done: boolean;
+    start_at?: string | null;
+    due_at?: string | null;
+    priority?: TodoPriority | null;
+    tags?: unknown;
+    project_id: number;
+    parent_id?: number | null;
+    subtask_position?: number | null;
+    recurrence?: unknown;
+    position: string;
+    deleted_at?: string | null;
+    completed_at?: string | null;
+    archived_at?: string | null;
     user_id: string;
     created_at: string;
     updated_at: string;
@@ -64,77 +189,567 @@ function normalizeTodoRecord(record: Record<string, unknown>): Todo {
     id: row.id,
     text: row.text,
     description: row.description ?? null,
-    content: normalizeContent(row.content),
     done: row.done,
+    start_at: row.start_at ?? null,
+    due_at: row.due_at ?? null,
+    priority: row.priority ?? "none",
+    tags: normalizeTags(row.tags),
+    project_id: row.project_id,
+    parent_id: row.parent_id ?? null,
+    subtask_position: row.subtask_position ?? 0,
+    recurrence: normalizeRecurrence(row.recurrence),
+    position: row.position,
+    deleted_at: row.deleted_at ?? null,
+    completed_at: row.completed_at ?? null,
+    archived_at: row.archived_at ?? null,
     user_id: row.user_id,
     created_at: row.created_at,
     updated_at: row.updated_at,
   };
 }
 
-// Helper function to get authenticated user
-async function getAuthenticatedUser() {
-  const supabase = await createClient();
-  const {
-    data: { user },
-    error,
-  } = await supabase.auth.getUser();
+function normalizeTodoRecord(record: Record<string, unknown>): Todo {
+  return {
+    ...normalizeTodoListRecord(record),
+    content: normalizeContent(record.content),
+  };
+}
+
+// The signed-in user, or the owner of the request's API token. Actions that
+// change data ask for "write", which read-only tokens do not grant
+async function getAuthenticatedUser(access: ApiTokenScope = "write") {
+  return getRequestUser(access);
+}
+
+/*
+ * Apply `updates` to one of the user's todos. Given `expectedUpdatedAt`, the
+ * write only lands while the stored row still has that timestamp; otherwise
+ * nothing changes and the stored todo is returned as a conflict.
+ */
+async function updateOwnedTodo(
+  userId: string,
+  id: number,
+  updates: TodoUpdate,
+  expectedUpdatedAt?: string
+): Promise<{
+  todo: Todo | null;
+  conflict: TodoConflict | null;
+  error: PostgrestError | null;
+}> {
+  const supabase = await createRequestClient();
+
+  let query = supabase
+    .from("todos")
+    .update(updates)
+    .eq("id", id)
+    .eq("user_id", userId);
+  if (expectedUpdatedAt !== undefined) {
+    query = query.eq("updated_at", expectedUpdatedAt);
+  }
+
+  const { data, error } = await query.select(TODO_SELECT).maybeSingle();
+  if (error) {
+    return { todo: null, conflict: null, error };
+  }
+  if (data) {
+    return { todo: normalizeTodoRecord(data), conflict: null, error: null };
+  }
+  if (expectedUpdatedAt === undefined) {
+    return { todo: null, conflict: null, error: null };
+  }
+
+  // Nothing matched: either the todo is gone or someone else wrote first
+  const { data: current, error: currentError } = await supabase
+    .from("todos")
+    .select(TODO_SELECT)
+    .eq("id", id)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  return {
+    todo: null,
+    conflict: current
+      ? { code: "conflict", current: normalizeTodoRecord(current) }
+      : null,
+    error: currentError,
+  };
+}
+
+// Days a trashed todo is kept, configurable through TODO_TRASH_RETENTION_DAYS
+function getTrashRetentionDays() {
+  const days = Number(process.env.TODO_TRASH_RETENTION_DAYS);
+  return Number.isInteger(days) && days > 0
+    ? days
+    : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+// Todos trashed before this moment have outlived the trash retention
+const getTrashCutoff = () =>
+  new Date(Date.now() - getTrashRetentionDays() * DAY_MS);
+
+// Permanently delete the user's todos that have outlived the trash retention;
+// subtasks go with their parent through the cascade. Runs from the actions
+// that change the trash, never from reads, which leave expired todos out
+async function purgeExpiredTrash(userId: string) {
+  const supabase = await createRequestClient();
+
+  const { error } = await supabase
+    .from("todos")
+    .delete()
+    .eq("user_id", userId)
+    .lt("deleted_at", getTrashCutoff().toISOString());
+
+  if (error) {
+    console.error("Error purging expired trash:", error);
+  }
+}
+
+// Check that a project exists and belongs to the user
+async function isOwnedProject(userId: string, projectId: number) {
+  const supabase = await createRequestClient();
+  const { data, error } = await supabase
+    .from("projects")
+    .select("id")
+    .eq("id", projectId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching project:", error);
+    return false;
+  }
+
+  return data !== null;
+}
+
+// Load a todo that is about to receive subtasks; subtasks cannot nest further
+async function getSubtaskParent(
+  userId: string,
+  parentId: number
+): Promise<{ parent: { id: number; project_id: number } | null; error?: string }> {
+  const supabase = await createRequestClient();
+  const { data, error } = await supabase
+    .from("todos")
+    .select("id, parent_id, project_id")
+    .eq("id", parentId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching parent todo:", error);
+    return { parent: null, error: "Failed to load parent todo" };
+  }
+
+  if (!data) {
+    return { parent: null, error: "Parent todo not found or access denied" };
+  }
+
+  if (data.parent_id !== null) {
+    return { parent: null, error: "Subtasks cannot have subtasks" };
+  }
+
+  return { parent: { id: data.id, project_id: data.project_id } };
+}
+
+// Position that places a new subtask after its existing siblings
+async function getNextSubtaskPosition(userId: string, parentId: number) {
+  const supabase = await createRequestClient();
+  const { data } = await supabase
+    .from("todos")
+    .select("subtask_position")
+    .eq("parent_id", parentId)
+    .eq("user_id", userId)
+    .order("subtask_position", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data ? (data.subtask_position as number) + 1 : 0;
+}
+
+// Manual order key right after `position`, or after the user's last todo when null
+async function getTodoPositionAfter(
+  userId: string,
+  position: string | null
+): Promise<string | null> {
+  const supabase = await createRequestClient();
+  let query = supabase.from("todos").select("position").eq("user_id", userId);
+  query =
+    position === null
+      ? query.order("position", { ascending: false })
+      : query.gt("position", position).order("position", { ascending: true });
+
+  const { data, error } = await query.limit(1).maybeSingle();
+
+  if (error) {
+    console.error("Error fetching todo position:", error);
+    return null;
+  }
+
+  const neighbour = (data?.position as string | undefined) ?? null;
+  return position === null
+    ? getPositionBetween(neighbour, null)
+    : getPositionBetween(position, neighbour);
+}
+
+// Ids returned by the bulk_* functions, which answer with rows of (id)
+function getChangedIds(rows: unknown): number[] {
+  return Array.isArray(rows)
+    ? rows
+        .map((row) => Number((row as { id?: unknown })?.id))
+        .filter((id) => Number.isSafeInteger(id))
+    : [];
+}
+
+// Rows of (id, is_next_occurrence) returned by the functions that complete
+// recurring todos: the todos they completed and the occurrences they created
+function getCompletionRows(
+  rows: unknown
+): { id: number; is_next_occurrence: boolean }[] {
+  return Array.isArray(rows)
+    ? rows
+        .map((row: { id?: unknown; is_next_occurrence?: unknown }) => ({
+          id: Number(row?.id),
+          is_next_occurrence: row?.is_next_occurrence === true,
+        }))
+        .filter((row) => Number.isSafeInteger(row.id))
+    : [];
+}
+
+// List items returned by a function that returns a set of todos; the client
+// types such calls as a single row, so the array is checked at runtime
+function getReturnedTodos(rows: unknown): TodoListItem[] {
+  return Array.isArray(rows)
+    ? rows.map((row: Record<string, unknown>) => normalizeTodoListRecord(row))
+    : [];
+}
+
+// Read back list items after a bulk action changed them
+async function getTodoListItems(
+  userId: string,
+  ids: number[]
+): Promise<TodoListItem[] | null> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const supabase = await createRequestClient();
+  const { data, error } = await supabase
+    .from("todos")
+    .select(TODO_LIST_SELECT)
+    .in("id", ids)
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error("Error fetching changed todos:", error);
+    return null;
+  }
+
+  return (data ?? []).map(normalizeTodoListRecord);
+}
+
+// Resolve the ids of a user's todos tagged with any/all of the given tags
+async function getTodoIdsMatchingTags(
+  userId: string,
+  tagIds: number[],
+  mode: TodoTagMatchMode
+): Promise<number[] | null> {
+  const supabase = await createRequestClient();
+  const { data, error } = await supabase
+    .from("todo_tags")
+    .select("todo_id, tag_id")
+    .eq("user_id", userId)
+    .in("tag_id", tagIds);
+
+  if (error) {
+    console.error("Error fetching todo tags:", error);
+    return null;
+  }
+
+  const tagsByTodo = new Map<number, Set<number>>();
+  for (const link of data ?? []) {
+    const tags = tagsByTodo.get(link.todo_id) ?? new Set<number>();
+    tags.add(link.tag_id);
+    tagsByTodo.set(link.todo_id, tags);
+  }
+
+  const requiredCount = new Set(tagIds).size;
+  return [...tagsByTodo.entries()]
+    .filter(([, tags]) => mode === "any" || tags.size === requiredCount)
+    .map(([todoId]) => todoId);
+}
 
-  if (error || !user) {
-    return { user: null, error: "You must be logged in to perform this action" };
+// Resolve todo ids to the top-level todos they belong to: a subtask to its
+// parent, any other todo to itself
+async function getTopLevelTodoIds(
+  userId: string,
+  ids: number[]
+): Promise<number[] | null> {
+  const supabase = await createRequestClient();
+  const { data, error } = await supabase
+    .from("todos")
+    .select("id, parent_id")
+    .eq("user_id", userId)
+    .in("id", ids);
+
+  if (error) {
+    console.error("Error fetching todo parents:", error);
+    return null;
   }
 
-  return { user, error: null };
+  return [
+    ...new Set((data ?? []).map((todo) => todo.parent_id ?? todo.id)),
+  ] as number[];
 }
 
-// Get all todos for the current user
+// Get a page of the current user's todos in the requested sort, without their
+// content. Pagination, tag, project and id filters apply to top-level todos;
+// each page carries the subtasks of the todos on it
 export async function getTodos(
   input?: GetTodosInput
-): Promise<ActionResponse<Todo[]>> {
+): Promise<ActionResponse<TodoPage>> {
   try {
     // Validate input
     const validatedInput = getTodosSchema.parse(input || {});
 
+    const cursorValues =
+      validatedInput.cursor === undefined
+        ? null
+        : decodeTodoCursor(validatedInput.cursor, validatedInput.sort);
+    if (validatedInput.cursor !== undefined && cursorValues === null) {
+      return {
+        success: false,
+        error: "Invalid cursor",
+        code: "validation_error",
+      };
+    }
+
     // Get authenticated user
-    const { user, error: authError } = await getAuthenticatedUser();
+    const { user, error: authError, code } =
+      await getAuthenticatedUser("read");
     if (authError || !user) {
-      return { success: false, error: authError };
+      return { success: false, error: authError, code };
     }
 
-    const supabase = await createClient();
+    const supabase = await createRequestClient();
+
+    // Restrict to todos carrying the requested tags
+    let taggedTodoIds: number[] | null = null;
+    if (validatedInput.tagIds.length > 0) {
+      taggedTodoIds = await getTodoIdsMatchingTags(
+        user.id,
+        validatedInput.tagIds,
+        validatedInput.tagMode
+      );
+      if (taggedTodoIds === null) {
+        return { success: false, error: "Failed to fetch todos" };
+      }
+      if (taggedTodoIds.length === 0) {
+        return { success: true, data: { todos: [], nextCursor: null } };
+      }
+    }
 
-    // Build query
-    let query = supabase
-      .from("todos")
-      .select("*")
-      .eq("user_id", user.id)
-      .order("created_at", { ascending: false });
+    // Restrict to the requested todos, or the parents of requested subtasks
+    let requestedTodoIds: number[] | null = null;
+    if (validatedInput.ids !== undefined) {
+      requestedTodoIds = await getTopLevelTodoIds(user.id, validatedInput.ids);
+      if (requestedTodoIds === null) {
+        return { success: false, error: "Failed to fetch todos" };
+      }
+      if (requestedTodoIds.length === 0) {
+        return { success: true, data: { todos: [], nextCursor: null } };
+      }
+    }
+
+    // Trashed, archived and done filters apply to the page and its subtasks alike
+    const buildQuery = () => {
+      let query = supabase
+        .from("todos")
+        .select(TODO_LIST_SELECT)
+        .eq("user_id", user.id);
+
+      // Todos past the trash retention are gone, even if not yet purged
+      query = validatedInput.includeTrashed
+        ? query.or(
+            `deleted_at.is.null,deleted_at.gte.${getTrashCutoff().toISOString()}`
+          )
+        : query.is("deleted_at", null);
+      if (!validatedInput.includeArchived) {
+        query = query.is("archived_at", null);
+      }
+      if (validatedInput.filter === "active") {
+        query = query.eq("done", false);
+      } else if (validatedInput.filter === "completed") {
+        query = query.eq("done", true);
+      }
+      return query;
+    };
+
+    let query = buildQuery().is("parent_id", null);
+
+    // Restrict to a single project
+    if (validatedInput.projectId !== undefined) {
+      query = query.eq("project_id", validatedInput.projectId);
+    }
+    if (taggedTodoIds !== null) {
+      query = query.in("id", taggedTodoIds);
+    }
+    if (requestedTodoIds !== null) {
+      query = query.in("id", requestedTodoIds);
+    }
+
+    // Continue after the last todo of the previous page
+    if (cursorValues !== null) {
+      query = query.or(getTodoCursorFilter(validatedInput.sort, cursorValues));
+    }
 
-    // Apply filter
-    if (validatedInput.filter === "active") {
-      query = query.eq("done", false);
-    } else if (validatedInput.filter === "completed") {
-      query = query.eq("done", true);
+    for (const key of TODO_SORT_KEYS[validatedInput.sort]) {
+      query = query.order(key.column, {
+        ascending: key.ascending,
+        nullsFirst: false,
+      });
     }
 
-    const { data, error } = await query;
+    // One extra row tells whether another page follows
+    const { data, error } = await query.limit(validatedInput.limit + 1);
 
     if (error) {
       console.error("Error fetching todos:", error);
       return { success: false, error: "Failed to fetch todos" };
     }
 
-    const todos = (data ?? []).map((record) => normalizeTodoRecord(record));
-    return { success: true, data: todos };
+    const rows = (data ?? []).map((record) => normalizeTodoListRecord(record));
+    const todos = rows.slice(0, validatedInput.limit);
+    const lastTodo = todos[todos.length - 1];
+    const nextCursor =
+      rows.length > validatedInput.limit && lastTodo
+        ? encodeTodoCursor(validatedInput.sort, lastTodo)
+        : null;
+
+    if (todos.length === 0) {
+      return { success: true, data: { todos, nextCursor } };
+    }
+
+    const { data: subtaskData, error: subtaskError } = await buildQuery()
+      .in(
+        "parent_id",
+        todos.map((todo) => todo.id)
+      )
+      .order("subtask_position", { ascending: true });
+
+    if (subtaskError) {
+      console.error("Error fetching subtasks:", subtaskError);
+      return { success: false, error: "Failed to fetch todos" };
+    }
+
+    return {
+      success: true,
+      data: {
+        todos: [
+          ...todos,
+          ...(subtaskData ?? []).map((record) => normalizeTodoListRecord(record)),
+        ],
+        nextCursor,
+      },
+    };
   } catch (error) {
     if (error instanceof ZodError) {
-      return { success: false, error: getZodErrorMessage(error) };
+      return {
+        success: false,
+        error: getZodErrorMessage(error),
+        code: "validation_error",
+      };
     }
     console.error("Unexpected error in getTodos:", error);
     return { success: false, error: "An unexpected error occurred" };
   }
 }
 
+// Get a single todo with its content, for the details view
+export async function getTodoDetails(
+  input: GetTodoDetailsInput
+): Promise<ActionResponse<Todo>> {
+  try {
+    const validatedInput = getTodoDetailsSchema.parse(input);
+
+    const { user, error: authError, code } =
+      await getAuthenticatedUser("read");
+    if (authError || !user) {
+      return { success: false, error: authError, code };
+    }
+
+    const supabase = await createRequestClient();
+
+    const { data, error } = await supabase
+      .from("todos")
+      .select(TODO_SELECT)
+      .eq("id", validatedInput.id)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching todo details:", error);
+      return { success: false, error: "Failed to load todo" };
+    }
+    if (!data) {
+      return { success: false, error: "Todo not found", code: "not_found" };
+    }
+
+    return { success: true, data: normalizeTodoRecord(data) };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return {
+        success: false,
+        error: getZodErrorMessage(error),
+        code: "validation_error",
+      };
+    }
+    console.error("Unexpected error in getTodoDetails:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Full-text search over text, description and content, best match first
+export async function searchTodos(
+  input: SearchTodosInput
+): Promise<ActionResponse<TodoSearchResult[]>> {
+  try {
+    const validatedInput = searchTodosSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser("read");
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createRequestClient();
+
+    const { data, error } = await supabase.rpc("search_todos", {
+      search: validatedInput.query,
+      max_results: validatedInput.limit,
+    });
+
+    if (error) {
+      console.error("Error searching todos:", error);
+      return { success: false, error: "Failed to search todos" };
+    }
+
+    const rows = (data ?? []) as { id: number; rank: number; snippet: string }[];
+    return {
+      success: true,
+      data: rows.map((row) => ({
+        id: row.id,
+        rank: row.rank,
+        snippet: parseSearchSnippet(row.snippet ?? ""),
+      })),
+    };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in searchTodos:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
 // Create a new todo
 export async function createTodo(
   input: CreateTodoInput
@@ -144,17 +759,40 @@ export async function createTodo(
     const validatedInput = createTodoSchema.parse(input);
 
     // Get authenticated user
-    const { user, error: authError } = await getAuthenticatedUser();
+    const { user, error: authError, code } = await getAuthenticatedUser();
     if (authError || !user) {
-      return { success: false, error: authError };
+      return { success: false, error: authError, code };
     }
 
-    const supabase = await createClient();
+    const supabase = await createRequestClient();
     const description = normalizeDescription(validatedInput.description);
     const content = Array.isArray(validatedInput.content)
       ? (validatedInput.content as Todo["content"])
       : [];
 
+    // New todos land in the requested project, or the inbox by default
+    let projectId = validatedInput.projectId ?? null;
+    if (projectId !== null) {
+      if (!(await isOwnedProject(user.id, projectId))) {
+        return {
+          success: false,
+          error: "Project not found or access denied",
+          code: "not_found",
+        };
+      }
+    } else {
+      projectId = await ensureInboxProjectId(supabase, user.id);
+      if (projectId === null) {
+        return { success: false, error: "Failed to create todo" };
+      }
+    }
+
+    // New todos go to the bottom of the manual order
+    const position = await getTodoPositionAfter(user.id, null);
+    if (position === null) {
+      return { success: false, error: "Failed to create todo" };
+    }
+
     // Insert todo
     const { data, error } = await supabase
       .from("todos")
@@ -162,10 +800,16 @@ export async function createTodo(
         text: validatedInput.text,
         description,
         content,
+        start_at: validatedInput.start_at ?? null,
+        due_at: validatedInput.due_at ?? null,
+        priority: validatedInput.priority ?? "none",
+        project_id: projectId,
+        recurrence: validatedInput.recurrence ?? null,
+        position,
         user_id: user.id,
         done: false,
       })
-      .select()
+      .select(TODO_SELECT)
       .single();
 
     if (error) {
@@ -177,11 +821,18 @@ export async function createTodo(
       return { success: false, error: "Failed to create todo" };
     }
 
+    const todo = normalizeTodoRecord(data);
+    emitTodoEvents(supabase, user.id, "todo.created", [todo]);
+
     revalidatePath("/");
-    return { success: true, data: normalizeTodoRecord(data) };
+    return { success: true, data: todo };
   } catch (error) {
     if (error instanceof ZodError) {
-      return { success: false, error: getZodErrorMessage(error) };
+      return {
+        success: false,
+        error: getZodErrorMessage(error),
+        code: "validation_error",
+      };
     }
     console.error("Unexpected error in createTodo:", error);
     return { success: false, error: "An unexpected error occurred" };
@@ -197,20 +848,13 @@ export async function updateTodo(
     const validatedInput = updateTodoSchema.parse(input);
 
     // Get authenticated user
-    const { user, error: authError } = await getAuthenticatedUser();
+    const { user, error: authError, code } = await getAuthenticatedUser();
     if (authError || !user) {
-      return { success: false, error: authError };
+      return { success: false, error: authError, code };
     }
 
-    const supabase = await createClient();
-
     // Build update object
-    const updates: {
-      text?: string;
-      done?: boolean;
-      description?: string | null;
-      content?: Todo["content"];
-    } = {};
+    const updates: TodoUpdate = {};
     if (validatedInput.text !== undefined) {
       updates.text = validatedInput.text;
     }
@@ -225,30 +869,65 @@ export async function updateTodo(
         ? (validatedInput.content as Todo["content"])
         : [];
     }
+    if (validatedInput.start_at !== undefined) {
+      updates.start_at = validatedInput.start_at;
+    }
+    if (validatedInput.due_at !== undefined) {
+      updates.due_at = validatedInput.due_at;
+    }
+    if (validatedInput.priority !== undefined) {
+      updates.priority = validatedInput.priority;
+    }
+    if (validatedInput.recurrence !== undefined) {
+      updates.recurrence = validatedInput.recurrence;
+    }
 
     // Update todo (RLS ensures user can only update their own todos)
-    const { data, error } = await supabase
-      .from("todos")
-      .update(updates)
-      .eq("id", validatedInput.id)
-      .eq("user_id", user.id)
-      .select()
-      .single();
+    const { todo, conflict, error } = await updateOwnedTodo(
+      user.id,
+      validatedInput.id,
+      updates,
+      validatedInput.expectedUpdatedAt
+    );
 
     if (error) {
+      if (error.code === CHECK_VIOLATION) {
+        return {
+          success: false,
+          error: SCHEDULE_ORDER_ERROR,
+          code: "validation_error",
+        };
+      }
       console.error("Error updating todo:", error);
       return { success: false, error: "Failed to update todo" };
     }
 
-    if (!data) {
-      return { success: false, error: "Todo not found or access denied" };
+    if (conflict) {
+      return {
+        success: false,
+        error: CONFLICT_ERROR,
+        code: "conflict",
+        conflict,
+      };
+    }
+
+    if (!todo) {
+      return {
+        success: false,
+        error: "Todo not found or access denied",
+        code: "not_found",
+      };
     }
 
     revalidatePath("/");
-    return { success: true, data: normalizeTodoRecord(data) };
+    return { success: true, data: todo };
   } catch (error) {
     if (error instanceof ZodError) {
-      return { success: false, error: getZodErrorMessage(error) };
+      return {
+        success: false,
+        error: getZodErrorMessage(error),
+        code: "validation_error",
+      };
     }
     console.error("Unexpected error in updateTodo:", error);
     return { success: false, error: "An unexpected error occurred" };
@@ -266,7 +945,7 @@ export async function updateTodoDescription(
       return { success: false, error: authError };
     }
 
-    const supabase = await createClient();
+    const supabase = await createRequestClient();
     const description = normalizeDescription(validatedInput.description);
 
     const { data, error } = await supabase
@@ -274,7 +953,7 @@ export async function updateTodoDescription(
       .update({ description })
       .eq("id", validatedInput.id)
       .eq("user_id", user.id)
-      .select()
+      .select(TODO_SELECT)
       .single();
 
     if (error) {
@@ -303,35 +982,49 @@ export async function updateTodoText(
   try {
     const validatedInput = updateTodoTextSchema.parse(input);
 
-    const { user, error: authError } = await getAuthenticatedUser();
+    const { user, error: authError, code } = await getAuthenticatedUser();
     if (authError || !user) {
-      return { success: false, error: authError };
+      return { success: false, error: authError, code };
     }
 
-    const supabase = await createClient();
-
-    const { data, error } = await supabase
-      .from("todos")
-      .update({ text: validatedInput.text })
-      .eq("id", validatedInput.id)
-      .eq("user_id", user.id)
-      .select()
-      .single();
+    const { todo, conflict, error } = await updateOwnedTodo(
+      user.id,
+      validatedInput.id,
+      { text: validatedInput.text },
+      validatedInput.expectedUpdatedAt
+    );
 
     if (error) {
       console.error("Error updating todo text:", error);
       return { success: false, error: "Failed to update todo" };
     }
 
-    if (!data) {
-      return { success: false, error: "Todo not found or access denied" };
+    if (conflict) {
+      return {
+        success: false,
+        error: CONFLICT_ERROR,
+        code: "conflict",
+        conflict,
+      };
+    }
+
+    if (!todo) {
+      return {
+        success: false,
+        error: "Todo not found or access denied",
+        code: "not_found",
+      };
     }
 
     revalidatePath("/");
-    return { success: true, data: normalizeTodoRecord(data) };
+    return { success: true, data: todo };
   } catch (error) {
     if (error instanceof ZodError) {
-      return { success: false, error: getZodErrorMessage(error) };
+      return {
+        success: false,
+        error: getZodErrorMessage(error),
+        code: "validation_error",
+      };
     }
     console.error("Unexpected error in updateTodoText:", error);
     return { success: false, error: "An unexpected error occurred" };
@@ -344,38 +1037,53 @@ export async function updateTodoContent(
   try {
     const validatedInput = updateTodoContentSchema.parse(input);
 
-    const { user, error: authError } = await getAuthenticatedUser();
+    const { user, error: authError, code } = await getAuthenticatedUser();
     if (authError || !user) {
-      return { success: false, error: authError };
+      return { success: false, error: authError, code };
     }
 
-    const supabase = await createClient();
     const content = Array.isArray(validatedInput.content)
       ? (validatedInput.content as Todo["content"])
       : [];
 
-    const { data, error } = await supabase
-      .from("todos")
-      .update({ content })
-      .eq("id", validatedInput.id)
-      .eq("user_id", user.id)
-      .select()
-      .single();
+    const { todo, conflict, error } = await updateOwnedTodo(
+      user.id,
+      validatedInput.id,
+      { content },
+      validatedInput.expectedUpdatedAt
+    );
 
     if (error) {
       console.error("Error updating todo content:", error);
       return { success: false, error: "Failed to update todo content" };
     }
 
-    if (!data) {
-      return { success: false, error: "Todo not found or access denied" };
+    if (conflict) {
+      return {
+        success: false,
+        error: CONFLICT_ERROR,
+        code: "conflict",
+        conflict,
+      };
+    }
+
+    if (!todo) {
+      return {
+        success: false,
+        error: "Todo not found or access denied",
+        code: "not_found",
+      };
     }
 
     revalidatePath("/");
-    return { success: true, data: normalizeTodoRecord(data) };
+    return { success: true, data: todo };
   } catch (error) {
     if (error instanceof ZodError) {
-      return { success: false, error: getZodErrorMessage(error) };
+      return {
+        success: false,
+        error: getZodErrorMessage(error),
+        code: "validation_error",
+      };
     }
     console.error("Unexpected error in updateTodoContent:", error);
     return { success: false, error: "An unexpected error occurred" };
@@ -385,57 +1093,164 @@ export async function updateTodoContent(
 // Toggle todo completion status
 export async function toggleTodo(
   input: ToggleTodoInput
-): Promise<ActionResponse<Todo>> {
+): Promise<ActionResponse<ToggleTodoResult>> {
   try {
     // Validate input
     const validatedInput = toggleTodoSchema.parse(input);
 
     // Get authenticated user
-    const { user, error: authError } = await getAuthenticatedUser();
+    const { user, error: authError, code } = await getAuthenticatedUser();
     if (authError || !user) {
-      return { success: false, error: authError };
+      return { success: false, error: authError, code };
     }
 
-    const supabase = await createClient();
+    const supabase = await createRequestClient();
 
     // First, get the current todo to know its current state
-    const { data: currentTodo, error: fetchError } = await supabase
+    const { data: currentRecord, error: fetchError } = await supabase
       .from("todos")
-      .select("done")
+      .select(TODO_SELECT)
       .eq("id", validatedInput.id)
       .eq("user_id", user.id)
+      .is("deleted_at", null)
       .single();
 
-    if (fetchError || !currentTodo) {
-      return { success: false, error: "Todo not found or access denied" };
+    if (fetchError || !currentRecord) {
+      return {
+        success: false,
+        error: "Todo not found or access denied",
+        code: "not_found",
+      };
     }
 
-    // Toggle the done status
-    const { data, error } = await supabase
-      .from("todos")
-      .update({ done: !currentTodo.done })
-      .eq("id", validatedInput.id)
-      .eq("user_id", user.id)
-      .select()
-      .single();
+    const currentTodo = normalizeTodoRecord(currentRecord);
+    const nextDone = !currentTodo.done;
+
+    let data: (typeof currentRecord)[] | null;
+    let nextOccurrence: Todo | null = null;
+    if (nextDone && currentTodo.recurrence) {
+      // Completing a recurring todo hands its rule over to the next occurrence,
+      // so reopening and completing it again does not schedule a second one.
+      // Both happen in one transaction, so neither can be left half done
+      const schedule = getNextOccurrenceSchedule(
+        currentTodo,
+        currentTodo.recurrence,
+        validatedInput.timeZone
+      );
+      const position = await getTodoPositionAfter(user.id, currentTodo.position);
+      if (position === null) {
+        return {
+          success: false,
+          error: "Failed to schedule the next occurrence",
+        };
+      }
+
+      const { data: changedRows, error } = await supabase.rpc(
+        "complete_recurring_todo",
+        {
+          target_todo_id: validatedInput.id,
+          next_start_at: schedule.start_at,
+          next_due_at: schedule.due_at,
+          next_position: position,
+          complete_subtasks: validatedInput.includeSubtasks,
+        }
+      );
+
+      if (error) {
+        console.error("Error completing recurring todo:", error);
+        return { success: false, error: "Failed to toggle todo" };
+      }
+
+      // None when the todo was skipped
+      const rows = getCompletionRows(changedRows);
+      const nextOccurrenceId = rows.find((row) => row.is_next_occurrence)?.id;
+      const { data: records, error: readError } = await supabase
+        .from("todos")
+        .select(TODO_SELECT)
+        .in("id", rows.map((row) => row.id))
+        .eq("user_id", user.id);
+
+      if (readError) {
+        console.error("Error fetching completed todos:", readError);
+        return { success: false, error: "Failed to toggle todo" };
+      }
+
+      const nextRecord = (records ?? []).find(
+        (record) => record.id === nextOccurrenceId
+      );
+      nextOccurrence = nextRecord ? normalizeTodoRecord(nextRecord) : null;
+      data = (records ?? []).filter((record) => record !== nextRecord);
+    } else {
+      // Toggle the done status; completing a parent can take its open subtasks
+      // along in the same statement. Reopening a todo takes it out of the archive
+      let query = supabase
+        .from("todos")
+        .update(
+          nextDone
+            ? { done: true, completed_at: new Date().toISOString() }
+            : { done: false, completed_at: null, archived_at: null }
+        )
+        .eq("user_id", user.id)
+        .is("deleted_at", null);
+      query =
+        nextDone && validatedInput.includeSubtasks
+          ? query.or(
+              `id.eq.${validatedInput.id},and(parent_id.eq.${validatedInput.id},done.eq.false)`
+            )
+          : query.eq("id", validatedInput.id);
+
+      const { data: records, error } = await query.select(TODO_SELECT);
+
+      if (error) {
+        console.error("Error toggling todo:", error);
+        return { success: false, error: "Failed to toggle todo" };
+      }
+      data = records;
+    }
 
-    if (error) {
-      console.error("Error toggling todo:", error);
-      return { success: false, error: "Failed to toggle todo" };
+    const toggled = (data ?? []).find(
+      (record) => record.id === validatedInput.id
+    );
+    if (!toggled) {
+      return {
+        success: false,
+        error: "Todo not found or access denied",
+        code: "not_found",
+      };
+    }
+
+    // Completing takes open subtasks along, and each of them is completed too
+    if (nextDone) {
+      emitTodoEvents(
+        supabase,
+        user.id,
+        "todo.completed",
+        (data ?? []).map((record) => normalizeTodoListRecord(record))
+      );
+    }
+    if (nextOccurrence) {
+      emitTodoEvents(supabase, user.id, "todo.created", [nextOccurrence]);
     }
 
     revalidatePath("/");
-    return { success: true, data: normalizeTodoRecord(data) };
+    return {
+      success: true,
+      data: { todo: normalizeTodoRecord(toggled), nextOccurrence },
+    };
   } catch (error) {
     if (error instanceof ZodError) {
-      return { success: false, error: getZodErrorMessage(error) };
+      return {
+        success: false,
+        error: getZodErrorMessage(error),
+        code: "validation_error",
+      };
     }
     console.error("Unexpected error in toggleTodo:", error);
     return { success: false, error: "An unexpected error occurred" };
   }
 }
 
-// Delete a todo
+// Move a todo and its subtasks to the trash
 export async function deleteTodo(
   input: DeleteTodoInput
 ): Promise<ActionResponse<void>> {
@@ -444,38 +1259,86 @@ export async function deleteTodo(
     const validatedInput = deleteTodoSchema.parse(input);
 
     // Get authenticated user
-    const { user, error: authError } = await getAuthenticatedUser();
+    const { user, error: authError, code } = await getAuthenticatedUser();
     if (authError || !user) {
-      return { success: false, error: authError };
+      return { success: false, error: authError, code };
     }
 
-    const supabase = await createClient();
+    const supabase = await createRequestClient();
+    await purgeExpiredTrash(user.id);
 
-    // Delete todo (RLS ensures user can only delete their own todos)
-    const { error } = await supabase
+    // Check the todo itself first, so a missing or already trashed one does
+    // not take its subtasks to the trash
+    const { data: existing, error: existingError } = await supabase
       .from("todos")
-      .delete()
+      .select("id")
       .eq("id", validatedInput.id)
-      .eq("user_id", user.id);
+      .eq("user_id", user.id)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (existingError) {
+      console.error("Error fetching todo to delete:", existingError);
+      return { success: false, error: "Failed to delete todo" };
+    }
+
+    if (!existing) {
+      return {
+        success: false,
+        error: "Todo not found or access denied",
+        code: "not_found",
+      };
+    }
+
+    // Subtasks share the parent's timestamp so they are restored together
+    const { data, error } = await supabase
+      .from("todos")
+      .update({ deleted_at: new Date().toISOString() })
+      .or(`id.eq.${validatedInput.id},parent_id.eq.${validatedInput.id}`)
+      .eq("user_id", user.id)
+      .is("deleted_at", null)
+      .select(TODO_LIST_SELECT);
 
     if (error) {
       console.error("Error deleting todo:", error);
       return { success: false, error: "Failed to delete todo" };
     }
 
+    // Trashed elsewhere between the check and the update
+    if (!(data ?? []).some((record) => record.id === validatedInput.id)) {
+      return {
+        success: false,
+        error: "Todo not found or access denied",
+        code: "not_found",
+      };
+    }
+
+    emitTodoEvents(
+      supabase,
+      user.id,
+      "todo.deleted",
+      (data ?? []).map((record) => normalizeTodoListRecord(record))
+    );
+
     revalidatePath("/");
     return { success: true };
   } catch (error) {
     if (error instanceof ZodError) {
-      return { success: false, error: getZodErrorMessage(error) };
+      return {
+        success: false,
+        error: getZodErrorMessage(error),
+        code: "validation_error",
+      };
     }
     console.error("Unexpected error in deleteTodo:", error);
     return { success: false, error: "An unexpected error occurred" };
   }
 }
 
-// Clear all completed todos
-export async function clearCompletedTodos(): Promise<ActionResponse<void>> {
+// Archive all completed todos together with their subtasks; completed
+// subtasks of open todos stay on their parent's checklist. Returns the ids
+// archived, subtasks included, so the clear can be undone
+export async function clearCompletedTodos(): Promise<ActionResponse<number[]>> {
   try {
     // Get authenticated user
     const { user, error: authError } = await getAuthenticatedUser();
@@ -483,14 +1346,35 @@ export async function clearCompletedTodos(): Promise<ActionResponse<void>> {
       return { success: false, error: authError };
     }
 
-    const supabase = await createClient();
+    const supabase = await createRequestClient();
 
-    // Delete all completed todos for the user
-    const { error } = await supabase
+    const { data: completed, error: fetchError } = await supabase
       .from("todos")
-      .delete()
+      .select("id")
+      .eq("user_id", user.id)
+      .eq("done", true)
+      .is("parent_id", null)
+      .is("archived_at", null)
+      .is("deleted_at", null);
+
+    if (fetchError) {
+      console.error("Error fetching completed todos:", fetchError);
+      return { success: false, error: "Failed to clear completed todos" };
+    }
+
+    const completedIds = (completed ?? []).map((todo) => todo.id).join(",");
+    if (!completedIds) {
+      return { success: true, data: [] };
+    }
+
+    const { data: archived, error } = await supabase
+      .from("todos")
+      .update({ archived_at: new Date().toISOString() })
+      .or(`id.in.(${completedIds}),parent_id.in.(${completedIds})`)
       .eq("user_id", user.id)
-      .eq("done", true);
+      .is("archived_at", null)
+      .is("deleted_at", null)
+      .select("id");
 
     if (error) {
       console.error("Error clearing completed todos:", error);
@@ -498,9 +1382,1040 @@ export async function clearCompletedTodos(): Promise<ActionResponse<void>> {
     }
 
     revalidatePath("/");
-    return { success: true };
+    return { success: true, data: (archived ?? []).map((todo) => todo.id) };
   } catch (error) {
     console.error("Unexpected error in clearCompletedTodos:", error);
     return { success: false, error: "An unexpected error occurred" };
   }
 }
+
+// Attach a tag to a todo
+export async function attachTagToTodo(
+  input: TodoTagInput
+): Promise<ActionResponse<Todo>> {
+  try {
+    const validatedInput = todoTagSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createRequestClient();
+
+    // Upsert so attaching an already attached tag is a no-op
+    const { error } = await supabase.from("todo_tags").upsert(
+      {
+        todo_id: validatedInput.todoId,
+        tag_id: validatedInput.tagId,
+        user_id: user.id,
+      },
+      { onConflict: "todo_id,tag_id", ignoreDuplicates: true }
+    );
+
+    if (error) {
+      console.error("Error attaching tag:", error);
+      return { success: false, error: "Failed to attach tag" };
+    }
+
+    const { data, error: fetchError } = await supabase
+      .from("todos")
+      .select(TODO_SELECT)
+      .eq("id", validatedInput.todoId)
+      .eq("user_id", user.id)
+      .single();
+
+    if (fetchError || !data) {
+      return { success: false, error: "Todo not found or access denied" };
+    }
+
+    revalidatePath("/");
+    return { success: true, data: normalizeTodoRecord(data) };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in attachTagToTodo:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Detach a tag from a todo
+export async function detachTagFromTodo(
+  input: TodoTagInput
+): Promise<ActionResponse<Todo>> {
+  try {
+    const validatedInput = todoTagSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createRequestClient();
+
+    const { error } = await supabase
+      .from("todo_tags")
+      .delete()
+      .eq("todo_id", validatedInput.todoId)
+      .eq("tag_id", validatedInput.tagId)
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("Error detaching tag:", error);
+      return { success: false, error: "Failed to detach tag" };
+    }
+
+    const { data, error: fetchError } = await supabase
+      .from("todos")
+      .select(TODO_SELECT)
+      .eq("id", validatedInput.todoId)
+      .eq("user_id", user.id)
+      .single();
+
+    if (fetchError || !data) {
+      return { success: false, error: "Todo not found or access denied" };
+    }
+
+    revalidatePath("/");
+    return { success: true, data: normalizeTodoRecord(data) };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in detachTagFromTodo:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Move a todo to another project
+export async function moveTodoToProject(
+  input: MoveTodoToProjectInput
+): Promise<ActionResponse<Todo>> {
+  try {
+    const validatedInput = moveTodoToProjectSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    if (!(await isOwnedProject(user.id, validatedInput.projectId))) {
+      return { success: false, error: "Project not found or access denied" };
+    }
+
+    const supabase = await createRequestClient();
+
+    const { data, error } = await supabase
+      .from("todos")
+      .update({ project_id: validatedInput.projectId })
+      .eq("id", validatedInput.id)
+      .eq("user_id", user.id)
+      .is("parent_id", null)
+      .select(TODO_SELECT)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error moving todo:", error);
+      return { success: false, error: "Failed to move todo" };
+    }
+
+    if (!data) {
+      return {
+        success: false,
+        error: "Todo not found, or it is a subtask that moves with its parent",
+      };
+    }
+
+    // Subtasks always live in their parent's project
+    const { error: subtaskError } = await supabase
+      .from("todos")
+      .update({ project_id: validatedInput.projectId })
+      .eq("parent_id", validatedInput.id)
+      .eq("user_id", user.id);
+
+    if (subtaskError) {
+      console.error("Error moving subtasks:", subtaskError);
+      return { success: false, error: "Failed to move subtasks" };
+    }
+
+    revalidatePath("/");
+    return { success: true, data: normalizeTodoRecord(data) };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in moveTodoToProject:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Complete or reopen several todos in one transaction
+export async function bulkSetTodosDone(
+  input: BulkSetTodosDoneInput
+): Promise<ActionResponse<BulkCompletionResult>> {
+  try {
+    const validatedInput = bulkSetTodosDoneSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createRequestClient();
+
+    // Recurring todos hand their rule over to the next occurrence, as with
+    // toggleTodo. Their dates and positions are worked out here, in the user's
+    // time zone, and the function schedules them in the same transaction
+    const nextOccurrenceSchedules: {
+      todo_id: number;
+      start_at: string | null;
+      due_at: string | null;
+      position: string;
+    }[] = [];
+    if (validatedInput.done) {
+      const { data: recurringRecords, error: recurringError } = await supabase
+        .from("todos")
+        .select(TODO_SELECT)
+        .in("id", validatedInput.ids)
+        .eq("user_id", user.id)
+        .eq("done", false)
+        .is("deleted_at", null)
+        .not("recurrence", "is", null);
+
+      if (recurringError) {
+        console.error("Error fetching recurring todos:", recurringError);
+        return { success: false, error: "Failed to complete todos" };
+      }
+
+      for (const record of recurringRecords ?? []) {
+        const todo = normalizeTodoRecord(record);
+        if (!todo.recurrence) {
+          continue;
+        }
+        const schedule = getNextOccurrenceSchedule(
+          todo,
+          todo.recurrence,
+          validatedInput.timeZone
+        );
+        const position = await getTodoPositionAfter(user.id, todo.position);
+        if (position === null) {
+          return {
+            success: false,
+            error: "Failed to schedule the next occurrences",
+          };
+        }
+        nextOccurrenceSchedules.push({
+          todo_id: todo.id,
+          ...schedule,
+          position,
+        });
+      }
+    }
+
+    const { data: changedRows, error } = await supabase.rpc(
+      "bulk_set_todos_done",
+      {
+        todo_ids: validatedInput.ids,
+        mark_done: validatedInput.done,
+        next_occurrences: nextOccurrenceSchedules,
+      }
+    );
+
+    if (error) {
+      console.error("Error updating todos:", error);
+      return {
+        success: false,
+        error: validatedInput.done
+          ? "Failed to complete todos"
+          : "Failed to reopen todos",
+      };
+    }
+
+    const rows = getCompletionRows(changedRows);
+    const todos = await getTodoListItems(
+      user.id,
+      rows.filter((row) => !row.is_next_occurrence).map((row) => row.id)
+    );
+    if (!todos) {
+      return { success: false, error: "Failed to load the updated todos" };
+    }
+
+    const nextOccurrenceIds = rows
+      .filter((row) => row.is_next_occurrence)
+      .map((row) => row.id);
+    let nextOccurrences: Todo[] = [];
+    if (nextOccurrenceIds.length > 0) {
+      const { data: nextRecords, error: nextError } = await supabase
+        .from("todos")
+        .select(TODO_SELECT)
+        .in("id", nextOccurrenceIds)
+        .eq("user_id", user.id);
+
+      if (nextError) {
+        console.error("Error fetching next occurrences:", nextError);
+        return { success: false, error: "Failed to load the updated todos" };
+      }
+      nextOccurrences = (nextRecords ?? []).map(normalizeTodoRecord);
+    }
+
+    if (validatedInput.done) {
+      emitTodoEvents(supabase, user.id, "todo.completed", todos);
+      emitTodoEvents(supabase, user.id, "todo.created", nextOccurrences);
+    }
+
+    revalidatePath("/");
+    return { success: true, data: { todos, nextOccurrences } };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in bulkSetTodosDone:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Move several todos, and their subtasks, to the trash in one transaction.
+// Returns the ids trashed, subtasks included, so the delete can be undone
+export async function bulkDeleteTodos(
+  input: BulkDeleteTodosInput
+): Promise<ActionResponse<number[]>> {
+  try {
+    const validatedInput = bulkDeleteTodosSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createRequestClient();
+    await purgeExpiredTrash(user.id);
+
+    const { data: changedRows, error } = await supabase.rpc("bulk_trash_todos", {
+      todo_ids: validatedInput.ids,
+    });
+
+    if (error) {
+      console.error("Error deleting todos:", error);
+      return { success: false, error: "Failed to delete todos" };
+    }
+
+    const changedIds = getChangedIds(changedRows);
+    const trashed = await getTodoListItems(user.id, changedIds);
+    if (trashed) {
+      emitTodoEvents(supabase, user.id, "todo.deleted", trashed);
+    }
+
+    revalidatePath("/");
+    return { success: true, data: changedIds };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in bulkDeleteTodos:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Move several todos, and their subtasks, to another project in one transaction
+export async function bulkMoveTodos(
+  input: BulkMoveTodosInput
+): Promise<ActionResponse<TodoListItem[]>> {
+  try {
+    const validatedInput = bulkMoveTodosSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createRequestClient();
+
+    const { data: changedRows, error } = await supabase.rpc("bulk_move_todos", {
+      todo_ids: validatedInput.ids,
+      target_project_id: validatedInput.projectId,
+    });
+
+    if (error) {
+      if (error.code === FOREIGN_KEY_VIOLATION) {
+        return { success: false, error: "Project not found or access denied" };
+      }
+      console.error("Error moving todos:", error);
+      return { success: false, error: "Failed to move todos" };
+    }
+
+    const todos = await getTodoListItems(user.id, getChangedIds(changedRows));
+    if (!todos) {
+      return { success: false, error: "Failed to load the moved todos" };
+    }
+
+    revalidatePath("/");
+    return { success: true, data: todos };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in bulkMoveTodos:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Attach a tag to, or detach it from, several todos in one transaction
+export async function bulkTagTodos(
+  input: BulkTagTodosInput
+): Promise<ActionResponse<TodoListItem[]>> {
+  try {
+    const validatedInput = bulkTagTodosSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createRequestClient();
+
+    const { data: changedRows, error } = await supabase.rpc(
+      "bulk_set_todo_tag",
+      {
+        todo_ids: validatedInput.ids,
+        target_tag_id: validatedInput.tagId,
+        attach: validatedInput.attach,
+      }
+    );
+
+    if (error) {
+      if (error.code === FOREIGN_KEY_VIOLATION) {
+        return { success: false, error: "Tag not found or access denied" };
+      }
+      console.error("Error updating tags:", error);
+      return {
+        success: false,
+        error: validatedInput.attach ? "Failed to attach tag" : "Failed to detach tag",
+      };
+    }
+
+    const todos = await getTodoListItems(user.id, getChangedIds(changedRows));
+    if (!todos) {
+      return { success: false, error: "Failed to load the tagged todos" };
+    }
+
+    revalidatePath("/");
+    return { success: true, data: todos };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in bulkTagTodos:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Add a subtask beneath a todo
+export async function createSubtask(
+  input: CreateSubtaskInput
+): Promise<ActionResponse<Todo>> {
+  try {
+    const validatedInput = createSubtaskSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const { parent, error: parentError } = await getSubtaskParent(
+      user.id,
+      validatedInput.parentId
+    );
+    if (!parent) {
+      return { success: false, error: parentError };
+    }
+
+    const supabase = await createRequestClient();
+    const subtaskPosition = await getNextSubtaskPosition(user.id, parent.id);
+    const position = await getTodoPositionAfter(user.id, null);
+    if (position === null) {
+      return { success: false, error: "Failed to create subtask" };
+    }
+
+    const { data, error } = await supabase
+      .from("todos")
+      .insert({
+        text: validatedInput.text,
+        content: [],
+        parent_id: parent.id,
+        subtask_position: subtaskPosition,
+        position,
+        project_id: parent.project_id,
+        user_id: user.id,
+        done: false,
+      })
+      .select(TODO_SELECT)
+      .single();
+
+    if (error || !data) {
+      console.error("Error creating subtask:", error);
+      return { success: false, error: "Failed to create subtask" };
+    }
+
+    const subtask = normalizeTodoRecord(data);
+    emitTodoEvents(supabase, user.id, "todo.created", [subtask]);
+
+    revalidatePath("/");
+    return { success: true, data: subtask };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in createSubtask:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Move a todo beneath another parent, or back to the top level
+export async function reparentTodo(
+  input: ReparentTodoInput
+): Promise<ActionResponse<Todo>> {
+  try {
+    const validatedInput = reparentTodoSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createRequestClient();
+
+    const updates: { parent_id: number | null; subtask_position: number } = {
+      parent_id: null,
+      subtask_position: 0,
+    };
+
+    if (validatedInput.parentId !== null) {
+      const { parent, error: parentError } = await getSubtaskParent(
+        user.id,
+        validatedInput.parentId
+      );
+      if (!parent) {
+        return { success: false, error: parentError };
+      }
+
+      const { count, error: countError } = await supabase
+        .from("todos")
+        .select("id", { count: "exact", head: true })
+        .eq("parent_id", validatedInput.id)
+        .eq("user_id", user.id);
+
+      if (countError) {
+        console.error("Error counting subtasks:", countError);
+        return { success: false, error: "Failed to move todo" };
+      }
+
+      if ((count ?? 0) > 0) {
+        return {
+          success: false,
+          error: "A todo with subtasks cannot become a subtask",
+        };
+      }
+
+      updates.parent_id = parent.id;
+      updates.subtask_position = await getNextSubtaskPosition(
+        user.id,
+        parent.id
+      );
+    }
+
+    // The database copies the parent's project onto the subtask
+    const { data, error } = await supabase
+      .from("todos")
+      .update(updates)
+      .eq("id", validatedInput.id)
+      .eq("user_id", user.id)
+      .select(TODO_SELECT)
+      .single();
+
+    if (error) {
+      console.error("Error reparenting todo:", error);
+      return { success: false, error: "Failed to move todo" };
+    }
+
+    if (!data) {
+      return { success: false, error: "Todo not found or access denied" };
+    }
+
+    revalidatePath("/");
+    return { success: true, data: normalizeTodoRecord(data) };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in reparentTodo:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Reorder the subtasks of a parent; orderedIds must list every subtask
+export async function reorderSubtasks(
+  input: ReorderSubtasksInput
+): Promise<ActionResponse<Todo[]>> {
+  try {
+    const validatedInput = reorderSubtasksSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createRequestClient();
+
+    // The function checks the order against the subtasks and writes every
+    // position in one statement
+    const { error: reorderError } = await supabase.rpc("reorder_subtasks", {
+      target_parent_id: validatedInput.parentId,
+      ordered_ids: validatedInput.orderedIds,
+    });
+
+    if (reorderError) {
+      if (reorderError.code === INVALID_PARAMETER_VALUE) {
+        return {
+          success: false,
+          error: "Subtask order must list every subtask of the todo exactly once",
+        };
+      }
+      console.error("Error reordering subtasks:", reorderError);
+      return { success: false, error: "Failed to reorder subtasks" };
+    }
+
+    const { data, error } = await supabase
+      .from("todos")
+      .select(TODO_SELECT)
+      .eq("parent_id", validatedInput.parentId)
+      .eq("user_id", user.id)
+      .is("deleted_at", null)
+      .order("subtask_position", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching subtasks:", error);
+      return { success: false, error: "Failed to reorder subtasks" };
+    }
+
+    revalidatePath("/");
+    return {
+      success: true,
+      data: (data ?? []).map((record) => normalizeTodoRecord(record)),
+    };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in reorderSubtasks:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Move a todo between two neighbours of a manually sorted list; only its own
+// position changes
+export async function reorderTodo(
+  input: ReorderTodoInput
+): Promise<ActionResponse<Todo>> {
+  try {
+    const validatedInput = reorderTodoSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createRequestClient();
+
+    const neighbourIds = [validatedInput.previousId, validatedInput.nextId].filter(
+      (id): id is number => id !== null
+    );
+    const positions = new Map<number, string>();
+
+    if (neighbourIds.length > 0) {
+      const { data: neighbours, error: fetchError } = await supabase
+        .from("todos")
+        .select("id, position")
+        .in("id", neighbourIds)
+        .eq("user_id", user.id);
+
+      if (fetchError) {
+        console.error("Error fetching neighbouring todos:", fetchError);
+        return { success: false, error: "Failed to reorder todo" };
+      }
+
+      for (const neighbour of neighbours ?? []) {
+        positions.set(neighbour.id, neighbour.position as string);
+      }
+
+      if (!neighbourIds.every((id) => positions.has(id))) {
+        return { success: false, error: "Todo not found or access denied" };
+      }
+    }
+
+    const before =
+      validatedInput.previousId !== null
+        ? positions.get(validatedInput.previousId)!
+        : null;
+    const after =
+      validatedInput.nextId !== null
+        ? positions.get(validatedInput.nextId)!
+        : null;
+
+    if (before !== null && after !== null && before >= after) {
+      return {
+        success: false,
+        error: "The list changed in the meantime. Refresh and try again.",
+      };
+    }
+
+    const { data, error } = await supabase
+      .from("todos")
+      .update({ position: getPositionBetween(before, after) })
+      .eq("id", validatedInput.id)
+      .eq("user_id", user.id)
+      .select(TODO_SELECT)
+      .single();
+
+    if (error) {
+      console.error("Error reordering todo:", error);
+      return { success: false, error: "Failed to reorder todo" };
+    }
+
+    if (!data) {
+      return { success: false, error: "Todo not found or access denied" };
+    }
+
+    revalidatePath("/");
+    return { success: true, data: normalizeTodoRecord(data) };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in reorderTodo:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Get the trash, most recently deleted first, leaving out expired todos
+export async function getTrashedTodos(): Promise<ActionResponse<TrashContents>> {
+  try {
+    const { user, error: authError } = await getAuthenticatedUser("read");
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createRequestClient();
+
+    const { data, error } = await supabase
+      .from("todos")
+      .select(TODO_SELECT)
+      .eq("user_id", user.id)
+      .gte("deleted_at", getTrashCutoff().toISOString())
+      .order("deleted_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching trashed todos:", error);
+      return { success: false, error: "Failed to load the trash" };
+    }
+
+    return {
+      success: true,
+      data: {
+        todos: (data ?? []).map((record) => normalizeTodoRecord(record)),
+        retentionDays: getTrashRetentionDays(),
+      },
+    };
+  } catch (error) {
+    console.error("Unexpected error in getTrashedTodos:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Take a todo out of the trash together with the subtasks trashed alongside
+// it; restoring a subtask also restores its trashed parent. Returns every
+// restored todo
+export async function restoreTodo(
+  input: RestoreTodoInput
+): Promise<ActionResponse<Todo[]>> {
+  try {
+    const validatedInput = restoreTodoSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createRequestClient();
+
+    // Expired todos are purged first, so they cannot be brought back
+    await purgeExpiredTrash(user.id);
+
+    const { data: trashed, error: fetchError } = await supabase
+      .from("todos")
+      .select("id, parent_id, deleted_at")
+      .eq("id", validatedInput.id)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error("Error fetching trashed todo:", fetchError);
+      return { success: false, error: "Failed to restore todo" };
+    }
+
+    if (!trashed) {
+      return { success: false, error: "Todo not found or access denied" };
+    }
+
+    if (trashed.deleted_at === null) {
+      return { success: false, error: "Todo is not in the trash" };
+    }
+
+    const filters = [
+      `id.eq.${trashed.id}`,
+      `and(parent_id.eq.${trashed.id},deleted_at.eq."${trashed.deleted_at}")`,
+    ];
+    if (trashed.parent_id !== null) {
+      filters.push(`id.eq.${trashed.parent_id}`);
+    }
+
+    const { data, error } = await supabase
+      .from("todos")
+      .update({ deleted_at: null })
+      .or(filters.join(","))
+      .eq("user_id", user.id)
+      .not("deleted_at", "is", null)
+      .select(TODO_SELECT);
+
+    if (error) {
+      console.error("Error restoring todo:", error);
+      return { success: false, error: "Failed to restore todo" };
+    }
+
+    revalidatePath("/");
+    return {
+      success: true,
+      data: (data ?? []).map((record) => normalizeTodoRecord(record)),
+    };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in restoreTodo:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Delete a trashed todo and its subtasks for good
+export async function deleteTodoPermanently(
+  input: DeleteTodoPermanentlyInput
+): Promise<ActionResponse<void>> {
+  try {
+    const validatedInput = deleteTodoPermanentlySchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createRequestClient();
+
+    // Only trashed todos can be deleted for good
+    const { error } = await supabase
+      .from("todos")
+      .delete()
+      .eq("id", validatedInput.id)
+      .eq("user_id", user.id)
+      .not("deleted_at", "is", null);
+
+    if (error) {
+      console.error("Error deleting todo permanently:", error);
+      return { success: false, error: "Failed to delete todo" };
+    }
+
+    revalidatePath("/");
+    return { success: true };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in deleteTodoPermanently:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Permanently delete everything in the trash
+export async function emptyTrash(): Promise<ActionResponse<void>> {
+  try {
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createRequestClient();
+
+    const { error } = await supabase
+      .from("todos")
+      .delete()
+      .eq("user_id", user.id)
+      .not("deleted_at", "is", null);
+
+    if (error) {
+      console.error("Error emptying trash:", error);
+      return { success: false, error: "Failed to empty the trash" };
+    }
+
+    revalidatePath("/");
+    return { success: true };
+  } catch (error) {
+    console.error("Unexpected error in emptyTrash:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Get archived todos, most recently completed first
+export async function getArchivedTodos(): Promise<ActionResponse<Todo[]>> {
+  try {
+    const { user, error: authError } = await getAuthenticatedUser("read");
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createRequestClient();
+
+    const { data, error } = await supabase
+      .from("todos")
+      .select(TODO_SELECT)
+      .eq("user_id", user.id)
+      .is("parent_id", null)
+      .not("archived_at", "is", null)
+      .is("deleted_at", null)
+      .order("completed_at", { ascending: false, nullsFirst: false })
+      .order("archived_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching archived todos:", error);
+      return { success: false, error: "Failed to load the archive" };
+    }
+
+    return {
+      success: true,
+      data: (data ?? []).map((record) => normalizeTodoRecord(record)),
+    };
+  } catch (error) {
+    console.error("Unexpected error in getArchivedTodos:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Bring an archived todo and its subtasks back to the completed list
+export async function unarchiveTodo(
+  input: UnarchiveTodoInput
+): Promise<ActionResponse<Todo[]>> {
+  try {
+    const validatedInput = unarchiveTodoSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createRequestClient();
+
+    const { data, error } = await supabase
+      .from("todos")
+      .update({ archived_at: null })
+      .or(`id.eq.${validatedInput.id},parent_id.eq.${validatedInput.id}`)
+      .eq("user_id", user.id)
+      .not("archived_at", "is", null)
+      .select(TODO_SELECT);
+
+    if (error) {
+      console.error("Error unarchiving todo:", error);
+      return { success: false, error: "Failed to restore todo" };
+    }
+
+    const restored = (data ?? []).map((record) => normalizeTodoRecord(record));
+    if (!restored.some((todo) => todo.id === validatedInput.id)) {
+      return { success: false, error: "Todo not found or access denied" };
+    }
+
+    revalidatePath("/");
+    return { success: true, data: restored };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in unarchiveTodo:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Take exactly these todos back out of the trash, as when undoing a delete
+export async function restoreTodos(
+  input: RestoreTodosInput
+): Promise<ActionResponse<TodoListItem[]>> {
+  try {
+    const validatedInput = restoreTodosSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createRequestClient();
+    await purgeExpiredTrash(user.id);
+
+    const { data, error } = await supabase
+      .rpc("restore_todos", { todo_ids: validatedInput.ids })
+      .select(TODO_LIST_SELECT);
+
+    if (error) {
+      console.error("Error restoring todos:", error);
+      return { success: false, error: "Failed to restore todos" };
+    }
+
+    revalidatePath("/");
+    return { success: true, data: getReturnedTodos(data) };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in restoreTodos:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Bring exactly these todos back from the archive, as when undoing a clear
+export async function unarchiveTodos(
+  input: UnarchiveTodosInput
+): Promise<ActionResponse<TodoListItem[]>> {
+  try {
+    const validatedInput = unarchiveTodosSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createRequestClient();
+
+    const { data, error } = await supabase
+      .rpc("unarchive_todos", { todo_ids: validatedInput.ids })
+      .select(TODO_LIST_SELECT);
+
+    if (error) {
+      console.error("Error unarchiving todos:", error);
+      return { success: false, error: "Failed to restore todos" };
+    }
+
+    revalidatePath("/");
+    return { success: true, data: getReturnedTodos(data) };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in unarchiveTodos:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
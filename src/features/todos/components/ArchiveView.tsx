@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import { ArchiveRestore, ArrowLeft, Search } from "lucide-react";
+
+import type { Todo } from "@/types/database";
+import { TagChip } from "@/features/tags/components/TagChip";
+import {
+  getCompletionTime,
+  groupTodosByCompletionWeek,
+} from "@/features/todos/utils/todoArchive";
+
+const completedOnFormatter = new Intl.DateTimeFormat(undefined, {
+  weekday: "short",
+  month: "short",
+  day: "numeric",
+});
+
+type ArchiveViewProps = {
+  todos: Todo[];
+  isLoading: boolean;
+  onUnarchive: (id: number) => Promise<boolean>;
+  onClose: () => void;
+};
+
+// Case-insensitive match on the todo text, description and tag names
+const matchesSearch = (todo: Todo, search: string) => {
+  const needle = search.trim().toLowerCase();
+  if (!needle) {
+    return true;
+  }
+
+  return [todo.text, todo.description ?? "", ...todo.tags.map((tag) => tag.name)]
+    .some((value) => value.toLowerCase().includes(needle));
+};
+
+export function ArchiveView({
+  todos,
+  isLoading,
+  onUnarchive,
+  onClose,
+}: ArchiveViewProps) {
+  const [search, setSearch] = useState("");
+  const [pendingId, setPendingId] = useState<number | null>(null);
+
+  const groups = groupTodosByCompletionWeek(
+    todos.filter((todo) => matchesSearch(todo, search))
+  );
+
+  const handleUnarchive = async (id: number) => {
+    setPendingId(id);
+    try {
+      await onUnarchive(id);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <section className="mt-12 space-y-6">
+      <button
+        type="button"
+        onClick={onClose}
+        className="completed-clear inline-flex items-center gap-2"
+      >
+        <ArrowLeft aria-hidden="true" className="h-3.5 w-3.5" />
+        <span>Back to todos</span>
+      </button>
+
+      <div>
+        <h2 className="section-title">Archive</h2>
+        <p className="mt-2 text-xs text-foreground-subtle">
+          Everything you cleared from the completed list, by the week it was
+          done.
+        </p>
+      </div>
+
+      <div className="input-shell">
+        <Search
+          aria-hidden="true"
+          className="h-4 w-4 shrink-0 text-foreground-subtle"
+        />
+        <input
+          type="search"
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+          placeholder="Search the archive…"
+          className="input-field"
+          aria-label="Search archived todos"
+        />
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-foreground-subtle">Loading the archive…</p>
+      ) : todos.length === 0 ? (
+        <p className="text-sm text-foreground-subtle">
+          Nothing archived yet. Clear completed todos to keep them here.
+        </p>
+      ) : groups.length === 0 ? (
+        <p className="text-sm text-foreground-subtle">
+          No archived todos match “{search.trim()}”.
+        </p>
+      ) : (
+        groups.map((group) => (
+          <div key={group.id} className="todo-group">
+            <h3 className="todo-group__title">
+              <span>{group.label}</span>
+              <span className="todo-group__count">{group.todos.length}</span>
+            </h3>
+            <ul className="space-y-3">
+              {group.todos.map((todo) => (
+                <li key={todo.id} className="todo-item">
+                  <div className="flex min-w-0 flex-1 flex-col gap-1">
+                    <p className="todo-text todo-text--completed">{todo.text}</p>
+                    <p className="text-xs text-foreground-subtle">
+                      Completed{" "}
+                      {completedOnFormatter.format(getCompletionTime(todo))}
+                    </p>
+                    {todo.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1.5">
+                        {todo.tags.map((tag) => (
+                          <TagChip key={tag.id} tag={tag} />
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleUnarchive(todo.id)}
+                    className="inline-flex h-8 w-8 shrink-0 items-center justify-center rounded-full border border-border text-foreground-muted transition hover:border-accent hover:text-foreground disabled:cursor-not-allowed disabled:opacity-60"
+                    aria-label={`Move ${todo.text} back to completed todos`}
+                    title="Move back to completed"
+                    disabled={pendingId === todo.id}
+                  >
+                    <ArchiveRestore className="h-3.5 w-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))
+      )}
+    </section>
+  );
+}
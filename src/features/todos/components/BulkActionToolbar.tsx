@@ -0,0 +1,165 @@
+"use client";
+
+import type { ChangeEvent } from "react";
+import { CheckCheck, RotateCcw, Trash2, X } from "lucide-react";
+
+import type { Project, Tag } from "@/types/database";
+
+const selectClassName =
+  "max-w-[10rem] rounded-full border border-border bg-surface/80 px-3 py-1 text-sm text-foreground transition focus:border-accent focus:outline-none disabled:cursor-not-allowed disabled:opacity-60";
+
+const iconButtonClassName =
+  "inline-flex h-8 w-8 items-center justify-center rounded-full border border-border text-foreground-muted transition hover:border-accent hover:text-foreground disabled:cursor-not-allowed disabled:opacity-60";
+
+const deleteButtonClassName =
+  "inline-flex h-8 w-8 items-center justify-center rounded-full border border-border text-foreground-muted transition hover:border-red-400 hover:text-red-500 disabled:cursor-not-allowed disabled:opacity-60";
+
+type BulkActionToolbarProps = {
+  selectedCount: number;
+  selectableCount: number;
+  projects: Project[];
+  tags: Tag[];
+  isPending: boolean;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onSetDone: (done: boolean) => void;
+  onMoveToProject: (projectId: number) => void;
+  onSetTag: (tag: Tag, attach: boolean) => void;
+  onDelete: () => void;
+};
+
+export function BulkActionToolbar({
+  selectedCount,
+  selectableCount,
+  projects,
+  tags,
+  isPending,
+  onSelectAll,
+  onClearSelection,
+  onSetDone,
+  onMoveToProject,
+  onSetTag,
+  onDelete,
+}: BulkActionToolbarProps) {
+  const isDisabled = isPending || selectedCount === 0;
+  const areAllSelected = selectableCount > 0 && selectedCount === selectableCount;
+  const activeProjects = projects.filter((project) => !project.archived);
+
+  const handleProjectChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    const projectId = Number(event.target.value);
+    if (projectId > 0) {
+      onMoveToProject(projectId);
+    }
+  };
+
+  // Options are "+id" to attach and "-id" to detach
+  const handleTagChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    const { value } = event.target;
+    const tag = tags.find((item) => item.id === Number(value.slice(1)));
+    if (tag) {
+      onSetTag(tag, value.startsWith("+"));
+    }
+  };
+
+  return (
+    <div className="bulk-toolbar" role="toolbar" aria-label="Bulk actions">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="bulk-toolbar__count" aria-live="polite">
+          {selectedCount} selected
+        </span>
+        <button
+          type="button"
+          onClick={areAllSelected ? onClearSelection : onSelectAll}
+          className="completed-clear"
+          disabled={selectableCount === 0}
+        >
+          {areAllSelected ? "Select none" : "Select all"}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => onSetDone(true)}
+          className={iconButtonClassName}
+          aria-label="Complete selected todos"
+          title="Complete"
+          disabled={isDisabled}
+        >
+          <CheckCheck className="h-3.5 w-3.5" />
+        </button>
+        <button
+          type="button"
+          onClick={() => onSetDone(false)}
+          className={iconButtonClassName}
+          aria-label="Reopen selected todos"
+          title="Reopen"
+          disabled={isDisabled}
+        >
+          <RotateCcw className="h-3.5 w-3.5" />
+        </button>
+        {activeProjects.length > 0 && (
+          <select
+            value=""
+            onChange={handleProjectChange}
+            className={selectClassName}
+            aria-label="Move selected todos to project"
+            disabled={isDisabled}
+          >
+            <option value="">Move to…</option>
+            {activeProjects.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+        )}
+        {tags.length > 0 && (
+          <select
+            value=""
+            onChange={handleTagChange}
+            className={selectClassName}
+            aria-label="Tag selected todos"
+            disabled={isDisabled}
+          >
+            <option value="">Tags…</option>
+            <optgroup label="Add tag">
+              {tags.map((tag) => (
+                <option key={`+${tag.id}`} value={`+${tag.id}`}>
+                  {tag.name}
+                </option>
+              ))}
+            </optgroup>
+            <optgroup label="Remove tag">
+              {tags.map((tag) => (
+                <option key={`-${tag.id}`} value={`-${tag.id}`}>
+                  {tag.name}
+                </option>
+              ))}
+            </optgroup>
+          </select>
+        )}
+        <button
+          type="button"
+          onClick={onDelete}
+          className={deleteButtonClassName}
+          aria-label="Move selected todos to trash"
+          title="Move to trash"
+          disabled={isDisabled}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </button>
+        <button
+          type="button"
+          onClick={onClearSelection}
+          className={iconButtonClassName}
+          aria-label="Clear selection"
+          title="Clear selection"
+          disabled={selectedCount === 0}
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+}
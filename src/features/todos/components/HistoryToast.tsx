@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect } from "react";
+import { X } from "lucide-react";
+
+const TOAST_DURATION_MS = 6000;
+
+type HistoryToastProps = {
+  message: string;
+  actionLabel: string | null;
+  onAction: () => void;
+  onDismiss: () => void;
+};
+
+// Remount with a new key to show another message; each one dismisses itself
+export function HistoryToast({
+  message,
+  actionLabel,
+  onAction,
+  onDismiss,
+}: HistoryToastProps) {
+  useEffect(() => {
+    const timeout = window.setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => window.clearTimeout(timeout);
+  }, [onDismiss]);
+
+  return (
+    <div className="history-toast" role="status" aria-live="polite">
+      <p className="history-toast__message">{message}</p>
+      {actionLabel && (
+        <button
+          type="button"
+          onClick={onAction}
+          className="history-toast__action"
+        >
+          {actionLabel}
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={onDismiss}
+        className="history-toast__dismiss"
+        aria-label="Dismiss"
+        title="Dismiss"
+      >
+        <X className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  );
+}
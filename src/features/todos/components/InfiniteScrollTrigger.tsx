@@ -0,0 +1,52 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+type InfiniteScrollTriggerProps = {
+  isLoading: boolean;
+  onLoadMore: () => void;
+};
+
+// Loads the next page once scrolled into view; the button covers keyboard users
+// and browsers without IntersectionObserver
+export function InfiniteScrollTrigger({
+  isLoading,
+  onLoadMore,
+}: InfiniteScrollTriggerProps) {
+  const triggerRef = useRef<HTMLDivElement | null>(null);
+
+  // A fresh observer reports right away, so a trigger still in view after a
+  // page arrives asks for the next one
+  useEffect(() => {
+    const trigger = triggerRef.current;
+    if (!trigger || isLoading || typeof IntersectionObserver === "undefined") {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: "0px 0px 240px 0px" }
+    );
+    observer.observe(trigger);
+
+    return () => observer.disconnect();
+  }, [isLoading, onLoadMore]);
+
+  return (
+    <div ref={triggerRef} className="flex justify-center pt-2">
+      <button
+        type="button"
+        onClick={onLoadMore}
+        className="completed-clear"
+        disabled={isLoading}
+        aria-live="polite"
+      >
+        {isLoading ? "Loading more…" : "Load more"}
+      </button>
+    </div>
+  );
+}
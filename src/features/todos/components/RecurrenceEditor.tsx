@@ -0,0 +1,275 @@
+"use client";
+
+import { useState, type KeyboardEvent } from "react";
+
+import type { Todo, TodoRecurrence } from "@/types/database";
+import {
+  TODO_RECURRENCE_FREQUENCIES,
+  todoRecurrenceSchema,
+  type TodoRecurrenceFrequency,
+} from "@/features/todos/schemas/todoSchemas";
+import {
+  MONTH_NAMES,
+  WEEKDAY_NAMES,
+  describeRecurrence,
+  getNextOccurrenceSchedule,
+} from "@/features/todos/utils/todoRecurrence";
+
+const FREQUENCY_LABELS: Record<TodoRecurrenceFrequency, string> = {
+  daily: "Daily",
+  weekdays: "Weekdays",
+  weekly: "Weekly",
+  monthly: "Monthly",
+  yearly: "Yearly",
+};
+
+const INTERVAL_UNITS: Record<Exclude<TodoRecurrenceFrequency, "weekdays">, string> =
+  {
+    daily: "days",
+    weekly: "weeks",
+    monthly: "months",
+    yearly: "years",
+  };
+
+// Monday first, matching the summary wording
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const inputClassName =
+  "rounded-full border border-border bg-surface/80 px-3 py-1 text-sm text-foreground transition focus:border-accent focus:outline-none disabled:cursor-not-allowed disabled:opacity-60";
+
+// Sensible first rule for a frequency, based on the todo's own date
+const createDefaultRule = (
+  freq: TodoRecurrenceFrequency,
+  anchor: Date
+): TodoRecurrence => {
+  switch (freq) {
+    case "daily":
+      return { freq, interval: 1 };
+    case "weekdays":
+      return { freq };
+    case "weekly":
+      return { freq, interval: 1, weekdays: [anchor.getDay()] };
+    case "monthly":
+      return { freq, interval: 1, dayOfMonth: anchor.getDate() };
+    case "yearly":
+      return {
+        freq,
+        interval: 1,
+        month: anchor.getMonth() + 1,
+        day: anchor.getDate(),
+      };
+  }
+};
+
+type RecurrenceEditorProps = {
+  todo: Pick<Todo, "id" | "start_at" | "due_at" | "recurrence">;
+  onChange: (recurrence: TodoRecurrence | null) => Promise<boolean>;
+  disabled?: boolean;
+};
+
+// Render with a key derived from the saved rule so the draft resets when it changes
+export function RecurrenceEditor({
+  todo,
+  onChange,
+  disabled = false,
+}: RecurrenceEditorProps) {
+  const [draft, setDraft] = useState<TodoRecurrence | null>(todo.recurrence);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const recurrenceJSON = JSON.stringify(todo.recurrence);
+
+  const commit = async (next: TodoRecurrence | null) => {
+    setDraft(next);
+    if (JSON.stringify(next) === recurrenceJSON) {
+      setError(null);
+      return;
+    }
+
+    if (next) {
+      const parsed = todoRecurrenceSchema.safeParse(next);
+      if (!parsed.success) {
+        setError(parsed.error.issues[0]?.message ?? "Invalid repeat rule");
+        return;
+      }
+    }
+
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await onChange(next);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const anchorValue = todo.due_at ?? todo.start_at;
+  const anchor = anchorValue ? new Date(anchorValue) : new Date();
+
+  const handleFrequencyChange = (value: string) => {
+    const freq = TODO_RECURRENCE_FREQUENCIES.find(
+      (frequency) => frequency === value
+    );
+    void commit(freq ? createDefaultRule(freq, anchor) : null);
+  };
+
+  const handleNumberKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      event.currentTarget.blur();
+    }
+  };
+
+  const isDisabled = disabled || isSubmitting;
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const nextDueAt =
+    draft && todo.recurrence && !error
+      ? getNextOccurrenceSchedule(todo, todo.recurrence, timeZone).due_at
+      : null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <select
+          id="todo-recurrence"
+          value={draft?.freq ?? ""}
+          onChange={(event) => handleFrequencyChange(event.target.value)}
+          className={inputClassName}
+          disabled={isDisabled}
+        >
+          <option value="">Does not repeat</option>
+          {TODO_RECURRENCE_FREQUENCIES.map((frequency) => (
+            <option key={frequency} value={frequency}>
+              {FREQUENCY_LABELS[frequency]}
+            </option>
+          ))}
+        </select>
+
+        {draft && draft.freq !== "weekdays" && (
+          <label className="flex items-center gap-2 text-xs text-foreground-subtle">
+            every
+            <input
+              type="number"
+              min={1}
+              max={99}
+              value={draft.interval}
+              onChange={(event) =>
+                setDraft({ ...draft, interval: Number(event.target.value) })
+              }
+              onBlur={() => commit(draft)}
+              onKeyDown={handleNumberKeyDown}
+              className={`${inputClassName} w-16`}
+              aria-label="Repeat interval"
+              disabled={isDisabled}
+            />
+            {INTERVAL_UNITS[draft.freq]}
+          </label>
+        )}
+      </div>
+
+      {draft?.freq === "weekly" && (
+        <div
+          className="flex flex-wrap justify-end gap-1"
+          role="group"
+          aria-label="Repeat on"
+        >
+          {WEEKDAY_ORDER.map((day) => {
+            const isActive = draft.weekdays.includes(day);
+            return (
+              <button
+                key={day}
+                type="button"
+                onClick={() =>
+                  commit({
+                    ...draft,
+                    weekdays: isActive
+                      ? draft.weekdays.filter((weekday) => weekday !== day)
+                      : [...draft.weekdays, day].sort((a, b) => a - b),
+                  })
+                }
+                className={`sort-switch__option ${
+                  isActive ? "sort-switch__option--active" : ""
+                }`}
+                aria-pressed={isActive}
+                aria-label={WEEKDAY_NAMES[day]}
+                disabled={isDisabled}
+              >
+                {WEEKDAY_NAMES[day].slice(0, 2)}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {draft?.freq === "monthly" && (
+        <label className="flex items-center justify-end gap-2 text-xs text-foreground-subtle">
+          on day
+          <input
+            type="number"
+            min={1}
+            max={31}
+            value={draft.dayOfMonth}
+            onChange={(event) =>
+              setDraft({ ...draft, dayOfMonth: Number(event.target.value) })
+            }
+            onBlur={() => commit(draft)}
+            onKeyDown={handleNumberKeyDown}
+            className={`${inputClassName} w-16`}
+            aria-label="Day of month"
+            disabled={isDisabled}
+          />
+        </label>
+      )}
+
+      {draft?.freq === "yearly" && (
+        <div className="flex items-center justify-end gap-2 text-xs text-foreground-subtle">
+          on
+          <select
+            value={draft.month}
+            onChange={(event) =>
+              commit({ ...draft, month: Number(event.target.value) })
+            }
+            className={inputClassName}
+            aria-label="Month"
+            disabled={isDisabled}
+          >
+            {MONTH_NAMES.map((name, index) => (
+              <option key={name} value={index + 1}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={1}
+            max={31}
+            value={draft.day}
+            onChange={(event) =>
+              setDraft({ ...draft, day: Number(event.target.value) })
+            }
+            onBlur={() => commit(draft)}
+            onKeyDown={handleNumberKeyDown}
+            className={`${inputClassName} w-16`}
+            aria-label="Day"
+            disabled={isDisabled}
+          />
+        </div>
+      )}
+
+      {error ? (
+        <p className="text-right text-xs text-red-500">{error}</p>
+      ) : (
+        todo.recurrence && (
+          <p className="text-right text-xs text-foreground-subtle">
+            {describeRecurrence(todo.recurrence)}
+            {nextDueAt &&
+              ` · next ${new Date(nextDueAt).toLocaleDateString(undefined, {
+                weekday: "short",
+                month: "short",
+                day: "numeric",
+              })}`}
+          </p>
+        )
+      )}
+    </div>
+  );
+}
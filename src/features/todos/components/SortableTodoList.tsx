@@ -0,0 +1,220 @@
+"use client";
+
+import {
+  useId,
+  useRef,
+  useState,
+  type KeyboardEvent,
+  type PointerEvent,
+  type ReactNode,
+} from "react";
+import { GripVertical } from "lucide-react";
+
+import type { OptimisticTodo } from "@/features/todos/types/optimisticTodo";
+
+type SortableTodoListProps = {
+  todos: OptimisticTodo[];
+  renderTodo: (todo: OptimisticTodo) => ReactNode;
+  isSortable: boolean;
+  onReorder: (
+    id: number,
+    previousId: number | null,
+    nextId: number | null
+  ) => Promise<boolean>;
+};
+
+type DragState = {
+  id: number;
+  pointerId: number;
+  // Slot the todo would be dropped into: before the todo at this index, or
+  // after the last todo when it equals the list length
+  dropIndex: number;
+};
+
+export function SortableTodoList({
+  todos,
+  renderTodo,
+  isSortable,
+  onReorder,
+}: SortableTodoListProps) {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const instructionsId = useId();
+  const itemRefs = useRef(new Map<number, HTMLDivElement>());
+  const handleRefs = useRef(new Map<number, HTMLButtonElement>());
+
+  // Move a todo so it ends up at `targetIndex` of the reordered list
+  const moveTodo = async (todo: OptimisticTodo, targetIndex: number) => {
+    const rest = todos.filter((candidate) => candidate.id !== todo.id);
+    const index = Math.max(0, Math.min(targetIndex, rest.length));
+    if (todos[index]?.id === todo.id) {
+      return;
+    }
+
+    const moved = await onReorder(
+      todo.id,
+      rest[index - 1]?.id ?? null,
+      rest[index]?.id ?? null
+    );
+    if (moved) {
+      setAnnouncement(
+        `Moved “${todo.text}” to position ${index + 1} of ${todos.length}`
+      );
+      requestAnimationFrame(() => handleRefs.current.get(todo.id)?.focus());
+    }
+  };
+
+  const getDropIndex = (clientY: number) => {
+    const index = todos.findIndex((todo) => {
+      const rect = itemRefs.current.get(todo.id)?.getBoundingClientRect();
+      return rect !== undefined && clientY < rect.top + rect.height / 2;
+    });
+    return index === -1 ? todos.length : index;
+  };
+
+  const handlePointerDown = (
+    todo: OptimisticTodo,
+    event: PointerEvent<HTMLButtonElement>
+  ) => {
+    if (event.button !== 0) {
+      return;
+    }
+
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({
+      id: todo.id,
+      pointerId: event.pointerId,
+      dropIndex: todos.indexOf(todo),
+    });
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLButtonElement>) => {
+    if (!drag || drag.pointerId !== event.pointerId) {
+      return;
+    }
+
+    const dropIndex = getDropIndex(event.clientY);
+    if (dropIndex !== drag.dropIndex) {
+      setDrag({ ...drag, dropIndex });
+    }
+  };
+
+  const handlePointerUp = (
+    todo: OptimisticTodo,
+    event: PointerEvent<HTMLButtonElement>
+  ) => {
+    if (!drag || drag.pointerId !== event.pointerId) {
+      return;
+    }
+
+    const fromIndex = todos.indexOf(todo);
+    const dropIndex = getDropIndex(event.clientY);
+    setDrag(null);
+    // Slots after the dragged todo shift up once it leaves its place
+    void moveTodo(todo, dropIndex > fromIndex ? dropIndex - 1 : dropIndex);
+  };
+
+  const handleKeyDown = (
+    todo: OptimisticTodo,
+    index: number,
+    event: KeyboardEvent<HTMLButtonElement>
+  ) => {
+    if (event.key === "Escape" && drag) {
+      event.preventDefault();
+      setDrag(null);
+      return;
+    }
+
+    const targets: Record<string, number> = {
+      ArrowUp: index - 1,
+      ArrowDown: index + 1,
+      Home: 0,
+      End: todos.length - 1,
+    };
+    const target = targets[event.key];
+    if (target === undefined) {
+      return;
+    }
+
+    event.preventDefault();
+    if (target >= 0 && target < todos.length && target !== index) {
+      void moveTodo(todo, target);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {todos.map((todo, index) => {
+        const isDragging = drag?.id === todo.id;
+        const classes = ["todo-sortable"];
+        if (isDragging) {
+          classes.push("todo-sortable--dragging");
+        }
+        if (drag && !isDragging && drag.dropIndex === index) {
+          classes.push("todo-sortable--drop-before");
+        }
+        if (
+          drag &&
+          !isDragging &&
+          drag.dropIndex === todos.length &&
+          index === todos.length - 1
+        ) {
+          classes.push("todo-sortable--drop-after");
+        }
+
+        return (
+          <div
+            key={todo.id}
+            ref={(element) => {
+              if (element) {
+                itemRefs.current.set(todo.id, element);
+              } else {
+                itemRefs.current.delete(todo.id);
+              }
+            }}
+            className={classes.join(" ")}
+          >
+            {isSortable && (
+              <button
+                type="button"
+                ref={(element) => {
+                  if (element) {
+                    handleRefs.current.set(todo.id, element);
+                  } else {
+                    handleRefs.current.delete(todo.id);
+                  }
+                }}
+                onPointerDown={(event) => handlePointerDown(todo, event)}
+                onPointerMove={handlePointerMove}
+                onPointerUp={(event) => handlePointerUp(todo, event)}
+                onPointerCancel={() => setDrag(null)}
+                onKeyDown={(event) => handleKeyDown(todo, index, event)}
+                className="todo-sortable__handle"
+                aria-label={`Reorder ${todo.text}`}
+                aria-describedby={instructionsId}
+                title="Drag to reorder"
+                disabled={todo.optimistic}
+              >
+                <GripVertical aria-hidden="true" className="h-4 w-4" />
+              </button>
+            )}
+            <div className="todo-sortable__body space-y-4">
+              {renderTodo(todo)}
+            </div>
+          </div>
+        );
+      })}
+      {isSortable && (
+        <>
+          <p id={instructionsId} className="sr-only">
+            Drag, or use the arrow keys, Home and End to move this todo.
+          </p>
+          <p className="sr-only" aria-live="polite">
+            {announcement}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { ArrowDown, ArrowUp, CornerLeftUp } from "lucide-react";
+
+import type { OptimisticTodo } from "@/features/todos/types/optimisticTodo";
+
+type SubtaskChecklistProps = {
+  subtasks: OptimisticTodo[];
+  onCreateSubtask: (text: string) => Promise<boolean>;
+  onToggleSubtask: (id: number) => void;
+  onReorderSubtasks: (orderedIds: number[]) => Promise<boolean>;
+  onDetachSubtask: (id: number) => Promise<boolean>;
+  // Adding, reordering and detaching steps cannot wait in the offline queue
+  isOffline: boolean;
+};
+
+export function SubtaskChecklist({
+  subtasks,
+  onCreateSubtask,
+  onToggleSubtask,
+  onReorderSubtasks,
+  onDetachSubtask,
+  isOffline,
+}: SubtaskChecklistProps) {
+  const [newSubtaskText, setNewSubtaskText] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [isReordering, setIsReordering] = useState(false);
+
+  const handleCreate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const text = newSubtaskText.trim();
+    if (!text || isCreating) {
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const created = await onCreateSubtask(text);
+      if (created) {
+        setNewSubtaskText("");
+      }
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= subtasks.length) {
+      return;
+    }
+
+    const orderedIds = subtasks.map((subtask) => subtask.id);
+    [orderedIds[index], orderedIds[target]] = [
+      orderedIds[target],
+      orderedIds[index],
+    ];
+
+    setIsReordering(true);
+    try {
+      await onReorderSubtasks(orderedIds);
+    } finally {
+      setIsReordering(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {subtasks.length > 0 ? (
+        <ul className="space-y-2">
+          {subtasks.map((subtask, index) => {
+            const isDisabled =
+              isReordering || isOffline || subtask.optimistic;
+
+            return (
+              <li key={subtask.id} className="group flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => onToggleSubtask(subtask.id)}
+                  className={`todo-checkbox ${
+                    subtask.done ? "todo-checkbox--checked" : ""
+                  }`}
+                  aria-pressed={subtask.done}
+                  aria-label={
+                    subtask.done
+                      ? `Mark ${subtask.text} as active`
+                      : `Mark ${subtask.text} as done`
+                  }
+                  disabled={subtask.optimistic}
+                >
+                  <svg
+                    aria-hidden="true"
+                    viewBox="0 0 20 20"
+                    className="h-3.5 w-3.5"
+                  >
+                    <path
+                      d="M16.5 5.75 8.25 14 4.5 10.25"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth="1.75"
+                    />
+                  </svg>
+                </button>
+                <span
+                  className={`min-w-0 flex-1 text-sm ${
+                    subtask.done
+                      ? "text-foreground-subtle line-through"
+                      : "text-foreground"
+                  }`}
+                >
+                  {subtask.text}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleMove(index, -1)}
+                  className="todo-action"
+                  aria-label={`Move ${subtask.text} up`}
+                  disabled={isDisabled || index === 0}
+                >
+                  <ArrowUp className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleMove(index, 1)}
+                  className="todo-action"
+                  aria-label={`Move ${subtask.text} down`}
+                  disabled={isDisabled || index === subtasks.length - 1}
+                >
+                  <ArrowDown className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDetachSubtask(subtask.id)}
+                  className="todo-action"
+                  aria-label={`Turn ${subtask.text} into a standalone todo`}
+                  title="Turn into a standalone todo"
+                  disabled={isDisabled}
+                >
+                  <CornerLeftUp className="h-3.5 w-3.5" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-xs text-foreground-subtle">
+          Break this task down into smaller steps.
+        </p>
+      )}
+
+      <form onSubmit={handleCreate} className="flex items-center gap-2">
+        <input
+          value={newSubtaskText}
+          onChange={(event) => setNewSubtaskText(event.target.value)}
+          placeholder={
+            isOffline ? "Steps can be added once online" : "Add a step"
+          }
+          maxLength={500}
+          className="min-w-0 flex-1 rounded-full border border-border bg-surface/80 px-3 py-1 text-sm text-foreground transition focus:border-accent focus:outline-none disabled:cursor-not-allowed disabled:opacity-60"
+          aria-label="New subtask"
+          disabled={isCreating || isOffline}
+        />
+        <button
+          type="submit"
+          className="inline-flex h-8 items-center justify-center rounded-full border border-border px-3 text-[0.7rem] font-semibold uppercase cursor-pointer tracking-[0.18em] text-foreground transition hover:border-accent hover:text-accent disabled:cursor-not-allowed disabled:opacity-60"
+          disabled={isCreating || isOffline || !newSubtaskText.trim()}
+        >
+          {isCreating ? "Adding…" : "Add"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import {
+  formatSubtaskProgress,
+  type SubtaskProgress as SubtaskProgressValue,
+} from "@/features/todos/utils/todoSubtasks";
+
+type SubtaskProgressProps = {
+  progress: SubtaskProgressValue;
+};
+
+export function SubtaskProgress({ progress }: SubtaskProgressProps) {
+  const percent =
+    progress.total === 0 ? 0 : Math.round((progress.done / progress.total) * 100);
+
+  return (
+    <span className="subtask-progress todo-meta">
+      <span
+        className="subtask-progress__bar"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={progress.total}
+        aria-valuenow={progress.done}
+        aria-label="Subtasks completed"
+      >
+        <span
+          className="subtask-progress__fill"
+          style={{ width: `${percent}%` }}
+        />
+      </span>
+      {formatSubtaskProgress(progress)}
+    </span>
+  );
+}
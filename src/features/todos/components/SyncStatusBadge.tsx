@@ -0,0 +1,40 @@
+"use client";
+
+import { Cloud, CloudOff, RefreshCw } from "lucide-react";
+
+import type { TodoSyncStatus } from "@/features/todos/types/offlineQueue";
+
+type SyncStatusBadgeProps = {
+  status: TodoSyncStatus;
+  queuedCount: number;
+};
+
+const describeQueued = (count: number) =>
+  `${count} ${count === 1 ? "change" : "changes"}`;
+
+export function SyncStatusBadge({ status, queuedCount }: SyncStatusBadgeProps) {
+  const label =
+    status === "syncing"
+      ? `Syncing ${describeQueued(queuedCount)}…`
+      : status === "offline"
+        ? queuedCount > 0
+          ? `Offline · ${describeQueued(queuedCount)} waiting`
+          : "Offline"
+        : "Online";
+  const Icon =
+    status === "syncing" ? RefreshCw : status === "offline" ? CloudOff : Cloud;
+
+  return (
+    <span
+      className={`sync-status sync-status--${status}`}
+      role="status"
+      aria-live="polite"
+    >
+      <Icon
+        className={`h-3.5 w-3.5 ${status === "syncing" ? "animate-spin" : ""}`}
+        aria-hidden="true"
+      />
+      {label}
+    </span>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useState } from "react";
+
+import type { PendingTodoConflict } from "@/features/todos/types/todoConflict";
+import { getBlocksPlainText } from "@/features/todos/utils/blockNoteText";
+import { describeRecurrence } from "@/features/todos/utils/todoRecurrence";
+import { TODO_PRIORITY_LABELS } from "@/features/todos/utils/todoPriority";
+import { diffLines } from "@/features/todos/utils/textDiff";
+
+const dateFormatter = new Intl.DateTimeFormat(undefined, {
+  month: "short",
+  day: "numeric",
+  year: "numeric",
+});
+
+type ConflictField = {
+  label: string;
+  saved: string;
+  yours: string;
+};
+
+const describeDate = (value: string | null) =>
+  value ? dateFormatter.format(new Date(value)) : "No date";
+
+// The fields the refused write touched, as text, where it differs from the saved todo
+const getConflictFields = ({
+  current,
+  attempted,
+}: PendingTodoConflict): ConflictField[] => {
+  const fields: ConflictField[] = [];
+
+  if (attempted.text !== undefined) {
+    fields.push({ label: "Title", saved: current.text, yours: attempted.text });
+  }
+  if (attempted.content !== undefined) {
+    fields.push({
+      label: "Notes",
+      saved: getBlocksPlainText(current.content),
+      yours: getBlocksPlainText(attempted.content),
+    });
+  }
+  if (attempted.start_at !== undefined) {
+    fields.push({
+      label: "Start",
+      saved: describeDate(current.start_at),
+      yours: describeDate(attempted.start_at),
+    });
+  }
+  if (attempted.due_at !== undefined) {
+    fields.push({
+      label: "Due",
+      saved: describeDate(current.due_at),
+      yours: describeDate(attempted.due_at),
+    });
+  }
+  if (attempted.priority !== undefined) {
+    fields.push({
+      label: "Priority",
+      saved: TODO_PRIORITY_LABELS[current.priority],
+      yours: TODO_PRIORITY_LABELS[attempted.priority],
+    });
+  }
+  if (attempted.recurrence !== undefined) {
+    fields.push({
+      label: "Repeat",
+      saved: current.recurrence
+        ? describeRecurrence(current.recurrence)
+        : "Does not repeat",
+      yours: attempted.recurrence
+        ? describeRecurrence(attempted.recurrence)
+        : "Does not repeat",
+    });
+  }
+
+  return fields.filter((field) => field.saved !== field.yours);
+};
+
+const DIFF_PREFIXES = { same: "  ", removed: "- ", added: "+ " } as const;
+
+type TodoConflictNoticeProps = {
+  conflict: PendingTodoConflict;
+  onReload: () => void;
+  onOverwrite: () => Promise<void>;
+};
+
+export function TodoConflictNotice({
+  conflict,
+  onReload,
+  onOverwrite,
+}: TodoConflictNoticeProps) {
+  const [isDiffVisible, setIsDiffVisible] = useState(false);
+  const [isOverwriting, setIsOverwriting] = useState(false);
+  const fields = getConflictFields(conflict);
+
+  const handleOverwrite = async () => {
+    setIsOverwriting(true);
+    try {
+      await onOverwrite();
+    } finally {
+      setIsOverwriting(false);
+    }
+  };
+
+  return (
+    <div className="notice notice--error todo-conflict" role="alert">
+      <p>
+        This todo was changed somewhere else after you opened it, so your edit
+        was not saved.
+      </p>
+      <div className="mt-3 flex flex-wrap gap-3">
+        <button
+          type="button"
+          onClick={onReload}
+          className="completed-clear"
+          disabled={isOverwriting}
+        >
+          Reload saved version
+        </button>
+        <button
+          type="button"
+          onClick={handleOverwrite}
+          className="completed-clear"
+          disabled={isOverwriting}
+        >
+          {isOverwriting ? "Saving…" : "Overwrite with mine"}
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsDiffVisible((previous) => !previous)}
+          className="completed-clear"
+          aria-expanded={isDiffVisible}
+        >
+          {isDiffVisible ? "Hide changes" : "View changes"}
+        </button>
+      </div>
+
+      {isDiffVisible && (
+        <div className="mt-4 space-y-3">
+          <p className="text-xs">
+            Lines starting with - are saved, lines starting with + are yours.
+          </p>
+          {fields.length === 0 ? (
+            <p className="text-xs">
+              What you tried to save already matches the saved version.
+            </p>
+          ) : (
+            fields.map((field) => (
+              <div key={field.label} className="space-y-1">
+                <p className="text-xs font-semibold uppercase tracking-[0.16em]">
+                  {field.label}
+                </p>
+                <pre className="todo-conflict__diff">
+                  {diffLines(field.saved, field.yours).map((line, index) => (
+                    <span
+                      key={index}
+                      className={`todo-conflict__line todo-conflict__line--${line.kind}`}
+                    >
+                      {DIFF_PREFIXES[line.kind]}
+                      {line.text}
+                      {"\n"}
+                    </span>
+                  ))}
+                </pre>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -18,9 +18,36 @@ import { BlockNoteView } from "@blocknote/mantine";
 
 import type { BlockLayout } from "@/features/todos/types/workspace";
 import type { OptimisticTodo } from "@/features/todos/types/optimisticTodo";
+import {
+  fromDateInputValue,
+  toDateInputValue,
+} from "@/features/todos/utils/todoDates";
+import { TODO_PRIORITY_LABELS } from "@/features/todos/utils/todoPriority";
+import { getSubtaskProgress } from "@/features/todos/utils/todoSubtasks";
+import { SubtaskChecklist } from "@/features/todos/components/SubtaskChecklist";
+import { SubtaskProgress } from "@/features/todos/components/SubtaskProgress";
+import { RecurrenceEditor } from "@/features/todos/components/RecurrenceEditor";
+import { TodoConflictNotice } from "@/features/todos/components/TodoConflictNotice";
+import type { PendingTodoConflict } from "@/features/todos/types/todoConflict";
+import { TODO_PRIORITIES } from "@/features/todos/schemas/todoSchemas";
+import type {
+  Project,
+  Tag,
+  Todo,
+  TodoPriority,
+  TodoRecurrence,
+} from "@/types/database";
+import { TodoTagEditor } from "@/features/tags/components/TodoTagEditor";
+import { MarkdownExportButtons } from "@/features/dataTransfer/components/MarkdownExportButtons";
 
 const EMPTY_CONTENT_JSON = "[]";
 
+// Content of the selected todo, fetched on selection; null content means the fetch failed
+type LoadedContent = {
+  id: number;
+  content: PartialBlock[] | null;
+};
+
 const serializeContent = (content: PartialBlock[]): string =>
   JSON.stringify(content);
 
@@ -60,8 +87,41 @@ type TodoDetailsBlockProps = {
   onResizeStop: RndResizeCallback;
   createdLabel: string | null;
   updatedLabel: string | null;
+  onLoadDetails: (id: number) => Promise<Todo | null>;
+  conflict: PendingTodoConflict | null;
+  onReloadConflict: () => Todo | null;
+  onOverwriteConflict: () => Promise<Todo | null>;
+  // The open todo was changed in another tab or on another device
+  hasRemoteUpdate: boolean;
+  onApplyRemoteUpdate: () => Todo | null;
   onUpdateContent: (id: number, content: PartialBlock[]) => Promise<boolean>;
   onUpdateText: (id: number, text: string) => Promise<boolean>;
+  onUpdateSchedule: (
+    id: number,
+    startAt: string | null,
+    dueAt: string | null
+  ) => Promise<boolean>;
+  onUpdatePriority: (id: number, priority: TodoPriority) => Promise<boolean>;
+  onUpdateRecurrence: (
+    id: number,
+    recurrence: TodoRecurrence | null
+  ) => Promise<boolean>;
+  projects: Project[];
+  onMoveToProject: (id: number, projectId: number) => Promise<boolean>;
+  subtasks: OptimisticTodo[];
+  parentCandidates: OptimisticTodo[];
+  onCreateSubtask: (parentId: number, text: string) => Promise<boolean>;
+  onToggleSubtask: (id: number) => void;
+  onReorderSubtasks: (parentId: number, orderedIds: number[]) => Promise<boolean>;
+  onReparentTodo: (id: number, parentId: number | null) => Promise<boolean>;
+  onCompleteWithSubtasks: (id: number) => void;
+  isOffline: boolean;
+  allTags: Tag[];
+  onToggleTag: (id: number, tag: Tag) => Promise<boolean>;
+  onCreateTag: (name: string, color: string) => Promise<Tag | null>;
+  onRenameTag: (id: number, name: string) => Promise<boolean>;
+  onRecolorTag: (id: number, color: string) => Promise<boolean>;
+  onDeleteTag: (id: number) => Promise<boolean>;
 };
 
 export function TodoDetailsBlock({
@@ -75,21 +135,62 @@ export function TodoDetailsBlock({
   onResizeStop,
   createdLabel,
   updatedLabel,
+  onLoadDetails,
+  conflict,
+  onReloadConflict,
+  onOverwriteConflict,
+  hasRemoteUpdate,
+  onApplyRemoteUpdate,
   onUpdateContent,
   onUpdateText,
+  onUpdateSchedule,
+  onUpdatePriority,
+  onUpdateRecurrence,
+  projects,
+  onMoveToProject,
+  subtasks,
+  parentCandidates,
+  onCreateSubtask,
+  onToggleSubtask,
+  onReorderSubtasks,
+  onReparentTodo,
+  onCompleteWithSubtasks,
+  isOffline,
+  allTags,
+  onToggleTag,
+  onCreateTag,
+  onRenameTag,
+  onRecolorTag,
+  onDeleteTag,
 }: TodoDetailsBlockProps) {
   const [titleDraft, setTitleDraft] = useState("");
   const [isTitleEditing, setIsTitleEditing] = useState(false);
   const [isTitleSubmitting, setIsTitleSubmitting] = useState(false);
+  const [loadedContent, setLoadedContent] = useState<LoadedContent | null>(
+    null
+  );
+  // Bumped to force the editor back to the saved content, e.g. after a conflict reload
+  const [contentRevision, setContentRevision] = useState(0);
   const [contentDraftJSON, setContentDraftJSON] = useState(EMPTY_CONTENT_JSON);
   const [isContentDirty, setIsContentDirty] = useState(false);
   const [isContentSubmitting, setIsContentSubmitting] = useState(false);
   const [editor, setEditor] = useState<BlockNoteEditor | null>(null);
+  const [isScheduleSubmitting, setIsScheduleSubmitting] = useState(false);
+  const [scheduleError, setScheduleError] = useState<string | null>(null);
+  const [isPrioritySubmitting, setIsPrioritySubmitting] = useState(false);
+  const [isProjectSubmitting, setIsProjectSubmitting] = useState(false);
+  const [isParentSubmitting, setIsParentSubmitting] = useState(false);
   const titleInputRef = useRef<HTMLInputElement | null>(null);
   const lastTodoIdRef = useRef<number | null>(null);
   const lastSyncedContentRef = useRef<string>(EMPTY_CONTENT_JSON);
   const selectedTodoId = selectedTodo?.id ?? null;
   const selectedTodoText = selectedTodo?.text ?? "";
+  const selectedTodoDescription = selectedTodo?.description ?? null;
+  const selectedContent =
+    loadedContent !== null && loadedContent.id === selectedTodoId
+      ? loadedContent.content
+      : undefined;
+  const isContentLoaded = Array.isArray(selectedContent);
 
   useEffect(() => {
     if (selectedTodoId === null) {
@@ -106,6 +207,7 @@ export function TodoDetailsBlock({
       setTitleDraft(nextTitle);
       setIsTitleEditing(false);
       setIsTitleSubmitting(false);
+      setScheduleError(null);
       return;
     }
 
@@ -120,6 +222,33 @@ export function TodoDetailsBlock({
     });
   }, [selectedTodoId, selectedTodoText, isTitleEditing]);
 
+  // The list leaves content out, so fetch it whenever another todo is selected
+  useEffect(() => {
+    if (selectedTodoId === null) {
+      setLoadedContent(null);
+      return;
+    }
+    // Optimistic todos have negative ids and nothing stored yet
+    if (selectedTodoId < 0) {
+      setLoadedContent({ id: selectedTodoId, content: [] });
+      return;
+    }
+
+    let isCurrent = true;
+    onLoadDetails(selectedTodoId).then((details) => {
+      if (isCurrent) {
+        setLoadedContent({
+          id: selectedTodoId,
+          content: details ? details.content : null,
+        });
+      }
+    });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [selectedTodoId, onLoadDetails]);
+
   useEffect(() => {
     if (typeof window === "undefined") {
       return;
@@ -135,23 +264,23 @@ export function TodoDetailsBlock({
   }, []);
 
   const normalizedContentJSON = useMemo(() => {
-    if (!selectedTodo) {
+    if (!selectedContent) {
       return EMPTY_CONTENT_JSON;
     }
 
-    if (Array.isArray(selectedTodo.content) && selectedTodo.content.length > 0) {
-      return serializeContent(selectedTodo.content);
+    if (selectedContent.length > 0) {
+      return serializeContent(selectedContent);
     }
 
     const fallback =
-      (selectedTodo.description ?? "").trim() || selectedTodo.text.trim();
+      (selectedTodoDescription ?? "").trim() || selectedTodoText.trim();
 
     if (fallback.length === 0) {
       return EMPTY_CONTENT_JSON;
     }
 
     return serializeContent(createParagraphBlocksFromText(fallback));
-  }, [selectedTodo]);
+  }, [selectedContent, selectedTodoDescription, selectedTodoText]);
 
   useEffect(() => {
     if (!editor) {
@@ -183,7 +312,7 @@ export function TodoDetailsBlock({
     setContentDraftJSON(nextSyncedJSON);
     setIsContentDirty(false);
     setIsContentSubmitting(false);
-  }, [selectedTodoId, normalizedContentJSON, editor]);
+  }, [selectedTodoId, normalizedContentJSON, contentRevision, editor]);
 
   useEffect(() => {
     if (isTitleEditing) {
@@ -194,7 +323,11 @@ export function TodoDetailsBlock({
 
   const contentHelperText = !editor
     ? "Loading editor…"
-    : isContentSubmitting
+    : selectedContent === undefined
+      ? "Loading notes…"
+      : selectedContent === null
+        ? "Notes could not be loaded."
+        : isContentSubmitting
       ? "Saving content…"
       : isContentDirty
         ? "You have unsaved changes."
@@ -230,7 +363,13 @@ export function TodoDetailsBlock({
 
   const handleContentSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
-    if (!selectedTodo || !editor || !isContentDirty || isContentSubmitting) {
+    if (
+      !selectedTodo ||
+      !editor ||
+      !isContentLoaded ||
+      !isContentDirty ||
+      isContentSubmitting
+    ) {
       return;
     }
 
@@ -240,6 +379,7 @@ export function TodoDetailsBlock({
     setIsContentSubmitting(false);
 
     if (didSucceed) {
+      setLoadedContent({ id: selectedTodo.id, content: contentToSave });
       const serialized = serializeContent(contentToSave);
       lastSyncedContentRef.current = serialized;
       setContentDraftJSON(serialized);
@@ -249,6 +389,122 @@ export function TodoDetailsBlock({
     }
   };
 
+  // Put the editor and title back to a copy the server sent
+  const showSavedTodo = (current: Todo | null) => {
+    if (!current) {
+      return;
+    }
+
+    setLoadedContent({ id: current.id, content: current.content });
+    setContentRevision((revision) => revision + 1);
+    setTitleDraft(current.text);
+    setIsTitleEditing(false);
+  };
+
+  const handleConflictReload = () => {
+    showSavedTodo(onReloadConflict());
+  };
+
+  const handleRemoteUpdateApply = () => {
+    showSavedTodo(onApplyRemoteUpdate());
+  };
+
+  const handleConflictOverwrite = async () => {
+    const attempted = conflict?.attempted;
+    const saved = await onOverwriteConflict();
+    if (!saved || !attempted) {
+      return;
+    }
+
+    if (attempted.content !== undefined) {
+      setLoadedContent({ id: saved.id, content: saved.content });
+      const serialized = serializeContent(saved.content);
+      lastSyncedContentRef.current = serialized;
+      setContentDraftJSON(serialized);
+      setIsContentDirty(false);
+    }
+    if (attempted.text !== undefined) {
+      setIsTitleEditing(false);
+    }
+  };
+
+  const handleScheduleChange = async (
+    field: "start_at" | "due_at",
+    value: string
+  ) => {
+    const nextValue = fromDateInputValue(value);
+    const startAt = field === "start_at" ? nextValue : selectedTodo.start_at;
+    const dueAt = field === "due_at" ? nextValue : selectedTodo.due_at;
+
+    if (
+      startAt &&
+      dueAt &&
+      new Date(startAt).getTime() > new Date(dueAt).getTime()
+    ) {
+      setScheduleError("Start date must be on or before the due date");
+      return;
+    }
+
+    setScheduleError(null);
+    setIsScheduleSubmitting(true);
+    try {
+      await onUpdateSchedule(selectedTodo.id, startAt, dueAt);
+    } finally {
+      setIsScheduleSubmitting(false);
+    }
+  };
+
+  const handlePriorityChange = async (
+    event: React.ChangeEvent<HTMLSelectElement>
+  ) => {
+    const nextPriority = TODO_PRIORITIES.find(
+      (priority) => priority === event.target.value
+    );
+    if (!nextPriority || nextPriority === selectedTodo.priority) {
+      return;
+    }
+
+    setIsPrioritySubmitting(true);
+    try {
+      await onUpdatePriority(selectedTodo.id, nextPriority);
+    } finally {
+      setIsPrioritySubmitting(false);
+    }
+  };
+
+  const handleProjectChange = async (
+    event: React.ChangeEvent<HTMLSelectElement>
+  ) => {
+    const nextProjectId = Number(event.target.value);
+    if (!nextProjectId || nextProjectId === selectedTodo.project_id) {
+      return;
+    }
+
+    setIsProjectSubmitting(true);
+    try {
+      await onMoveToProject(selectedTodo.id, nextProjectId);
+    } finally {
+      setIsProjectSubmitting(false);
+    }
+  };
+
+  const handleParentChange = async (
+    event: React.ChangeEvent<HTMLSelectElement>
+  ) => {
+    const nextParentId =
+      event.target.value === "" ? null : Number(event.target.value);
+    if (nextParentId === selectedTodo.parent_id) {
+      return;
+    }
+
+    setIsParentSubmitting(true);
+    try {
+      await onReparentTodo(selectedTodo.id, nextParentId);
+    } finally {
+      setIsParentSubmitting(false);
+    }
+  };
+
   const handleStartEditingTitle = () => {
     setTitleDraft(selectedTodo.text);
     setIsTitleEditing(true);
@@ -387,6 +643,28 @@ export function TodoDetailsBlock({
 
         <section className="workspace-block__content glass-panel">
           <div className="space-y-6">
+            {conflict && (
+              <TodoConflictNotice
+                conflict={conflict}
+                onReload={handleConflictReload}
+                onOverwrite={handleConflictOverwrite}
+              />
+            )}
+            {hasRemoteUpdate && !conflict && (
+              <div className="todo-remote-update" role="status">
+                <span className="todo-remote-update__dot" aria-hidden="true" />
+                <p className="todo-remote-update__message">
+                  Changed in another tab or device
+                </p>
+                <button
+                  type="button"
+                  onClick={handleRemoteUpdateApply}
+                  className="completed-clear"
+                >
+                  Show latest
+                </button>
+              </div>
+            )}
             <header className="space-y-3">
               {isTitleEditing ? (
                 <form onSubmit={handleTitleSubmit} className="space-y-2">
@@ -453,6 +731,153 @@ export function TodoDetailsBlock({
                 </dd>
               </div>
 
+              <div className="flex items-center justify-between gap-4">
+                <dt className="text-xs font-medium uppercase tracking-[0.18em] text-foreground-subtle">
+                  <label htmlFor="todo-project">Project</label>
+                </dt>
+                <dd>
+                  <select
+                    id="todo-project"
+                    value={selectedTodo.project_id}
+                    onChange={handleProjectChange}
+                    className="rounded-full border border-border bg-surface/80 px-3 py-1 text-sm text-foreground transition focus:border-accent focus:outline-none disabled:cursor-not-allowed disabled:opacity-60"
+                    disabled={
+                      isProjectSubmitting ||
+                      selectedTodo.optimistic ||
+                      selectedTodo.parent_id !== null
+                    }
+                    title={
+                      selectedTodo.parent_id !== null
+                        ? "Subtasks stay in their parent's project"
+                        : undefined
+                    }
+                  >
+                    {projects
+                      .filter(
+                        (project) =>
+                          !project.archived ||
+                          project.id === selectedTodo.project_id
+                      )
+                      .map((project) => (
+                        <option key={project.id} value={project.id}>
+                          {project.name}
+                        </option>
+                      ))}
+                  </select>
+                </dd>
+              </div>
+
+              {subtasks.length === 0 && (
+                <div className="flex items-center justify-between gap-4">
+                  <dt className="text-xs font-medium uppercase tracking-[0.18em] text-foreground-subtle">
+                    <label htmlFor="todo-parent">Subtask of</label>
+                  </dt>
+                  <dd>
+                    <select
+                      id="todo-parent"
+                      value={selectedTodo.parent_id ?? ""}
+                      onChange={handleParentChange}
+                      className="max-w-[12rem] rounded-full border border-border bg-surface/80 px-3 py-1 text-sm text-foreground transition focus:border-accent focus:outline-none disabled:cursor-not-allowed disabled:opacity-60"
+                      disabled={
+                        isParentSubmitting ||
+                        isOffline ||
+                        selectedTodo.optimistic
+                      }
+                    >
+                      <option value="">Nothing (top level)</option>
+                      {parentCandidates.map((candidate) => (
+                        <option key={candidate.id} value={candidate.id}>
+                          {candidate.text}
+                        </option>
+                      ))}
+                    </select>
+                  </dd>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between gap-4">
+                <dt className="text-xs font-medium uppercase tracking-[0.18em] text-foreground-subtle">
+                  <label htmlFor="todo-priority">Priority</label>
+                </dt>
+                <dd>
+                  <select
+                    id="todo-priority"
+                    value={selectedTodo.priority}
+                    onChange={handlePriorityChange}
+                    className="rounded-full border border-border bg-surface/80 px-3 py-1 text-sm text-foreground transition focus:border-accent focus:outline-none disabled:cursor-not-allowed disabled:opacity-60"
+                    disabled={isPrioritySubmitting}
+                  >
+                    {TODO_PRIORITIES.map((priority) => (
+                      <option key={priority} value={priority}>
+                        {TODO_PRIORITY_LABELS[priority]}
+                      </option>
+                    ))}
+                  </select>
+                </dd>
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <dt className="text-xs font-medium uppercase tracking-[0.18em] text-foreground-subtle">
+                  <label htmlFor="todo-start-at">Starts</label>
+                </dt>
+                <dd>
+                  <input
+                    id="todo-start-at"
+                    type="date"
+                    value={toDateInputValue(selectedTodo.start_at)}
+                    max={toDateInputValue(selectedTodo.due_at) || undefined}
+                    onChange={(event) =>
+                      handleScheduleChange("start_at", event.target.value)
+                    }
+                    className="rounded-full border border-border bg-surface/80 px-3 py-1 text-sm text-foreground transition focus:border-accent focus:outline-none disabled:cursor-not-allowed disabled:opacity-60"
+                    disabled={isScheduleSubmitting}
+                  />
+                </dd>
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <dt className="text-xs font-medium uppercase tracking-[0.18em] text-foreground-subtle">
+                  <label htmlFor="todo-due-at">Due</label>
+                </dt>
+                <dd>
+                  <input
+                    id="todo-due-at"
+                    type="date"
+                    value={toDateInputValue(selectedTodo.due_at)}
+                    min={toDateInputValue(selectedTodo.start_at) || undefined}
+                    onChange={(event) =>
+                      handleScheduleChange("due_at", event.target.value)
+                    }
+                    className="rounded-full border border-border bg-surface/80 px-3 py-1 text-sm text-foreground transition focus:border-accent focus:outline-none disabled:cursor-not-allowed disabled:opacity-60"
+                    disabled={isScheduleSubmitting}
+                  />
+                </dd>
+              </div>
+
+              {scheduleError && (
+                <p className="text-xs text-red-600 dark:text-red-300">
+                  {scheduleError}
+                </p>
+              )}
+
+              <div className="flex items-start justify-between gap-4">
+                <dt className="pt-1.5 text-xs font-medium uppercase tracking-[0.18em] text-foreground-subtle">
+                  <label htmlFor="todo-recurrence">Repeats</label>
+                </dt>
+                <dd>
+                  <RecurrenceEditor
+                    key={`${selectedTodo.id}:${JSON.stringify(
+                      selectedTodo.recurrence
+                    )}`}
+                    todo={selectedTodo}
+                    onChange={(recurrence) =>
+                      onUpdateRecurrence(selectedTodo.id, recurrence)
+                    }
+                    disabled={selectedTodo.optimistic}
+                  />
+                </dd>
+              </div>
+
               {createdLabel && (
                 <div className="flex items-center justify-between gap-4">
                   <dt className="text-xs font-medium uppercase tracking-[0.18em] text-foreground-subtle">
@@ -472,6 +897,65 @@ export function TodoDetailsBlock({
               )}
             </dl>
 
+            <MarkdownExportButtons
+              title={selectedTodo.text}
+              sources={[{ todo: selectedTodo, subtasks }]}
+              projects={projects}
+              variant="todo"
+              disabled={selectedTodo.optimistic}
+            />
+
+            {selectedTodo.parent_id === null && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-3 pb-2 border-b border-border">
+                  <h3 className="text-xs font-semibold uppercase tracking-[0.16em] text-foreground-muted">
+                    Checklist
+                  </h3>
+                  {subtasks.length > 0 && (
+                    <SubtaskProgress progress={getSubtaskProgress(subtasks)} />
+                  )}
+                </div>
+                <SubtaskChecklist
+                  key={selectedTodo.id}
+                  subtasks={subtasks}
+                  onCreateSubtask={(text) =>
+                    onCreateSubtask(selectedTodo.id, text)
+                  }
+                  onToggleSubtask={onToggleSubtask}
+                  onReorderSubtasks={(orderedIds) =>
+                    onReorderSubtasks(selectedTodo.id, orderedIds)
+                  }
+                  onDetachSubtask={(id) => onReparentTodo(id, null)}
+                  isOffline={isOffline}
+                />
+                {subtasks.some((subtask) => !subtask.done) && (
+                  <button
+                    type="button"
+                    onClick={() => onCompleteWithSubtasks(selectedTodo.id)}
+                    className="completed-clear"
+                    disabled={selectedTodo.optimistic}
+                  >
+                    Complete with all subtasks
+                  </button>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <h3 className="text-xs font-semibold uppercase tracking-[0.16em] text-foreground-muted pb-2 border-b border-border">
+                Tags
+              </h3>
+              <TodoTagEditor
+                todoTags={selectedTodo.tags}
+                allTags={allTags}
+                onToggleTag={(tag) => onToggleTag(selectedTodo.id, tag)}
+                onCreateTag={onCreateTag}
+                onRenameTag={onRenameTag}
+                onRecolorTag={onRecolorTag}
+                onDeleteTag={onDeleteTag}
+              />
+            </div>
+
             <div className="todo-detail__summary space-y-3 pt-6">
               <h3 className="text-xs font-semibold uppercase tracking-[0.16em] text-foreground-muted pb-2 border-b border-border">
                 Notes
@@ -481,6 +965,7 @@ export function TodoDetailsBlock({
                     <BlockNoteView
                       editor={editor}
                       onChange={handleEditorChange}
+                      editable={isContentLoaded}
                       theme="light"
                       className="bn-editor text-foreground w-full"
                     />
@@ -505,7 +990,12 @@ export function TodoDetailsBlock({
                     <button
                       type="submit"
                       className="inline-flex h-8 items-center justify-center rounded-full border border-border px-4 text-[0.7rem] font-semibold uppercase cursor-pointer tracking-[0.18em] text-foreground transition hover:border-accent hover:text-accent focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-accent disabled:cursor-not-allowed disabled:opacity-60"
-                      disabled={!editor || !isContentDirty || isContentSubmitting}
+                      disabled={
+                        !editor ||
+                        !isContentLoaded ||
+                        !isContentDirty ||
+                        isContentSubmitting
+                      }
                     >
                       {isContentSubmitting ? "Saving…" : "Save"}
                     </button>
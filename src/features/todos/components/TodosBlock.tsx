@@ -1,6 +1,13 @@
 "use client";
 
-import { Plus } from "lucide-react";
+import {
+  Archive,
+  ArrowDownUp,
+  Plus,
+  Search,
+  Settings,
+  Trash2,
+} from "lucide-react";
 import Link from "next/link";
 import type {
   ChangeEventHandler,
@@ -9,8 +16,30 @@ import type {
 } from "react";
 import { Rnd, type RndDragCallback, type RndResizeCallback } from "react-rnd";
 
-import type { BlockLayout } from "@/features/todos/types/workspace";
+import type { BlockLayout, TodosView } from "@/features/todos/types/workspace";
 import type { OptimisticTodo } from "@/features/todos/types/optimisticTodo";
+import type { TodoGroup } from "@/features/todos/utils/todoGroups";
+import { TODO_SORT_LABELS } from "@/features/todos/utils/todoSort";
+import {
+  TODO_SORT_ORDERS,
+  TODO_TAG_MATCH_MODES,
+  type TodoSortOrder,
+  type TodoTagMatchMode,
+} from "@/features/todos/schemas/todoSchemas";
+import { SortableTodoList } from "@/features/todos/components/SortableTodoList";
+import { TrashView } from "@/features/todos/components/TrashView";
+import { ArchiveView } from "@/features/todos/components/ArchiveView";
+import { DataTransferView } from "@/features/dataTransfer/components/DataTransferView";
+import { MarkdownExportButtons } from "@/features/dataTransfer/components/MarkdownExportButtons";
+import type { TodoMarkdownSource } from "@/features/dataTransfer/types/todoMarkdownSource";
+import { InfiniteScrollTrigger } from "@/features/todos/components/InfiniteScrollTrigger";
+import { BulkActionToolbar } from "@/features/todos/components/BulkActionToolbar";
+import { SyncStatusBadge } from "@/features/todos/components/SyncStatusBadge";
+import type { TodoSyncStatus } from "@/features/todos/types/offlineQueue";
+import { TagChip } from "@/features/tags/components/TagChip";
+import { ProjectSwitcher } from "@/features/projects/components/ProjectSwitcher";
+import type { ProjectIcon } from "@/features/projects/schemas/projectSchemas";
+import type { Project, Tag, Todo } from "@/types/database";
 
 type TodosBlockProps = {
   layout: BlockLayout;
@@ -20,6 +49,8 @@ type TodosBlockProps = {
   onDragStop: RndDragCallback;
   onResizeStop: RndResizeCallback;
   remainingCount: number;
+  syncStatus: TodoSyncStatus;
+  queuedChangeCount: number;
   fullDateLabel: string;
   isAuthenticated: boolean;
   isSignOutPending: boolean;
@@ -30,12 +61,70 @@ type TodosBlockProps = {
   isPending: boolean;
   isLoading: boolean;
   error: string | null;
-  activeTodos: OptimisticTodo[];
+  projects: Project[];
+  selectedProjectId: number | null;
+  projectTodoCounts: Map<number, number>;
+  onSelectProject: (id: number | null) => void;
+  onCreateProject: (
+    name: string,
+    color: string,
+    icon: ProjectIcon
+  ) => Promise<Project | null>;
+  onUpdateProject: (
+    id: number,
+    updates: { name?: string; color?: string; icon?: ProjectIcon }
+  ) => Promise<boolean>;
+  onSetProjectArchived: (id: number, archived: boolean) => Promise<boolean>;
+  onDeleteProject: (id: number) => Promise<boolean>;
+  activeTodoGroups: TodoGroup[];
+  searchQuery: string;
+  onSearchQueryChange: (query: string) => void;
+  isSearching: boolean;
+  hasMoreTodos: boolean;
+  isLoadingMore: boolean;
+  onLoadMoreTodos: () => void;
+  sortOrder: TodoSortOrder;
+  onSortOrderChange: (order: TodoSortOrder) => void;
+  onReorderTodo: (
+    id: number,
+    previousId: number | null,
+    nextId: number | null
+  ) => Promise<boolean>;
+  tags: Tag[];
+  tagFilter: number[];
+  onToggleTagFilter: (id: number) => void;
+  onClearTagFilter: () => void;
+  tagMatchMode: TodoTagMatchMode;
+  onTagMatchModeChange: (mode: TodoTagMatchMode) => void;
   completedTodos: OptimisticTodo[];
+  // The filtered list, completed todos included, for the Markdown export
+  markdownSources: TodoMarkdownSource[];
   renderTodo: (todo: OptimisticTodo) => ReactNode;
+  isSelecting: boolean;
+  onToggleSelecting: () => void;
+  selectedCount: number;
+  selectableCount: number;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onBulkSetDone: (done: boolean) => void;
+  onBulkMoveToProject: (projectId: number) => void;
+  onBulkSetTag: (tag: Tag, attach: boolean) => void;
+  onBulkDelete: () => void;
   showCompleted: boolean;
   onToggleShowCompleted: () => void;
   onClearCompleted: () => void;
+  view: TodosView;
+  onViewChange: (view: TodosView) => void;
+  archivedTodos: Todo[];
+  isArchiveLoading: boolean;
+  onUnarchiveTodo: (id: number) => Promise<boolean>;
+  trashedTodos: Todo[];
+  trashRetentionDays: number;
+  isTrashLoading: boolean;
+  onRestoreTodo: (id: number) => Promise<boolean>;
+  onDeleteTodoPermanently: (id: number) => Promise<boolean>;
+  onEmptyTrash: () => Promise<boolean>;
+  onTodosImported: () => void;
 };
 
 export function TodosBlock({
@@ -46,6 +135,8 @@ export function TodosBlock({
   onDragStop,
   onResizeStop,
   remainingCount,
+  syncStatus,
+  queuedChangeCount,
   fullDateLabel,
   isAuthenticated,
   isSignOutPending,
@@ -56,14 +147,72 @@ export function TodosBlock({
   isPending,
   isLoading,
   error,
-  activeTodos,
+  projects,
+  selectedProjectId,
+  projectTodoCounts,
+  onSelectProject,
+  onCreateProject,
+  onUpdateProject,
+  onSetProjectArchived,
+  onDeleteProject,
+  activeTodoGroups,
+  searchQuery,
+  onSearchQueryChange,
+  isSearching,
+  hasMoreTodos,
+  isLoadingMore,
+  onLoadMoreTodos,
+  sortOrder,
+  onSortOrderChange,
+  onReorderTodo,
+  tags,
+  tagFilter,
+  onToggleTagFilter,
+  onClearTagFilter,
+  tagMatchMode,
+  onTagMatchModeChange,
   completedTodos,
+  markdownSources,
   renderTodo,
+  isSelecting,
+  onToggleSelecting,
+  selectedCount,
+  selectableCount,
+  onSelectAll,
+  onClearSelection,
+  onBulkSetDone,
+  onBulkMoveToProject,
+  onBulkSetTag,
+  onBulkDelete,
   showCompleted,
   onToggleShowCompleted,
   onClearCompleted,
+  view,
+  onViewChange,
+  archivedTodos,
+  isArchiveLoading,
+  onUnarchiveTodo,
+  trashedTodos,
+  trashRetentionDays,
+  isTrashLoading,
+  onRestoreTodo,
+  onDeleteTodoPermanently,
+  onEmptyTrash,
+  onTodosImported,
 }: TodosBlockProps) {
   const completedCount = completedTodos.length;
+  const isFiltering = searchQuery.trim().length > 0;
+  // Names the exported list after the project, tag filter and search
+  const markdownTitle = [
+    projects.find((project) => project.id === selectedProjectId)?.name ??
+      "All projects",
+    ...tags
+      .filter((tag) => tagFilter.includes(tag.id))
+      .map((tag) => `#${tag.name}`),
+    isFiltering && `“${searchQuery.trim()}”`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
 
   return (
     <Rnd
@@ -147,16 +296,72 @@ export function TodosBlock({
                       remainingCount === 1 ? "task" : "tasks"
                     } waiting patiently.`}
               </p>
+              {isAuthenticated && (
+                <SyncStatusBadge
+                  status={syncStatus}
+                  queuedCount={queuedChangeCount}
+                />
+              )}
             </div>
 
             {isAuthenticated ? (
-              <button
-                onClick={() => onSignOut()}
-                className="inline-flex h-10 min-w-[3.5rem] items-center justify-center rounded-full border border-border px-4 text-xs font-semibold cursor-pointer uppercase tracking-[0.2em] text-foreground-muted transition hover:border-accent/60 hover:text-foreground focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-accent disabled:cursor-not-allowed disabled:opacity-50"
-                disabled={isSignOutPending}
-              >
-                {isSignOutPending ? "Signing out…" : "Sign out"}
-              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() =>
+                    onViewChange(view === "archive" ? "list" : "archive")
+                  }
+                  className="inline-flex h-10 w-10 items-center justify-center rounded-full border border-border text-foreground-muted transition hover:border-accent/60 hover:text-foreground focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-accent"
+                  aria-pressed={view === "archive"}
+                  aria-label={view === "archive" ? "Back to todos" : "Open archive"}
+                  title={view === "archive" ? "Back to todos" : "Archive"}
+                >
+                  <Archive className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    onViewChange(view === "trash" ? "list" : "trash")
+                  }
+                  className="inline-flex h-10 w-10 items-center justify-center rounded-full border border-border text-foreground-muted transition hover:border-accent/60 hover:text-foreground focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-accent"
+                  aria-pressed={view === "trash"}
+                  aria-label={view === "trash" ? "Back to todos" : "Open trash"}
+                  title={view === "trash" ? "Back to todos" : "Trash"}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    onViewChange(view === "transfer" ? "list" : "transfer")
+                  }
+                  className="inline-flex h-10 w-10 items-center justify-center rounded-full border border-border text-foreground-muted transition hover:border-accent/60 hover:text-foreground focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-accent"
+                  aria-pressed={view === "transfer"}
+                  aria-label={
+                    view === "transfer" ? "Back to todos" : "Import and export"
+                  }
+                  title={
+                    view === "transfer" ? "Back to todos" : "Import & export"
+                  }
+                >
+                  <ArrowDownUp className="h-4 w-4" />
+                </button>
+                <Link
+                  href="/settings"
+                  className="inline-flex h-10 w-10 items-center justify-center rounded-full border border-border text-foreground-muted transition hover:border-accent/60 hover:text-foreground focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-accent"
+                  aria-label="Open settings"
+                  title="Settings"
+                >
+                  <Settings className="h-4 w-4" />
+                </Link>
+                <button
+                  onClick={() => onSignOut()}
+                  className="inline-flex h-10 min-w-[3.5rem] items-center justify-center rounded-full border border-border px-4 text-xs font-semibold cursor-pointer uppercase tracking-[0.2em] text-foreground-muted transition hover:border-accent/60 hover:text-foreground focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-accent disabled:cursor-not-allowed disabled:opacity-50"
+                  disabled={isSignOutPending}
+                >
+                  {isSignOutPending ? "Signing out…" : "Sign out"}
+                </button>
+              </div>
             ) : (
               <div className="text-xs font-medium uppercase tracking-[0.22em] text-foreground-muted">
                 <Link
@@ -176,136 +381,348 @@ export function TodosBlock({
             )}
           </header>
 
-          <form
-            onSubmit={onSubmit}
-            className="mt-12 flex flex-col gap-3 sm:flex-row sm:items-center"
-          >
-            <div className="input-shell">
-              <input
-                value={newTodoValue}
-                onChange={onNewTodoChange}
-                placeholder="Add a gentle reminder…"
-                className="input-field"
-                aria-label="New todo"
-                disabled={isPending || !isAuthenticated}
+          {isAuthenticated && projects.length > 0 && (
+            <div className="mt-8">
+              <ProjectSwitcher
+                projects={projects}
+                selectedProjectId={selectedProjectId}
+                todoCounts={projectTodoCounts}
+                onSelectProject={onSelectProject}
+                onCreateProject={onCreateProject}
+                onUpdateProject={onUpdateProject}
+                onSetProjectArchived={onSetProjectArchived}
+                onDeleteProject={onDeleteProject}
               />
             </div>
-            <button
-              type="submit"
-              className="accent-button"
-              disabled={isPending || !isAuthenticated || !newTodoValue.trim()}
-            >
-              {isPending ? "Adding…" : <Plus className="h-5 w-5" />}
-            </button>
-          </form>
-
-          {!isAuthenticated && (
-            <p className="mt-3 text-xs font-medium tracking-[0.16em] text-foreground-subtle">
-              Sign in to start curating your list.
-            </p>
           )}
 
-          {error && (
-            <div className="notice notice--error">
-              <p>{error}</p>
-              {error === "You must be logged in to view todos" && (
-                <p className="notice__cta">
-                  <Link
-                    className="underline-offset-4 transition hover:text-foreground"
-                    href="/sign-in"
-                  >
-                    Sign in
-                  </Link>{" "}
-                  or{" "}
-                  <Link
-                    className="underline-offset-4 transition hover:text-foreground"
-                    href="/sign-up"
-                  >
-                    create an account
-                  </Link>{" "}
-                  to manage your todos.
+          {view === "archive" ? (
+            <ArchiveView
+              todos={archivedTodos}
+              isLoading={isArchiveLoading}
+              onUnarchive={onUnarchiveTodo}
+              onClose={() => onViewChange("list")}
+            />
+          ) : view === "transfer" ? (
+            <DataTransferView
+              onClose={() => onViewChange("list")}
+              onImported={onTodosImported}
+            />
+          ) : view === "trash" ? (
+            <TrashView
+              todos={trashedTodos}
+              retentionDays={trashRetentionDays}
+              isLoading={isTrashLoading}
+              onRestore={onRestoreTodo}
+              onDeletePermanently={onDeleteTodoPermanently}
+              onEmptyTrash={onEmptyTrash}
+              onClose={() => onViewChange("list")}
+            />
+          ) : (
+            <>
+              <form
+                onSubmit={onSubmit}
+                className="mt-12 flex flex-col gap-3 sm:flex-row sm:items-center"
+              >
+                <div className="input-shell">
+                  <input
+                    value={newTodoValue}
+                    onChange={onNewTodoChange}
+                    placeholder="Add a gentle reminder…"
+                    className="input-field"
+                    aria-label="New todo"
+                    disabled={isPending || !isAuthenticated}
+                  />
+                </div>
+                <button
+                  type="submit"
+                  className="accent-button"
+                  disabled={isPending || !isAuthenticated || !newTodoValue.trim()}
+                >
+                  {isPending ? "Adding…" : <Plus className="h-5 w-5" />}
+                </button>
+              </form>
+
+              {!isAuthenticated && (
+                <p className="mt-3 text-xs font-medium tracking-[0.16em] text-foreground-subtle">
+                  Sign in to start curating your list.
                 </p>
               )}
-            </div>
-          )}
 
-          <section className="mt-8 space-y-6">
-            <div>
-              <h2 className="section-title">Active</h2>
-              <div className="mt-6 space-y-4">
-                {isLoading ? (
-                  <p className="text-sm text-foreground-subtle">
-                    Loading your tasks…
-                  </p>
-                ) : activeTodos.length === 0 ? (
-                  <div className="empty-state">
-                    <div className="empty-state__body">
-                      <p className="empty-state__eyebrow">
-                        {isAuthenticated
-                          ? "The slate is clear."
-                          : "Welcome to your calm corner."}
-                      </p>
-                      <p className="empty-state__headline">
-                        {isAuthenticated
-                          ? "Ready for what&apos;s next?"
-                          : "Sign in to unlock your focus."}
-                      </p>
-                      <p className="empty-state__copy">
-                        {isAuthenticated
-                          ? "Capture what matters next when the moment arises."
-                          : "Sign in to reveal your calm, focused list."}
-                      </p>
-                    </div>
-                  </div>
-                ) : (
-                  activeTodos.map(renderTodo)
-                )}
-              </div>
-            </div>
+              {error && (
+                <div className="notice notice--error">
+                  <p>{error}</p>
+                  {error === "You must be logged in to view todos" && (
+                    <p className="notice__cta">
+                      <Link
+                        className="underline-offset-4 transition hover:text-foreground"
+                        href="/sign-in"
+                      >
+                        Sign in
+                      </Link>{" "}
+                      or{" "}
+                      <Link
+                        className="underline-offset-4 transition hover:text-foreground"
+                        href="/sign-up"
+                      >
+                        create an account
+                      </Link>{" "}
+                      to manage your todos.
+                    </p>
+                  )}
+                </div>
+              )}
 
-            {completedCount > 0 && (
-              <div className="completed-section">
-                <button
-                  type="button"
-                  onClick={onToggleShowCompleted}
-                  className="completed-toggle"
-                  aria-expanded={showCompleted}
-                >
-                  <span>Completed ({completedCount})</span>
-                  <svg
+              {isAuthenticated && (
+                <div className="input-shell mt-6">
+                  <Search
                     aria-hidden="true"
-                    viewBox="0 0 20 20"
-                    className={`h-4 w-4 transition-transform duration-200 ${
-                      showCompleted ? "rotate-180" : ""
-                    }`}
-                  >
-                    <path
-                      d="M6 8l4 4 4-4"
-                      fill="none"
-                      stroke="currentColor"
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth="1.6"
-                    />
-                  </svg>
-                </button>
+                    className="h-4 w-4 shrink-0 text-foreground-subtle"
+                  />
+                  <input
+                    type="search"
+                    value={searchQuery}
+                    onChange={(event) => onSearchQueryChange(event.target.value)}
+                    onKeyDown={(event) => {
+                      if (event.key === "Escape") {
+                        onSearchQueryChange("");
+                      }
+                    }}
+                    placeholder="Search todos…"
+                    className="input-field"
+                    aria-label="Search todos"
+                  />
+                </div>
+              )}
 
-                {showCompleted && (
-                  <div className="completed-list">
-                    {completedTodos.map(renderTodo)}
+              {tags.length > 0 && (
+                <div className="mt-6 flex flex-wrap items-center gap-2">
+                  {tags.map((tag) => (
+                    <TagChip
+                      key={tag.id}
+                      tag={tag}
+                      isActive={tagFilter.includes(tag.id)}
+                      onClick={() => onToggleTagFilter(tag.id)}
+                      title={
+                        tagFilter.includes(tag.id)
+                          ? `Stop filtering by ${tag.name}`
+                          : `Filter by ${tag.name}`
+                      }
+                    />
+                  ))}
+                  {tagFilter.length > 1 && (
+                    <div
+                      className="sort-switch"
+                      role="radiogroup"
+                      aria-label="Tag match mode"
+                    >
+                      {TODO_TAG_MATCH_MODES.map((mode) => (
+                        <button
+                          key={mode}
+                          type="button"
+                          role="radio"
+                          aria-checked={tagMatchMode === mode}
+                          onClick={() => onTagMatchModeChange(mode)}
+                          className={`sort-switch__option ${
+                            tagMatchMode === mode
+                              ? "sort-switch__option--active"
+                              : ""
+                          }`}
+                        >
+                          {mode === "any" ? "Any" : "All"}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {tagFilter.length > 0 && (
                     <button
                       type="button"
-                      onClick={onClearCompleted}
+                      onClick={onClearTagFilter}
                       className="completed-clear"
-                      disabled={isPending}
                     >
-                      Clear completed
+                      Clear filter
                     </button>
+                  )}
+                </div>
+              )}
+
+              <section className="mt-8 space-y-6">
+                <div>
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <h2 className="section-title">Active</h2>
+                    <div className="flex flex-wrap items-center gap-3">
+                      {isAuthenticated && (
+                        <MarkdownExportButtons
+                          title={markdownTitle}
+                          sources={markdownSources}
+                          projects={projects}
+                          variant="list"
+                        />
+                      )}
+                      {isAuthenticated && (
+                        <button
+                          type="button"
+                          onClick={onToggleSelecting}
+                          className="completed-clear"
+                          aria-pressed={isSelecting}
+                        >
+                          {isSelecting ? "Done selecting" : "Select"}
+                        </button>
+                      )}
+                      <div
+                        className="sort-switch"
+                        role="radiogroup"
+                        aria-label="Sort active todos"
+                      >
+                        {TODO_SORT_ORDERS.map((order) => (
+                          <button
+                            key={order}
+                            type="button"
+                            role="radio"
+                            aria-checked={sortOrder === order}
+                            onClick={() => onSortOrderChange(order)}
+                            className={`sort-switch__option ${
+                              sortOrder === order ? "sort-switch__option--active" : ""
+                            }`}
+                          >
+                            {TODO_SORT_LABELS[order]}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                  {isSelecting && (
+                    <BulkActionToolbar
+                      selectedCount={selectedCount}
+                      selectableCount={selectableCount}
+                      projects={projects}
+                      tags={tags}
+                      isPending={isPending}
+                      onSelectAll={onSelectAll}
+                      onClearSelection={onClearSelection}
+                      onSetDone={onBulkSetDone}
+                      onMoveToProject={onBulkMoveToProject}
+                      onSetTag={onBulkSetTag}
+                      onDelete={onBulkDelete}
+                    />
+                  )}
+                  <div className="mt-6 space-y-4">
+                    {isLoading ? (
+                      <p className="text-sm text-foreground-subtle">
+                        Loading your tasks…
+                      </p>
+                    ) : isFiltering && activeTodoGroups.length === 0 ? (
+                      <p className="text-sm text-foreground-subtle" aria-live="polite">
+                        {isSearching
+                          ? "Searching…"
+                          : `No active todos match “${searchQuery.trim()}”.`}
+                      </p>
+                    ) : activeTodoGroups.length === 0 ? (
+                      <div className="empty-state">
+                        <div className="empty-state__body">
+                          <p className="empty-state__eyebrow">
+                            {isAuthenticated
+                              ? "The slate is clear."
+                              : "Welcome to your calm corner."}
+                          </p>
+                          <p className="empty-state__headline">
+                            {isAuthenticated
+                              ? "Ready for what&apos;s next?"
+                              : "Sign in to unlock your focus."}
+                          </p>
+                          <p className="empty-state__copy">
+                            {isAuthenticated
+                              ? "Capture what matters next when the moment arises."
+                              : "Sign in to reveal your calm, focused list."}
+                          </p>
+                        </div>
+                      </div>
+                    ) : (
+                      activeTodoGroups.map((group) => (
+                        <div
+                          key={group.id}
+                          className={`todo-group todo-group--${group.id}`}
+                        >
+                          <h3 className="todo-group__title">
+                            <span>{group.label}</span>
+                            <span className="todo-group__count">
+                              {group.todos.length}
+                            </span>
+                          </h3>
+                          <SortableTodoList
+                            todos={group.todos}
+                            renderTodo={renderTodo}
+                            isSortable={
+                              isAuthenticated &&
+                              sortOrder === "manual" &&
+                              !isFiltering &&
+                              !isSelecting &&
+                              syncStatus === "online"
+                            }
+                            onReorder={onReorderTodo}
+                          />
+                        </div>
+                      ))
+                    )}
+                    {!isLoading && hasMoreTodos && (
+                      <InfiniteScrollTrigger
+                        isLoading={isLoadingMore}
+                        onLoadMore={onLoadMoreTodos}
+                      />
+                    )}
+                  </div>
+                </div>
+
+                {completedCount > 0 && (
+                  <div className="completed-section">
+                    <button
+                      type="button"
+                      onClick={onToggleShowCompleted}
+                      className="completed-toggle"
+                      aria-expanded={showCompleted}
+                    >
+                      <span>Completed ({completedCount})</span>
+                      <svg
+                        aria-hidden="true"
+                        viewBox="0 0 20 20"
+                        className={`h-4 w-4 transition-transform duration-200 ${
+                          showCompleted ? "rotate-180" : ""
+                        }`}
+                      >
+                        <path
+                          d="M6 8l4 4 4-4"
+                          fill="none"
+                          stroke="currentColor"
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth="1.6"
+                        />
+                      </svg>
+                    </button>
+
+                    {showCompleted && (
+                      <div className="completed-list">
+                        {completedTodos.map(renderTodo)}
+                        <button
+                          type="button"
+                          onClick={onClearCompleted}
+                          className="completed-clear"
+                          disabled={isPending || syncStatus !== "online"}
+                          title={
+                            syncStatus === "online"
+                              ? undefined
+                              : "Archiving needs a connection"
+                          }
+                        >
+                          Archive completed
+                        </button>
+                      </div>
+                    )}
                   </div>
                 )}
-              </div>
-            )}
-          </section>
+              </section>
+            </>
+          )}
         </section>
       </article>
     </Rnd>
@@ -0,0 +1,241 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowLeft, RotateCcw } from "lucide-react";
+
+import type { Todo } from "@/types/database";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const deletedOnFormatter = new Intl.DateTimeFormat(undefined, {
+  month: "short",
+  day: "numeric",
+});
+
+type TrashViewProps = {
+  todos: Todo[];
+  retentionDays: number;
+  isLoading: boolean;
+  onRestore: (id: number) => Promise<boolean>;
+  onDeletePermanently: (id: number) => Promise<boolean>;
+  onEmptyTrash: () => Promise<boolean>;
+  onClose: () => void;
+};
+
+export function TrashView({
+  todos,
+  retentionDays,
+  isLoading,
+  onRestore,
+  onDeletePermanently,
+  onEmptyTrash,
+  onClose,
+}: TrashViewProps) {
+  const [pendingId, setPendingId] = useState<number | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<number | null>(null);
+  const [isConfirmingEmpty, setIsConfirmingEmpty] = useState(false);
+  const [isEmptying, setIsEmptying] = useState(false);
+
+  // Subtasks trashed together with their parent are listed under it, not on their own
+  const deletedAtById = new Map(todos.map((todo) => [todo.id, todo.deleted_at]));
+  const entries = todos.filter(
+    (todo) =>
+      todo.parent_id === null ||
+      deletedAtById.get(todo.parent_id) !== todo.deleted_at
+  );
+  const countTrashedSubtasks = (todo: Todo) =>
+    todos.filter(
+      (candidate) =>
+        candidate.parent_id === todo.id &&
+        candidate.deleted_at === todo.deleted_at
+    ).length;
+
+  const runForTodo = async (id: number, task: () => Promise<unknown>) => {
+    setPendingId(id);
+    try {
+      await task();
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    setIsEmptying(true);
+    try {
+      if (await onEmptyTrash()) {
+        setIsConfirmingEmpty(false);
+      }
+    } finally {
+      setIsEmptying(false);
+    }
+  };
+
+  const describeExpiry = (deletedAt: string | null) => {
+    if (!deletedAt) {
+      return null;
+    }
+    const deletedTime = new Date(deletedAt).getTime();
+    if (Number.isNaN(deletedTime)) {
+      return null;
+    }
+    const daysLeft = Math.max(
+      0,
+      Math.ceil((deletedTime + retentionDays * DAY_MS - Date.now()) / DAY_MS)
+    );
+    return `Deleted ${deletedOnFormatter.format(deletedTime)} · ${
+      daysLeft <= 1 ? "removed within a day" : `removed in ${daysLeft} days`
+    }`;
+  };
+
+  return (
+    <section className="mt-12 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <button
+          type="button"
+          onClick={onClose}
+          className="completed-clear inline-flex items-center gap-2"
+        >
+          <ArrowLeft aria-hidden="true" className="h-3.5 w-3.5" />
+          <span>Back to todos</span>
+        </button>
+        {entries.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setIsConfirmingEmpty((previous) => !previous)}
+            className="completed-clear"
+            aria-expanded={isConfirmingEmpty}
+            disabled={isEmptying}
+          >
+            Empty trash
+          </button>
+        )}
+      </div>
+
+      <div>
+        <h2 className="section-title">Trash</h2>
+        <p className="mt-2 text-xs text-foreground-subtle">
+          Deleted todos are kept for {retentionDays}{" "}
+          {retentionDays === 1 ? "day" : "days"}, then removed for good.
+        </p>
+      </div>
+
+      {isConfirmingEmpty && (
+        <div className="notice notice--error">
+          <p>
+            Permanently delete {entries.length}{" "}
+            {entries.length === 1 ? "todo" : "todos"} in the trash? This cannot
+            be undone.
+          </p>
+          <div className="mt-2 flex gap-3">
+            <button
+              type="button"
+              onClick={handleEmptyTrash}
+              className="completed-clear"
+              disabled={isEmptying}
+            >
+              {isEmptying ? "Emptying…" : "Delete forever"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsConfirmingEmpty(false)}
+              className="completed-clear"
+              disabled={isEmptying}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-foreground-subtle">Loading the trash…</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-foreground-subtle">The trash is empty.</p>
+      ) : (
+        <ul className="space-y-3">
+          {entries.map((todo) => {
+            const isPendingTodo = pendingId === todo.id || isEmptying;
+            const subtaskCount = countTrashedSubtasks(todo);
+            const expiry = describeExpiry(todo.deleted_at);
+
+            return (
+              <li key={todo.id} className="space-y-2">
+                <div className="todo-item">
+                  <div className="flex min-w-0 flex-1 flex-col gap-1">
+                    <p className="todo-text">{todo.text}</p>
+                    <p className="text-xs text-foreground-subtle">
+                      {expiry}
+                      {subtaskCount > 0 &&
+                        ` · with ${subtaskCount} ${
+                          subtaskCount === 1 ? "subtask" : "subtasks"
+                        }`}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() =>
+                        runForTodo(todo.id, () => onRestore(todo.id))
+                      }
+                      className="inline-flex h-8 w-8 items-center justify-center rounded-full border border-border text-foreground-muted transition hover:border-accent hover:text-foreground disabled:cursor-not-allowed disabled:opacity-60"
+                      aria-label={`Restore ${todo.text}`}
+                      title="Restore"
+                      disabled={isPendingTodo}
+                    >
+                      <RotateCcw className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setConfirmDeleteId((current) =>
+                          current === todo.id ? null : todo.id
+                        )
+                      }
+                      className="inline-flex h-8 items-center justify-center rounded-full border border-border px-3 text-[0.65rem] font-semibold uppercase tracking-[0.16em] text-foreground-muted transition hover:border-red-400 hover:text-red-500 disabled:cursor-not-allowed disabled:opacity-60"
+                      aria-expanded={confirmDeleteId === todo.id}
+                      disabled={isPendingTodo}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {confirmDeleteId === todo.id && (
+                  <div className="notice notice--error">
+                    <p>
+                      Delete “{todo.text}” for good? This cannot be undone.
+                    </p>
+                    <div className="mt-2 flex gap-3">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          runForTodo(todo.id, async () => {
+                            if (await onDeletePermanently(todo.id)) {
+                              setConfirmDeleteId(null);
+                            }
+                          })
+                        }
+                        className="completed-clear"
+                        disabled={isPendingTodo}
+                      >
+                        Delete forever
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setConfirmDeleteId(null)}
+                        className="completed-clear"
+                        disabled={isPendingTodo}
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,237 @@
+/**
+ * @jest-environment jsdom
+ */
+import { useState } from "react";
+import { act, renderHook } from "@testing-library/react";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+
+import type { OptimisticTodo } from "@/features/todos/types/optimisticTodo";
+import type { TodoRow } from "@/features/todos/types/todoRealtime";
+import { applyRemoteTodoChange } from "@/features/todos/utils/todoRealtime";
+import { type TodoChangesChannel, useTodoRealtime } from "./useTodoRealtime";
+
+type TodoChangePayload = RealtimePostgresChangesPayload<TodoRow>;
+
+const makeRow = (overrides: Partial<TodoRow> = {}): TodoRow => ({
+  id: 1,
+  text: "Water the plants",
+  description: null,
+  content: [],
+  done: false,
+  start_at: null,
+  due_at: null,
+  priority: "none",
+  project_id: 1,
+  parent_id: null,
+  subtask_position: 0,
+  recurrence: null,
+  position: "a0",
+  deleted_at: null,
+  completed_at: null,
+  archived_at: null,
+  user_id: "user-1",
+  created_at: "2026-01-01T00:00:00.000Z",
+  updated_at: "2026-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const makeTodo = (overrides: Partial<TodoRow> = {}): OptimisticTodo => {
+  const row: Partial<TodoRow> = makeRow(overrides);
+  delete row.content;
+  return { ...(row as Omit<TodoRow, "content">), tags: [] };
+};
+
+const LATER = "2026-01-02T00:00:00.000Z";
+
+const payloadFields = {
+  schema: "public",
+  table: "todos",
+  commit_timestamp: LATER,
+  errors: [],
+};
+
+const updated = (row: TodoRow): TodoChangePayload => ({
+  ...payloadFields,
+  eventType: "UPDATE",
+  new: row,
+  old: { id: row.id },
+});
+
+const deleted = (id: number): TodoChangePayload => ({
+  ...payloadFields,
+  eventType: "DELETE",
+  new: {},
+  old: { id },
+});
+
+// A channel whose connection resolves when the test says so, and whose
+// payloads are pushed by hand
+const createFakeChannel = () => {
+  let onPayload: ((payload: TodoChangePayload) => void) | null = null;
+  let resolveConnection: (channel: TodoChangesChannel | null) => void =
+    () => {};
+
+  const channel: TodoChangesChannel = {
+    subscribe: jest.fn((listener) => {
+      onPayload = listener;
+    }),
+    unsubscribe: jest.fn(),
+  };
+  const connect = jest.fn(
+    () =>
+      new Promise<TodoChangesChannel | null>((resolve) => {
+        resolveConnection = resolve;
+      })
+  );
+
+  return {
+    channel,
+    connect,
+    connected: async (value: TodoChangesChannel | null = channel) => {
+      await act(async () => resolveConnection(value));
+    },
+    push: (payload: TodoChangePayload) => {
+      if (!onPayload) {
+        throw new Error("The hook has not subscribed");
+      }
+      act(() => onPayload?.(payload));
+    },
+  };
+};
+
+// The list as page.tsx keeps it: remote changes merged into local state
+const renderTodoList = (
+  initialTodos: OptimisticTodo[],
+  connect: ReturnType<typeof createFakeChannel>["connect"]
+) =>
+  renderHook(() => {
+    const [todos, setTodos] = useState(initialTodos);
+    useTodoRealtime(
+      true,
+      (change) =>
+        setTodos((current) => applyRemoteTodoChange(current, change)),
+      connect
+    );
+    return todos;
+  });
+
+describe("useTodoRealtime", () => {
+  it("does not connect while disabled", () => {
+    const { connect } = createFakeChannel();
+
+    renderHook(() => useTodoRealtime(false, jest.fn(), connect));
+
+    expect(connect).not.toHaveBeenCalled();
+  });
+
+  it("applies changes from other tabs", async () => {
+    const fake = createFakeChannel();
+    const { result } = renderTodoList([makeTodo()], fake.connect);
+    await fake.connected();
+
+    fake.push(
+      updated(makeRow({ text: "Water the garden", updated_at: LATER }))
+    );
+
+    expect(result.current.map((todo) => todo.text)).toEqual([
+      "Water the garden",
+    ]);
+  });
+
+  it("ignores echoes of this tab's own writes", async () => {
+    const fake = createFakeChannel();
+    const initialTodos = [makeTodo({ text: "Saved here", updated_at: LATER })];
+    const { result } = renderTodoList(initialTodos, fake.connect);
+    await fake.connected();
+
+    fake.push(updated(makeRow({ text: "Saved here", updated_at: LATER })));
+    fake.push(updated(makeRow({ text: "Stale" })));
+
+    expect(result.current).toBe(initialTodos);
+  });
+
+  it("ignores deletes of todos it does not hold", async () => {
+    const fake = createFakeChannel();
+    const initialTodos = [makeTodo()];
+    const { result } = renderTodoList(initialTodos, fake.connect);
+    await fake.connected();
+
+    fake.push(deleted(99));
+
+    expect(result.current).toBe(initialTodos);
+  });
+
+  it("removes deleted, trashed and archived todos", async () => {
+    const fake = createFakeChannel();
+    const { result } = renderTodoList(
+      [makeTodo(), makeTodo({ id: 2 }), makeTodo({ id: 3 })],
+      fake.connect
+    );
+    await fake.connected();
+
+    fake.push(deleted(1));
+    fake.push(
+      updated(makeRow({ id: 2, deleted_at: LATER, updated_at: LATER }))
+    );
+    fake.push(
+      updated(makeRow({ id: 3, archived_at: LATER, updated_at: LATER }))
+    );
+
+    expect(result.current).toEqual([]);
+  });
+
+  it("calls the latest onChange", async () => {
+    const fake = createFakeChannel();
+    const first = jest.fn();
+    const second = jest.fn();
+    const { rerender } = renderHook(
+      ({ onChange }) => useTodoRealtime(true, onChange, fake.connect),
+      { initialProps: { onChange: first } }
+    );
+    await fake.connected();
+
+    rerender({ onChange: second });
+    fake.push(deleted(1));
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledWith({ type: "delete", id: 1 });
+  });
+
+  it("unsubscribes on unmount", async () => {
+    const fake = createFakeChannel();
+    const { unmount } = renderHook(() =>
+      useTodoRealtime(true, jest.fn(), fake.connect)
+    );
+    await fake.connected();
+
+    unmount();
+
+    expect(fake.channel.unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it("unsubscribes a channel that connects after unmount", async () => {
+    const fake = createFakeChannel();
+    const { unmount } = renderHook(() =>
+      useTodoRealtime(true, jest.fn(), fake.connect)
+    );
+
+    unmount();
+    await fake.connected();
+
+    expect(fake.channel.subscribe).not.toHaveBeenCalled();
+    expect(fake.channel.unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it("does nothing when nobody is signed in", async () => {
+    const fake = createFakeChannel();
+    const { unmount } = renderHook(() =>
+      useTodoRealtime(true, jest.fn(), fake.connect)
+    );
+    await fake.connected(null);
+
+    unmount();
+
+    expect(fake.channel.subscribe).not.toHaveBeenCalled();
+    expect(fake.channel.unsubscribe).not.toHaveBeenCalled();
+  });
+});
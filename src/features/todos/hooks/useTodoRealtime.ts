@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+
+import type {
+  TodoRemoteChange,
+  TodoRow,
+} from "@/features/todos/types/todoRealtime";
+import { createClient } from "@/utils/supabase/client";
+
+type TodoChangePayload = RealtimePostgresChangesPayload<TodoRow>;
+
+// What the hook needs from a realtime channel, so tests can drive it with a fake
+export type TodoChangesChannel = {
+  subscribe: (onPayload: (payload: TodoChangePayload) => void) => void;
+  unsubscribe: () => unknown;
+};
+
+// A channel for the signed-in user's todos; null when nobody is signed in
+export type ConnectTodoChanges = () => Promise<TodoChangesChannel | null>;
+
+const connectSupabaseTodoChanges: ConnectTodoChanges = async () => {
+  const supabase = createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return null;
+  }
+
+  const channel = supabase.channel(`todos:${user.id}`);
+  return {
+    subscribe: (onPayload) => {
+      channel
+        .on<TodoRow>(
+          "postgres_changes",
+          {
+            event: "*",
+            schema: "public",
+            table: "todos",
+            filter: `user_id=eq.${user.id}`,
+          },
+          onPayload
+        )
+        // Deletes cannot be filtered; they carry only the id, and unknown ids are ignored
+        .on<TodoRow>(
+          "postgres_changes",
+          { event: "DELETE", schema: "public", table: "todos" },
+          onPayload
+        )
+        .subscribe();
+    },
+    unsubscribe: () => supabase.removeChannel(channel),
+  };
+};
+
+const toRemoteChange = (payload: TodoChangePayload): TodoRemoteChange | null => {
+  if (payload.eventType === "DELETE") {
+    return typeof payload.old.id === "number"
+      ? { type: "delete", id: payload.old.id }
+      : null;
+  }
+  return { type: "upsert", row: payload.new };
+};
+
+/*
+ * Streams changes to the signed-in user's todos from other tabs and devices.
+ * `onChange` may change between renders; the latest one is always called.
+ */
+export function useTodoRealtime(
+  isEnabled: boolean,
+  onChange: (change: TodoRemoteChange) => void,
+  connect: ConnectTodoChanges = connectSupabaseTodoChanges
+) {
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  useEffect(() => {
+    if (!isEnabled) {
+      return;
+    }
+
+    let isCurrent = true;
+    let channel: TodoChangesChannel | null = null;
+
+    connect().then((connection) => {
+      if (!connection) {
+        return;
+      }
+      if (!isCurrent) {
+        connection.unsubscribe();
+        return;
+      }
+
+      channel = connection;
+      channel.subscribe((payload) => {
+        const change = toRemoteChange(payload);
+        if (change) {
+          onChangeRef.current(change);
+        }
+      });
+    });
+
+    return () => {
+      isCurrent = false;
+      channel?.unsubscribe();
+    };
+  }, [isEnabled, connect]);
+}
@@ -2,6 +2,96 @@ import { z } from "zod";
 
 const blockNoteContentSchema = z.array(z.unknown()).default([]);
 
+export const TODO_PRIORITIES = [
+  "none",
+  "low",
+  "medium",
+  "high",
+  "urgent",
+] as const;
+
+const todoPrioritySchema = z.enum(TODO_PRIORITIES, {
+  message: "Invalid priority",
+});
+
+const todoDateSchema = z
+  .iso.datetime({ offset: true, message: "Invalid date" })
+  .nullable()
+  .optional();
+
+// The updated_at the client last saw; a write is refused once the stored todo has moved on
+const expectedUpdatedAtSchema = z
+  .iso.datetime({ offset: true, message: "Invalid timestamp" })
+  .optional();
+
+export const TODO_RECURRENCE_FREQUENCIES = [
+  "daily",
+  "weekdays",
+  "weekly",
+  "monthly",
+  "yearly",
+] as const;
+
+const recurrenceIntervalSchema = z
+  .number()
+  .int()
+  .min(1, "Repeat interval must be at least 1")
+  .max(99, "Repeat interval cannot exceed 99");
+
+// Repeat rule; weekdays use 0 for Sunday and months start at 1
+export const todoRecurrenceSchema = z.discriminatedUnion(
+  "freq",
+  [
+    z.object({ freq: z.literal("daily"), interval: recurrenceIntervalSchema }),
+    z.object({ freq: z.literal("weekdays") }),
+    z.object({
+      freq: z.literal("weekly"),
+      interval: recurrenceIntervalSchema,
+      weekdays: z
+        .array(z.number().int().min(0).max(6, "Invalid weekday"))
+        .min(1, "Pick at least one day of the week")
+        .max(7),
+    }),
+    z.object({
+      freq: z.literal("monthly"),
+      interval: recurrenceIntervalSchema,
+      dayOfMonth: z.number().int().min(1).max(31, "Invalid day of month"),
+    }),
+    z.object({
+      freq: z.literal("yearly"),
+      interval: recurrenceIntervalSchema,
+      month: z.number().int().min(1).max(12, "Invalid month"),
+      day: z.number().int().min(1).max(31, "Invalid day of month"),
+    }),
+  ],
+  { message: "Invalid repeat rule" }
+);
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isScheduleOrdered = (data: {
+  start_at?: string | null;
+  due_at?: string | null;
+}) =>
+  !data.start_at ||
+  !data.due_at ||
+  new Date(data.start_at).getTime() <= new Date(data.due_at).getTime();
+
+export const SCHEDULE_ORDER_ERROR =
+  "Start date must be on or before the due date";
+
+const scheduleOrderMessage = {
+  message: SCHEDULE_ORDER_ERROR,
+  path: ["start_at"],
+};
+
 // Schema for creating a todo
 export const createTodoSchema = z.object({
   text: z
@@ -16,7 +106,12 @@ export const createTodoSchema = z.object({
     .optional()
     .nullable(),
   content: blockNoteContentSchema.optional(),
-});
+  start_at: todoDateSchema,
+  due_at: todoDateSchema,
+  priority: todoPrioritySchema.optional(),
+  projectId: z.number().int().positive("Invalid project ID").optional(),
+  recurrence: todoRecurrenceSchema.nullable().optional(),
+}).refine(isScheduleOrdered, scheduleOrderMessage);
 
 // Schema for updating a todo
 export const updateTodoSchema = z.object({
@@ -35,17 +130,26 @@ export const updateTodoSchema = z.object({
     .optional()
     .nullable(),
   content: blockNoteContentSchema.optional(),
+  start_at: todoDateSchema,
+  due_at: todoDateSchema,
+  priority: todoPrioritySchema.optional(),
+  recurrence: todoRecurrenceSchema.nullable().optional(),
+  expectedUpdatedAt: expectedUpdatedAtSchema,
 }).refine(
   (data) =>
     data.text !== undefined ||
     data.done !== undefined ||
     data.description !== undefined ||
-    data.content !== undefined,
+    data.content !== undefined ||
+    data.start_at !== undefined ||
+    data.due_at !== undefined ||
+    data.priority !== undefined ||
+    data.recurrence !== undefined,
   {
     message:
-      "At least one field (text, done, description, or content) must be provided",
+      "At least one field (text, done, description, content, start_at, due_at, priority, or recurrence) must be provided",
   }
-);
+).refine(isScheduleOrdered, scheduleOrderMessage);
 
 // Schema specifically for updating the description
 export const updateTodoDescriptionSchema = z.object({
@@ -65,28 +169,204 @@ export const updateTodoTextSchema = z.object({
     .trim()
     .min(1, "Todo text cannot be empty")
     .max(500, "Todo text cannot exceed 500 characters"),
+  expectedUpdatedAt: expectedUpdatedAtSchema,
 });
 
 export const updateTodoContentSchema = z.object({
   id: z.number().int().positive("Invalid todo ID"),
   content: blockNoteContentSchema,
+  expectedUpdatedAt: expectedUpdatedAtSchema,
 });
 
 // Schema for toggling a todo's completion status
 export const toggleTodoSchema = z.object({
   id: z.number().int().positive("Invalid todo ID"),
+  // When completing a parent, also complete all of its subtasks
+  includeSubtasks: z.boolean().optional().default(false),
+  // Calendar used to schedule the next occurrence of a recurring todo
+  timeZone: z
+    .string()
+    .refine(isValidTimeZone, "Invalid time zone")
+    .optional()
+    .default("UTC"),
 });
 
-// Schema for deleting a todo
+// Schema for moving a todo to the trash
 export const deleteTodoSchema = z.object({
   id: z.number().int().positive("Invalid todo ID"),
 });
 
+// Schema for taking a todo back out of the trash
+export const restoreTodoSchema = z.object({
+  id: z.number().int().positive("Invalid todo ID"),
+});
+
+// Schema for bringing an archived todo back to the completed list
+export const unarchiveTodoSchema = z.object({
+  id: z.number().int().positive("Invalid todo ID"),
+});
+
+// Schema for deleting a trashed todo for good
+export const deleteTodoPermanentlySchema = z.object({
+  id: z.number().int().positive("Invalid todo ID"),
+});
+
+export const TODO_SORT_ORDERS = ["manual", "created", "priority", "due"] as const;
+
+export const TODO_TAG_MATCH_MODES = ["any", "all"] as const;
+
 // Schema for filtering todos
 export const getTodosSchema = z.object({
   filter: z.enum(["all", "active", "completed"]).optional().default("all"),
+  sort: z.enum(TODO_SORT_ORDERS).optional().default("created"),
+  tagIds: z
+    .array(z.number().int().positive("Invalid tag ID"))
+    .max(50, "Cannot filter by more than 50 tags")
+    .optional()
+    .default([]),
+  tagMode: z.enum(TODO_TAG_MATCH_MODES).optional().default("any"),
+  projectId: z.number().int().positive("Invalid project ID").optional(),
+  // Restrict to these todos; a subtask brings in its parent, as search matches do
+  ids: z
+    .array(z.number().int().positive("Invalid todo ID"))
+    .max(200, "Cannot load more than 200 todos by ID")
+    .optional(),
+  // Trashed and archived todos are left out unless asked for
+  includeTrashed: z.boolean().optional().default(false),
+  includeArchived: z.boolean().optional().default(false),
+  // Opaque cursor from the previous page, which must use the same sort
+  cursor: z.string().max(2000, "Invalid cursor").optional(),
+  limit: z.number().int().min(1).max(200).optional().default(50),
 });
 
+// Schema for loading a single todo with its content
+export const getTodoDetailsSchema = z.object({
+  id: z.number().int().positive("Invalid todo ID"),
+});
+
+// Schema for full-text search over the list
+export const searchTodosSchema = z.object({
+  query: z
+    .string()
+    .trim()
+    .min(1, "Search cannot be empty")
+    .max(200, "Search cannot exceed 200 characters"),
+  limit: z.number().int().min(1).max(200).optional().default(50),
+});
+
+// Schema for moving a todo to another project
+export const moveTodoToProjectSchema = z.object({
+  id: z.number().int().positive("Invalid todo ID"),
+  projectId: z.number().int().positive("Invalid project ID"),
+});
+
+// Schema for attaching a tag to or detaching it from a todo
+export const todoTagSchema = z.object({
+  todoId: z.number().int().positive("Invalid todo ID"),
+  tagId: z.number().int().positive("Invalid tag ID"),
+});
+
+// Ids of the todos a bulk action applies to
+const bulkTodoIdsSchema = z
+  .array(z.number().int().positive("Invalid todo ID"))
+  .min(1, "Select at least one todo")
+  .max(500, "Cannot change more than 500 todos at once");
+
+// Schema for completing or reopening several todos at once
+export const bulkSetTodosDoneSchema = z.object({
+  ids: bulkTodoIdsSchema,
+  done: z.boolean(),
+  // Calendar used to schedule the next occurrence of recurring todos
+  timeZone: z
+    .string()
+    .refine(isValidTimeZone, "Invalid time zone")
+    .optional()
+    .default("UTC"),
+});
+
+// Schema for moving several todos to the trash at once
+export const bulkDeleteTodosSchema = z.object({
+  ids: bulkTodoIdsSchema,
+});
+
+// Schema for moving several todos to another project at once
+export const bulkMoveTodosSchema = z.object({
+  ids: bulkTodoIdsSchema,
+  projectId: z.number().int().positive("Invalid project ID"),
+});
+
+// Schema for attaching a tag to or detaching it from several todos at once
+export const bulkTagTodosSchema = z.object({
+  ids: bulkTodoIdsSchema,
+  tagId: z.number().int().positive("Invalid tag ID"),
+  attach: z.boolean(),
+});
+
+// Ids an undo takes back out of the trash or the archive; clearing completed
+// todos is not capped like a selection, so neither is undoing it
+const restoredTodoIdsSchema = z
+  .array(z.number().int().positive("Invalid todo ID"))
+  .min(1, "Nothing to restore")
+  .max(5000, "Cannot restore more than 5000 todos at once");
+
+// Schema for taking several todos back out of the trash at once
+export const restoreTodosSchema = z.object({
+  ids: restoredTodoIdsSchema,
+});
+
+// Schema for bringing several todos back from the archive at once
+export const unarchiveTodosSchema = z.object({
+  ids: restoredTodoIdsSchema,
+});
+
+// Schema for adding a subtask beneath a todo
+export const createSubtaskSchema = z.object({
+  parentId: z.number().int().positive("Invalid parent todo ID"),
+  text: z
+    .string()
+    .trim()
+    .min(1, "Todo text cannot be empty")
+    .max(500, "Todo text cannot exceed 500 characters"),
+});
+
+// Schema for moving a todo beneath another parent, or back to the top level
+export const reparentTodoSchema = z
+  .object({
+    id: z.number().int().positive("Invalid todo ID"),
+    parentId: z.number().int().positive("Invalid parent todo ID").nullable(),
+  })
+  .refine((data) => data.parentId !== data.id, {
+    message: "A todo cannot be its own parent",
+    path: ["parentId"],
+  });
+
+// Schema for reordering all subtasks of a parent
+export const reorderSubtasksSchema = z.object({
+  parentId: z.number().int().positive("Invalid parent todo ID"),
+  orderedIds: z
+    .array(z.number().int().positive("Invalid todo ID"))
+    .min(1, "At least one subtask is required")
+    .max(200, "Cannot reorder more than 200 subtasks"),
+});
+
+// Schema for moving a todo between two neighbours in a manually sorted list
+export const reorderTodoSchema = z
+  .object({
+    id: z.number().int().positive("Invalid todo ID"),
+    // The todo that should come right before it, or null for the top
+    previousId: z.number().int().positive("Invalid todo ID").nullable(),
+    // The todo that should come right after it, or null for the bottom
+    nextId: z.number().int().positive("Invalid todo ID").nullable(),
+  })
+  .refine(
+    (data) => data.previousId !== data.id && data.nextId !== data.id,
+    { message: "A todo cannot be placed next to itself" }
+  )
+  .refine(
+    (data) => data.previousId === null || data.previousId !== data.nextId,
+    { message: "A todo needs two different neighbours" }
+  );
+
 // Export types inferred from schemas
 export type CreateTodoInput = z.infer<typeof createTodoSchema>;
 export type UpdateTodoInput = z.infer<typeof updateTodoSchema>;
@@ -95,6 +375,29 @@ export type UpdateTodoDescriptionInput = z.infer<
 >;
 export type UpdateTodoTextInput = z.infer<typeof updateTodoTextSchema>;
 export type UpdateTodoContentInput = z.infer<typeof updateTodoContentSchema>;
-export type ToggleTodoInput = z.infer<typeof toggleTodoSchema>;
+export type ToggleTodoInput = z.input<typeof toggleTodoSchema>;
 export type DeleteTodoInput = z.infer<typeof deleteTodoSchema>;
-export type GetTodosInput = z.infer<typeof getTodosSchema>;
+export type RestoreTodoInput = z.infer<typeof restoreTodoSchema>;
+export type UnarchiveTodoInput = z.infer<typeof unarchiveTodoSchema>;
+export type DeleteTodoPermanentlyInput = z.infer<
+  typeof deleteTodoPermanentlySchema
+>;
+export type GetTodosInput = z.input<typeof getTodosSchema>;
+export type GetTodoDetailsInput = z.infer<typeof getTodoDetailsSchema>;
+export type SearchTodosInput = z.input<typeof searchTodosSchema>;
+export type TodoRecurrenceFrequency =
+  (typeof TODO_RECURRENCE_FREQUENCIES)[number];
+export type TodoSortOrder = (typeof TODO_SORT_ORDERS)[number];
+export type TodoTagMatchMode = (typeof TODO_TAG_MATCH_MODES)[number];
+export type TodoTagInput = z.infer<typeof todoTagSchema>;
+export type MoveTodoToProjectInput = z.infer<typeof moveTodoToProjectSchema>;
+export type BulkSetTodosDoneInput = z.input<typeof bulkSetTodosDoneSchema>;
+export type BulkDeleteTodosInput = z.infer<typeof bulkDeleteTodosSchema>;
+export type BulkMoveTodosInput = z.infer<typeof bulkMoveTodosSchema>;
+export type BulkTagTodosInput = z.infer<typeof bulkTagTodosSchema>;
+export type RestoreTodosInput = z.infer<typeof restoreTodosSchema>;
+export type UnarchiveTodosInput = z.infer<typeof unarchiveTodosSchema>;
+export type CreateSubtaskInput = z.infer<typeof createSubtaskSchema>;
+export type ReparentTodoInput = z.infer<typeof reparentTodoSchema>;
+export type ReorderSubtasksInput = z.infer<typeof reorderSubtasksSchema>;
+export type ReorderTodoInput = z.infer<typeof reorderTodoSchema>;
@@ -0,0 +1,7 @@
+import type { Todo, TodoListItem } from "@/types/database";
+
+// The todos a bulk completion changed, plus the occurrences scheduled for the recurring ones
+export type BulkCompletionResult = {
+  todos: TodoListItem[];
+  nextOccurrences: Todo[];
+};
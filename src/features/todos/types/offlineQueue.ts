@@ -0,0 +1,35 @@
+import type { TodoEdit } from "@/features/todos/types/todoConflict";
+import type { Project, Tag, TodoListItem } from "@/types/database";
+
+// Whether writes go straight to the server, wait in the queue, or are being replayed
+export type TodoSyncStatus = "online" | "offline" | "syncing";
+
+/*
+ * A change made while offline, replayed in order once the connection is back.
+ * Todos created offline keep their negative temporary id until their create
+ * has been replayed; later mutations are then rewritten to the real id.
+ */
+export type OfflineTodoMutation =
+  | { type: "create"; todo: TodoListItem; projectId?: number }
+  | { type: "setDone"; ids: number[]; done: boolean }
+  | { type: "trash"; id: number }
+  // Subtasks follow their parent, as they do online
+  | { type: "move"; ids: number[]; projectId: number }
+  | { type: "setTag"; ids: number[]; tag: Tag; attach: boolean }
+  | {
+      type: "update";
+      id: number;
+      edit: TodoEdit;
+      // The copy the edit was made on, so it still conflicts with changes from elsewhere
+      expectedUpdatedAt?: string;
+    };
+
+// A mutation as stored in IndexedDB; keys grow in the order mutations were made
+export type QueuedTodoMutation = OfflineTodoMutation & { key: number };
+
+// What the workspace last showed, kept on the device for offline starts
+export type CachedWorkspace = {
+  todos: TodoListItem[];
+  tags: Tag[];
+  projects: Project[];
+};
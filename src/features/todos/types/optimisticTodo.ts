@@ -1,3 +1,3 @@
-import type { Todo } from "@/types/database";
+import type { TodoListItem } from "@/types/database";
 
-export type OptimisticTodo = Todo & { optimistic?: boolean };
+export type OptimisticTodo = TodoListItem & { optimistic?: boolean };
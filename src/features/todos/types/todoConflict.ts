@@ -0,0 +1,24 @@
+import type { PartialBlock } from "@blocknote/core";
+
+import type {
+  Todo,
+  TodoPriority,
+  TodoRecurrence,
+} from "@/types/database";
+
+// The fields a refused write tried to change
+export type TodoEdit = {
+  text?: string;
+  content?: PartialBlock[];
+  start_at?: string | null;
+  due_at?: string | null;
+  priority?: TodoPriority;
+  recurrence?: TodoRecurrence | null;
+};
+
+// A refused write waiting for the user to reload or overwrite
+export type PendingTodoConflict = {
+  id: number;
+  current: Todo;
+  attempted: TodoEdit;
+};
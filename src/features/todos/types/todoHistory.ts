@@ -0,0 +1,34 @@
+import type { Tag, TodoPriority, TodoRecurrence } from "@/types/database";
+
+// A server call that applies one side of an undoable change
+export type TodoCommand =
+  | { type: "setDone"; ids: number[]; done: boolean }
+  | { type: "trash"; ids: number[] }
+  | { type: "restore"; ids: number[] }
+  | { type: "clearCompleted" }
+  | { type: "unarchive"; ids: number[] }
+  | { type: "updateText"; id: number; text: string }
+  | { type: "updatePriority"; id: number; priority: TodoPriority }
+  | {
+      type: "updateSchedule";
+      id: number;
+      startAt: string | null;
+      dueAt: string | null;
+    }
+  | { type: "updateRecurrence"; id: number; recurrence: TodoRecurrence | null }
+  | { type: "setTag"; ids: number[]; tag: Tag; attach: boolean }
+  | { type: "move"; ids: number[]; projectId: number };
+
+// A change the user can take back, with the calls that undo and redo it
+export type TodoHistoryEntry = {
+  label: string;
+  // Destructive changes offer an Undo toast as soon as they happen
+  isDestructive: boolean;
+  undo: TodoCommand[];
+  redo: TodoCommand[];
+};
+
+export type TodoHistory = {
+  past: TodoHistoryEntry[];
+  future: TodoHistoryEntry[];
+};
@@ -0,0 +1,8 @@
+import type { TodoListItem } from "@/types/database";
+
+// One page of top-level todos in sort order, followed by their subtasks
+export type TodoPage = {
+  todos: TodoListItem[];
+  // Pass back to getTodos for the next page; null once the list is exhausted
+  nextCursor: string | null;
+};
@@ -0,0 +1,9 @@
+import type { Todo } from "@/types/database";
+
+// A todos row as Postgres publishes it: content included, tags live in todo_tags
+export type TodoRow = Omit<Todo, "tags">;
+
+// A change to one of the user's todos, made in another tab or on another device
+export type TodoRemoteChange =
+  | { type: "upsert"; row: TodoRow }
+  | { type: "delete"; id: number };
@@ -0,0 +1,12 @@
+// A run of snippet text; highlighted runs are the words that matched
+export type SearchSnippetPart = {
+  text: string;
+  highlighted: boolean;
+};
+
+// A todo matching a search, best match first
+export type TodoSearchResult = {
+  id: number;
+  rank: number;
+  snippet: SearchSnippetPart[];
+};
@@ -0,0 +1,7 @@
+import type { Todo } from "@/types/database";
+
+// The toggled todo, plus the occurrence created when a recurring todo is completed
+export type ToggleTodoResult = {
+  todo: Todo;
+  nextOccurrence: Todo | null;
+};
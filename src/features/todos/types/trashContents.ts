@@ -0,0 +1,7 @@
+import type { Todo } from "@/types/database";
+
+// Trashed todos, most recently deleted first, and how long the trash keeps them
+export type TrashContents = {
+  todos: Todo[];
+  retentionDays: number;
+};
@@ -10,4 +10,8 @@ export type BlockLayout = {
 
 export type BlockLayouts = Record<BlockId, BlockLayout>;
 
+// What the Todos block shows: the list itself, one of its history views, or
+// import and export
+export type TodosView = "list" | "archive" | "trash" | "transfer";
+
 export type BlockRect = Pick<BlockLayout, "x" | "y" | "width" | "height">;
@@ -0,0 +1,68 @@
+import type { PartialBlock } from "@blocknote/core";
+
+type InlineNode = {
+  type?: string;
+  text?: string;
+  content?: unknown;
+};
+
+const getInlineText = (content: unknown): string => {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    // Table cells wrap their inline content in a cell object
+    return typeof content === "object" && content !== null
+      ? getInlineText((content as InlineNode).content)
+      : "";
+  }
+
+  return (content as InlineNode[])
+    .map((node) => {
+      if (typeof node === "string") {
+        return node;
+      }
+      // Links wrap their own run of styled text
+      return node.type === "link" ? getInlineText(node.content) : node.text ?? "";
+    })
+    .join("");
+};
+
+type TableContent = {
+  type: "tableContent";
+  rows: { cells: unknown[] }[];
+};
+
+const isTableContent = (content: unknown): content is TableContent =>
+  typeof content === "object" &&
+  content !== null &&
+  (content as { type?: unknown }).type === "tableContent" &&
+  Array.isArray((content as { rows?: unknown }).rows);
+
+const getBlockText = (block: PartialBlock): string => {
+  const content: unknown = block.content;
+  if (isTableContent(content)) {
+    return content.rows
+      .map((row) => (row.cells ?? []).map(getInlineText).join(" | "))
+      .join("\n");
+  }
+  return getInlineText(content);
+};
+
+// Plain text of BlockNote blocks: one line per block, nested blocks indented
+export const getBlocksPlainText = (
+  blocks: PartialBlock[],
+  depth = 0
+): string =>
+  blocks
+    .flatMap((block) => {
+      const indent = "  ".repeat(depth);
+      const lines = getBlockText(block)
+        .split("\n")
+        .map((line) => indent + line);
+      const children = Array.isArray(block.children)
+        ? getBlocksPlainText(block.children as PartialBlock[], depth + 1)
+        : "";
+      return children ? [...lines, children] : lines;
+    })
+    .join("\n");
@@ -0,0 +1,48 @@
+export type DiffLine = {
+  kind: "same" | "added" | "removed";
+  text: string;
+};
+
+// Line diff from `before` to `after`, using the longest common subsequence of lines
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // lengths[i][j]: common lines between a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: "same", text: a[i] });
+      i += 1;
+      j += 1;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ kind: "removed", text: a[i] });
+      i += 1;
+    } else {
+      lines.push({ kind: "added", text: b[j] });
+      j += 1;
+    }
+  }
+  for (; i < a.length; i += 1) {
+    lines.push({ kind: "removed", text: a[i] });
+  }
+  for (; j < b.length; j += 1) {
+    lines.push({ kind: "added", text: b[j] });
+  }
+
+  return lines;
+};
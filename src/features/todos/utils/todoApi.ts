@@ -0,0 +1,146 @@
+import { NextResponse } from "next/server";
+import type {
+  ActionErrorCode,
+  ActionResponse,
+  Todo,
+} from "@/types/database";
+import type { GetTodosInput } from "../schemas/todoSchemas";
+
+// Body of every failed /api/v1 response
+export type TodoApiError = {
+  error: {
+    code: ActionErrorCode;
+    message: string;
+    // On a conflict, the todo as it is stored now
+    current?: Todo;
+  };
+};
+
+export const API_ERROR_STATUS: Record<ActionErrorCode, number> = {
+  validation_error: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  conflict: 409,
+  internal_error: 500,
+};
+
+export function apiError(code: ActionErrorCode, message: string) {
+  return NextResponse.json<TodoApiError>(
+    { error: { code, message } },
+    { status: API_ERROR_STATUS[code] }
+  );
+}
+
+// Answer with the action's data, or its error under the matching status;
+// failures the action did not classify are internal ones
+export function toApiResponse<T>(
+  result: ActionResponse<T>,
+  successStatus = 200
+) {
+  if (result.success) {
+    return successStatus === 204
+      ? new NextResponse(null, { status: 204 })
+      : NextResponse.json(
+          { data: result.data ?? null },
+          { status: successStatus }
+        );
+  }
+
+  const code = result.code ?? "internal_error";
+  return NextResponse.json<TodoApiError>(
+    {
+      error: {
+        code,
+        message: result.error ?? "An unexpected error occurred",
+        ...(result.conflict && { current: result.conflict.current }),
+      },
+    },
+    { status: API_ERROR_STATUS[code] }
+  );
+}
+
+/*
+ * The JSON object in the request body, `{}` for an empty body, or null when
+ * the body is not a JSON object. A body with content must be sent as JSON,
+ * which keeps plain cross-site form posts from reaching the
+ * cookie-authenticated endpoints. An empty body may come with any content
+ * type, except from a page on another site, so a field-less form cannot
+ * stand in for it.
+ */
+export async function readJsonObject(
+  request: Request
+): Promise<Record<string, unknown> | null> {
+  const contentType = request.headers.get("content-type") ?? "";
+  const isJson = contentType.toLowerCase().startsWith("application/json");
+
+  const text = await request.text();
+  if (text.trim() === "") {
+    const isCrossSite = request.headers.get("sec-fetch-site") === "cross-site";
+    return isJson || !isCrossSite ? {} : null;
+  }
+  if (!isJson) {
+    return null;
+  }
+
+  try {
+    const body: unknown = JSON.parse(text);
+    return typeof body === "object" && body !== null && !Array.isArray(body)
+      ? (body as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export const INVALID_BODY_ERROR =
+  "Request body must be a JSON object sent as application/json";
+
+// Anything but a plain positive integer becomes NaN, which the schemas reject
+export function parseTodoId(value: string) {
+  return /^\d+$/.test(value) ? Number(value) : Number.NaN;
+}
+
+const toNumber = (value: string) =>
+  /^\d+$/.test(value) ? Number(value) : value;
+
+const toBoolean = (value: string) =>
+  value === "true" ? true : value === "false" ? false : value;
+
+/*
+ * Query parameters of GET /api/v1/todos as getTodos input. Values that do
+ * not convert are passed on as they are, so getTodosSchema rejects them with
+ * its own messages; tagIds is a comma-separated list.
+ */
+export function getTodosQueryInput(params: URLSearchParams): GetTodosInput {
+  const input: Record<string, unknown> = {};
+
+  for (const key of ["filter", "sort", "tagMode", "cursor"]) {
+    const value = params.get(key);
+    if (value !== null) {
+      input[key] = value;
+    }
+  }
+  for (const key of ["projectId", "limit"]) {
+    const value = params.get(key);
+    if (value !== null) {
+      input[key] = toNumber(value);
+    }
+  }
+  for (const key of ["includeTrashed", "includeArchived"]) {
+    const value = params.get(key);
+    if (value !== null) {
+      input[key] = toBoolean(value);
+    }
+  }
+
+  const tagIds = params.get("tagIds");
+  if (tagIds !== null) {
+    input.tagIds = tagIds
+      .split(",")
+      .filter((id) => id.trim() !== "")
+      .map((id) => toNumber(id.trim()));
+  }
+
+  return input as GetTodosInput;
+}
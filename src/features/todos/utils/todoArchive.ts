@@ -0,0 +1,71 @@
+import type { Todo } from "@/types/database";
+import { startOfDay } from "@/features/todos/utils/todoDates";
+
+export type CompletionWeekGroup<T extends Todo = Todo> = {
+  id: string;
+  label: string;
+  todos: T[];
+};
+
+const weekFormatter = new Intl.DateTimeFormat(undefined, {
+  month: "short",
+  day: "numeric",
+});
+
+const weekWithYearFormatter = new Intl.DateTimeFormat(undefined, {
+  month: "short",
+  day: "numeric",
+  year: "numeric",
+});
+
+// Monday that starts the local week containing `date`
+export const startOfWeek = (date: Date) => {
+  const day = startOfDay(date);
+  day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+  return day;
+};
+
+// When a todo counts as completed; todos archived before completed_at existed fall back to their last update
+export const getCompletionTime = (todo: Pick<Todo, "completed_at" | "updated_at">) =>
+  new Date(todo.completed_at ?? todo.updated_at);
+
+const getWeekLabel = (weekStart: Date, now: Date) => {
+  const thisWeek = startOfWeek(now);
+  const lastWeek = new Date(thisWeek);
+  lastWeek.setDate(lastWeek.getDate() - 7);
+
+  if (weekStart.getTime() === thisWeek.getTime()) {
+    return "This week";
+  }
+  if (weekStart.getTime() === lastWeek.getTime()) {
+    return "Last week";
+  }
+
+  const formatter =
+    weekStart.getFullYear() === now.getFullYear()
+      ? weekFormatter
+      : weekWithYearFormatter;
+  return `Week of ${formatter.format(weekStart)}`;
+};
+
+// Group archived todos by the week they were completed in, newest week first
+export const groupTodosByCompletionWeek = <T extends Todo>(
+  todos: T[],
+  now: Date = new Date()
+): CompletionWeekGroup<T>[] => {
+  const groups = new Map<number, T[]>();
+
+  const sorted = [...todos].sort(
+    (a, b) => getCompletionTime(b).getTime() - getCompletionTime(a).getTime()
+  );
+  for (const todo of sorted) {
+    const weekStart = startOfWeek(getCompletionTime(todo)).getTime();
+    groups.set(weekStart, [...(groups.get(weekStart) ?? []), todo]);
+  }
+
+  return [...groups.entries()].map(([weekStart, weekTodos]) => ({
+    id: String(weekStart),
+    label: getWeekLabel(new Date(weekStart), now),
+    todos: weekTodos,
+  }));
+};
@@ -0,0 +1,125 @@
+import type { TodoSortOrder } from "@/features/todos/schemas/todoSchemas";
+import type { TodoListItem } from "@/types/database";
+
+type CursorColumn = "position" | "priority" | "due_at" | "start_at" | "created_at" | "id";
+type CursorValue = string | number | null;
+
+type CursorKey = {
+  column: CursorColumn;
+  ascending: boolean;
+  // Nullable keys sort their nulls last
+  nullable?: boolean;
+};
+
+/*
+ * Column order behind each sort, mirroring the comparators in todoSort.ts so
+ * pages arrive in the order the list shows them. `id` comes last to break ties.
+ */
+export const TODO_SORT_KEYS: Record<TodoSortOrder, CursorKey[]> = {
+  manual: [
+    { column: "position", ascending: true },
+    { column: "created_at", ascending: true },
+    { column: "id", ascending: true },
+  ],
+  created: [
+    { column: "created_at", ascending: true },
+    { column: "id", ascending: true },
+  ],
+  priority: [
+    { column: "priority", ascending: false },
+    { column: "created_at", ascending: true },
+    { column: "id", ascending: true },
+  ],
+  due: [
+    { column: "due_at", ascending: true, nullable: true },
+    { column: "start_at", ascending: true, nullable: true },
+    { column: "created_at", ascending: true },
+    { column: "id", ascending: true },
+  ],
+};
+
+// Opaque cursor pointing just past `todo` in the given sort
+export const encodeTodoCursor = (sort: TodoSortOrder, todo: TodoListItem) =>
+  Buffer.from(
+    JSON.stringify({
+      sort,
+      values: TODO_SORT_KEYS[sort].map(({ column }) => todo[column]),
+    })
+  ).toString("base64url");
+
+const isCursorValue = (key: CursorKey, value: unknown) => {
+  if (value === null) {
+    return key.nullable === true;
+  }
+  if (key.column === "id") {
+    return Number.isSafeInteger(value) && (value as number) > 0;
+  }
+  // Values are quoted into a PostgREST filter, so quotes and backslashes are never valid
+  return typeof value === "string" && value.length > 0 && !/["\\]/.test(value);
+};
+
+// Key values stored in a cursor, or null when it is malformed or was made for another sort
+export const decodeTodoCursor = (
+  cursor: string,
+  sort: TodoSortOrder
+): CursorValue[] | null => {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    const keys = TODO_SORT_KEYS[sort];
+    if (
+      parsed?.sort !== sort ||
+      !Array.isArray(parsed.values) ||
+      parsed.values.length !== keys.length ||
+      !keys.every((key, index) => isCursorValue(key, parsed.values[index]))
+    ) {
+      return null;
+    }
+    return parsed.values as CursorValue[];
+  } catch {
+    return null;
+  }
+};
+
+const formatValue = (value: string | number) =>
+  typeof value === "number" ? String(value) : `"${value}"`;
+
+const equals = (key: CursorKey, value: CursorValue) =>
+  value === null
+    ? `${key.column}.is.null`
+    : `${key.column}.eq.${formatValue(value)}`;
+
+/*
+ * PostgREST `or` filter matching the rows that sort after the cursor: for
+ * each key, rows equal on every earlier key and past the cursor on this one.
+ */
+export const getTodoCursorFilter = (
+  sort: TodoSortOrder,
+  values: CursorValue[]
+) => {
+  const keys = TODO_SORT_KEYS[sort];
+  const branches: string[] = [];
+
+  keys.forEach((key, index) => {
+    const value = values[index];
+    const prefix = keys
+      .slice(0, index)
+      .map((previous, previousIndex) => equals(previous, values[previousIndex]));
+
+    const conditions: string[] = [];
+    if (value !== null) {
+      conditions.push(
+        `${key.column}.${key.ascending ? "gt" : "lt"}.${formatValue(value)}`
+      );
+      if (key.nullable) {
+        conditions.push(`${key.column}.is.null`);
+      }
+    }
+
+    for (const condition of conditions) {
+      const parts = [...prefix, condition];
+      branches.push(parts.length === 1 ? parts[0] : `and(${parts.join(",")})`);
+    }
+  });
+
+  return branches.join(",");
+};
@@ -0,0 +1,36 @@
+// Start of the local day containing `date`
+export const startOfDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Start of the local day after the one containing `date`
+export const startOfNextDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+
+// Format an ISO timestamp as a `yyyy-mm-dd` value for `<input type="date">`
+export const toDateInputValue = (value: string | null) => {
+  if (!value) {
+    return "";
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return "";
+  }
+
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+};
+
+// Convert a `yyyy-mm-dd` input value to an ISO timestamp at local midnight
+export const fromDateInputValue = (value: string): string | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day] = match;
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
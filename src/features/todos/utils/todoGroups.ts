@@ -0,0 +1,100 @@
+import type { OptimisticTodo } from "@/features/todos/types/optimisticTodo";
+import { startOfDay, startOfNextDay } from "@/features/todos/utils/todoDates";
+
+export type TodoGroupId =
+  | "overdue"
+  | "today"
+  | "upcoming"
+  | "noDate"
+  | "matches";
+
+export type TodoGroup = {
+  id: TodoGroupId;
+  label: string;
+  todos: OptimisticTodo[];
+};
+
+const GROUP_LABELS: Record<TodoGroupId, string> = {
+  overdue: "Overdue",
+  today: "Today",
+  upcoming: "Upcoming",
+  noDate: "No date",
+  matches: "Matches",
+};
+
+const GROUP_ORDER: TodoGroupId[] = ["overdue", "today", "upcoming", "noDate"];
+
+const parseTime = (value: string | null) => {
+  if (!value) {
+    return null;
+  }
+
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+// Resolve which schedule bucket a todo falls into relative to `now`
+export const getTodoGroupId = (
+  todo: Pick<OptimisticTodo, "due_at" | "start_at">,
+  now: Date
+): TodoGroupId => {
+  const todayStart = startOfDay(now).getTime();
+  const tomorrowStart = startOfNextDay(now).getTime();
+
+  const dueTime = parseTime(todo.due_at);
+  if (dueTime !== null) {
+    if (dueTime < todayStart) {
+      return "overdue";
+    }
+    return dueTime < tomorrowStart ? "today" : "upcoming";
+  }
+
+  const startTime = parseTime(todo.start_at);
+  if (startTime !== null) {
+    return startTime < tomorrowStart ? "today" : "upcoming";
+  }
+
+  return "noDate";
+};
+
+// Group active todos into Overdue / Today / Upcoming / No date, keeping the incoming order within each group
+export const groupTodosBySchedule = (
+  todos: OptimisticTodo[],
+  now: Date = new Date()
+): TodoGroup[] => {
+  const buckets: Record<TodoGroupId, OptimisticTodo[]> = {
+    overdue: [],
+    today: [],
+    upcoming: [],
+    noDate: [],
+    matches: [],
+  };
+
+  for (const todo of todos) {
+    buckets[getTodoGroupId(todo, now)].push(todo);
+  }
+
+  return GROUP_ORDER.map((id) => ({
+    id,
+    label: GROUP_LABELS[id],
+    todos: buckets[id],
+  })).filter((group) => group.todos.length > 0);
+};
+
+// While searching, active todos form one group ordered by how well they match, best first
+export const groupTodosBySearchRank = (
+  todos: OptimisticTodo[],
+  getRank: (todo: OptimisticTodo) => number
+): TodoGroup[] => {
+  if (todos.length === 0) {
+    return [];
+  }
+
+  return [
+    {
+      id: "matches",
+      label: GROUP_LABELS.matches,
+      todos: [...todos].sort((a, b) => getRank(b) - getRank(a)),
+    },
+  ];
+};
@@ -0,0 +1,71 @@
+import type {
+  TodoHistory,
+  TodoHistoryEntry,
+} from "@/features/todos/types/todoHistory";
+
+export const TODO_HISTORY_LIMIT = 50;
+
+export const EMPTY_TODO_HISTORY: TodoHistory = { past: [], future: [] };
+
+// A new change drops whatever was undone before it, as in any editor
+export const recordTodoHistory = (
+  history: TodoHistory,
+  entry: TodoHistoryEntry
+): TodoHistory => ({
+  past: [...history.past, entry].slice(-TODO_HISTORY_LIMIT),
+  future: [],
+});
+
+// Once the latest change has been undone it can be redone; one that could not be undone is dropped
+export const completeUndo = (
+  history: TodoHistory,
+  succeeded: boolean
+): TodoHistory => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) {
+    return history;
+  }
+  return {
+    past: history.past.slice(0, -1),
+    future: succeeded ? [...history.future, entry] : history.future,
+  };
+};
+
+// Once the latest undone change has been redone it can be undone again. A redo
+// can create rows the recorded undo does not know about, such as the next
+// occurrence of a recurring todo, so the entries the replayed handlers recorded
+// replace its undo when there is one for every command
+export const completeRedo = (
+  history: TodoHistory,
+  succeeded: boolean,
+  replayedEntries: TodoHistoryEntry[] = []
+): TodoHistory => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) {
+    return history;
+  }
+  const redone =
+    replayedEntries.length === entry.redo.length
+      ? {
+          ...entry,
+          undo: [...replayedEntries]
+            .reverse()
+            .flatMap((replayed) => replayed.undo),
+        }
+      : entry;
+  return {
+    past: succeeded ? [...history.past, redone] : history.past,
+    future: history.future.slice(0, -1),
+  };
+};
+
+export const describeTodoCount = (count: number) =>
+  `${count} ${count === 1 ? "todo" : "todos"}`;
+
+// Fields and the editor keep their own undo, so the global shortcut leaves them alone
+export const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    target.tagName === "INPUT" ||
+    target.tagName === "TEXTAREA" ||
+    target.tagName === "SELECT");
@@ -0,0 +1,107 @@
+import type { OptimisticTodo } from "@/features/todos/types/optimisticTodo";
+import type { OfflineTodoMutation } from "@/features/todos/types/offlineQueue";
+
+// Apply a queued mutation to the list, as the server will once it is replayed
+export const applyOfflineMutation = (
+  todos: OptimisticTodo[],
+  mutation: OfflineTodoMutation
+): OptimisticTodo[] => {
+  switch (mutation.type) {
+    case "create":
+      return [...todos, mutation.todo];
+    case "setDone": {
+      const ids = new Set(mutation.ids);
+      const completedAt = mutation.done ? new Date().toISOString() : null;
+      return todos.map((todo) =>
+        ids.has(todo.id) && todo.done !== mutation.done
+          ? { ...todo, done: mutation.done, completed_at: completedAt }
+          : todo
+      );
+    }
+    case "trash":
+      return todos.filter(
+        (todo) => todo.id !== mutation.id && todo.parent_id !== mutation.id
+      );
+    case "move": {
+      const ids = new Set(mutation.ids);
+      return todos.map((todo) =>
+        ids.has(todo.id) || (todo.parent_id !== null && ids.has(todo.parent_id))
+          ? { ...todo, project_id: mutation.projectId }
+          : todo
+      );
+    }
+    case "setTag": {
+      const { tag, attach } = mutation;
+      const ids = new Set(mutation.ids);
+      return todos.map((todo) => {
+        const hasTag = todo.tags.some((item) => item.id === tag.id);
+        if (!ids.has(todo.id) || hasTag === attach) {
+          return todo;
+        }
+        return {
+          ...todo,
+          tags: attach
+            ? [...todo.tags, tag].sort((a, b) => a.name.localeCompare(b.name))
+            : todo.tags.filter((item) => item.id !== tag.id),
+        };
+      });
+    }
+    case "update":
+      // Edited content rides along, so the details can show it while offline
+      return todos.map((todo) =>
+        todo.id === mutation.id ? { ...todo, ...mutation.edit } : todo
+      );
+  }
+};
+
+export const referencesTodo = (mutation: OfflineTodoMutation, id: number) => {
+  switch (mutation.type) {
+    case "create":
+      return mutation.todo.id === id;
+    case "setDone":
+    case "move":
+    case "setTag":
+      return mutation.ids.includes(id);
+    case "trash":
+    case "update":
+      return mutation.id === id;
+  }
+};
+
+// Point a mutation made on a temporary todo at the id the server gave it
+export const remapMutationId = (
+  mutation: OfflineTodoMutation,
+  tempId: number,
+  id: number
+): OfflineTodoMutation => {
+  switch (mutation.type) {
+    case "create":
+      return mutation;
+    case "setDone":
+    case "move":
+    case "setTag":
+      return {
+        ...mutation,
+        ids: mutation.ids.map((current) => (current === tempId ? id : current)),
+      };
+    case "trash":
+    case "update":
+      return mutation.id === tempId ? { ...mutation, id } : mutation;
+  }
+};
+
+/*
+ * Once a replayed mutation has changed a todo, later edits to it were made on
+ * the copy before that change; move them onto the copy the server returned,
+ * so only changes from elsewhere still conflict.
+ */
+export const rebaseMutation = (
+  mutation: OfflineTodoMutation,
+  id: number,
+  updatedAt: string
+): OfflineTodoMutation =>
+  mutation.type === "update" &&
+  mutation.id === id &&
+  mutation.expectedUpdatedAt !== undefined
+    ? { ...mutation, expectedUpdatedAt: updatedAt }
+    : mutation;
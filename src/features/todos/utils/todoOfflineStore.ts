@@ -0,0 +1,97 @@
+import type {
+  CachedWorkspace,
+  OfflineTodoMutation,
+  QueuedTodoMutation,
+} from "@/features/todos/types/offlineQueue";
+
+const DATABASE_NAME = "pandora-box";
+const DATABASE_VERSION = 1;
+const WORKSPACE_STORE = "workspace";
+const MUTATION_STORE = "mutations";
+const WORKSPACE_KEY = "current";
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      database.createObjectStore(WORKSPACE_STORE);
+      database.createObjectStore(MUTATION_STORE, {
+        keyPath: "key",
+        autoIncrement: true,
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+  });
+  return databasePromise;
+};
+
+// Run `operate` in one transaction and resolve with its result once the transaction commits
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operate: (store: IDBObjectStore) => IDBRequest<T> | void
+) => {
+  const database = await openDatabase();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = operate(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const loadCachedWorkspace = async () =>
+  (await withStore<CachedWorkspace>(WORKSPACE_STORE, "readonly", (store) =>
+    store.get(WORKSPACE_KEY)
+  )) ?? null;
+
+export const saveCachedWorkspace = async (workspace: CachedWorkspace) => {
+  await withStore(WORKSPACE_STORE, "readwrite", (store) =>
+    store.put(workspace, WORKSPACE_KEY)
+  );
+};
+
+// Queued mutations, oldest first
+export const getQueuedTodoMutations = async () =>
+  (await withStore<QueuedTodoMutation[]>(MUTATION_STORE, "readonly", (store) =>
+    store.getAll()
+  )) ?? [];
+
+export const enqueueTodoMutation = async (mutation: OfflineTodoMutation) => {
+  await withStore(MUTATION_STORE, "readwrite", (store) => store.add(mutation));
+};
+
+export const deleteQueuedTodoMutation = async (key: number) => {
+  await withStore(MUTATION_STORE, "readwrite", (store) => store.delete(key));
+};
+
+// Rewrite every queued mutation in one transaction; returning null drops it
+export const rewriteQueuedTodoMutations = async (
+  rewrite: (mutation: OfflineTodoMutation) => OfflineTodoMutation | null
+) => {
+  const queued = await getQueuedTodoMutations();
+  await withStore(MUTATION_STORE, "readwrite", (store) => {
+    for (const { key, ...mutation } of queued) {
+      const next = rewrite(mutation as OfflineTodoMutation);
+      if (next === null) {
+        store.delete(key);
+      } else if (next !== mutation) {
+        store.put({ ...next, key });
+      }
+    }
+  });
+};
+
+// Nothing of one account should be left on the device for the next
+export const clearOfflineData = async () => {
+  await withStore(WORKSPACE_STORE, "readwrite", (store) => store.clear());
+  await withStore(MUTATION_STORE, "readwrite", (store) => store.clear());
+};
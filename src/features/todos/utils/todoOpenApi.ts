@@ -0,0 +1,263 @@
+import { z } from "zod";
+import type { ActionErrorCode } from "@/types/database";
+import {
+  TODO_PRIORITIES,
+  createTodoSchema,
+  getTodosSchema,
+  todoRecurrenceSchema,
+  toggleTodoSchema,
+  updateTodoSchema,
+} from "../schemas/todoSchemas";
+import { API_ERROR_STATUS } from "./todoApi";
+
+type JsonSchema = Record<string, unknown>;
+
+// JSON Schema of a zod schema, ready to embed in the document
+function toSchema(schema: z.ZodType, io: "input" | "output" = "input") {
+  const jsonSchema = z.toJSONSchema(schema, {
+    io,
+    unrepresentable: "any",
+  }) as JsonSchema;
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+const timestampSchema = z.iso.datetime({ offset: true });
+
+// Responses mirror the Todo types in types/database.ts
+const tagSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  color: z.string(),
+  user_id: z.string(),
+  created_at: timestampSchema,
+  updated_at: timestampSchema,
+});
+
+const todoListItemSchema = z.object({
+  id: z.number().int(),
+  text: z.string(),
+  description: z.string().nullable(),
+  done: z.boolean(),
+  start_at: timestampSchema.nullable(),
+  due_at: timestampSchema.nullable(),
+  priority: z.enum(TODO_PRIORITIES),
+  tags: z.array(tagSchema),
+  project_id: z.number().int(),
+  parent_id: z.number().int().nullable(),
+  subtask_position: z.number().int(),
+  recurrence: todoRecurrenceSchema.nullable(),
+  position: z.string(),
+  deleted_at: timestampSchema.nullable(),
+  completed_at: timestampSchema.nullable(),
+  archived_at: timestampSchema.nullable(),
+  user_id: z.string(),
+  created_at: timestampSchema,
+  updated_at: timestampSchema,
+});
+
+const todoSchema = todoListItemSchema.extend({
+  // BlockNote blocks
+  content: z.array(z.unknown()),
+});
+
+const errorSchema = z.object({
+  error: z.object({
+    code: z.enum(
+      Object.keys(API_ERROR_STATUS) as [ActionErrorCode, ...ActionErrorCode[]]
+    ),
+    message: z.string(),
+    current: todoSchema.optional(),
+  }),
+});
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const jsonContent = (schema: JsonSchema) => ({
+  "application/json": { schema },
+});
+
+const dataResponse = (description: string, schemaName: string) => ({
+  description,
+  content: jsonContent({
+    type: "object",
+    properties: { data: ref(schemaName) },
+    required: ["data"],
+  }),
+});
+
+const ERROR_DESCRIPTIONS: Record<ActionErrorCode, string> = {
+  validation_error: "The request did not pass validation",
+  unauthorized: "No signed-in user or valid API token",
+  forbidden: "The API token is read-only",
+  not_found: "The todo or project does not exist or is not yours",
+  conflict: "The todo changed after expectedUpdatedAt",
+  internal_error: "Something went wrong on the server",
+};
+
+const errorResponses = (...codes: ActionErrorCode[]) =>
+  Object.fromEntries(
+    [...codes, "unauthorized" as const, "internal_error" as const].map(
+      (code) => [
+        String(API_ERROR_STATUS[code]),
+        {
+          description: ERROR_DESCRIPTIONS[code],
+          content: jsonContent(ref("Error")),
+        },
+      ]
+    )
+  );
+
+const todoIdParameter = {
+  name: "id",
+  in: "path",
+  required: true,
+  schema: { type: "integer", minimum: 1 },
+};
+
+// Query parameters of the list, one per getTodosSchema field
+const listParameters = Object.entries(getTodosSchema.shape).map(
+  ([name, schema]) => ({
+    name,
+    in: "query",
+    required: false,
+    schema: toSchema(schema),
+    ...(name === "tagIds" && { style: "form", explode: false }),
+  })
+);
+
+/*
+ * OpenAPI description of /api/v1, generated from the same zod schemas the
+ * endpoints validate with. Refinements that JSON Schema cannot express (such
+ * as the start date preceding the due date) are enforced but not listed.
+ */
+export function getTodoOpenApiDocument() {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Pandora Box API",
+      version: "1.0.0",
+      description:
+        "Read and change the signed-in user's todos. Errors share one shape: `{ error: { code, message } }`.",
+    },
+    servers: [{ url: "/api/v1" }],
+    security: [{ cookieSession: [] }, { bearerToken: [] }],
+    paths: {
+      "/todos": {
+        get: {
+          operationId: "listTodos",
+          summary: "List a page of todos with their subtasks",
+          parameters: listParameters,
+          responses: {
+            "200": dataResponse("A page of todos", "TodoPage"),
+            ...errorResponses("validation_error"),
+          },
+        },
+        post: {
+          operationId: "createTodo",
+          summary: "Create a todo",
+          requestBody: {
+            required: true,
+            content: jsonContent(ref("CreateTodo")),
+          },
+          responses: {
+            "201": dataResponse("The created todo", "Todo"),
+            ...errorResponses("validation_error", "forbidden", "not_found"),
+          },
+        },
+      },
+      "/todos/{id}": {
+        parameters: [todoIdParameter],
+        get: {
+          operationId: "getTodo",
+          summary: "Get a todo with its content",
+          responses: {
+            "200": dataResponse("The todo", "Todo"),
+            ...errorResponses("validation_error", "not_found"),
+          },
+        },
+        patch: {
+          operationId: "updateTodo",
+          summary: "Update a todo",
+          requestBody: {
+            required: true,
+            content: jsonContent(ref("UpdateTodo")),
+          },
+          responses: {
+            "200": dataResponse("The updated todo", "Todo"),
+            ...errorResponses(
+              "validation_error",
+              "forbidden",
+              "not_found",
+              "conflict"
+            ),
+          },
+        },
+        delete: {
+          operationId: "deleteTodo",
+          summary: "Move a todo and its subtasks to the trash",
+          responses: {
+            "204": { description: "The todo is in the trash" },
+            ...errorResponses("validation_error", "forbidden", "not_found"),
+          },
+        },
+      },
+      "/todos/{id}/toggle": {
+        parameters: [todoIdParameter],
+        post: {
+          operationId: "toggleTodo",
+          summary: "Complete or reopen a todo",
+          requestBody: {
+            required: false,
+            content: jsonContent(ref("ToggleTodo")),
+          },
+          responses: {
+            "200": dataResponse("The toggled todo", "ToggleTodoResult"),
+            ...errorResponses("validation_error", "forbidden", "not_found"),
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        cookieSession: {
+          type: "apiKey",
+          in: "cookie",
+          name: "sb-<project-ref>-auth-token",
+          description: "The Supabase session cookie set by signing in",
+        },
+        bearerToken: {
+          type: "http",
+          scheme: "bearer",
+          description:
+            "A personal API token created in Settings; read-only tokens get 403 on changes",
+        },
+      },
+      schemas: {
+        CreateTodo: toSchema(createTodoSchema),
+        UpdateTodo: toSchema(updateTodoSchema.omit({ id: true })),
+        ToggleTodo: toSchema(toggleTodoSchema.omit({ id: true })),
+        Tag: toSchema(tagSchema, "output"),
+        Todo: toSchema(todoSchema, "output"),
+        TodoListItem: toSchema(todoListItemSchema, "output"),
+        TodoPage: {
+          type: "object",
+          properties: {
+            todos: { type: "array", items: ref("TodoListItem") },
+            nextCursor: { type: ["string", "null"] },
+          },
+          required: ["todos", "nextCursor"],
+        },
+        ToggleTodoResult: {
+          type: "object",
+          properties: {
+            todo: ref("Todo"),
+            nextOccurrence: { anyOf: [ref("Todo"), { type: "null" }] },
+          },
+          required: ["todo", "nextOccurrence"],
+        },
+        Error: toSchema(errorSchema, "output"),
+      },
+    },
+  };
+}
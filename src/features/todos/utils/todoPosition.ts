@@ -0,0 +1,179 @@
+/*
+ * Fractional index keys for manual ordering. A key is a variable-length
+ * "integer" part (a head letter that encodes its length, then base-62 digits)
+ * followed by an optional fraction. Keys compare as plain strings, so a todo
+ * can always be given a key between two neighbours without renumbering the
+ * rest of the list.
+ */
+
+const DIGITS =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const INTEGER_ZERO = "a0";
+const SMALLEST_INTEGER = "A00000000000000000000000000";
+
+const getIntegerLength = (head: string) => {
+  if (head >= "a" && head <= "z") {
+    return head.charCodeAt(0) - "a".charCodeAt(0) + 2;
+  }
+  if (head >= "A" && head <= "Z") {
+    return "Z".charCodeAt(0) - head.charCodeAt(0) + 2;
+  }
+  throw new Error(`Invalid position key head: ${head}`);
+};
+
+const getIntegerPart = (key: string) => {
+  const length = getIntegerLength(key.charAt(0));
+  if (length > key.length) {
+    throw new Error(`Invalid position key: ${key}`);
+  }
+  return key.slice(0, length);
+};
+
+const validateKey = (key: string) => {
+  if (key === SMALLEST_INTEGER) {
+    throw new Error(`Invalid position key: ${key}`);
+  }
+  const fraction = key.slice(getIntegerPart(key).length);
+  if (fraction.endsWith(DIGITS[0])) {
+    throw new Error(`Invalid position key: ${key}`);
+  }
+};
+
+// Fraction strictly between `a` and `b` (null meaning "no upper bound")
+const midpoint = (a: string, b: string | null): string => {
+  if (b !== null) {
+    let shared = 0;
+    while ((a.charAt(shared) || DIGITS[0]) === b.charAt(shared)) {
+      shared += 1;
+    }
+    if (shared > 0) {
+      return b.slice(0, shared) + midpoint(a.slice(shared), b.slice(shared));
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a.charAt(0)) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b.charAt(0)) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+};
+
+const incrementInteger = (integer: string): string | null => {
+  const head = integer.charAt(0);
+  const digits = integer.slice(1).split("");
+
+  for (let index = digits.length - 1; index >= 0; index -= 1) {
+    const next = DIGITS.indexOf(digits[index]) + 1;
+    if (next < DIGITS.length) {
+      digits[index] = DIGITS[next];
+      return head + digits.join("");
+    }
+    digits[index] = DIGITS[0];
+  }
+
+  if (head === "Z") {
+    return INTEGER_ZERO;
+  }
+  if (head === "z") {
+    return null;
+  }
+  const nextHead = String.fromCharCode(head.charCodeAt(0) + 1);
+  if (nextHead > "a") {
+    digits.push(DIGITS[0]);
+  } else {
+    digits.pop();
+  }
+  return nextHead + digits.join("");
+};
+
+const decrementInteger = (integer: string): string | null => {
+  const head = integer.charAt(0);
+  const digits = integer.slice(1).split("");
+  const largest = DIGITS[DIGITS.length - 1];
+
+  for (let index = digits.length - 1; index >= 0; index -= 1) {
+    const previous = DIGITS.indexOf(digits[index]) - 1;
+    if (previous >= 0) {
+      digits[index] = DIGITS[previous];
+      return head + digits.join("");
+    }
+    digits[index] = largest;
+  }
+
+  if (head === "a") {
+    return `Z${largest}`;
+  }
+  if (head === "A") {
+    return null;
+  }
+  const previousHead = String.fromCharCode(head.charCodeAt(0) - 1);
+  if (previousHead < "Z") {
+    digits.push(largest);
+  } else {
+    digits.pop();
+  }
+  return previousHead + digits.join("");
+};
+
+/*
+ * Key that sorts strictly between `before` and `after`; pass null for an open
+ * end. Throws when the bounds are invalid or out of order.
+ */
+export const getPositionBetween = (
+  before: string | null,
+  after: string | null
+): string => {
+  if (before !== null) {
+    validateKey(before);
+  }
+  if (after !== null) {
+    validateKey(after);
+  }
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Position ${before} is not before ${after}`);
+  }
+
+  if (before === null) {
+    if (after === null) {
+      return INTEGER_ZERO;
+    }
+    const integer = getIntegerPart(after);
+    if (integer === SMALLEST_INTEGER) {
+      return integer + midpoint("", after.slice(integer.length));
+    }
+    if (integer < after) {
+      return integer;
+    }
+    const decremented = decrementInteger(integer);
+    if (decremented === null) {
+      throw new Error("Cannot place a todo before the first position");
+    }
+    return decremented;
+  }
+
+  const integer = getIntegerPart(before);
+  const fraction = before.slice(integer.length);
+
+  if (after === null) {
+    const incremented = incrementInteger(integer);
+    return incremented ?? integer + midpoint(fraction, null);
+  }
+
+  const afterInteger = getIntegerPart(after);
+  if (integer === afterInteger) {
+    return integer + midpoint(fraction, after.slice(afterInteger.length));
+  }
+  const incremented = incrementInteger(integer);
+  if (incremented !== null && incremented < after) {
+    return incremented;
+  }
+  return integer + midpoint(fraction, null);
+};
+
+// Byte-wise comparison, matching the "C" collation of todos.position
+export const comparePositions = (a: string, b: string) =>
+  a < b ? -1 : a > b ? 1 : 0;
@@ -0,0 +1,18 @@
+import type { TodoPriority } from "@/types/database";
+
+export const TODO_PRIORITY_LABELS: Record<TodoPriority, string> = {
+  none: "No priority",
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  urgent: "Urgent",
+};
+
+// Higher rank means more important; mirrors the enum order in the database
+export const TODO_PRIORITY_RANK: Record<TodoPriority, number> = {
+  none: 0,
+  low: 1,
+  medium: 2,
+  high: 3,
+  urgent: 4,
+};
@@ -0,0 +1,133 @@
+import type { OptimisticTodo } from "@/features/todos/types/optimisticTodo";
+import type { TodoRow } from "@/features/todos/types/todoRealtime";
+import { applyRemoteTodoChange } from "./todoRealtime";
+
+const makeRow = (overrides: Partial<TodoRow> = {}): TodoRow => ({
+  id: 1,
+  text: "Water the plants",
+  description: null,
+  content: [],
+  done: false,
+  start_at: null,
+  due_at: null,
+  priority: "none",
+  project_id: 1,
+  parent_id: null,
+  subtask_position: 0,
+  recurrence: null,
+  position: "a0",
+  deleted_at: null,
+  completed_at: null,
+  archived_at: null,
+  user_id: "user-1",
+  created_at: "2026-01-01T00:00:00.000Z",
+  updated_at: "2026-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const HOME_TAG = {
+  id: 7,
+  name: "home",
+  color: "#22c55e",
+  user_id: "user-1",
+  created_at: "2026-01-01T00:00:00.000Z",
+  updated_at: "2026-01-01T00:00:00.000Z",
+};
+
+// The list holds rows without their content, tags joined in
+const makeTodo = (overrides: Partial<TodoRow> = {}): OptimisticTodo => {
+  const row: Partial<TodoRow> = makeRow(overrides);
+  delete row.content;
+  return { ...(row as Omit<TodoRow, "content">), tags: [HOME_TAG] };
+};
+
+const LATER = "2026-01-02T00:00:00.000Z";
+
+describe("applyRemoteTodoChange", () => {
+  it("ignores echoes of rows no newer than the ones held", () => {
+    const todos = [makeTodo()];
+
+    const sameVersion = applyRemoteTodoChange(todos, {
+      type: "upsert",
+      row: makeRow({ text: "Echo" }),
+    });
+    const olderVersion = applyRemoteTodoChange(todos, {
+      type: "upsert",
+      row: makeRow({ text: "Late", updated_at: "2025-12-31T00:00:00.000Z" }),
+    });
+
+    expect(sameVersion).toBe(todos);
+    expect(olderVersion).toBe(todos);
+  });
+
+  it("merges newer rows and keeps the known tags", () => {
+    const todos = [makeTodo()];
+
+    const result = applyRemoteTodoChange(todos, {
+      type: "upsert",
+      row: makeRow({ text: "Water the garden", updated_at: LATER }),
+    });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].text).toBe("Water the garden");
+    expect(result[0].tags).toEqual([HOME_TAG]);
+  });
+
+  it("adds rows it has not seen", () => {
+    const todos = [makeTodo()];
+
+    const result = applyRemoteTodoChange(todos, {
+      type: "upsert",
+      row: makeRow({ id: 2 }),
+    });
+
+    expect(result.map((todo) => todo.id)).toEqual([1, 2]);
+    expect(result[1].tags).toEqual([]);
+  });
+
+  it("removes deleted todos", () => {
+    const todos = [makeTodo(), makeTodo({ id: 2 })];
+
+    const result = applyRemoteTodoChange(todos, { type: "delete", id: 1 });
+
+    expect(result.map((todo) => todo.id)).toEqual([2]);
+  });
+
+  it("leaves the list alone when an unknown id is deleted", () => {
+    const todos = [makeTodo()];
+
+    expect(applyRemoteTodoChange(todos, { type: "delete", id: 99 })).toBe(
+      todos
+    );
+  });
+
+  it.each([
+    ["trashed", { deleted_at: LATER }],
+    ["archived", { archived_at: LATER }],
+  ])("drops %s rows from the list", (_label, overrides) => {
+    const todos = [makeTodo(), makeTodo({ id: 2 })];
+
+    const result = applyRemoteTodoChange(todos, {
+      type: "upsert",
+      row: makeRow({ ...overrides, updated_at: LATER }),
+    });
+
+    expect(result.map((todo) => todo.id)).toEqual([2]);
+  });
+
+  it("does not add trashed or archived rows it has not seen", () => {
+    const todos = [makeTodo()];
+
+    const trashed = applyRemoteTodoChange(todos, {
+      type: "upsert",
+      row: makeRow({ id: 2, deleted_at: LATER }),
+    });
+    const archived = applyRemoteTodoChange(todos, {
+      type: "upsert",
+      row: makeRow({ id: 3, archived_at: LATER }),
+    });
+
+    expect(trashed).toBe(todos);
+    expect(archived).toBe(todos);
+  });
+});
@@ -0,0 +1,47 @@
+import type { OptimisticTodo } from "@/features/todos/types/optimisticTodo";
+import type {
+  TodoRemoteChange,
+  TodoRow,
+} from "@/features/todos/types/todoRealtime";
+
+// Trashed and archived todos leave the list, wherever the change came from
+export const isListedTodo = (row: TodoRow) =>
+  row.deleted_at === null && row.archived_at === null;
+
+export const isNewerTodo = (
+  incoming: Pick<TodoRow, "updated_at">,
+  current: Pick<TodoRow, "updated_at">
+) => Date.parse(incoming.updated_at) > Date.parse(current.updated_at);
+
+/*
+ * Merge a remote change into the list. Rows no newer than the copy already
+ * held are dropped: they are echoes of this tab's own writes, or arrived late.
+ * Pending optimistic actions stay on top, since useOptimistic replays them
+ * over whatever the list becomes. Tags are not part of the row, so the ones
+ * already known are kept.
+ */
+export const applyRemoteTodoChange = (
+  todos: OptimisticTodo[],
+  change: TodoRemoteChange
+): OptimisticTodo[] => {
+  if (change.type === "delete") {
+    return todos.some((todo) => todo.id === change.id)
+      ? todos.filter((todo) => todo.id !== change.id)
+      : todos;
+  }
+
+  const { row } = change;
+  const current = todos.find((todo) => todo.id === row.id);
+  if (current && !isNewerTodo(row, current)) {
+    return todos;
+  }
+  if (!isListedTodo(row)) {
+    return current ? todos.filter((todo) => todo.id !== row.id) : todos;
+  }
+  if (!current) {
+    return [...todos, { ...row, tags: [] }];
+  }
+  return todos.map((todo) =>
+    todo.id === row.id ? { ...todo, ...row } : todo
+  );
+};
@@ -0,0 +1,290 @@
+import type { Todo, TodoRecurrence } from "@/types/database";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ITERATIONS = 5000;
+
+export const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+export const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+/*
+ * Recurrence math runs on "wall clock" dates: Date objects whose UTC fields
+ * hold the local date and time in the user's time zone. That keeps weekdays
+ * and month days stable on servers running in another zone and across DST.
+ */
+
+const getTimeZoneOffset = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+const toWallClock = (date: Date, timeZone: string) =>
+  new Date(date.getTime() + getTimeZoneOffset(date, timeZone));
+
+const fromWallClock = (wall: Date, timeZone: string) => {
+  const guess = new Date(wall.getTime() - getTimeZoneOffset(wall, timeZone));
+  return new Date(wall.getTime() - getTimeZoneOffset(guess, timeZone));
+};
+
+const daysInMonth = (year: number, monthIndex: number) =>
+  new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+
+const withDate = (time: Date, year: number, monthIndex: number, day: number) =>
+  new Date(
+    Date.UTC(
+      year,
+      monthIndex,
+      Math.min(day, daysInMonth(year, monthIndex)),
+      time.getUTCHours(),
+      time.getUTCMinutes(),
+      time.getUTCSeconds()
+    )
+  );
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getTime() + days * DAY_MS);
+
+// Sunday that starts the week containing `date`, at midnight
+const startOfWeek = (date: Date) =>
+  new Date(
+    Date.UTC(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate() - date.getUTCDay()
+    )
+  );
+
+// First occurrence strictly after `after`, in wall clock time
+const nextWallOccurrence = (rule: TodoRecurrence, after: Date): Date => {
+  switch (rule.freq) {
+    case "daily":
+      return addDays(after, rule.interval);
+    case "weekdays": {
+      let candidate = addDays(after, 1);
+      while (candidate.getUTCDay() === 0 || candidate.getUTCDay() === 6) {
+        candidate = addDays(candidate, 1);
+      }
+      return candidate;
+    }
+    case "weekly": {
+      const anchorWeek = startOfWeek(after).getTime();
+      let candidate = addDays(after, 1);
+      for (let index = 0; index < 7 * rule.interval + 7; index += 1) {
+        const weeksApart = Math.round(
+          (startOfWeek(candidate).getTime() - anchorWeek) / (7 * DAY_MS)
+        );
+        if (
+          weeksApart % rule.interval === 0 &&
+          rule.weekdays.includes(candidate.getUTCDay())
+        ) {
+          return candidate;
+        }
+        candidate = addDays(candidate, 1);
+      }
+      return candidate;
+    }
+    case "monthly": {
+      for (let step = 0; ; step += rule.interval) {
+        const monthIndex = after.getUTCMonth() + step;
+        const candidate = withDate(
+          after,
+          after.getUTCFullYear() + Math.floor(monthIndex / 12),
+          monthIndex % 12,
+          rule.dayOfMonth
+        );
+        if (candidate.getTime() > after.getTime()) {
+          return candidate;
+        }
+      }
+    }
+    case "yearly": {
+      for (let step = 0; ; step += rule.interval) {
+        const candidate = withDate(
+          after,
+          after.getUTCFullYear() + step,
+          rule.month - 1,
+          rule.day
+        );
+        if (candidate.getTime() > after.getTime()) {
+          return candidate;
+        }
+      }
+    }
+  }
+};
+
+/*
+ * Date of the next occurrence after `from`, skipping occurrences that would
+ * already be in the past at `now` so overdue chores do not pile up.
+ */
+export const getNextOccurrence = (
+  rule: TodoRecurrence,
+  from: Date,
+  timeZone: string,
+  now: Date = new Date()
+): Date => {
+  const todayWall = toWallClock(now, timeZone);
+  const startOfToday = new Date(
+    Date.UTC(
+      todayWall.getUTCFullYear(),
+      todayWall.getUTCMonth(),
+      todayWall.getUTCDate()
+    )
+  );
+
+  let next = nextWallOccurrence(rule, toWallClock(from, timeZone));
+  for (
+    let index = 0;
+    index < MAX_ITERATIONS && next.getTime() < startOfToday.getTime();
+    index += 1
+  ) {
+    next = nextWallOccurrence(rule, next);
+  }
+
+  return fromWallClock(next, timeZone);
+};
+
+/*
+ * Start and due dates for the occurrence after `todo`. The rule follows the
+ * due date (or the start date); a todo without dates repeats from today.
+ */
+export const getNextOccurrenceSchedule = (
+  todo: Pick<Todo, "start_at" | "due_at">,
+  rule: TodoRecurrence,
+  timeZone: string,
+  now: Date = new Date()
+): { start_at: string | null; due_at: string | null } => {
+  const anchor = todo.due_at ?? todo.start_at;
+
+  if (!anchor) {
+    const todayWall = toWallClock(now, timeZone);
+    const midnight = fromWallClock(
+      new Date(
+        Date.UTC(
+          todayWall.getUTCFullYear(),
+          todayWall.getUTCMonth(),
+          todayWall.getUTCDate()
+        )
+      ),
+      timeZone
+    );
+    return {
+      start_at: null,
+      due_at: getNextOccurrence(rule, midnight, timeZone, now).toISOString(),
+    };
+  }
+
+  const anchorDate = new Date(anchor);
+  const next = getNextOccurrence(rule, anchorDate, timeZone, now);
+  const shift = next.getTime() - anchorDate.getTime();
+  const shiftIso = (value: string | null) =>
+    value ? new Date(new Date(value).getTime() + shift).toISOString() : null;
+
+  return { start_at: shiftIso(todo.start_at), due_at: shiftIso(todo.due_at) };
+};
+
+const everyInterval = (interval: number, singular: string, plural: string) => {
+  if (interval === 1) {
+    return `Every ${singular}`;
+  }
+  if (interval === 2) {
+    return `Every other ${singular}`;
+  }
+  return `Every ${interval} ${plural}`;
+};
+
+const ordinal = (value: number) => {
+  const remainder = value % 100;
+  if (remainder >= 11 && remainder <= 13) {
+    return `${value}th`;
+  }
+  switch (value % 10) {
+    case 1:
+      return `${value}st`;
+    case 2:
+      return `${value}nd`;
+    case 3:
+      return `${value}rd`;
+    default:
+      return `${value}th`;
+  }
+};
+
+const joinWithAnd = (items: string[]) =>
+  items.length <= 1
+    ? items.join("")
+    : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+
+// Human-readable summary such as "Every other Tuesday"
+export const describeRecurrence = (rule: TodoRecurrence) => {
+  switch (rule.freq) {
+    case "daily":
+      return everyInterval(rule.interval, "day", "days");
+    case "weekdays":
+      return "Every weekday";
+    case "weekly": {
+      // List days Monday first, the way most people read a week
+      const days = joinWithAnd(
+        [...new Set(rule.weekdays)]
+          .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+          .map((day) => WEEKDAY_NAMES[day])
+      );
+      if (rule.interval === 1) {
+        return `Every ${days}`;
+      }
+      if (rule.interval === 2) {
+        return `Every other ${days}`;
+      }
+      return `Every ${rule.interval} weeks on ${days}`;
+    }
+    case "monthly":
+      return `${everyInterval(rule.interval, "month", "months")} on the ${ordinal(
+        rule.dayOfMonth
+      )}`;
+    case "yearly":
+      return `${everyInterval(rule.interval, "year", "years")} on ${
+        MONTH_NAMES[rule.month - 1]
+      } ${rule.day}`;
+  }
+};
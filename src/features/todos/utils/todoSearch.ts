@@ -0,0 +1,26 @@
+import type { SearchSnippetPart } from "@/features/todos/types/todoSearch";
+
+// Markers search_todos() wraps around matches (Unicode private use characters)
+const HIGHLIGHT_START = "\uE000";
+const HIGHLIGHT_END = "\uE001";
+
+// Split a search_todos() snippet into plain and highlighted runs, so matches can
+// be rendered without treating any of the todo's text as markup
+export const parseSearchSnippet = (snippet: string): SearchSnippetPart[] => {
+  const parts: SearchSnippetPart[] = [];
+
+  for (const [index, chunk] of snippet.split(HIGHLIGHT_START).entries()) {
+    const [highlighted, ...rest] =
+      index === 0 ? [null, chunk] : chunk.split(HIGHLIGHT_END);
+
+    if (highlighted) {
+      parts.push({ text: highlighted, highlighted: true });
+    }
+    const plain = rest.join("");
+    if (plain) {
+      parts.push({ text: plain, highlighted: false });
+    }
+  }
+
+  return parts;
+};
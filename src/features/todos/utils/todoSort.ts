@@ -0,0 +1,47 @@
+import type { OptimisticTodo } from "@/features/todos/types/optimisticTodo";
+import type { TodoSortOrder } from "@/features/todos/schemas/todoSchemas";
+import { TODO_PRIORITY_RANK } from "@/features/todos/utils/todoPriority";
+import { comparePositions } from "@/features/todos/utils/todoPosition";
+
+type TodoComparator = (a: OptimisticTodo, b: OptimisticTodo) => number;
+
+export const TODO_SORT_LABELS: Record<TodoSortOrder, string> = {
+  manual: "Manual",
+  created: "Created",
+  priority: "Priority",
+  due: "Due date",
+};
+
+const toTime = (value: string | null) => {
+  const time = value ? new Date(value).getTime() : Number.NaN;
+  return Number.isNaN(time) ? Number.POSITIVE_INFINITY : time;
+};
+
+// Oldest first, so new todos land at the bottom of the list
+export const compareByCreatedAt: TodoComparator = (a, b) =>
+  new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+
+// The order the user arranged by hand
+export const compareByPosition: TodoComparator = (a, b) =>
+  comparePositions(a.position, b.position) || compareByCreatedAt(a, b);
+
+// Most important first, then oldest first
+export const compareByPriority: TodoComparator = (a, b) =>
+  TODO_PRIORITY_RANK[b.priority] - TODO_PRIORITY_RANK[a.priority] ||
+  compareByCreatedAt(a, b);
+
+// Earliest due date first; undated todos fall back to their start date, then creation
+export const compareBySchedule: TodoComparator = (a, b) =>
+  toTime(a.due_at) - toTime(b.due_at) ||
+  toTime(a.start_at) - toTime(b.start_at) ||
+  compareByCreatedAt(a, b);
+
+const COMPARATORS: Record<TodoSortOrder, TodoComparator> = {
+  manual: compareByPosition,
+  created: compareByCreatedAt,
+  priority: compareByPriority,
+  due: compareBySchedule,
+};
+
+export const getTodoComparator = (order: TodoSortOrder): TodoComparator =>
+  COMPARATORS[order];
@@ -0,0 +1,41 @@
+import type { OptimisticTodo } from "@/features/todos/types/optimisticTodo";
+
+export type SubtaskProgress = {
+  done: number;
+  total: number;
+};
+
+// Index subtasks by parent id, each list in checklist order
+export const groupSubtasksByParent = <T extends OptimisticTodo>(
+  todos: T[]
+): Map<number, T[]> => {
+  const subtasksByParent = new Map<number, T[]>();
+
+  for (const todo of todos) {
+    if (todo.parent_id === null) {
+      continue;
+    }
+
+    const siblings = subtasksByParent.get(todo.parent_id) ?? [];
+    siblings.push(todo);
+    subtasksByParent.set(todo.parent_id, siblings);
+  }
+
+  for (const siblings of subtasksByParent.values()) {
+    siblings.sort(
+      (a, b) => a.subtask_position - b.subtask_position || a.id - b.id
+    );
+  }
+
+  return subtasksByParent;
+};
+
+export const getSubtaskProgress = (
+  subtasks: Pick<OptimisticTodo, "done">[]
+): SubtaskProgress => ({
+  done: subtasks.filter((subtask) => subtask.done).length,
+  total: subtasks.length,
+});
+
+export const formatSubtaskProgress = ({ done, total }: SubtaskProgress) =>
+  `${done}/${total} done`;
@@ -0,0 +1,18 @@
+import type { OptimisticTodo } from "@/features/todos/types/optimisticTodo";
+import type { TodoTagMatchMode } from "@/features/todos/schemas/todoSchemas";
+
+// Whether a todo passes the tag filter; an empty filter matches everything
+export const matchesTagFilter = (
+  todo: Pick<OptimisticTodo, "tags">,
+  tagIds: number[],
+  mode: TodoTagMatchMode
+) => {
+  if (tagIds.length === 0) {
+    return true;
+  }
+
+  const todoTagIds = new Set(todo.tags.map((tag) => tag.id));
+  return mode === "all"
+    ? tagIds.every((tagId) => todoTagIds.has(tagId))
+    : tagIds.some((tagId) => todoTagIds.has(tagId));
+};
@@ -0,0 +1,360 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/utils/supabase/server";
+import type {
+  ActionResponse,
+  WebhookDelivery,
+  WebhookEndpoint,
+} from "@/types/database";
+import {
+  createWebhookEndpointSchema,
+  updateWebhookEndpointSchema,
+  webhookEndpointSchema,
+  getWebhookDeliveriesSchema,
+  type CreateWebhookEndpointInput,
+  type UpdateWebhookEndpointInput,
+  type WebhookEndpointInput,
+  type GetWebhookDeliveriesInput,
+} from "../schemas/webhookSchemas";
+import {
+  WEBHOOK_DELIVERY_COLUMNS,
+  createWebhookEvent,
+  deliverWebhook,
+  generateWebhookSecret,
+} from "../utils/webhookDelivery";
+import { checkWebhookUrl } from "../utils/webhookUrlGuard";
+import { ZodError } from "zod";
+
+const WEBHOOK_ENDPOINT_COLUMNS =
+  "id, url, events, secret, enabled, user_id, created_at, updated_at";
+
+type WebhookEndpointUpdate = Partial<
+  Pick<WebhookEndpoint, "url" | "events" | "enabled">
+>;
+
+function getZodErrorMessage(error: ZodError<unknown>) {
+  return error.issues[0]?.message ?? "Validation failed";
+}
+
+// Helper function to get authenticated user
+async function getAuthenticatedUser() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    return { user: null, error: "You must be logged in to perform this action" };
+  }
+
+  return { user, error: null };
+}
+
+// Get the current user's webhook endpoints, oldest first
+export async function getWebhookEndpoints(): Promise<
+  ActionResponse<WebhookEndpoint[]>
+> {
+  try {
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("webhook_endpoints")
+      .select(WEBHOOK_ENDPOINT_COLUMNS)
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching webhook endpoints:", error);
+      return { success: false, error: "Failed to fetch webhooks" };
+    }
+
+    return { success: true, data: (data ?? []) as WebhookEndpoint[] };
+  } catch (error) {
+    console.error("Unexpected error in getWebhookEndpoints:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Add a webhook endpoint with a freshly generated signing secret
+export async function createWebhookEndpoint(
+  input: CreateWebhookEndpointInput
+): Promise<ActionResponse<WebhookEndpoint>> {
+  try {
+    const validatedInput = createWebhookEndpointSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const urlCheck = await checkWebhookUrl(validatedInput.url);
+    if (!urlCheck.allowed) {
+      return { success: false, error: urlCheck.error };
+    }
+
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("webhook_endpoints")
+      .insert({
+        url: validatedInput.url,
+        events: validatedInput.events,
+        secret: generateWebhookSecret(),
+        user_id: user.id,
+      })
+      .select(WEBHOOK_ENDPOINT_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error("Error creating webhook endpoint:", error);
+      return { success: false, error: "Failed to create webhook" };
+    }
+
+    revalidatePath("/settings");
+    return { success: true, data: data as WebhookEndpoint };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in createWebhookEndpoint:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Change an endpoint's URL or events, or pause and resume it
+export async function updateWebhookEndpoint(
+  input: UpdateWebhookEndpointInput
+): Promise<ActionResponse<WebhookEndpoint>> {
+  try {
+    const validatedInput = updateWebhookEndpointSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    if (validatedInput.url !== undefined) {
+      const urlCheck = await checkWebhookUrl(validatedInput.url);
+      if (!urlCheck.allowed) {
+        return { success: false, error: urlCheck.error };
+      }
+    }
+
+    const supabase = await createClient();
+
+    const updates: WebhookEndpointUpdate = {};
+    if (validatedInput.url !== undefined) {
+      updates.url = validatedInput.url;
+    }
+    if (validatedInput.events !== undefined) {
+      updates.events = validatedInput.events;
+    }
+    if (validatedInput.enabled !== undefined) {
+      updates.enabled = validatedInput.enabled;
+    }
+
+    const { data, error } = await supabase
+      .from("webhook_endpoints")
+      .update(updates)
+      .eq("id", validatedInput.id)
+      .eq("user_id", user.id)
+      .select(WEBHOOK_ENDPOINT_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error updating webhook endpoint:", error);
+      return { success: false, error: "Failed to update webhook" };
+    }
+
+    if (!data) {
+      return { success: false, error: "Webhook not found or access denied" };
+    }
+
+    revalidatePath("/settings");
+    return { success: true, data: data as WebhookEndpoint };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in updateWebhookEndpoint:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Replace an endpoint's signing secret; the old one stops working at once
+export async function rotateWebhookSecret(
+  input: WebhookEndpointInput
+): Promise<ActionResponse<WebhookEndpoint>> {
+  try {
+    const validatedInput = webhookEndpointSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("webhook_endpoints")
+      .update({ secret: generateWebhookSecret() })
+      .eq("id", validatedInput.id)
+      .eq("user_id", user.id)
+      .select(WEBHOOK_ENDPOINT_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error rotating webhook secret:", error);
+      return { success: false, error: "Failed to replace the secret" };
+    }
+
+    if (!data) {
+      return { success: false, error: "Webhook not found or access denied" };
+    }
+
+    revalidatePath("/settings");
+    return { success: true, data: data as WebhookEndpoint };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in rotateWebhookSecret:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Delete an endpoint together with its delivery log
+export async function deleteWebhookEndpoint(
+  input: WebhookEndpointInput
+): Promise<ActionResponse<void>> {
+  try {
+    const validatedInput = webhookEndpointSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+
+    const { error } = await supabase
+      .from("webhook_endpoints")
+      .delete()
+      .eq("id", validatedInput.id)
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("Error deleting webhook endpoint:", error);
+      return { success: false, error: "Failed to delete webhook" };
+    }
+
+    revalidatePath("/settings");
+    return { success: true };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in deleteWebhookEndpoint:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Send a webhook.test event right away, once and without retries, and
+// return its delivery so the result shows immediately. Paused endpoints
+// can be tested too
+export async function sendTestWebhookEvent(
+  input: WebhookEndpointInput
+): Promise<ActionResponse<WebhookDelivery>> {
+  try {
+    const validatedInput = webhookEndpointSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+
+    const { data: endpoint, error: endpointError } = await supabase
+      .from("webhook_endpoints")
+      .select("id, url, secret")
+      .eq("id", validatedInput.id)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (endpointError) {
+      console.error("Error fetching webhook endpoint:", endpointError);
+      return { success: false, error: "Failed to send the test event" };
+    }
+
+    if (!endpoint) {
+      return { success: false, error: "Webhook not found or access denied" };
+    }
+
+    const delivery = await deliverWebhook(
+      supabase,
+      user.id,
+      endpoint,
+      createWebhookEvent("webhook.test", {
+        message: "Test event from Pandora Box",
+      }),
+      1
+    );
+
+    if (!delivery) {
+      return { success: false, error: "Failed to send the test event" };
+    }
+
+    return { success: true, data: delivery };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in sendTestWebhookEvent:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Get an endpoint's most recent deliveries, newest first
+export async function getWebhookDeliveries(
+  input: GetWebhookDeliveriesInput
+): Promise<ActionResponse<WebhookDelivery[]>> {
+  try {
+    const validatedInput = getWebhookDeliveriesSchema.parse(input);
+
+    const { user, error: authError } = await getAuthenticatedUser();
+    if (authError || !user) {
+      return { success: false, error: authError };
+    }
+
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("webhook_deliveries")
+      .select(WEBHOOK_DELIVERY_COLUMNS)
+      .eq("endpoint_id", validatedInput.endpointId)
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false })
+      .limit(validatedInput.limit);
+
+    if (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      return { success: false, error: "Failed to load the delivery log" };
+    }
+
+    return { success: true, data: (data ?? []) as WebhookDelivery[] };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { success: false, error: getZodErrorMessage(error) };
+    }
+    console.error("Unexpected error in getWebhookDeliveries:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
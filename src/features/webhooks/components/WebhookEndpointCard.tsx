@@ -0,0 +1,308 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Copy, RefreshCw, Send, Trash2 } from "lucide-react";
+
+import type {
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEventType,
+} from "@/types/database";
+import {
+  deleteWebhookEndpoint,
+  getWebhookDeliveries,
+  rotateWebhookSecret,
+  sendTestWebhookEvent,
+  updateWebhookEndpoint,
+} from "@/features/webhooks/actions/webhookActions";
+import { WEBHOOK_EVENT_TYPES } from "@/features/webhooks/schemas/webhookSchemas";
+
+const iconButtonClassName =
+  "inline-flex h-8 w-8 shrink-0 items-center justify-center rounded-full border border-border text-foreground-muted transition hover:border-accent hover:text-foreground disabled:cursor-not-allowed disabled:opacity-60";
+
+const textButtonClassName =
+  "rounded-full border border-border px-3 py-1 text-xs font-medium text-foreground-muted transition hover:border-accent hover:text-foreground disabled:cursor-not-allowed disabled:opacity-60";
+
+const DELIVERY_STATUS_LABELS: Record<WebhookDelivery["status"], string> = {
+  pending: "Retrying",
+  succeeded: "Delivered",
+  failed: "Failed",
+};
+
+const dateFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "short",
+  timeStyle: "medium",
+});
+
+const describeDelivery = (delivery: WebhookDelivery) => {
+  const attempts = `${delivery.attempts} attempt${delivery.attempts === 1 ? "" : "s"}`;
+  const outcome =
+    delivery.error ??
+    (delivery.response_status === null
+      ? null
+      : `HTTP ${delivery.response_status}`);
+  return outcome ? `${attempts} · ${outcome}` : attempts;
+};
+
+type WebhookEndpointCardProps = {
+  endpoint: WebhookEndpoint;
+  onChange: (endpoint: WebhookEndpoint) => void;
+  onDelete: (id: number) => void;
+  onError: (message: string | null) => void;
+};
+
+export function WebhookEndpointCard({
+  endpoint,
+  onChange,
+  onDelete,
+  onError,
+}: WebhookEndpointCardProps) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+  const [isSecretVisible, setIsSecretVisible] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  const runAction = (action: () => Promise<void>) => {
+    onError(null);
+    startTransition(async () => {
+      try {
+        await action();
+      } catch (error) {
+        console.error("Unexpected error updating webhook:", error);
+        onError("An unexpected error occurred");
+      }
+    });
+  };
+
+  const loadDeliveries = async () => {
+    const result = await getWebhookDeliveries({ endpointId: endpoint.id });
+    if (result.success) {
+      setDeliveries(result.data ?? []);
+    } else {
+      onError(result.error ?? "Failed to load the delivery log");
+    }
+  };
+
+  const handleUpdate = (
+    changes: Partial<Pick<WebhookEndpoint, "events" | "enabled">>
+  ) =>
+    runAction(async () => {
+      const result = await updateWebhookEndpoint({ id: endpoint.id, ...changes });
+      if (result.success && result.data) {
+        onChange(result.data);
+      } else {
+        onError(result.error ?? "Failed to update webhook");
+      }
+    });
+
+  const handleToggleEvent = (event: WebhookEventType) => {
+    const events = endpoint.events.includes(event)
+      ? endpoint.events.filter((item) => item !== event)
+      : [...endpoint.events, event];
+    if (events.length === 0) {
+      onError("Pick at least one event");
+      return;
+    }
+    handleUpdate({ events });
+  };
+
+  const handleSendTest = () =>
+    runAction(async () => {
+      const result = await sendTestWebhookEvent({ id: endpoint.id });
+      if (!result.success || !result.data) {
+        onError(result.error ?? "Failed to send the test event");
+        return;
+      }
+      const delivery = result.data;
+      setDeliveries((current) => [delivery, ...(current ?? [])]);
+    });
+
+  const handleRotateSecret = () => {
+    if (
+      !window.confirm(
+        "Replace the signing secret? The receiver must switch to the new one."
+      )
+    ) {
+      return;
+    }
+    runAction(async () => {
+      const result = await rotateWebhookSecret({ id: endpoint.id });
+      if (result.success && result.data) {
+        onChange(result.data);
+        setIsSecretVisible(true);
+      } else {
+        onError(result.error ?? "Failed to replace the secret");
+      }
+    });
+  };
+
+  const handleCopySecret = async () => {
+    try {
+      await navigator.clipboard.writeText(endpoint.secret);
+    } catch (error) {
+      console.error("Unexpected error copying webhook secret:", error);
+      onError("Could not copy the secret. Reveal it and copy it by hand.");
+    }
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the webhook for ${endpoint.url}?`)) {
+      return;
+    }
+    runAction(async () => {
+      const result = await deleteWebhookEndpoint({ id: endpoint.id });
+      if (result.success) {
+        onDelete(endpoint.id);
+      } else {
+        onError(result.error ?? "Failed to delete webhook");
+      }
+    });
+  };
+
+  return (
+    <li className="space-y-3 px-4 py-3">
+      <div className="flex items-center gap-3">
+        <p
+          className={`min-w-0 flex-1 truncate text-sm font-medium ${
+            endpoint.enabled ? "" : "text-foreground-muted line-through"
+          }`}
+          title={endpoint.url}
+        >
+          {endpoint.url}
+        </p>
+        <label className="flex items-center gap-1.5 text-xs text-foreground-muted">
+          <input
+            type="checkbox"
+            checked={endpoint.enabled}
+            onChange={(event) => handleUpdate({ enabled: event.target.checked })}
+            disabled={isPending}
+          />
+          Enabled
+        </label>
+        <button
+          type="button"
+          onClick={handleSendTest}
+          className={iconButtonClassName}
+          aria-label="Send test event"
+          title="Send test event"
+          disabled={isPending}
+        >
+          <Send className="h-3.5 w-3.5" />
+        </button>
+        <button
+          type="button"
+          onClick={handleDelete}
+          className="inline-flex h-8 w-8 shrink-0 items-center justify-center rounded-full border border-border text-foreground-muted transition hover:border-red-400 hover:text-red-500 disabled:cursor-not-allowed disabled:opacity-60"
+          aria-label={`Delete webhook for ${endpoint.url}`}
+          title="Delete"
+          disabled={isPending}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      <fieldset className="flex flex-wrap gap-3 text-xs text-foreground-muted">
+        <legend className="sr-only">Events</legend>
+        {WEBHOOK_EVENT_TYPES.map((event) => (
+          <label key={event} className="flex items-center gap-1.5">
+            <input
+              type="checkbox"
+              checked={endpoint.events.includes(event)}
+              onChange={() => handleToggleEvent(event)}
+              disabled={isPending}
+            />
+            <code>{event}</code>
+          </label>
+        ))}
+      </fieldset>
+
+      <div className="flex items-center gap-2 text-xs text-foreground-muted">
+        <span>Secret</span>
+        <code className="min-w-0 flex-1 truncate rounded bg-background px-2 py-1">
+          {isSecretVisible ? endpoint.secret : "whsec_••••••••••••"}
+        </code>
+        <button
+          type="button"
+          onClick={() => setIsSecretVisible((current) => !current)}
+          className={textButtonClassName}
+        >
+          {isSecretVisible ? "Hide" : "Reveal"}
+        </button>
+        <button
+          type="button"
+          onClick={handleCopySecret}
+          className={iconButtonClassName}
+          aria-label="Copy secret"
+          title="Copy secret"
+        >
+          <Copy className="h-3.5 w-3.5" />
+        </button>
+        <button
+          type="button"
+          onClick={handleRotateSecret}
+          className={textButtonClassName}
+          disabled={isPending}
+        >
+          Replace
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() =>
+              deliveries === null
+                ? runAction(loadDeliveries)
+                : setDeliveries(null)
+            }
+            className={textButtonClassName}
+            aria-expanded={deliveries !== null}
+            disabled={isPending}
+          >
+            {deliveries === null ? "Show deliveries" : "Hide deliveries"}
+          </button>
+          {deliveries !== null && (
+            <button
+              type="button"
+              onClick={() => runAction(loadDeliveries)}
+              className={iconButtonClassName}
+              aria-label="Refresh deliveries"
+              title="Refresh"
+              disabled={isPending}
+            >
+              <RefreshCw className="h-3.5 w-3.5" />
+            </button>
+          )}
+        </div>
+
+        {deliveries !== null &&
+          (deliveries.length === 0 ? (
+            <p className="text-xs text-foreground-muted">No deliveries yet.</p>
+          ) : (
+            <ul className="space-y-1 text-xs" aria-label="Delivery log">
+              {deliveries.map((delivery) => (
+                <li key={delivery.id} className="flex flex-wrap gap-x-2">
+                  <span
+                    className={
+                      delivery.status === "succeeded"
+                        ? "text-green-600 dark:text-green-400"
+                        : delivery.status === "failed"
+                          ? "text-red-600 dark:text-red-400"
+                          : "text-foreground-muted"
+                    }
+                  >
+                    {DELIVERY_STATUS_LABELS[delivery.status]}
+                  </span>
+                  <code>{delivery.event}</code>
+                  <span className="text-foreground-muted">
+                    {dateFormatter.format(new Date(delivery.created_at))} ·{" "}
+                    {describeDelivery(delivery)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ))}
+      </div>
+    </li>
+  );
+}
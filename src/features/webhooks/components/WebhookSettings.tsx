@@ -0,0 +1,180 @@
+"use client";
+
+import { FormEvent, useEffect, useState, useTransition } from "react";
+
+import type { WebhookEndpoint, WebhookEventType } from "@/types/database";
+import {
+  createWebhookEndpoint,
+  getWebhookEndpoints,
+} from "@/features/webhooks/actions/webhookActions";
+import { WEBHOOK_EVENT_TYPES } from "@/features/webhooks/schemas/webhookSchemas";
+import { WebhookEndpointCard } from "@/features/webhooks/components/WebhookEndpointCard";
+
+const inputClassName =
+  "w-full rounded-md border border-border bg-background px-3 py-2 text-sm focus:border-accent focus:outline-none focus:ring-2 focus:ring-accent/30 disabled:opacity-60";
+
+export function WebhookSettings() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEventType[]>([
+    ...WEBHOOK_EVENT_TYPES,
+  ]);
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    let isCurrent = true;
+    getWebhookEndpoints()
+      .then((result) => {
+        if (!isCurrent) {
+          return;
+        }
+        if (result.success) {
+          setEndpoints(result.data ?? []);
+        } else {
+          setError(result.error ?? "Failed to load webhooks");
+        }
+      })
+      .catch((loadError) => {
+        console.error("Unexpected error loading webhooks:", loadError);
+        if (isCurrent) {
+          setError("Failed to load webhooks");
+        }
+      })
+      .finally(() => {
+        if (isCurrent) {
+          setIsLoading(false);
+        }
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, []);
+
+  const handleToggleEvent = (event: WebhookEventType) => {
+    setEvents((current) =>
+      current.includes(event)
+        ? current.filter((item) => item !== event)
+        : [...current, event]
+    );
+  };
+
+  const handleCreate = (formEvent: FormEvent<HTMLFormElement>) => {
+    formEvent.preventDefault();
+    setError(null);
+    startTransition(async () => {
+      try {
+        const result = await createWebhookEndpoint({ url, events });
+        if (result.success && result.data) {
+          const endpoint = result.data;
+          setEndpoints((current) => [...current, endpoint]);
+          setUrl("");
+        } else {
+          setError(result.error ?? "Failed to create webhook");
+        }
+      } catch (createError) {
+        console.error("Unexpected error creating webhook:", createError);
+        setError("Failed to create webhook");
+      }
+    });
+  };
+
+  const handleChange = (endpoint: WebhookEndpoint) => {
+    setEndpoints((current) =>
+      current.map((item) => (item.id === endpoint.id ? endpoint : item))
+    );
+  };
+
+  const handleDelete = (id: number) => {
+    setEndpoints((current) => current.filter((item) => item.id !== id));
+  };
+
+  return (
+    <section className="space-y-6" aria-labelledby="webhooks-heading">
+      <header className="space-y-2">
+        <h2 id="webhooks-heading" className="text-lg font-semibold">
+          Webhooks
+        </h2>
+        <p className="text-sm text-foreground-muted">
+          Post a JSON event to your own URL when a todo is created, completed
+          or deleted. Each request is signed in the{" "}
+          <code>X-Pandora-Signature</code> header with the endpoint&apos;s
+          secret; failed deliveries are retried with growing delays.
+        </p>
+      </header>
+
+      {error && (
+        <div className="rounded-md border border-red-500 bg-red-50 px-4 py-3 text-sm text-red-600 dark:border-red-400 dark:bg-red-950/20 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      <form
+        onSubmit={handleCreate}
+        className="space-y-3"
+        aria-label="Add webhook"
+      >
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="min-w-[12rem] flex-1 space-y-2">
+            <label
+              className="block text-sm font-medium text-foreground"
+              htmlFor="webhook-url"
+            >
+              Endpoint URL
+            </label>
+            <input
+              id="webhook-url"
+              type="url"
+              value={url}
+              onChange={(event) => setUrl(event.target.value)}
+              className={inputClassName}
+              placeholder="https://example.com/hooks/todos"
+              required
+              disabled={isPending}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isPending || url.trim() === "" || events.length === 0}
+            className="rounded-md bg-accent px-4 py-2 text-sm font-semibold text-accent-foreground transition hover:bg-accent/90 disabled:opacity-50"
+          >
+            Add webhook
+          </button>
+        </div>
+        <fieldset className="flex flex-wrap gap-3 text-sm text-foreground-muted">
+          <legend className="sr-only">Events</legend>
+          {WEBHOOK_EVENT_TYPES.map((event) => (
+            <label key={event} className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={events.includes(event)}
+                onChange={() => handleToggleEvent(event)}
+                disabled={isPending}
+              />
+              <code>{event}</code>
+            </label>
+          ))}
+        </fieldset>
+      </form>
+
+      {isLoading ? (
+        <p className="text-sm text-foreground-muted">Loading webhooks…</p>
+      ) : endpoints.length === 0 ? (
+        <p className="text-sm text-foreground-muted">No webhooks yet.</p>
+      ) : (
+        <ul className="divide-y divide-border rounded-md border border-border">
+          {endpoints.map((endpoint) => (
+            <WebhookEndpointCard
+              key={endpoint.id}
+              endpoint={endpoint}
+              onChange={handleChange}
+              onDelete={handleDelete}
+              onError={setError}
+            />
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,69 @@
+import { z } from "zod";
+
+export const WEBHOOK_EVENT_TYPES = [
+  "todo.created",
+  "todo.completed",
+  "todo.deleted",
+] as const;
+
+const webhookEndpointIdSchema = z
+  .number()
+  .int()
+  .positive("Invalid webhook ID");
+
+// Plain http is allowed for receivers without TLS. Where the host resolves
+// is checked on the server (webhookUrlGuard), since this schema also runs in
+// the browser
+const webhookUrlSchema = z
+  .url({ protocol: /^https?$/, message: "Enter an http(s) URL" })
+  .max(2000, "URL cannot exceed 2000 characters");
+
+const webhookEventsSchema = z
+  .array(z.enum(WEBHOOK_EVENT_TYPES, { message: "Invalid event type" }))
+  .min(1, "Pick at least one event")
+  .transform((events) => [...new Set(events)]);
+
+// Schema for adding a webhook endpoint
+export const createWebhookEndpointSchema = z.object({
+  url: webhookUrlSchema,
+  events: webhookEventsSchema,
+});
+
+// Schema for changing an endpoint's URL, events or whether it is enabled
+export const updateWebhookEndpointSchema = z
+  .object({
+    id: webhookEndpointIdSchema,
+    url: webhookUrlSchema.optional(),
+    events: webhookEventsSchema.optional(),
+    enabled: z.boolean().optional(),
+  })
+  .refine(
+    (data) =>
+      data.url !== undefined ||
+      data.events !== undefined ||
+      data.enabled !== undefined,
+    { message: "At least one field (url, events or enabled) must be provided" }
+  );
+
+// Schema for deleting an endpoint, sending it a test event or replacing its secret
+export const webhookEndpointSchema = z.object({
+  id: webhookEndpointIdSchema,
+});
+
+// Schema for loading an endpoint's delivery log
+export const getWebhookDeliveriesSchema = z.object({
+  endpointId: webhookEndpointIdSchema,
+  limit: z.number().int().min(1).max(100).optional().default(20),
+});
+
+// Export types inferred from schemas
+export type CreateWebhookEndpointInput = z.input<
+  typeof createWebhookEndpointSchema
+>;
+export type UpdateWebhookEndpointInput = z.input<
+  typeof updateWebhookEndpointSchema
+>;
+export type WebhookEndpointInput = z.infer<typeof webhookEndpointSchema>;
+export type GetWebhookDeliveriesInput = z.input<
+  typeof getWebhookDeliveriesSchema
+>;
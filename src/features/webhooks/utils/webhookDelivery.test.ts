@@ -0,0 +1,245 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import {
+  createWebhookEvent,
+  deliverWebhook,
+  signWebhookPayload,
+  WEBHOOK_MAX_ATTEMPTS,
+} from "./webhookDelivery";
+import { checkWebhookUrl } from "./webhookUrlGuard";
+
+jest.mock("next/server", () => ({ after: jest.fn() }));
+jest.mock("./webhookUrlGuard", () => ({ checkWebhookUrl: jest.fn() }));
+
+const mockedCheckWebhookUrl = jest.mocked(checkWebhookUrl);
+
+const DELIVERY_ID = 42;
+const NOW = new Date("2026-01-01T00:00:00.000Z");
+
+const endpoint = {
+  id: 7,
+  url: "https://hooks.example.com/pandora",
+  secret: "whsec_test",
+};
+
+// Logs the delivery as id 42 and keeps every update made to it
+const createFakeSupabase = () => {
+  const updates: Record<string, unknown>[] = [];
+  const supabase = {
+    from: () => ({
+      insert: () => ({
+        select: () => ({
+          single: async () => ({ data: { id: DELIVERY_ID }, error: null }),
+        }),
+      }),
+      update: (values: Record<string, unknown>) => {
+        updates.push(values);
+        return {
+          eq: () => ({
+            select: () => ({
+              single: async () => ({
+                data: { id: DELIVERY_ID, ...values },
+                error: null,
+              }),
+            }),
+          }),
+        };
+      },
+    }),
+  };
+  return { supabase: supabase as unknown as SupabaseClient, updates };
+};
+
+const answer = (status: number) => new Response(null, { status });
+
+describe("signWebhookPayload", () => {
+  it("signs `<timestamp>.<body>` with HMAC SHA-256 in hex", () => {
+    expect(
+      signWebhookPayload("whsec_test", 1700000000, '{"id":"evt_1"}')
+    ).toBe("c89214b5b5da833daed6f0b8c5bb6bd58cea9022bd80ccc78230f3942d632925");
+  });
+});
+
+describe("deliverWebhook", () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    fetchMock = jest.spyOn(global, "fetch");
+    mockedCheckWebhookUrl.mockResolvedValue({ allowed: true, error: null });
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("posts the event signed as `t=…,v1=…` over the body", async () => {
+    fetchMock.mockResolvedValue(answer(200));
+    const { supabase } = createFakeSupabase();
+    const event = createWebhookEvent("todo.created", { todo: { id: 1 } });
+
+    await deliverWebhook(supabase, "user-1", endpoint, event);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    const timestamp = Math.floor(NOW.getTime() / 1000);
+
+    expect(url).toBe(endpoint.url);
+    expect(init.body).toBe(JSON.stringify(event));
+    expect(headers["X-Pandora-Event"]).toBe("todo.created");
+    expect(headers["X-Pandora-Delivery"]).toBe(String(DELIVERY_ID));
+    expect(headers["X-Pandora-Signature"]).toBe(
+      `t=${timestamp},v1=${signWebhookPayload(
+        endpoint.secret,
+        timestamp,
+        init.body as string
+      )}`
+    );
+  });
+
+  it("waits 1s, 2s, 4s and 8s between attempts before giving up", async () => {
+    fetchMock.mockResolvedValue(answer(503));
+    const { supabase, updates } = createFakeSupabase();
+    const delivery = deliverWebhook(
+      supabase,
+      "user-1",
+      endpoint,
+      createWebhookEvent("todo.completed", {})
+    );
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    for (const [attempt, delay] of [1000, 2000, 4000, 8000].entries()) {
+      await jest.advanceTimersByTimeAsync(delay - 1);
+      expect(fetchMock).toHaveBeenCalledTimes(attempt + 1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(fetchMock).toHaveBeenCalledTimes(attempt + 2);
+    }
+
+    await expect(delivery).resolves.toMatchObject({
+      status: "failed",
+      attempts: WEBHOOK_MAX_ATTEMPTS,
+      response_status: 503,
+    });
+    expect(updates.map((update) => update.status)).toEqual([
+      "pending",
+      "pending",
+      "pending",
+      "pending",
+      "failed",
+    ]);
+  });
+
+  it("fails instead of retrying past the deadline", async () => {
+    fetchMock.mockResolvedValue(answer(503));
+    const { supabase, updates } = createFakeSupabase();
+    const delivery = deliverWebhook(
+      supabase,
+      "user-1",
+      endpoint,
+      createWebhookEvent("todo.completed", {}),
+      WEBHOOK_MAX_ATTEMPTS,
+      NOW.getTime() + 2500
+    );
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(delivery).resolves.toMatchObject({
+      status: "failed",
+      attempts: 2,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(updates.map((update) => update.status)).toEqual([
+      "pending",
+      "failed",
+    ]);
+  });
+
+  it.each([408, 429, 500])("retries after a %i answer", async (status) => {
+    fetchMock
+      .mockResolvedValueOnce(answer(status))
+      .mockResolvedValueOnce(answer(204));
+    const { supabase } = createFakeSupabase();
+    const delivery = deliverWebhook(
+      supabase,
+      "user-1",
+      endpoint,
+      createWebhookEvent("todo.completed", {})
+    );
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(delivery).resolves.toMatchObject({
+      status: "succeeded",
+      attempts: 2,
+      response_status: 204,
+    });
+  });
+
+  it("retries when the request does not get through", async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(answer(200));
+    const { supabase, updates } = createFakeSupabase();
+    const delivery = deliverWebhook(
+      supabase,
+      "user-1",
+      endpoint,
+      createWebhookEvent("todo.completed", {})
+    );
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(delivery).resolves.toMatchObject({
+      status: "succeeded",
+      attempts: 2,
+    });
+    expect(updates[0]).toMatchObject({
+      status: "pending",
+      response_status: null,
+      error: "fetch failed",
+    });
+  });
+
+  it.each([400, 404, 410])("gives up after a %i answer", async (status) => {
+    fetchMock.mockResolvedValue(answer(status));
+    const { supabase } = createFakeSupabase();
+
+    const delivery = await deliverWebhook(
+      supabase,
+      "user-1",
+      endpoint,
+      createWebhookEvent("todo.completed", {})
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(delivery).toMatchObject({
+      status: "failed",
+      attempts: 1,
+      response_status: status,
+      error: `Endpoint answered ${status}`,
+    });
+  });
+
+  it("does not post to a URL that resolves to a private address", async () => {
+    mockedCheckWebhookUrl.mockResolvedValue({
+      allowed: false,
+      error: "Webhook URLs cannot point at private addresses",
+      retryable: false,
+    });
+    const { supabase } = createFakeSupabase();
+
+    const delivery = await deliverWebhook(
+      supabase,
+      "user-1",
+      endpoint,
+      createWebhookEvent("todo.completed", {})
+    );
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(delivery).toMatchObject({ status: "failed", attempts: 1 });
+  });
+});
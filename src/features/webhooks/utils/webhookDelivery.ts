@@ -0,0 +1,311 @@
+import { createHmac, randomBytes, randomUUID } from "node:crypto";
+import { after } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  Todo,
+  TodoListItem,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEventType,
+} from "@/types/database";
+import { checkWebhookUrl } from "./webhookUrlGuard";
+
+// Attempts per delivery; waits between them double from the base delay
+export const WEBHOOK_MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+const REQUEST_TIMEOUT_MS = 10_000;
+// A mutation's deliveries share one window and run a few at a time, so a slow
+// endpoint cannot keep the request's after() alive for long
+const DELIVERY_WINDOW_MS = 30_000;
+const MAX_CONCURRENT_DELIVERIES = 4;
+const MAX_ERROR_LENGTH = 500;
+
+export const WEBHOOK_DELIVERY_COLUMNS =
+  "id, endpoint_id, event, payload, status, attempts, response_status, error, created_at, last_attempt_at";
+
+// The JSON body posted to endpoints
+export type WebhookEvent = {
+  id: string;
+  type: WebhookEventType | "webhook.test";
+  created_at: string;
+  data: Record<string, unknown>;
+};
+
+type WebhookTarget = Pick<WebhookEndpoint, "id" | "url" | "secret">;
+
+type AttemptResult = {
+  ok: boolean;
+  retryable: boolean;
+  responseStatus: number | null;
+  error: string | null;
+};
+
+export const generateWebhookSecret = () =>
+  `whsec_${randomBytes(24).toString("base64url")}`;
+
+/*
+ * Signature sent as `X-Pandora-Signature: t=<unix seconds>,v1=<hex>`, an
+ * HMAC SHA-256 of `<t>.<body>` keyed with the endpoint secret. Receivers
+ * recompute it over the raw body and can reject old timestamps to stop replays.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+) {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+export function createWebhookEvent(
+  type: WebhookEvent["type"],
+  data: WebhookEvent["data"]
+): WebhookEvent {
+  return {
+    id: randomUUID(),
+    type,
+    created_at: new Date().toISOString(),
+    data,
+  };
+}
+
+// Payloads carry the list fields of a todo; BlockNote content can be large
+const toEventTodo = (todo: TodoListItem | Todo): TodoListItem => {
+  const item: Partial<Todo> = { ...todo };
+  delete item.content;
+  return item as TodoListItem;
+};
+
+const wait = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Timeouts, network errors, 408, 429 and 5xx are worth another try
+const isRetryableStatus = (status: number) =>
+  status === 408 || status === 429 || status >= 500;
+
+async function attemptDelivery(
+  endpoint: WebhookTarget,
+  event: WebhookEvent,
+  deliveryId: number,
+  deadline: number
+): Promise<AttemptResult> {
+  const body = JSON.stringify(event);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  const timeLeft = deadline - Date.now();
+  if (timeLeft <= 0) {
+    return {
+      ok: false,
+      retryable: false,
+      responseStatus: null,
+      error: "The delivery window closed before it could be sent",
+    };
+  }
+
+  // Again at send time: the host may resolve elsewhere than when it was saved
+  const urlCheck = await checkWebhookUrl(endpoint.url);
+  if (!urlCheck.allowed) {
+    return {
+      ok: false,
+      retryable: urlCheck.retryable,
+      responseStatus: null,
+      error: urlCheck.error,
+    };
+  }
+
+  try {
+    const response = await fetch(endpoint.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Pandora-Box-Webhooks/1",
+        "X-Pandora-Event": event.type,
+        "X-Pandora-Delivery": String(deliveryId),
+        "X-Pandora-Signature": `t=${timestamp},v1=${signWebhookPayload(
+          endpoint.secret,
+          timestamp,
+          body
+        )}`,
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(Math.min(REQUEST_TIMEOUT_MS, timeLeft)),
+    });
+
+    if (response.ok) {
+      return {
+        ok: true,
+        retryable: false,
+        responseStatus: response.status,
+        error: null,
+      };
+    }
+    return {
+      ok: false,
+      retryable: isRetryableStatus(response.status),
+      responseStatus: response.status,
+      error: `Endpoint answered ${response.status}`,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      ok: false,
+      retryable: true,
+      responseStatus: null,
+      error: message.slice(0, MAX_ERROR_LENGTH),
+    };
+  }
+}
+
+/*
+ * Send one event to one endpoint, logging it as a delivery and recording
+ * every attempt. Retries wait 1s, 2s, 4s, ... between attempts, and stop at
+ * the deadline (epoch ms), failing the delivery. Resolves with the final
+ * delivery row; null when it could not be logged.
+ */
+export async function deliverWebhook(
+  supabase: SupabaseClient,
+  userId: string,
+  endpoint: WebhookTarget,
+  event: WebhookEvent,
+  maxAttempts = WEBHOOK_MAX_ATTEMPTS,
+  deadline = Number.POSITIVE_INFINITY
+): Promise<WebhookDelivery | null> {
+  const { data: created, error: insertError } = await supabase
+    .from("webhook_deliveries")
+    .insert({
+      endpoint_id: endpoint.id,
+      event: event.type,
+      payload: event,
+      user_id: userId,
+    })
+    .select("id")
+    .single();
+
+  if (insertError || !created) {
+    console.error("Error logging webhook delivery:", insertError);
+    return null;
+  }
+
+  let delivery: WebhookDelivery | null = null;
+  for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+    const result = await attemptDelivery(
+      endpoint,
+      event,
+      created.id,
+      deadline
+    );
+    const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+    const isFinal =
+      result.ok ||
+      !result.retryable ||
+      attempt === maxAttempts ||
+      Date.now() + delay >= deadline;
+    const status: WebhookDeliveryStatus = result.ok
+      ? "succeeded"
+      : isFinal
+        ? "failed"
+        : "pending";
+
+    const { data, error } = await supabase
+      .from("webhook_deliveries")
+      .update({
+        status,
+        attempts: attempt,
+        response_status: result.responseStatus,
+        error: result.error,
+        last_attempt_at: new Date().toISOString(),
+      })
+      .eq("id", created.id)
+      .select(WEBHOOK_DELIVERY_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error("Error recording webhook attempt:", error);
+    } else {
+      delivery = data as WebhookDelivery;
+    }
+
+    if (isFinal) {
+      break;
+    }
+    await wait(delay);
+  }
+
+  return delivery;
+}
+
+// Run the tasks with at most `limit` of them in flight
+async function runWithConcurrency(
+  tasks: (() => Promise<unknown>)[],
+  limit: number
+) {
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const task = tasks[next];
+      next += 1;
+      await task();
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, tasks.length) }, worker)
+  );
+}
+
+/*
+ * Emit one `type` event per todo to the user's enabled endpoints that listen
+ * for it. Delivery runs after the response is sent, so actions never wait on
+ * (or fail because of) a slow endpoint. Events of one mutation are sent
+ * concurrently, so they can arrive out of order, and whatever has not gone
+ * through when the delivery window closes is logged as failed.
+ */
+export function emitTodoEvents(
+  supabase: SupabaseClient,
+  userId: string,
+  type: WebhookEventType,
+  todos: (TodoListItem | Todo)[]
+) {
+  if (todos.length === 0) {
+    return;
+  }
+
+  after(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("webhook_endpoints")
+        .select("id, url, secret")
+        .eq("user_id", userId)
+        .eq("enabled", true)
+        .contains("events", [type]);
+
+      if (error) {
+        console.error("Error loading webhook endpoints:", error);
+        return;
+      }
+
+      const endpoints = (data ?? []) as WebhookTarget[];
+      const deadline = Date.now() + DELIVERY_WINDOW_MS;
+      await runWithConcurrency(
+        endpoints.flatMap((endpoint) =>
+          todos.map(
+            (todo) => () =>
+              deliverWebhook(
+                supabase,
+                userId,
+                endpoint,
+                createWebhookEvent(type, { todo: toEventTodo(todo) }),
+                WEBHOOK_MAX_ATTEMPTS,
+                deadline
+              )
+          )
+        ),
+        MAX_CONCURRENT_DELIVERIES
+      );
+    } catch (error) {
+      console.error("Unexpected error delivering webhooks:", error);
+    }
+  });
+}
@@ -0,0 +1,112 @@
+import { checkWebhookUrl, isBlockedAddress } from "./webhookUrlGuard";
+
+describe("isBlockedAddress", () => {
+  it.each([
+    "0.0.0.0",
+    "10.1.2.3",
+    "100.64.0.1",
+    "127.0.0.1",
+    "169.254.169.254",
+    "172.16.0.1",
+    "172.31.255.255",
+    "192.168.1.1",
+    "224.0.0.1",
+    "::",
+    "::1",
+    "fc00::1",
+    "fd12:3456::1",
+    "fe80::1%eth0",
+    "ff02::1",
+    "::ffff:127.0.0.1",
+    "::ffff:a9fe:a9fe",
+    "64:ff9b::10.0.0.1",
+  ])("blocks %s", (address) => {
+    expect(isBlockedAddress(address)).toBe(true);
+  });
+
+  it.each([
+    "1.1.1.1",
+    "93.184.216.34",
+    "172.32.0.1",
+    "2606:4700:4700::1111",
+    "::ffff:93.184.216.34",
+  ])("allows %s", (address) => {
+    expect(isBlockedAddress(address)).toBe(false);
+  });
+});
+
+describe("checkWebhookUrl", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, WEBHOOK_ALLOW_LOCALHOST: undefined };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it("allows a host that resolves only to public addresses", async () => {
+    const resolve = jest.fn(async () => ["93.184.216.34"]);
+
+    await expect(
+      checkWebhookUrl("https://hooks.example.com/in", resolve)
+    ).resolves.toEqual({ allowed: true, error: null });
+    expect(resolve).toHaveBeenCalledWith("hooks.example.com");
+  });
+
+  it("refuses a host with any private address", async () => {
+    const resolve = async () => ["93.184.216.34", "10.0.0.5"];
+
+    await expect(
+      checkWebhookUrl("https://hooks.example.com/in", resolve)
+    ).resolves.toMatchObject({ allowed: false, retryable: false });
+  });
+
+  it("checks IP literals without resolving them", async () => {
+    const resolve = jest.fn(async () => ["93.184.216.34"]);
+
+    await expect(
+      checkWebhookUrl("http://[::1]:3000/in", resolve)
+    ).resolves.toMatchObject({ allowed: false });
+    expect(resolve).not.toHaveBeenCalled();
+  });
+
+  it("reports a host that does not resolve as worth retrying", async () => {
+    const resolve = async (): Promise<string[]> => {
+      throw new Error("getaddrinfo ENOTFOUND");
+    };
+
+    await expect(
+      checkWebhookUrl("https://missing.example.com/in", resolve)
+    ).resolves.toEqual({
+      allowed: false,
+      error: "Could not resolve missing.example.com",
+      retryable: true,
+    });
+  });
+
+  it("allows loopback only when asked to in development", async () => {
+    const resolve = async () => ["127.0.0.1"];
+
+    await expect(
+      checkWebhookUrl("http://localhost:4000/in", resolve)
+    ).resolves.toMatchObject({ allowed: false });
+
+    process.env.WEBHOOK_ALLOW_LOCALHOST = "true";
+    await expect(
+      checkWebhookUrl("http://localhost:4000/in", resolve)
+    ).resolves.toEqual({ allowed: true, error: null });
+    await expect(
+      checkWebhookUrl("http://127.0.0.1:4000/in", resolve)
+    ).resolves.toEqual({ allowed: true, error: null });
+    await expect(
+      checkWebhookUrl("http://192.168.1.10:4000/in", resolve)
+    ).resolves.toMatchObject({ allowed: false });
+
+    process.env = { ...process.env, NODE_ENV: "production" };
+    await expect(
+      checkWebhookUrl("http://localhost:4000/in", resolve)
+    ).resolves.toMatchObject({ allowed: false });
+  });
+});
@@ -0,0 +1,177 @@
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+
+export type WebhookUrlCheck =
+  | { allowed: true; error: null; retryable?: undefined }
+  // retryable: the host did not resolve, which may pass
+  | { allowed: false; error: string; retryable: boolean };
+
+// Every address a host name resolves to
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+const BLOCKED_ERROR =
+  "Webhook URLs cannot point at private, loopback or link-local addresses";
+
+const resolveHost: HostResolver = async (hostname) =>
+  (await lookup(hostname, { all: true, verbatim: true })).map(
+    (entry) => entry.address
+  );
+
+// Receivers on this machine (scripts/webhook-receiver.mjs) are only allowed
+// in development, and only when asked for explicitly
+const allowsLoopback = () =>
+  process.env.NODE_ENV !== "production" &&
+  process.env.WEBHOOK_ALLOW_LOCALHOST === "true";
+
+const parseIPv4 = (address: string) =>
+  address
+    .split(".")
+    .reduce((value, part) => value * 256 + Number(part), 0);
+
+// Whether the 32-bit address `value` lies in `base`/`bits`
+const isInIPv4Range = (value: number, base: string, bits: number) =>
+  value >>> (32 - bits) === parseIPv4(base) >>> (32 - bits);
+
+// Loopback, private, shared, link-local, reserved and multicast ranges
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+// The eight 16-bit groups of an IPv6 address, an IPv4 tail included
+const parseIPv6 = (address: string) => {
+  let text = address.split("%")[0].toLowerCase();
+  const ipv4Tail = /(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (ipv4Tail) {
+    const value = parseIPv4(ipv4Tail[1]);
+    text = `${text.slice(0, -ipv4Tail[1].length)}${(value >>> 16).toString(
+      16
+    )}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const [head, tail] = text.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const zeros =
+    tail === undefined ? 0 : 8 - headGroups.length - tailGroups.length;
+  return [...headGroups, ...Array<string>(zeros).fill("0"), ...tailGroups].map(
+    (group) => Number.parseInt(group, 16)
+  );
+};
+
+// The IPv4 address an IPv6 one stands for (mapped, compatible or NAT64)
+const getEmbeddedIPv4 = (groups: number[]) => {
+  const prefixIsZero = groups.slice(0, 5).every((group) => group === 0);
+  const isMapped = prefixIsZero && groups[5] === 0xffff;
+  const isCompatible = prefixIsZero && groups[5] === 0;
+  const isNat64 =
+    groups[0] === 0x64 &&
+    groups[1] === 0xff9b &&
+    groups.slice(2, 6).every((group) => group === 0);
+  return isMapped || isCompatible || isNat64
+    ? groups[6] * 0x10000 + groups[7]
+    : null;
+};
+
+const isLoopbackAddress = (address: string) => {
+  if (isIP(address) === 4) {
+    return isInIPv4Range(parseIPv4(address), "127.0.0.0", 8);
+  }
+  const groups = parseIPv6(address);
+  const embedded = getEmbeddedIPv4(groups);
+  if (embedded !== null && groups[6] !== 0) {
+    return isInIPv4Range(embedded, "127.0.0.0", 8);
+  }
+  return groups.slice(0, 7).every((group) => group === 0) && groups[7] === 1;
+};
+
+// Whether the server must not send requests to this address
+export const isBlockedAddress = (address: string): boolean => {
+  if (isIP(address) === 4) {
+    const value = parseIPv4(address);
+    return BLOCKED_IPV4_RANGES.some(([base, bits]) =>
+      isInIPv4Range(value, base, bits)
+    );
+  }
+
+  const groups = parseIPv6(address);
+  // :: and ::1 are compatible addresses too, but not IPv4 ones
+  if (groups.slice(0, 7).every((group) => group === 0) && groups[7] <= 1) {
+    return true;
+  }
+  const embedded = getEmbeddedIPv4(groups);
+  if (embedded !== null) {
+    return BLOCKED_IPV4_RANGES.some(([base, bits]) =>
+      isInIPv4Range(embedded, base, bits)
+    );
+  }
+  return (
+    // fc00::/7 unique local, fe80::/10 link-local, fec0::/10 site-local
+    (groups[0] & 0xfe00) === 0xfc00 ||
+    (groups[0] & 0xffc0) === 0xfe80 ||
+    (groups[0] & 0xffc0) === 0xfec0 ||
+    // ff00::/8 multicast
+    (groups[0] & 0xff00) === 0xff00
+  );
+};
+
+/*
+ * Whether the server may post to `url`: every address its host resolves to
+ * must be a public one, so endpoints cannot reach the internal network or
+ * cloud metadata services. Checked when an endpoint is saved and again
+ * before each delivery, since DNS can change in between.
+ */
+export async function checkWebhookUrl(
+  url: string,
+  resolve: HostResolver = resolveHost
+): Promise<WebhookUrlCheck> {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  } catch {
+    return { allowed: false, error: "Enter an http(s) URL", retryable: false };
+  }
+
+  const isLocalhostName = /(^|\.)localhost\.?$/i.test(hostname);
+  if (isLocalhostName) {
+    return allowsLoopback()
+      ? { allowed: true, error: null }
+      : { allowed: false, error: BLOCKED_ERROR, retryable: false };
+  }
+
+  let addresses: string[] = [];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = await resolve(hostname);
+    } catch {
+      // Reported below like a name without addresses
+    }
+  }
+  if (addresses.length === 0) {
+    return {
+      allowed: false,
+      error: `Could not resolve ${hostname}`,
+      retryable: true,
+    };
+  }
+
+  const isBlocked = addresses.some(
+    (address) =>
+      isBlockedAddress(address) &&
+      !(allowsLoopback() && isLoopbackAddress(address))
+  );
+  return isBlocked
+    ? { allowed: false, error: BLOCKED_ERROR, retryable: false }
+    : { allowed: true, error: null };
+}
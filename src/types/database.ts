@@ -1,5 +1,95 @@
 import type { PartialBlock } from "@blocknote/core";
 
+// Mirrors the public.todo_priority enum, from least to most important
+export type TodoPriority = "none" | "low" | "medium" | "high" | "urgent";
+
+// Repeat rule stored in todos.recurrence. `interval` repeats every n
+// days/weeks/months/years; weekdays use 0 for Sunday, months start at 1.
+export type TodoRecurrence =
+  | { freq: "daily"; interval: number }
+  | { freq: "weekdays" }
+  | { freq: "weekly"; interval: number; weekdays: number[] }
+  | { freq: "monthly"; interval: number; dayOfMonth: number }
+  | { freq: "yearly"; interval: number; month: number; day: number };
+
+// Database types based on the projects table schema
+export type Project = {
+  id: number;
+  name: string;
+  color: string;
+  icon: string;
+  archived: boolean;
+  is_inbox: boolean;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+};
+
+// Database types based on the tags table schema
+export type Tag = {
+  id: number;
+  name: string;
+  color: string;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+};
+
+// Read-only tokens may list and load todos; write tokens may also change them
+export type ApiTokenScope = "read" | "write";
+
+// A personal access token as listed to its owner; the hash never leaves the server
+export type ApiToken = {
+  id: number;
+  name: string;
+  scope: ApiTokenScope;
+  token_prefix: string;
+  last_used_at: string | null;
+  created_at: string;
+};
+
+// Mirrors the events check on public.webhook_endpoints
+export type WebhookEventType =
+  | "todo.created"
+  | "todo.completed"
+  | "todo.deleted";
+
+// Database types based on the webhook_endpoints table schema
+export type WebhookEndpoint = {
+  id: number;
+  url: string;
+  events: WebhookEventType[];
+  secret: string;
+  enabled: boolean;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+// One event sent to an endpoint, as kept in its delivery log
+export type WebhookDelivery = {
+  id: number;
+  endpoint_id: number;
+  event: WebhookEventType | "webhook.test";
+  payload: unknown;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  created_at: string;
+  last_attempt_at: string | null;
+};
+
+// A user's iCalendar feed as shown in settings, without its token hash
+export type CalendarFeed = {
+  token_prefix: string;
+  time_zone: string;
+  last_fetched_at: string | null;
+  created_at: string;
+};
+
 // Database types based on the todos table schema
 export type Todo = {
   id: number;
@@ -7,17 +97,40 @@ export type Todo = {
   description: string | null;
   content: PartialBlock[];
   done: boolean;
+  start_at: string | null;
+  due_at: string | null;
+  priority: TodoPriority;
+  tags: Tag[];
+  project_id: number;
+  parent_id: number | null;
+  subtask_position: number;
+  recurrence: TodoRecurrence | null;
+  position: string;
+  deleted_at: string | null;
+  completed_at: string | null;
+  archived_at: string | null;
   user_id: string;
   created_at: string;
   updated_at: string;
 };
 
+// A todo as the list loads it, without the BlockNote content
+export type TodoListItem = Omit<Todo, "content">;
+
 export type TodoInsert = {
   text: string;
   description?: string | null;
   content?: PartialBlock[];
   user_id: string;
   done?: boolean;
+  start_at?: string | null;
+  due_at?: string | null;
+  priority?: TodoPriority;
+  project_id: number;
+  parent_id?: number | null;
+  subtask_position?: number;
+  recurrence?: TodoRecurrence | null;
+  position: string;
 };
 
 export type TodoUpdate = {
@@ -25,11 +138,41 @@ export type TodoUpdate = {
   description?: string | null;
   content?: PartialBlock[];
   done?: boolean;
+  start_at?: string | null;
+  due_at?: string | null;
+  priority?: TodoPriority;
+  project_id?: number;
+  parent_id?: number | null;
+  subtask_position?: number;
+  recurrence?: TodoRecurrence | null;
+  position?: string;
+  deleted_at?: string | null;
+  completed_at?: string | null;
+  archived_at?: string | null;
+};
+
+// A write refused because the todo changed after the client read it
+export type TodoConflict = {
+  code: "conflict";
+  // The todo as it is stored now
+  current: Todo;
 };
 
+// Why an action failed, for callers that map failures to statuses (the REST API)
+export type ActionErrorCode =
+  | "validation_error"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "conflict"
+  | "internal_error";
+
 // Server action response type
 export type ActionResponse<T = void> = {
   success: boolean;
   data?: T;
   error?: string;
+  // Left out where the failure is an internal one
+  code?: ActionErrorCode;
+  conflict?: TodoConflict;
 };
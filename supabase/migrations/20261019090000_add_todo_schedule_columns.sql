@@ -0,0 +1,27 @@
+/*
+ * migration: add todo schedule columns
+ * purpose: let todos carry an optional start date and due date so they can be planned in time
+ * tables affected: public.todos (start_at, due_at)
+ * notes:
+ *   - both columns are nullable; existing rows keep no dates
+ *   - a check constraint keeps start_at on or before due_at when both are set
+ */
+
+-- add the optional moment work on a todo is planned to begin
+alter table public.todos
+add column start_at timestamptz;
+
+-- add the optional moment a todo is expected to be finished
+alter table public.todos
+add column due_at timestamptz;
+
+comment on column public.todos.start_at is 'Optional timestamp when work on the todo is planned to start';
+comment on column public.todos.due_at is 'Optional timestamp when the todo is due';
+
+-- reject schedules that end before they start
+alter table public.todos
+add constraint todos_start_before_due_check
+check (start_at is null or due_at is null or start_at <= due_at);
+
+-- speed up grouping a user's todos by due date
+create index todos_user_id_due_at_idx on public.todos (user_id, due_at);
@@ -0,0 +1,22 @@
+/*
+ * migration: add todo priority
+ * purpose: give todos an explicit priority level that can be displayed and sorted on
+ * tables affected: public.todos (priority)
+ * notes:
+ *   - introduces the public.todo_priority enum; its declaration order defines sort order (none lowest, urgent highest)
+ *   - existing rows default to 'none'
+ */
+
+-- priority levels in ascending order of importance
+create type public.todo_priority as enum ('none', 'low', 'medium', 'high', 'urgent');
+
+comment on type public.todo_priority is 'Priority levels for todos, declared from least to most important so ordering by the enum sorts by importance.';
+
+-- add the priority column; every existing todo starts without a priority
+alter table public.todos
+add column priority public.todo_priority not null default 'none';
+
+comment on column public.todos.priority is 'Priority level of the todo item';
+
+-- speed up listing a user's todos by priority
+create index todos_user_id_priority_idx on public.todos (user_id, priority);
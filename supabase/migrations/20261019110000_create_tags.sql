@@ -0,0 +1,197 @@
+/*
+ * migration: create tags and todo_tags
+ * purpose: let users label todos (by client, area, ...) and filter their list by those labels
+ * tables affected: public.tags (new), public.todo_tags (new)
+ * rls: enabled on both tables with the same access model as public.todos
+ *   - authenticated users: full crud on their own rows
+ *   - anonymous users: read-only access for demo purposes
+ * notes:
+ *   - tag names are unique per user, ignoring case
+ *   - todo_tags rows cascade away with either their todo or their tag
+ */
+
+-- create tags table
+create table public.tags (
+  id bigint generated always as identity primary key,
+  name text not null,
+  color text not null default '#7c9885',
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint tags_name_length_check check (char_length(name) between 1 and 40),
+  constraint tags_color_format_check check (color ~ '^#[0-9a-fA-F]{6}$')
+);
+
+comment on table public.tags is 'User-defined labels that can be attached to todos. Each tag belongs to a user.';
+comment on column public.tags.id is 'Unique identifier for the tag';
+comment on column public.tags.name is 'Display name of the tag, unique per user ignoring case';
+comment on column public.tags.color is 'Hex color (#rrggbb) used to render the tag';
+comment on column public.tags.user_id is 'Reference to the user who owns this tag';
+comment on column public.tags.created_at is 'Timestamp when the tag was created';
+comment on column public.tags.updated_at is 'Timestamp when the tag was last updated';
+
+-- prevent duplicate tag names for the same user regardless of case
+create unique index tags_user_id_name_key on public.tags (user_id, lower(name));
+
+-- create todo_tags join table
+create table public.todo_tags (
+  todo_id bigint not null references public.todos (id) on delete cascade,
+  tag_id bigint not null references public.tags (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (todo_id, tag_id)
+);
+
+comment on table public.todo_tags is 'Links todos to tags (many-to-many). user_id is denormalized from the todo so policies stay simple.';
+comment on column public.todo_tags.todo_id is 'Reference to the tagged todo';
+comment on column public.todo_tags.tag_id is 'Reference to the attached tag';
+comment on column public.todo_tags.user_id is 'Reference to the user who owns both the todo and the tag';
+comment on column public.todo_tags.created_at is 'Timestamp when the tag was attached';
+
+-- Enable Row Level Security
+alter table public.tags enable row level security;
+alter table public.todo_tags enable row level security;
+
+-- RLS Policy: Allow authenticated users to select their own tags
+create policy "authenticated_users_select_own_tags"
+  on public.tags
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- RLS Policy: Allow anonymous users to select all tags
+-- Note: Mirrors the public read access granted on todos for demo purposes
+create policy "anon_users_select_tags"
+  on public.tags
+  for select
+  to anon
+  using (true);
+
+-- RLS Policy: Allow authenticated users to insert their own tags
+create policy "authenticated_users_insert_own_tags"
+  on public.tags
+  for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+-- RLS Policy: Prevent anonymous users from inserting tags
+create policy "anon_users_insert_tags"
+  on public.tags
+  for insert
+  to anon
+  with check (false);
+
+-- RLS Policy: Allow authenticated users to update their own tags
+create policy "authenticated_users_update_own_tags"
+  on public.tags
+  for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- RLS Policy: Prevent anonymous users from updating tags
+create policy "anon_users_update_tags"
+  on public.tags
+  for update
+  to anon
+  using (false)
+  with check (false);
+
+-- RLS Policy: Allow authenticated users to delete their own tags
+create policy "authenticated_users_delete_own_tags"
+  on public.tags
+  for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- RLS Policy: Prevent anonymous users from deleting tags
+create policy "anon_users_delete_tags"
+  on public.tags
+  for delete
+  to anon
+  using (false);
+
+-- RLS Policy: Allow authenticated users to select their own todo/tag links
+create policy "authenticated_users_select_own_todo_tags"
+  on public.todo_tags
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- RLS Policy: Allow anonymous users to select all todo/tag links
+-- Note: Matches anonymous read access on todos and tags
+create policy "anon_users_select_todo_tags"
+  on public.todo_tags
+  for select
+  to anon
+  using (true);
+
+-- RLS Policy: Allow authenticated users to link their own todos and tags
+-- Note: Both the todo and the tag must belong to the caller
+create policy "authenticated_users_insert_own_todo_tags"
+  on public.todo_tags
+  for insert
+  to authenticated
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.todos
+      where public.todos.id = todo_id and public.todos.user_id = auth.uid()
+    )
+    and exists (
+      select 1 from public.tags
+      where public.tags.id = tag_id and public.tags.user_id = auth.uid()
+    )
+  );
+
+-- RLS Policy: Prevent anonymous users from linking todos and tags
+create policy "anon_users_insert_todo_tags"
+  on public.todo_tags
+  for insert
+  to anon
+  with check (false);
+
+-- RLS Policy: Allow authenticated users to update their own todo/tag links
+create policy "authenticated_users_update_own_todo_tags"
+  on public.todo_tags
+  for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- RLS Policy: Prevent anonymous users from updating todo/tag links
+create policy "anon_users_update_todo_tags"
+  on public.todo_tags
+  for update
+  to anon
+  using (false)
+  with check (false);
+
+-- RLS Policy: Allow authenticated users to unlink their own todos and tags
+create policy "authenticated_users_delete_own_todo_tags"
+  on public.todo_tags
+  for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- RLS Policy: Prevent anonymous users from unlinking todos and tags
+create policy "anon_users_delete_todo_tags"
+  on public.todo_tags
+  for delete
+  to anon
+  using (false);
+
+-- Create index for listing a user's tags
+create index tags_user_id_idx on public.tags (user_id);
+
+-- Create index for filtering todos by tag
+create index todo_tags_tag_id_idx on public.todo_tags (tag_id);
+
+-- Create index for loading a user's todo/tag links
+create index todo_tags_user_id_idx on public.todo_tags (user_id);
+
+-- Trigger to automatically update updated_at on tag update
+create trigger set_updated_at
+  before update on public.tags
+  for each row
+  execute function public.handle_updated_at();
@@ -0,0 +1,138 @@
+/*
+ * migration: create projects
+ * purpose: partition a user's todos into named projects (lists) with a color, an icon and an archive flag
+ * tables affected: public.projects (new), public.todos (project_id)
+ * rls: enabled on public.projects with the same access model as public.todos;
+ *      the inbox project cannot be deleted
+ * notes:
+ *   - every user gets exactly one inbox project (is_inbox = true); existing todos are moved into it
+ *   - todos.project_id uses "on delete restrict" so deleting a project never cascades to its todos;
+ *     the application moves todos to the inbox before deleting a project
+ */
+
+-- create projects table
+create table public.projects (
+  id bigint generated always as identity primary key,
+  name text not null,
+  color text not null default '#7c9885',
+  icon text not null default 'folder',
+  archived boolean not null default false,
+  is_inbox boolean not null default false,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint projects_name_length_check check (char_length(name) between 1 and 60),
+  constraint projects_color_format_check check (color ~ '^#[0-9a-fA-F]{6}$'),
+  constraint projects_inbox_not_archived_check check (not (is_inbox and archived))
+);
+
+comment on table public.projects is 'Named lists that partition a user''s todos. Each user has one inbox project that collects unfiled todos.';
+comment on column public.projects.id is 'Unique identifier for the project';
+comment on column public.projects.name is 'Display name of the project';
+comment on column public.projects.color is 'Hex color (#rrggbb) used to render the project';
+comment on column public.projects.icon is 'Icon key used to render the project';
+comment on column public.projects.archived is 'Whether the project is archived and hidden from the switcher';
+comment on column public.projects.is_inbox is 'Whether this is the user''s inbox project, the default home for todos';
+comment on column public.projects.user_id is 'Reference to the user who owns this project';
+comment on column public.projects.created_at is 'Timestamp when the project was created';
+comment on column public.projects.updated_at is 'Timestamp when the project was last updated';
+
+-- one inbox per user
+create unique index projects_user_id_inbox_key on public.projects (user_id) where is_inbox;
+
+-- Create index for listing a user's projects
+create index projects_user_id_idx on public.projects (user_id);
+
+-- Enable Row Level Security
+alter table public.projects enable row level security;
+
+-- RLS Policy: Allow authenticated users to select their own projects
+create policy "authenticated_users_select_own_projects"
+  on public.projects
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- RLS Policy: Allow anonymous users to select all projects
+-- Note: Mirrors the public read access granted on todos for demo purposes
+create policy "anon_users_select_projects"
+  on public.projects
+  for select
+  to anon
+  using (true);
+
+-- RLS Policy: Allow authenticated users to insert their own projects
+create policy "authenticated_users_insert_own_projects"
+  on public.projects
+  for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+-- RLS Policy: Prevent anonymous users from inserting projects
+create policy "anon_users_insert_projects"
+  on public.projects
+  for insert
+  to anon
+  with check (false);
+
+-- RLS Policy: Allow authenticated users to update their own projects
+create policy "authenticated_users_update_own_projects"
+  on public.projects
+  for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- RLS Policy: Prevent anonymous users from updating projects
+create policy "anon_users_update_projects"
+  on public.projects
+  for update
+  to anon
+  using (false)
+  with check (false);
+
+-- RLS Policy: Allow authenticated users to delete their own projects, except the inbox
+-- Note: The inbox is the fallback home for todos and must always exist
+create policy "authenticated_users_delete_own_projects"
+  on public.projects
+  for delete
+  to authenticated
+  using (auth.uid() = user_id and not is_inbox);
+
+-- RLS Policy: Prevent anonymous users from deleting projects
+create policy "anon_users_delete_projects"
+  on public.projects
+  for delete
+  to anon
+  using (false);
+
+-- Trigger to automatically update updated_at on project update
+create trigger set_updated_at
+  before update on public.projects
+  for each row
+  execute function public.handle_updated_at();
+
+-- add the project reference; restrict deletes so removing a project never removes todos
+alter table public.todos
+add column project_id bigint references public.projects (id) on delete restrict;
+
+comment on column public.todos.project_id is 'Reference to the project (list) this todo belongs to';
+
+-- create an inbox for every user that already has todos
+insert into public.projects (name, icon, is_inbox, user_id)
+select distinct 'Inbox', 'inbox', true, public.todos.user_id
+from public.todos;
+
+-- file every existing todo under its owner's inbox
+update public.todos
+set project_id = public.projects.id
+from public.projects
+where public.projects.user_id = public.todos.user_id
+and public.projects.is_inbox;
+
+-- every todo must now belong to a project
+alter table public.todos
+  alter column project_id set not null;
+
+-- Create index for listing a project's todos
+create index todos_project_id_idx on public.todos (project_id);
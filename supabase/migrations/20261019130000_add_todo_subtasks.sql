@@ -0,0 +1,70 @@
+/*
+ * migration: add todo subtasks
+ * purpose: let a todo be broken down into ordered subtasks through a parent reference
+ * tables affected: public.todos
+ * columns added: parent_id (bigint, nullable), subtask_position (integer, not null, default 0)
+ * notes:
+ *   - subtasks are one level deep: a subtask cannot have subtasks of its own
+ *   - a subtask always belongs to the same user and project as its parent
+ *   - deleting a parent deletes its subtasks
+ */
+
+-- add the self reference and the ordering of subtasks beneath their parent
+alter table public.todos
+  add column parent_id bigint references public.todos (id) on delete cascade,
+  add column subtask_position integer not null default 0;
+
+comment on column public.todos.parent_id is 'Reference to the parent todo when this todo is a subtask';
+comment on column public.todos.subtask_position is 'Order of the subtask beneath its parent, ascending';
+
+-- a todo cannot be its own parent
+alter table public.todos
+  add constraint todos_parent_not_self_check
+  check (parent_id is null or parent_id <> id);
+
+/*
+ * function: public.enforce_todo_parent()
+ * keeps subtasks one level deep, owned by the parent's user and filed under the parent's project
+ */
+create or replace function public.enforce_todo_parent()
+returns trigger as $$
+declare
+  parent record;
+begin
+  if new.parent_id is null then
+    return new;
+  end if;
+
+  select user_id, parent_id, project_id
+  into parent
+  from public.todos
+  where id = new.parent_id;
+
+  if not found or parent.user_id <> new.user_id then
+    raise exception 'parent todo % not found', new.parent_id
+      using errcode = 'foreign_key_violation';
+  end if;
+
+  if parent.parent_id is not null then
+    raise exception 'subtasks cannot have subtasks'
+      using errcode = 'check_violation';
+  end if;
+
+  if exists (select 1 from public.todos where parent_id = new.id) then
+    raise exception 'a todo with subtasks cannot become a subtask'
+      using errcode = 'check_violation';
+  end if;
+
+  new.project_id = parent.project_id;
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger enforce_todo_parent
+  before insert or update of parent_id on public.todos
+  for each row
+  execute function public.enforce_todo_parent();
+
+-- Create index for listing a parent's subtasks in order
+create index todos_parent_id_idx on public.todos (parent_id, subtask_position)
+  where parent_id is not null;
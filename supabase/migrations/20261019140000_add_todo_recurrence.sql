@@ -0,0 +1,20 @@
+/*
+ * migration: add todo recurrence
+ * purpose: let a todo repeat on a schedule (daily, weekdays, every n weeks on given days, monthly, yearly)
+ * tables affected: public.todos (recurrence)
+ * notes:
+ *   - the rule is stored as a json object validated by the application, e.g.
+ *     {"freq": "weekly", "interval": 2, "weekdays": [2]} for every other tuesday
+ *   - completing a recurring todo creates its next occurrence, which takes the rule over
+ */
+
+-- add the optional repeat rule
+alter table public.todos
+add column recurrence jsonb;
+
+comment on column public.todos.recurrence is 'Optional repeat rule as a JSON object; completing the todo creates the next occurrence';
+
+-- only json objects are valid rules
+alter table public.todos
+add constraint todos_recurrence_object_check
+check (recurrence is null or jsonb_typeof(recurrence) = 'object');
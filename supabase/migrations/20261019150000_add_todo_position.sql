@@ -0,0 +1,33 @@
+/*
+ * migration: add todo position
+ * purpose: let users arrange todos by hand with an order that survives reloads
+ * tables affected: public.todos (position)
+ * notes:
+ *   - position is a fractional index key: moving a todo writes a key between
+ *     its new neighbours, so a reorder touches a single row
+ *   - keys compare byte by byte, hence the "C" collation
+ *   - existing todos are numbered per user in creation order
+ */
+
+-- add the order key, nullable until existing rows are backfilled
+alter table public.todos
+add column position text collate "C";
+
+comment on column public.todos.position is 'Fractional index key for manual ordering, ascending';
+
+-- number existing todos per user, oldest first; keys end in a non-zero digit as the key format requires
+update public.todos
+set position = numbered.position
+from (
+  select
+    id,
+    'a0' || lpad(row_number() over (partition by user_id order by created_at, id)::text, 10, '0') || 'V' as position
+  from public.todos
+) as numbered
+where public.todos.id = numbered.id;
+
+alter table public.todos
+alter column position set not null;
+
+-- Create index for listing a user's todos in manual order
+create index todos_user_id_position_idx on public.todos (user_id, position);
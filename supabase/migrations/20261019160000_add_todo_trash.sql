@@ -0,0 +1,20 @@
+/*
+ * migration: add todo trash
+ * purpose: deleting a todo moves it to the trash so it can be restored
+ * tables affected: public.todos (deleted_at)
+ * notes:
+ *   - a todo is in the trash while deleted_at is set; trashing a todo trashes its subtasks
+ *     with the same timestamp so they are restored together
+ *   - the application purges trashed todos once they are older than the retention period
+ *     (TODO_TRASH_RETENTION_DAYS, 30 days by default); a purge is a real delete
+ */
+
+-- add the trash timestamp
+alter table public.todos
+add column deleted_at timestamptz;
+
+comment on column public.todos.deleted_at is 'When the todo was moved to the trash; null while it is not trashed';
+
+-- Create index for listing and purging a user's trash
+create index todos_user_id_deleted_at_idx on public.todos (user_id, deleted_at)
+  where deleted_at is not null;
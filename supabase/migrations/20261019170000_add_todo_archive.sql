@@ -0,0 +1,26 @@
+/*
+ * migration: add todo archive
+ * purpose: keep a record of completed todos without cluttering the list
+ * tables affected: public.todos (completed_at, archived_at)
+ * notes:
+ *   - completed_at is set when a todo is completed and cleared when it is reopened
+ *   - "clear completed" archives completed todos, with their subtasks, instead of deleting them
+ *   - existing completed todos take their last update as their completion time
+ */
+
+-- add the completion and archive timestamps
+alter table public.todos
+  add column completed_at timestamptz,
+  add column archived_at timestamptz;
+
+comment on column public.todos.completed_at is 'When the todo was completed; null while it is open';
+comment on column public.todos.archived_at is 'When the completed todo was archived; null while it is in the list';
+
+-- best guess for todos completed before completed_at existed
+update public.todos
+set completed_at = updated_at
+where done and completed_at is null;
+
+-- Create index for the archive history, newest completions first
+create index todos_user_id_completed_at_idx on public.todos (user_id, completed_at desc)
+  where archived_at is not null;
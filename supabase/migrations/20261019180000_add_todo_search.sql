@@ -0,0 +1,85 @@
+/*
+ * migration: add todo full-text search
+ * purpose: search todos by title, description and the text of their rich content
+ * tables affected: public.todos (search_vector)
+ * functions added: public.todo_content_plain_text(jsonb), public.search_todos(text, integer)
+ * notes:
+ *   - the search vector weighs the title above the description, and the description above
+ *     the blocknote content; it is a stored generated column, so it never goes stale
+ *   - search_todos runs as the caller, so row level security limits it to the user's own todos
+ *   - every search word matches as a prefix, which keeps results useful while typing
+ *   - snippets mark matches with the private use characters U+E000 and U+E001, which the
+ *     application turns into highlights without interpreting any markup
+ */
+
+/*
+ * function: public.todo_content_plain_text(content jsonb)
+ * concatenates every "text" string found anywhere in the blocknote block tree
+ */
+create or replace function public.todo_content_plain_text(content jsonb)
+returns text as $$
+  select coalesce(
+    string_agg(value #>> '{}', ' '),
+    ''
+  )
+  from jsonb_path_query(
+    coalesce(content, '[]'::jsonb),
+    'strict $.**.text ? (@.type() == "string")'
+  ) as value;
+$$ language sql immutable;
+
+-- add the weighted search document
+alter table public.todos
+add column search_vector tsvector generated always as (
+  setweight(to_tsvector('english', coalesce(text, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+  setweight(to_tsvector('english', public.todo_content_plain_text(content)), 'C')
+) stored;
+
+comment on column public.todos.search_vector is 'Full-text search document built from text, description and the plain text of content';
+
+-- Create index for full-text search
+create index todos_search_vector_idx on public.todos using gin (search_vector);
+
+/*
+ * function: public.search_todos(search text, max_results integer)
+ * ranks the caller's todos that are neither archived nor trashed against the search words
+ * and returns a highlighted snippet for each match
+ */
+create or replace function public.search_todos(search text, max_results integer default 50)
+returns table (id bigint, rank real, snippet text) as $$
+#variable_conflict use_column
+declare
+  prefix_query text;
+  search_query tsquery;
+begin
+  select string_agg(quote_literal(term) || ':*', ' & ')
+  into prefix_query
+  from regexp_split_to_table(lower(search), '[^[:alnum:]]+') as term
+  where term <> '';
+
+  if prefix_query is null then
+    return;
+  end if;
+
+  search_query := to_tsquery('english', prefix_query);
+
+  return query
+  select
+    todos.id,
+    ts_rank_cd(todos.search_vector, search_query) as rank,
+    ts_headline(
+      'english',
+      concat_ws(' — ', todos.text, todos.description, nullif(public.todo_content_plain_text(todos.content), '')),
+      search_query,
+      'StartSel=' || U&'\E000' || ', StopSel=' || U&'\E001' || ', MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+    ) as snippet
+  from public.todos
+  where todos.search_vector @@ search_query
+    and todos.user_id = auth.uid()
+    and todos.archived_at is null
+    and todos.deleted_at is null
+  order by rank desc, todos.created_at desc
+  limit greatest(1, least(max_results, 200));
+end;
+$$ language plpgsql stable security invoker;
@@ -0,0 +1,129 @@
+/*
+ * migration: add bulk todo actions
+ * purpose: apply one change to many selected todos in a single round trip and transaction
+ * tables affected: public.todos, public.todo_tags
+ * functions added: public.bulk_set_todos_done(bigint[], boolean), public.bulk_trash_todos(bigint[]),
+ *   public.bulk_move_todos(bigint[], bigint), public.bulk_set_todo_tag(bigint[], bigint, boolean)
+ * notes:
+ *   - every function runs as the caller, so row level security limits it to the user's own todos;
+ *     ids the caller does not own, or that are in the trash, are skipped rather than reported
+ *   - each function returns the ids it changed, as rows of (id), so the application can read back exactly those rows
+ *   - completing and reopening follow the single toggle: reopening takes a todo out of the archive
+ *   - subtasks are trashed and moved together with their parent, as with the single-todo actions
+ */
+
+/*
+ * function: public.bulk_set_todos_done(todo_ids bigint[], mark_done boolean)
+ * completes or reopens the given todos, leaving the ones already in that state untouched
+ */
+create or replace function public.bulk_set_todos_done(todo_ids bigint[], mark_done boolean)
+returns table (id bigint) as $$
+  update public.todos
+  set done = mark_done,
+      completed_at = case when mark_done then now() else null end,
+      archived_at = case when mark_done then archived_at else null end
+  where id = any(todo_ids)
+    and user_id = auth.uid()
+    and deleted_at is null
+    and done <> mark_done
+  returning id;
+$$ language sql volatile security invoker;
+
+/*
+ * function: public.bulk_trash_todos(todo_ids bigint[])
+ * moves the given todos and their subtasks to the trash; they share one deleted_at,
+ * so restoring a parent brings its subtasks back with it
+ */
+create or replace function public.bulk_trash_todos(todo_ids bigint[])
+returns table (id bigint) as $$
+  update public.todos
+  set deleted_at = now()
+  where (id = any(todo_ids) or parent_id = any(todo_ids))
+    and user_id = auth.uid()
+    and deleted_at is null
+  returning id;
+$$ language sql volatile security invoker;
+
+/*
+ * function: public.bulk_move_todos(todo_ids bigint[], target_project_id bigint)
+ * moves the given top-level todos, and all of their subtasks, to another project;
+ * subtasks that were selected on their own stay with their parent
+ */
+create or replace function public.bulk_move_todos(todo_ids bigint[], target_project_id bigint)
+returns table (id bigint) as $$
+#variable_conflict use_column
+begin
+  if not exists (
+    select 1 from public.projects
+    where id = target_project_id and user_id = auth.uid()
+  ) then
+    raise exception 'project % not found', target_project_id
+      using errcode = 'foreign_key_violation';
+  end if;
+
+  return query
+  with moved_parents as (
+    update public.todos
+    set project_id = target_project_id
+    where id = any(todo_ids)
+      and parent_id is null
+      and user_id = auth.uid()
+      and deleted_at is null
+    returning id
+  ),
+  moved_subtasks as (
+    update public.todos
+    set project_id = target_project_id
+    where parent_id in (select moved_parents.id from moved_parents)
+      and user_id = auth.uid()
+    returning id
+  )
+  select moved_parents.id from moved_parents
+  union all
+  select moved_subtasks.id from moved_subtasks;
+end;
+$$ language plpgsql volatile security invoker;
+
+/*
+ * function: public.bulk_set_todo_tag(todo_ids bigint[], target_tag_id bigint, attach boolean)
+ * attaches a tag to, or detaches it from, every given todo; attaching a tag that is
+ * already there is a no-op
+ */
+create or replace function public.bulk_set_todo_tag(todo_ids bigint[], target_tag_id bigint, attach boolean)
+returns table (id bigint) as $$
+#variable_conflict use_column
+begin
+  if not exists (
+    select 1 from public.tags
+    where id = target_tag_id and user_id = auth.uid()
+  ) then
+    raise exception 'tag % not found', target_tag_id
+      using errcode = 'foreign_key_violation';
+  end if;
+
+  if attach then
+    return query
+    with attached as (
+      insert into public.todo_tags (todo_id, tag_id, user_id)
+      select todos.id, target_tag_id, auth.uid()
+      from public.todos
+      where todos.id = any(todo_ids)
+        and todos.user_id = auth.uid()
+        and todos.deleted_at is null
+      on conflict (todo_id, tag_id) do nothing
+      returning todo_tags.todo_id
+    )
+    select attached.todo_id from attached;
+  else
+    return query
+    with detached as (
+      delete from public.todo_tags
+      where todo_tags.todo_id = any(todo_ids)
+        and todo_tags.tag_id = target_tag_id
+        and todo_tags.user_id = auth.uid()
+      returning todo_tags.todo_id
+    )
+    select detached.todo_id from detached;
+  end if;
+end;
+$$ language plpgsql volatile security invoker;
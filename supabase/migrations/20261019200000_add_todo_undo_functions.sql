@@ -0,0 +1,40 @@
+/*
+ * migration: add todo undo functions
+ * purpose: take back a trash or an archive of many todos in a single round trip, for undo
+ * tables affected: public.todos
+ * functions added: public.restore_todos(bigint[]), public.unarchive_todos(bigint[])
+ * notes:
+ *   - both run as the caller, so row level security limits them to the user's own todos
+ *   - they restore exactly the ids given; the application passes the ids the original
+ *     action reported, subtasks included, so nothing trashed or archived separately comes back
+ *   - both return the restored rows, which the application reads back with their tags
+ */
+
+/*
+ * function: public.restore_todos(todo_ids bigint[])
+ * takes the given todos back out of the trash
+ */
+create or replace function public.restore_todos(todo_ids bigint[])
+returns setof public.todos as $$
+  update public.todos
+  set deleted_at = null
+  where id = any(todo_ids)
+    and user_id = auth.uid()
+    and deleted_at is not null
+  returning *;
+$$ language sql volatile security invoker;
+
+/*
+ * function: public.unarchive_todos(todo_ids bigint[])
+ * brings the given todos back from the archive to the completed list
+ */
+create or replace function public.unarchive_todos(todo_ids bigint[])
+returns setof public.todos as $$
+  update public.todos
+  set archived_at = null
+  where id = any(todo_ids)
+    and user_id = auth.uid()
+    and archived_at is not null
+    and deleted_at is null
+  returning *;
+$$ language sql volatile security invoker;
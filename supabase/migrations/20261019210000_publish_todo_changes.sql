@@ -0,0 +1,12 @@
+/*
+ * migration: publish todo changes
+ * purpose: let open tabs and devices pick up each other's edits without a reload
+ * tables affected: public.todos (added to the supabase_realtime publication)
+ * notes:
+ *   - realtime checks row level security for each subscriber, so users only receive changes to their own todos
+ *   - the default replica identity is kept: updates carry the whole new row, deletes only the primary key,
+ *     which is all the application needs to drop a purged todo
+ *   - trashing, archiving and restoring are updates, so they arrive with the full row
+ */
+
+alter publication supabase_realtime add table public.todos;
@@ -0,0 +1,83 @@
+/*
+ * migration: create api_tokens
+ * purpose: personal access tokens, so scripts and other non-browser clients can use the api without a cookie session
+ * tables affected: public.api_tokens (new)
+ * functions added: public.authenticate_api_token(text)
+ * rls: enabled; authenticated users can list, create and revoke (delete) their own tokens
+ *   - unlike the other tables, anonymous users get no access at all
+ *   - nobody updates rows directly; last_used_at is set by public.authenticate_api_token
+ * notes:
+ *   - only a sha-256 hash of each token is stored; the token itself is shown once, when it is created
+ *   - token_prefix keeps the first characters so users can tell their tokens apart
+ *   - scope 'read' allows reading todos, 'write' also allows changing them
+ */
+
+-- create api_tokens table
+create table public.api_tokens (
+  id bigint generated always as identity primary key,
+  name text not null,
+  scope text not null default 'read',
+  token_hash text not null,
+  token_prefix text not null,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  last_used_at timestamptz,
+  created_at timestamptz not null default now(),
+  constraint api_tokens_name_length_check check (char_length(name) between 1 and 60),
+  constraint api_tokens_scope_check check (scope in ('read', 'write')),
+  constraint api_tokens_token_hash_key unique (token_hash)
+);
+
+comment on table public.api_tokens is 'Personal access tokens for the REST api. Only a hash of each token is stored.';
+comment on column public.api_tokens.id is 'Unique identifier for the token';
+comment on column public.api_tokens.name is 'Name the user gave the token, such as the script that uses it';
+comment on column public.api_tokens.scope is 'read: read todos only; write: read and change todos';
+comment on column public.api_tokens.token_hash is 'Hex sha-256 hash of the token';
+comment on column public.api_tokens.token_prefix is 'First characters of the token, to recognise it in the list';
+comment on column public.api_tokens.user_id is 'Reference to the user the token acts as';
+comment on column public.api_tokens.last_used_at is 'Timestamp of the last request made with the token';
+comment on column public.api_tokens.created_at is 'Timestamp when the token was created';
+
+-- Enable Row Level Security
+alter table public.api_tokens enable row level security;
+
+-- RLS Policy: Allow authenticated users to select their own tokens
+create policy "authenticated_users_select_own_api_tokens"
+  on public.api_tokens
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- RLS Policy: Allow authenticated users to create tokens for themselves
+create policy "authenticated_users_insert_own_api_tokens"
+  on public.api_tokens
+  for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+-- RLS Policy: Allow authenticated users to revoke their own tokens
+create policy "authenticated_users_delete_own_api_tokens"
+  on public.api_tokens
+  for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Create index for listing a user's tokens
+create index api_tokens_user_id_idx on public.api_tokens (user_id);
+
+/*
+ * function: public.authenticate_api_token(hash text)
+ * looks up the token with the given hash, records that it was used and returns who it acts
+ * as and with which scope; no rows for an unknown or revoked token.
+ * runs as its owner because the caller is not signed in yet, so it can only ever see the
+ * one row whose hash it already knows
+ */
+create or replace function public.authenticate_api_token(hash text)
+returns table (user_id uuid, scope text) as $$
+  update public.api_tokens
+  set last_used_at = now()
+  where token_hash = hash
+  returning user_id, scope;
+$$ language sql volatile security definer set search_path = '';
+
+revoke execute on function public.authenticate_api_token(text) from public;
+grant execute on function public.authenticate_api_token(text) to anon, authenticated;
@@ -0,0 +1,151 @@
+/*
+ * migration: create webhook endpoints and deliveries
+ * purpose: let users trigger automations when their todos are created, completed or deleted
+ * tables affected: public.webhook_endpoints (new), public.webhook_deliveries (new)
+ * rls: enabled on both tables; authenticated users have full crud on their own rows
+ *   - unlike the todo tables, anonymous users get no access: endpoints hold signing secrets
+ * notes:
+ *   - events lists the event types an endpoint receives (todo.created, todo.completed, todo.deleted)
+ *   - secret signs every payload (hmac sha-256); the app needs it in clear text to sign, so it is
+ *     readable by its owner only
+ *   - one delivery row per event and endpoint, updated after every attempt; rows cascade away
+ *     with their endpoint
+ */
+
+-- create webhook_endpoints table
+create table public.webhook_endpoints (
+  id bigint generated always as identity primary key,
+  url text not null,
+  events text[] not null,
+  secret text not null,
+  enabled boolean not null default true,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint webhook_endpoints_url_check check (url ~ '^https?://' and char_length(url) <= 2000),
+  constraint webhook_endpoints_events_check check (
+    cardinality(events) > 0
+    and events <@ array['todo.created', 'todo.completed', 'todo.deleted']
+  )
+);
+
+comment on table public.webhook_endpoints is 'URLs that receive signed JSON payloads when a user''s todos change.';
+comment on column public.webhook_endpoints.id is 'Unique identifier for the endpoint';
+comment on column public.webhook_endpoints.url is 'http(s) URL the payloads are posted to';
+comment on column public.webhook_endpoints.events is 'Event types the endpoint receives';
+comment on column public.webhook_endpoints.secret is 'Key of the hmac sha-256 signature sent with every payload';
+comment on column public.webhook_endpoints.enabled is 'Whether events are currently sent to the endpoint';
+comment on column public.webhook_endpoints.user_id is 'Reference to the user who owns this endpoint';
+comment on column public.webhook_endpoints.created_at is 'Timestamp when the endpoint was created';
+comment on column public.webhook_endpoints.updated_at is 'Timestamp when the endpoint was last updated';
+
+-- create webhook_deliveries table
+create table public.webhook_deliveries (
+  id bigint generated always as identity primary key,
+  endpoint_id bigint not null references public.webhook_endpoints (id) on delete cascade,
+  event text not null,
+  payload jsonb not null,
+  status text not null default 'pending',
+  attempts integer not null default 0,
+  response_status integer,
+  error text,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  last_attempt_at timestamptz,
+  constraint webhook_deliveries_status_check check (status in ('pending', 'succeeded', 'failed'))
+);
+
+comment on table public.webhook_deliveries is 'Delivery log: one row per event sent to an endpoint, updated after every attempt.';
+comment on column public.webhook_deliveries.id is 'Unique identifier for the delivery';
+comment on column public.webhook_deliveries.endpoint_id is 'Reference to the endpoint the event was sent to';
+comment on column public.webhook_deliveries.event is 'Event type, or webhook.test for test events';
+comment on column public.webhook_deliveries.payload is 'The JSON body that was sent';
+comment on column public.webhook_deliveries.status is 'pending while attempts remain, then succeeded or failed';
+comment on column public.webhook_deliveries.attempts is 'Number of attempts made so far';
+comment on column public.webhook_deliveries.response_status is 'HTTP status of the last attempt, null when no response arrived';
+comment on column public.webhook_deliveries.error is 'Why the last attempt failed';
+comment on column public.webhook_deliveries.user_id is 'Reference to the user who owns the endpoint';
+comment on column public.webhook_deliveries.created_at is 'Timestamp when the event was emitted';
+comment on column public.webhook_deliveries.last_attempt_at is 'Timestamp of the last attempt';
+
+-- Enable Row Level Security
+alter table public.webhook_endpoints enable row level security;
+alter table public.webhook_deliveries enable row level security;
+
+-- RLS Policy: Allow authenticated users to select their own endpoints
+create policy "authenticated_users_select_own_webhook_endpoints"
+  on public.webhook_endpoints
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- RLS Policy: Allow authenticated users to insert their own endpoints
+create policy "authenticated_users_insert_own_webhook_endpoints"
+  on public.webhook_endpoints
+  for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+-- RLS Policy: Allow authenticated users to update their own endpoints
+create policy "authenticated_users_update_own_webhook_endpoints"
+  on public.webhook_endpoints
+  for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- RLS Policy: Allow authenticated users to delete their own endpoints
+create policy "authenticated_users_delete_own_webhook_endpoints"
+  on public.webhook_endpoints
+  for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- RLS Policy: Allow authenticated users to select their own deliveries
+create policy "authenticated_users_select_own_webhook_deliveries"
+  on public.webhook_deliveries
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- RLS Policy: Allow authenticated users to log deliveries to their own endpoints
+create policy "authenticated_users_insert_own_webhook_deliveries"
+  on public.webhook_deliveries
+  for insert
+  to authenticated
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.webhook_endpoints
+      where public.webhook_endpoints.id = endpoint_id
+        and public.webhook_endpoints.user_id = auth.uid()
+    )
+  );
+
+-- RLS Policy: Allow authenticated users to record attempts on their own deliveries
+create policy "authenticated_users_update_own_webhook_deliveries"
+  on public.webhook_deliveries
+  for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- RLS Policy: Allow authenticated users to delete their own deliveries
+create policy "authenticated_users_delete_own_webhook_deliveries"
+  on public.webhook_deliveries
+  for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Create index for listing a user's endpoints
+create index webhook_endpoints_user_id_idx on public.webhook_endpoints (user_id);
+
+-- Create index for an endpoint's delivery log, newest first
+create index webhook_deliveries_endpoint_id_created_at_idx
+  on public.webhook_deliveries (endpoint_id, created_at desc);
+
+-- Trigger to automatically update updated_at on endpoint update
+create trigger set_updated_at
+  before update on public.webhook_endpoints
+  for each row
+  execute function public.handle_updated_at();
@@ -0,0 +1,83 @@
+/*
+ * migration: create calendar_feeds
+ * purpose: a secret url per user that serves their dated todos as an icalendar (.ics) feed
+ * tables affected: public.calendar_feeds (new)
+ * functions added: public.authenticate_calendar_feed(text)
+ * rls: enabled; authenticated users can read, create, replace and delete their own feed
+ *   - anonymous users get no access; calendar apps are resolved through public.authenticate_calendar_feed
+ * notes:
+ *   - one feed per user; regenerating the url replaces the row, so the old url stops working
+ *   - only a sha-256 hash of the token is stored; the url is shown once, when it is generated
+ *   - time_zone is the browser's iana zone when the url was generated; todo dates are local
+ *     midnights, so the feed needs it to put them on the right day
+ */
+
+-- create calendar_feeds table
+create table public.calendar_feeds (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  token_hash text not null,
+  token_prefix text not null,
+  time_zone text not null default 'UTC',
+  last_fetched_at timestamptz,
+  created_at timestamptz not null default now(),
+  constraint calendar_feeds_time_zone_length_check check (char_length(time_zone) between 1 and 64),
+  constraint calendar_feeds_token_hash_key unique (token_hash)
+);
+
+comment on table public.calendar_feeds is 'Secret icalendar feed urls, one per user. Only a hash of each token is stored.';
+comment on column public.calendar_feeds.user_id is 'Reference to the user whose todos the feed serves';
+comment on column public.calendar_feeds.token_hash is 'Hex sha-256 hash of the token in the feed url';
+comment on column public.calendar_feeds.token_prefix is 'First characters of the token, to recognise the url';
+comment on column public.calendar_feeds.time_zone is 'IANA time zone the feed''s all-day dates are computed in';
+comment on column public.calendar_feeds.last_fetched_at is 'Timestamp of the last time a calendar app fetched the feed';
+comment on column public.calendar_feeds.created_at is 'Timestamp when the url was generated';
+
+-- Enable Row Level Security
+alter table public.calendar_feeds enable row level security;
+
+-- RLS Policy: Allow authenticated users to select their own feed
+create policy "authenticated_users_select_own_calendar_feeds"
+  on public.calendar_feeds
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- RLS Policy: Allow authenticated users to create their own feed
+create policy "authenticated_users_insert_own_calendar_feeds"
+  on public.calendar_feeds
+  for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+-- RLS Policy: Allow authenticated users to regenerate their own feed
+create policy "authenticated_users_update_own_calendar_feeds"
+  on public.calendar_feeds
+  for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- RLS Policy: Allow authenticated users to turn their own feed off
+create policy "authenticated_users_delete_own_calendar_feeds"
+  on public.calendar_feeds
+  for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+/*
+ * function: public.authenticate_calendar_feed(hash text)
+ * looks up the feed with the given token hash, records that it was fetched and returns whose
+ * it is and the time zone of its dates; no rows for an unknown or regenerated token.
+ * runs as its owner because calendar apps are not signed in, so it can only ever see the
+ * one row whose hash it already knows
+ */
+create or replace function public.authenticate_calendar_feed(hash text)
+returns table (user_id uuid, time_zone text) as $$
+  update public.calendar_feeds
+  set last_fetched_at = now()
+  where token_hash = hash
+  returning user_id, time_zone;
+$$ language sql volatile security definer set search_path = '';
+
+revoke execute on function public.authenticate_calendar_feed(text) from public;
+grant execute on function public.authenticate_calendar_feed(text) to anon, authenticated;
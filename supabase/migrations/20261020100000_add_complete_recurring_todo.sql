@@ -0,0 +1,83 @@
+/*
+ * migration: add complete_recurring_todo
+ * purpose: complete a recurring todo and schedule its next occurrence in one transaction,
+ *   so a failure part way can neither drop the repeat rule nor leave a stray occurrence behind
+ * tables affected: public.todos, public.todo_tags
+ * functions added: public.complete_recurring_todo(bigint, timestamptz, timestamptz, text, boolean)
+ * notes:
+ *   - runs as the caller, so row level security limits it to the user's own todos
+ *   - the next dates and list position are worked out by the application, which knows the
+ *     user's time zone; the function copies everything else, tags included, from the todo
+ *   - the todo row is locked while the rule is handed over, so two completions at once
+ *     schedule one occurrence; a todo that is done, trashed or no longer recurring is skipped
+ *   - returns the ids it completed and the id of the occurrence it created, as rows of
+ *     (id, is_next_occurrence); no rows when the todo was skipped
+ */
+
+/*
+ * function: public.complete_recurring_todo(target_todo_id bigint, next_start_at timestamptz,
+ *   next_due_at timestamptz, next_position text, complete_subtasks boolean)
+ * completes the todo, and its open subtasks when asked, and moves its rule to a new occurrence
+ */
+create or replace function public.complete_recurring_todo(
+  target_todo_id bigint,
+  next_start_at timestamptz,
+  next_due_at timestamptz,
+  next_position text,
+  complete_subtasks boolean default false
+)
+returns table (id bigint, is_next_occurrence boolean) as $$
+#variable_conflict use_column
+declare
+  completed public.todos;
+  next_id bigint;
+begin
+  select * into completed
+  from public.todos
+  where todos.id = target_todo_id
+    and todos.user_id = auth.uid()
+    and todos.deleted_at is null
+    and todos.done = false
+    and todos.recurrence is not null
+  for update;
+
+  if not found then
+    return;
+  end if;
+
+  insert into public.todos (
+    text, description, content, start_at, due_at, priority, project_id,
+    parent_id, subtask_position, recurrence, position, user_id, done
+  )
+  values (
+    completed.text, completed.description, completed.content, next_start_at,
+    next_due_at, completed.priority, completed.project_id, completed.parent_id,
+    completed.subtask_position, completed.recurrence, next_position,
+    completed.user_id, false
+  )
+  returning todos.id into next_id;
+
+  insert into public.todo_tags (todo_id, tag_id, user_id)
+  select next_id, todo_tags.tag_id, todo_tags.user_id
+  from public.todo_tags
+  where todo_tags.todo_id = completed.id;
+
+  return query
+  with completed_todos as (
+    update public.todos
+    set done = true,
+        completed_at = now(),
+        recurrence = case when todos.id = completed.id then null else todos.recurrence end
+    where todos.user_id = auth.uid()
+      and todos.deleted_at is null
+      and (
+        todos.id = completed.id
+        or (complete_subtasks and todos.parent_id = completed.id and todos.done = false)
+      )
+    returning todos.id
+  )
+  select completed_todos.id, false from completed_todos
+  union all
+  select next_id, true;
+end;
+$$ language plpgsql volatile security invoker;
@@ -0,0 +1,102 @@
+/*
+ * migration: hand over recurrence in bulk completion
+ * purpose: complete a selection of todos and schedule the next occurrence of every recurring
+ *   one in the same transaction, as complete_recurring_todo does for a single todo
+ * tables affected: public.todos, public.todo_tags
+ * functions changed: public.bulk_set_todos_done(bigint[], boolean) is replaced by
+ *   public.bulk_set_todos_done(bigint[], boolean, jsonb)
+ * notes:
+ *   - runs as the caller, so row level security limits it to the user's own todos
+ *   - the next dates and list position of each recurring todo are worked out by the application,
+ *     which knows the user's time zone, and passed as a jsonb array of
+ *     { todo_id, start_at, due_at, position }; the function copies everything else, tags included
+ *   - the todos being completed are locked first, so two completions at once schedule one
+ *     occurrence each; a recurring todo without a schedule raises invalid_parameter_value and
+ *     nothing is changed
+ *   - the return type changes to rows of (id, is_next_occurrence), so the old function is dropped
+ */
+
+drop function if exists public.bulk_set_todos_done(bigint[], boolean);
+
+/*
+ * function: public.bulk_set_todos_done(todo_ids bigint[], mark_done boolean,
+ *   next_occurrences jsonb)
+ * completes or reopens the given todos, leaving the ones already in that state untouched;
+ * completing a recurring todo moves its rule to a new occurrence
+ */
+create or replace function public.bulk_set_todos_done(
+  todo_ids bigint[],
+  mark_done boolean,
+  next_occurrences jsonb default '[]'::jsonb
+)
+returns table (id bigint, is_next_occurrence boolean) as $$
+#variable_conflict use_column
+declare
+  completed public.todos;
+  schedule record;
+  next_id bigint;
+  next_ids bigint[] := '{}';
+begin
+  if mark_done then
+    for completed in
+      select * from public.todos
+      where todos.id = any(todo_ids)
+        and todos.user_id = auth.uid()
+        and todos.deleted_at is null
+        and todos.done = false
+      order by todos.id
+      for update
+    loop
+      continue when completed.recurrence is null;
+
+      select *
+      into schedule
+      from jsonb_to_recordset(next_occurrences)
+        as next_occurrence(todo_id bigint, start_at timestamptz, due_at timestamptz, position text)
+      where next_occurrence.todo_id = completed.id
+      limit 1;
+
+      if not found then
+        raise exception 'no next occurrence given for todo %', completed.id
+          using errcode = 'invalid_parameter_value';
+      end if;
+
+      insert into public.todos (
+        text, description, content, start_at, due_at, priority, project_id,
+        parent_id, subtask_position, recurrence, position, user_id, done
+      )
+      values (
+        completed.text, completed.description, completed.content, schedule.start_at,
+        schedule.due_at, completed.priority, completed.project_id, completed.parent_id,
+        completed.subtask_position, completed.recurrence, schedule.position,
+        completed.user_id, false
+      )
+      returning todos.id into next_id;
+
+      insert into public.todo_tags (todo_id, tag_id, user_id)
+      select next_id, todo_tags.tag_id, todo_tags.user_id
+      from public.todo_tags
+      where todo_tags.todo_id = completed.id;
+
+      next_ids := next_ids || next_id;
+    end loop;
+  end if;
+
+  return query
+  with changed as (
+    update public.todos
+    set done = mark_done,
+        completed_at = case when mark_done then now() else null end,
+        archived_at = case when mark_done then todos.archived_at else null end,
+        recurrence = case when mark_done then null else todos.recurrence end
+    where todos.id = any(todo_ids)
+      and todos.user_id = auth.uid()
+      and todos.deleted_at is null
+      and todos.done <> mark_done
+    returning todos.id
+  )
+  select changed.id, false from changed
+  union all
+  select next_occurrence_id, true from unnest(next_ids) as next_occurrence_id;
+end;
+$$ language plpgsql volatile security invoker;
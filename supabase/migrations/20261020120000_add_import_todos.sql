@@ -0,0 +1,197 @@
+/*
+ * migration: add import_todos
+ * purpose: write an import in one transaction, so an import that fails part way, or a replace
+ *   whose old data cannot be removed, leaves the account as it was
+ * tables affected: public.projects, public.tags, public.todos, public.todo_tags
+ * functions added: public.import_todos(jsonb)
+ * notes:
+ *   - runs as the caller, so row level security limits it to the user's own rows; every row is
+ *     written for auth.uid() whatever the plan says
+ *   - the application plans the import (name matching, skipped todos, positions) and passes rows
+ *     keyed by their id in the document; new projects, tags and parent todos are referred to by
+ *     that key, existing ones by their id
+ *   - a row that cannot be saved is reported in errors and left out, as are the subtasks of a
+ *     parent that could not be saved; its todos fall back to the given project, and its tag links
+ *     are dropped
+ *   - removing replaced todos, tags and projects happens last, in the same transaction; any error
+ *     there rolls the whole import back
+ */
+
+/*
+ * function: public.import_todos(import_plan jsonb)
+ * import_plan: { projects: [row], tags: [row], todos: [row], remove_todo_ids: [id],
+ *   remove_tag_ids: [id], remove_project_ids: [id] }, where each row is
+ *   { key, index, label, row: { column: value } } and a todo row also carries
+ *   project_key, parent_key, tag_keys and tag_ids
+ * returns: { project_keys, tag_keys, todo_keys, removed_todos,
+ *   errors: [{ list, index, label, message }] }
+ */
+create or replace function public.import_todos(import_plan jsonb)
+returns jsonb as $$
+declare
+  item jsonb;
+  fields jsonb;
+  new_id bigint;
+  parent_todo_id bigint;
+  project_ids jsonb := '{}'::jsonb;
+  tag_ids jsonb := '{}'::jsonb;
+  todo_ids jsonb := '{}'::jsonb;
+  errors jsonb := '[]'::jsonb;
+  removed_todos integer := 0;
+begin
+  for item in
+    select value from jsonb_array_elements(import_plan->'projects')
+  loop
+    fields := item->'row';
+    begin
+      insert into public.projects (name, color, icon, archived, user_id, created_at, updated_at)
+      values (
+        fields->>'name',
+        coalesce(fields->>'color', '#7c9885'),
+        coalesce(fields->>'icon', 'folder'),
+        coalesce((fields->>'archived')::boolean, false),
+        auth.uid(),
+        coalesce((fields->>'created_at')::timestamptz, now()),
+        coalesce((fields->>'updated_at')::timestamptz, now())
+      )
+      returning id into new_id;
+      project_ids := project_ids || jsonb_build_object(item->>'key', new_id);
+    exception when others then
+      errors := errors || jsonb_build_object(
+        'list', 'projects', 'index', item->'index', 'label', item->'label',
+        'message', 'Could not be saved'
+      );
+    end;
+  end loop;
+
+  for item in
+    select value from jsonb_array_elements(import_plan->'tags')
+  loop
+    fields := item->'row';
+    begin
+      insert into public.tags (name, color, user_id, created_at, updated_at)
+      values (
+        fields->>'name',
+        coalesce(fields->>'color', '#7c9885'),
+        auth.uid(),
+        coalesce((fields->>'created_at')::timestamptz, now()),
+        coalesce((fields->>'updated_at')::timestamptz, now())
+      )
+      returning id into new_id;
+      tag_ids := tag_ids || jsonb_build_object(item->>'key', new_id);
+    exception when others then
+      errors := errors || jsonb_build_object(
+        'list', 'tags', 'index', item->'index', 'label', item->'label',
+        'message', 'Could not be saved'
+      );
+    end;
+  end loop;
+
+  -- Parents come before their subtasks, so a subtask finds its parent's new id
+  for item in
+    select value from jsonb_array_elements(import_plan->'todos')
+  loop
+    fields := item->'row';
+    parent_todo_id := (fields->>'parent_id')::bigint;
+    if item->>'parent_key' is not null then
+      parent_todo_id := (todo_ids->>(item->>'parent_key'))::bigint;
+      if parent_todo_id is null then
+        errors := errors || jsonb_build_object(
+          'list', 'todos', 'index', item->'index', 'label', item->'label',
+          'message', 'Its parent todo could not be imported'
+        );
+        continue;
+      end if;
+    end if;
+
+    begin
+      insert into public.todos (
+        text, description, content, done, start_at, due_at, priority, recurrence,
+        project_id, parent_id, subtask_position, position, deleted_at, completed_at,
+        archived_at, user_id, created_at, updated_at
+      )
+      values (
+        fields->>'text',
+        fields->>'description',
+        coalesce(nullif(fields->'content', 'null'::jsonb), '[]'::jsonb),
+        coalesce((fields->>'done')::boolean, false),
+        (fields->>'start_at')::timestamptz,
+        (fields->>'due_at')::timestamptz,
+        coalesce((fields->>'priority')::public.todo_priority, 'none'),
+        nullif(fields->'recurrence', 'null'::jsonb),
+        coalesce(
+          (project_ids->>(item->>'project_key'))::bigint,
+          (fields->>'project_id')::bigint
+        ),
+        parent_todo_id,
+        coalesce((fields->>'subtask_position')::integer, 0),
+        fields->>'position',
+        (fields->>'deleted_at')::timestamptz,
+        (fields->>'completed_at')::timestamptz,
+        (fields->>'archived_at')::timestamptz,
+        auth.uid(),
+        coalesce((fields->>'created_at')::timestamptz, now()),
+        coalesce((fields->>'updated_at')::timestamptz, now())
+      )
+      returning id into new_id;
+    exception when others then
+      errors := errors || jsonb_build_object(
+        'list', 'todos', 'index', item->'index', 'label', item->'label',
+        'message', 'Could not be saved'
+      );
+      continue;
+    end;
+    todo_ids := todo_ids || jsonb_build_object(item->>'key', new_id);
+
+    -- Tags that could not be saved are dropped; repeated names share a tag
+    insert into public.todo_tags (todo_id, tag_id, user_id)
+    select new_id, linked.tag_id, auth.uid()
+    from (
+      select existing.tag_id::bigint as tag_id
+      from jsonb_array_elements_text(item->'tag_ids') as existing(tag_id)
+      union
+      select (tag_ids->>created.tag_key)::bigint
+      from jsonb_array_elements_text(item->'tag_keys') as created(tag_key)
+    ) as linked
+    where linked.tag_id is not null
+    on conflict (todo_id, tag_id) do nothing;
+  end loop;
+
+  -- Subtasks and tag links go with their todos
+  delete from public.todos
+  where todos.id in (
+      select removed.id::bigint
+      from jsonb_array_elements_text(import_plan->'remove_todo_ids') as removed(id)
+    )
+    and todos.user_id = auth.uid();
+  get diagnostics removed_todos = row_count;
+
+  delete from public.tags
+  where tags.id in (
+      select removed.id::bigint
+      from jsonb_array_elements_text(import_plan->'remove_tag_ids') as removed(id)
+    )
+    and tags.user_id = auth.uid();
+
+  delete from public.projects
+  where projects.id in (
+      select removed.id::bigint
+      from jsonb_array_elements_text(import_plan->'remove_project_ids') as removed(id)
+    )
+    and projects.user_id = auth.uid();
+
+  return jsonb_build_object(
+    'project_keys',
+    (select coalesce(jsonb_agg(created.key::bigint), '[]'::jsonb)
+     from jsonb_object_keys(project_ids) as created(key)),
+    'tag_keys',
+    (select coalesce(jsonb_agg(created.key::bigint), '[]'::jsonb)
+     from jsonb_object_keys(tag_ids) as created(key)),
+    'todo_keys',
+    (select coalesce(jsonb_agg(created.key::bigint), '[]'::jsonb)
+     from jsonb_object_keys(todo_ids) as created(key)),
+    'removed_todos', removed_todos,
+    'errors', errors
+  );
+end;
+$$ language plpgsql volatile security invoker;
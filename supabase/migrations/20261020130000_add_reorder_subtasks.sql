@@ -0,0 +1,69 @@
+/*
+ * migration: add reorder_subtasks
+ * purpose: reorder the subtasks of a todo in one statement and transaction, so a failure part way
+ *   cannot leave duplicate or shuffled positions behind
+ * tables affected: public.todos
+ * functions added: public.reorder_subtasks(bigint, bigint[])
+ * notes:
+ *   - runs as the caller, so row level security limits it to the user's own todos
+ *   - the order must list every subtask of the todo that is not in the trash exactly once; the
+ *     subtasks are locked while that is checked, and any other list raises invalid_parameter_value
+ *   - returns the ids it reordered, as rows of (id)
+ */
+
+/*
+ * function: public.reorder_subtasks(target_parent_id bigint, ordered_ids bigint[])
+ * gives each subtask of the todo its place in ordered_ids as its subtask_position
+ */
+create or replace function public.reorder_subtasks(target_parent_id bigint, ordered_ids bigint[])
+returns table (id bigint) as $$
+#variable_conflict use_column
+begin
+  -- A subtask added meanwhile would otherwise be left out of the check
+  perform 1
+  from public.todos
+  where todos.parent_id = target_parent_id
+    and todos.user_id = auth.uid()
+    and todos.deleted_at is null
+  for update;
+
+  if cardinality(ordered_ids) <> (
+      select count(distinct ordered.id) from unnest(ordered_ids) as ordered(id)
+    )
+    or exists (
+      select 1
+      from public.todos
+      where todos.parent_id = target_parent_id
+        and todos.user_id = auth.uid()
+        and todos.deleted_at is null
+        and not (todos.id = any(ordered_ids))
+    )
+    or exists (
+      select 1
+      from unnest(ordered_ids) as ordered(id)
+      where not exists (
+        select 1
+        from public.todos
+        where todos.id = ordered.id
+          and todos.parent_id = target_parent_id
+          and todos.user_id = auth.uid()
+          and todos.deleted_at is null
+      )
+    )
+  then
+    raise exception 'order must list every subtask of todo % exactly once', target_parent_id
+      using errcode = 'invalid_parameter_value';
+  end if;
+
+  return query
+  with reordered as (
+    update public.todos
+    set subtask_position = ordered.ordinal - 1
+    from unnest(ordered_ids) with ordinality as ordered(id, ordinal)
+    where todos.id = ordered.id
+      and todos.user_id = auth.uid()
+    returning todos.id
+  )
+  select reordered.id from reordered;
+end;
+$$ language plpgsql volatile security invoker;
@@ -0,0 +1,48 @@
+/*
+ * migration: add calendar feed version
+ * purpose: let calendar apps poll the feed cheaply: the feed's ETag comes from a summary of the
+ *   dated todos, so an unchanged feed is answered without reading or rendering them
+ * tables affected: public.todos (read), public.calendar_feeds
+ * functions added: public.calendar_feed_version()
+ * functions changed: public.authenticate_calendar_feed(text) records a fetch at most every
+ *   15 minutes instead of on every poll
+ * notes:
+ *   - calendar_feed_version runs as the caller, so row level security limits it to the user's own
+ *     todos; it counts the todos the feed serves, with their latest updated_at and highest id.
+ *     Editing a todo in the feed raises the latest updated_at, leaving it lowers the count, and
+ *     joining it adds a row with a new updated_at or, for imported todos, a new id
+ */
+
+/*
+ * function: public.calendar_feed_version()
+ * summary of the todos in the caller's calendar feed: dated, out of the trash and the archive
+ */
+create or replace function public.calendar_feed_version()
+returns table (todo_count bigint, last_updated_at timestamptz, last_todo_id bigint) as $$
+  select count(*), max(updated_at), max(id)
+  from public.todos
+  where user_id = auth.uid()
+    and (start_at is not null or due_at is not null)
+    and deleted_at is null
+    and archived_at is null;
+$$ language sql stable security invoker;
+
+/*
+ * function: public.authenticate_calendar_feed(hash text)
+ * looks up the feed with the given token hash and returns whose it is and the time zone of its
+ * dates; no rows for an unknown or regenerated token. last_fetched_at is moved on at most every
+ * 15 minutes, so polling does not write on every request.
+ * runs as its owner because calendar apps are not signed in, so it can only ever see the
+ * one row whose hash it already knows
+ */
+create or replace function public.authenticate_calendar_feed(hash text)
+returns table (user_id uuid, time_zone text) as $$
+  update public.calendar_feeds
+  set last_fetched_at = now()
+  where token_hash = hash
+    and (last_fetched_at is null or last_fetched_at < now() - interval '15 minutes');
+
+  select calendar_feeds.user_id, calendar_feeds.time_zone
+  from public.calendar_feeds
+  where token_hash = hash;
+$$ language sql volatile security definer set search_path = '';
@@ -50,15 +50,79 @@
  * 
  * Tables:
  * - public.todos: User task items with completion status
+ * - public.projects: Named lists that partition a user's todos
+ * - public.tags: User-defined labels for todos
+ * - public.todo_tags: Many-to-many links between todos and tags
+ * - public.api_tokens: Hashed personal access tokens for the REST API
+ * - public.webhook_endpoints: URLs that receive signed todo events
+ * - public.webhook_deliveries: Delivery log of those events
+ * - public.calendar_feeds: Hashed secret URLs of each user's iCalendar feed
+ * 
+ * Types:
+ * - public.todo_priority: Todo priority levels (none < low < medium < high < urgent)
  * 
  * Functions:
  * - public.handle_updated_at(): Auto-updates updated_at timestamp
+ * - public.enforce_todo_parent(): Keeps subtasks one level deep and in their parent's project
+ * - public.todo_content_plain_text(): Plain text of BlockNote content, for the search document
+ * - public.search_todos(): Ranked, highlighted full-text search
+ * - public.bulk_set_todos_done(), public.bulk_trash_todos(), public.bulk_move_todos(),
+ *   public.bulk_set_todo_tag(): Apply one change to many todos in a single transaction
+ * - public.restore_todos(), public.unarchive_todos(): Take back a trash or archive, for undo
+ * - public.complete_recurring_todo(): Complete a recurring todo and schedule the next occurrence
+ * - public.import_todos(): Write a planned import, and a replace's removals, in one transaction
+ * - public.reorder_subtasks(): Reorder a todo's subtasks in one statement
+ * - public.authenticate_api_token(): Resolve a personal access token to its user and scope
+ * - public.authenticate_calendar_feed(): Resolve a calendar feed URL to its user and time zone
+ * - public.calendar_feed_version(): Summary of the todos in a calendar feed, for its ETag
  */
 
 -- ==================================================================
 -- 3. TABLE DEFINITIONS
 -- ==================================================================
 
+-- ------------------------------------------------------------------
+-- Type: public.todo_priority
+-- ------------------------------------------------------------------
+/*
+ * Declared from least to most important so `order by priority desc`
+ * lists the most urgent todos first.
+ */
+
+create type public.todo_priority as enum ('none', 'low', 'medium', 'high', 'urgent');
+
+-- ------------------------------------------------------------------
+-- Table: public.projects
+-- ------------------------------------------------------------------
+/*
+ * Purpose: Named lists that partition a user's todos
+ * 
+ * Relationships:
+ * - user_id -> auth.users(id): Each project belongs to a user
+ * 
+ * Business Rules:
+ * - Each user has exactly one inbox project (is_inbox = true)
+ * - The inbox cannot be archived or deleted
+ * - Deleting any other project first moves its todos to the inbox
+ */
+
+create table public.projects (
+  id bigint generated always as identity primary key,
+  name text not null,
+  color text not null default '#7c9885',
+  icon text not null default 'folder',
+  archived boolean not null default false,
+  is_inbox boolean not null default false,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint projects_name_length_check check (char_length(name) between 1 and 60),
+  constraint projects_color_format_check check (color ~ '^#[0-9a-fA-F]{6}$'),
+  constraint projects_inbox_not_archived_check check (not (is_inbox and archived))
+);
+
+comment on table public.projects is 'Named lists that partition a user''s todos. Each user has one inbox project that collects unfiled todos.';
+
 -- ------------------------------------------------------------------
 -- Table: public.todos
 -- ------------------------------------------------------------------
@@ -67,9 +131,11 @@
  * 
  * Relationships:
  * - user_id -> auth.users(id): Each todo belongs to a user
+ * - parent_id -> public.todos(id): Subtasks reference their parent todo
  * 
  * Cascade Behavior:
  * - When user is deleted: All their todos are automatically deleted
+ * - When a parent todo is deleted: Its subtasks are automatically deleted
  * 
  * Access Pattern:
  * - Primary access: Filter by user_id
@@ -79,10 +145,44 @@
  * - text cannot be empty (not null)
  * - description can store extended details but remains optional
  * - done defaults to false for new todos
+ * - start_at and due_at are optional; when both are set start_at <= due_at
+ * - priority defaults to 'none' for new todos
+ * - every todo belongs to a project; the user's inbox when none is chosen
+ * - subtasks are one level deep and share their parent's user and project
+ * - recurrence is an optional JSON repeat rule; completing a recurring todo
+ *   creates the next occurrence, which takes the rule over
+ * - position is a fractional index key; manual reorders rewrite one row
+ * - deleting a todo sets deleted_at (the trash); trashed todos are purged
+ *   by the application after the retention period
+ * - completed_at is set while a todo is done; "clear completed" sets
+ *   archived_at, which keeps the todo as history out of the list
+ * - search_vector is generated from text, description and the plain text of
+ *   content; search_todos() ranks and highlights matches
  * - created_at is set automatically on insert
  * - updated_at is updated automatically on any change
+ * - changes are published to Supabase Realtime, so open tabs and devices
+ *   pick up each other's edits; row level security decides who receives them
  */
 
+/*
+ * Function: public.todo_content_plain_text(content jsonb)
+ *
+ * Purpose: Plain text of BlockNote content, for the search_vector column
+ * (defined ahead of the table because the generated column depends on it)
+ */
+
+create or replace function public.todo_content_plain_text(content jsonb)
+returns text as $$
+  select coalesce(
+    string_agg(value #>> '{}', ' '),
+    ''
+  )
+  from jsonb_path_query(
+    coalesce(content, '[]'::jsonb),
+    'strict $.**.text ? (@.type() == "string")'
+  ) as value;
+$$ language sql immutable;
+
 create table public.todos (
   -- Primary key: Auto-incrementing identifier
   id bigint generated always as identity primary key,
@@ -98,13 +198,59 @@ create table public.todos (
   
   -- Structured block content (rich editor data)
   content jsonb not null default '[]'::jsonb,
+
+  -- Optional schedule
+  start_at timestamptz,
+  due_at timestamptz,
+
+  -- Priority level
+  priority public.todo_priority not null default 'none',
+
+  -- Owning project (list); never cascades, todos move to the inbox instead
+  project_id bigint not null references public.projects (id) on delete restrict,
+
+  -- Parent todo when this todo is a subtask, ordered by subtask_position
+  parent_id bigint references public.todos (id) on delete cascade,
+  subtask_position integer not null default 0,
+
+  -- Optional repeat rule, e.g. {"freq": "weekly", "interval": 2, "weekdays": [2]}
+  recurrence jsonb,
+
+  -- Manual order key (fractional index), compared byte by byte
+  position text collate "C" not null,
+
+  -- Set while the todo is in the trash
+  deleted_at timestamptz,
+
+  -- Completion history
+  completed_at timestamptz,
+  archived_at timestamptz,
+
+  -- Weighted full-text search document: text (A), description (B), content (C)
+  search_vector tsvector generated always as (
+    setweight(to_tsvector('english', coalesce(text, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('english', public.todo_content_plain_text(content)), 'C')
+  ) stored,
   
   -- User ownership (foreign key to auth.users)
   user_id uuid not null references auth.users (id) on delete cascade,
   
   -- Audit timestamps
   created_at timestamptz not null default now(),
-  updated_at timestamptz not null default now()
+  updated_at timestamptz not null default now(),
+
+  -- Schedules cannot end before they start
+  constraint todos_start_before_due_check
+    check (start_at is null or due_at is null or start_at <= due_at),
+
+  -- A todo cannot be its own parent
+  constraint todos_parent_not_self_check
+    check (parent_id is null or parent_id <> id),
+
+  -- Repeat rules are JSON objects
+  constraint todos_recurrence_object_check
+    check (recurrence is null or jsonb_typeof(recurrence) = 'object')
 );
 
 -- Table and column comments for database-level documentation
@@ -114,10 +260,199 @@ comment on column public.todos.text is 'The todo item description or task name';
 comment on column public.todos.description is 'Extended description for the todo item';
 comment on column public.todos.done is 'Whether the todo item has been completed';
 comment on column public.todos.content is 'Structured block content for the todo item stored as JSON.';
+comment on column public.todos.start_at is 'Optional timestamp when work on the todo is planned to start';
+comment on column public.todos.due_at is 'Optional timestamp when the todo is due';
+comment on column public.todos.priority is 'Priority level of the todo item';
+comment on column public.todos.project_id is 'Reference to the project (list) this todo belongs to';
+comment on column public.todos.parent_id is 'Reference to the parent todo when this todo is a subtask';
+comment on column public.todos.subtask_position is 'Order of the subtask beneath its parent, ascending';
+comment on column public.todos.recurrence is 'Optional repeat rule as a JSON object; completing the todo creates the next occurrence';
+comment on column public.todos.position is 'Fractional index key for manual ordering, ascending';
+comment on column public.todos.deleted_at is 'When the todo was moved to the trash; null while it is not trashed';
+comment on column public.todos.completed_at is 'When the todo was completed; null while it is open';
+comment on column public.todos.archived_at is 'When the completed todo was archived; null while it is in the list';
+comment on column public.todos.search_vector is 'Full-text search document built from text, description and the plain text of content';
 comment on column public.todos.user_id is 'Reference to the user who owns this todo';
 comment on column public.todos.created_at is 'Timestamp when the todo was created';
 comment on column public.todos.updated_at is 'Timestamp when the todo was last updated';
 
+-- stream row changes to subscribed clients
+alter publication supabase_realtime add table public.todos;
+
+-- ------------------------------------------------------------------
+-- Table: public.tags
+-- ------------------------------------------------------------------
+/*
+ * Purpose: User-defined labels (client, area, ...) attached to todos
+ * 
+ * Relationships:
+ * - user_id -> auth.users(id): Each tag belongs to a user
+ * 
+ * Business Rules:
+ * - name is 1-40 characters and unique per user, ignoring case
+ * - color is a #rrggbb hex string
+ */
+
+create table public.tags (
+  id bigint generated always as identity primary key,
+  name text not null,
+  color text not null default '#7c9885',
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint tags_name_length_check check (char_length(name) between 1 and 40),
+  constraint tags_color_format_check check (color ~ '^#[0-9a-fA-F]{6}$')
+);
+
+comment on table public.tags is 'User-defined labels that can be attached to todos. Each tag belongs to a user.';
+
+-- ------------------------------------------------------------------
+-- Table: public.todo_tags
+-- ------------------------------------------------------------------
+/*
+ * Purpose: Many-to-many join between todos and tags
+ * 
+ * Cascade Behavior:
+ * - Deleting a todo or a tag removes its links
+ * 
+ * Notes:
+ * - user_id is denormalized from the todo so RLS policies stay simple
+ */
+
+create table public.todo_tags (
+  todo_id bigint not null references public.todos (id) on delete cascade,
+  tag_id bigint not null references public.tags (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (todo_id, tag_id)
+);
+
+comment on table public.todo_tags is 'Links todos to tags (many-to-many). user_id is denormalized from the todo so policies stay simple.';
+
+-- ------------------------------------------------------------------
+-- Table: public.api_tokens
+-- ------------------------------------------------------------------
+/*
+ * Purpose: Personal access tokens for scripts and other non-browser clients
+ * 
+ * Relationships:
+ * - user_id -> auth.users(id): The user the token acts as
+ * 
+ * Business Rules:
+ * - Only the sha-256 hash of a token is stored; the token is shown once
+ * - name is 1-60 characters
+ * - scope is 'read' (read todos) or 'write' (read and change todos)
+ * - Revoking a token deletes its row
+ */
+
+create table public.api_tokens (
+  id bigint generated always as identity primary key,
+  name text not null,
+  scope text not null default 'read',
+  token_hash text not null,
+  token_prefix text not null,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  last_used_at timestamptz,
+  created_at timestamptz not null default now(),
+  constraint api_tokens_name_length_check check (char_length(name) between 1 and 60),
+  constraint api_tokens_scope_check check (scope in ('read', 'write')),
+  constraint api_tokens_token_hash_key unique (token_hash)
+);
+
+comment on table public.api_tokens is 'Personal access tokens for the REST api. Only a hash of each token is stored.';
+
+-- ------------------------------------------------------------------
+-- Table: public.webhook_endpoints
+-- ------------------------------------------------------------------
+/*
+ * Purpose: URLs that receive signed JSON payloads when todos change
+ * 
+ * Relationships:
+ * - user_id -> auth.users(id): Each endpoint belongs to a user
+ * 
+ * Business Rules:
+ * - url is an http(s) URL of at most 2000 characters
+ * - events is a non-empty subset of todo.created, todo.completed, todo.deleted
+ * - secret keys the HMAC SHA-256 signature of every payload
+ */
+
+create table public.webhook_endpoints (
+  id bigint generated always as identity primary key,
+  url text not null,
+  events text[] not null,
+  secret text not null,
+  enabled boolean not null default true,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint webhook_endpoints_url_check check (url ~ '^https?://' and char_length(url) <= 2000),
+  constraint webhook_endpoints_events_check check (
+    cardinality(events) > 0
+    and events <@ array['todo.created', 'todo.completed', 'todo.deleted']
+  )
+);
+
+comment on table public.webhook_endpoints is 'URLs that receive signed JSON payloads when a user''s todos change.';
+
+-- ------------------------------------------------------------------
+-- Table: public.webhook_deliveries
+-- ------------------------------------------------------------------
+/*
+ * Purpose: Delivery log, one row per event sent to an endpoint
+ * 
+ * Cascade Behavior:
+ * - Deleting an endpoint removes its deliveries
+ * 
+ * Notes:
+ * - status is pending while attempts remain, then succeeded or failed
+ * - The row is updated after every attempt (attempts, response_status, error)
+ */
+
+create table public.webhook_deliveries (
+  id bigint generated always as identity primary key,
+  endpoint_id bigint not null references public.webhook_endpoints (id) on delete cascade,
+  event text not null,
+  payload jsonb not null,
+  status text not null default 'pending',
+  attempts integer not null default 0,
+  response_status integer,
+  error text,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  last_attempt_at timestamptz,
+  constraint webhook_deliveries_status_check check (status in ('pending', 'succeeded', 'failed'))
+);
+
+comment on table public.webhook_deliveries is 'Delivery log: one row per event sent to an endpoint, updated after every attempt.';
+
+-- ------------------------------------------------------------------
+-- Table: public.calendar_feeds
+-- ------------------------------------------------------------------
+/*
+ * Purpose: Secret URL serving a user's dated todos as an iCalendar feed
+ * 
+ * Relationships:
+ * - user_id -> auth.users(id): One feed per user, keyed by the user
+ * 
+ * Business Rules:
+ * - Only the sha-256 hash of the token is stored; the URL is shown once
+ * - Regenerating the URL replaces the row, so the old URL stops working
+ * - time_zone is the IANA zone the feed puts todo dates in
+ */
+
+create table public.calendar_feeds (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  token_hash text not null,
+  token_prefix text not null,
+  time_zone text not null default 'UTC',
+  last_fetched_at timestamptz,
+  created_at timestamptz not null default now(),
+  constraint calendar_feeds_time_zone_length_check check (char_length(time_zone) between 1 and 64),
+  constraint calendar_feeds_token_hash_key unique (token_hash)
+);
+
+comment on table public.calendar_feeds is 'Secret icalendar feed urls, one per user. Only a hash of each token is stored.';
+
 -- ==================================================================
 -- 4. ROW LEVEL SECURITY (RLS) POLICIES
 -- ==================================================================
@@ -195,6 +530,167 @@ create policy "anon_users_delete_todos"
   to anon
   using (false);
 
+/*
+ * RLS Policy Summary for public.projects:
+ * 
+ * Same model as public.todos, except that the inbox project can never
+ * be deleted.
+ */
+
+alter table public.projects enable row level security;
+
+create policy "authenticated_users_select_own_projects"
+  on public.projects for select to authenticated using (auth.uid() = user_id);
+create policy "anon_users_select_projects"
+  on public.projects for select to anon using (true);
+create policy "authenticated_users_insert_own_projects"
+  on public.projects for insert to authenticated with check (auth.uid() = user_id);
+create policy "anon_users_insert_projects"
+  on public.projects for insert to anon with check (false);
+create policy "authenticated_users_update_own_projects"
+  on public.projects for update to authenticated
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "anon_users_update_projects"
+  on public.projects for update to anon using (false) with check (false);
+create policy "authenticated_users_delete_own_projects"
+  on public.projects for delete to authenticated
+  using (auth.uid() = user_id and not is_inbox);
+create policy "anon_users_delete_projects"
+  on public.projects for delete to anon using (false);
+
+/*
+ * RLS Policy Summary for public.tags and public.todo_tags:
+ * 
+ * Same model as public.todos: authenticated users have full CRUD on
+ * their own rows, anonymous users are read-only. Linking a todo to a
+ * tag additionally requires the caller to own both rows.
+ */
+
+alter table public.tags enable row level security;
+alter table public.todo_tags enable row level security;
+
+create policy "authenticated_users_select_own_tags"
+  on public.tags for select to authenticated using (auth.uid() = user_id);
+create policy "anon_users_select_tags"
+  on public.tags for select to anon using (true);
+create policy "authenticated_users_insert_own_tags"
+  on public.tags for insert to authenticated with check (auth.uid() = user_id);
+create policy "anon_users_insert_tags"
+  on public.tags for insert to anon with check (false);
+create policy "authenticated_users_update_own_tags"
+  on public.tags for update to authenticated
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "anon_users_update_tags"
+  on public.tags for update to anon using (false) with check (false);
+create policy "authenticated_users_delete_own_tags"
+  on public.tags for delete to authenticated using (auth.uid() = user_id);
+create policy "anon_users_delete_tags"
+  on public.tags for delete to anon using (false);
+
+create policy "authenticated_users_select_own_todo_tags"
+  on public.todo_tags for select to authenticated using (auth.uid() = user_id);
+create policy "anon_users_select_todo_tags"
+  on public.todo_tags for select to anon using (true);
+create policy "authenticated_users_insert_own_todo_tags"
+  on public.todo_tags for insert to authenticated
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.todos
+      where public.todos.id = todo_id and public.todos.user_id = auth.uid()
+    )
+    and exists (
+      select 1 from public.tags
+      where public.tags.id = tag_id and public.tags.user_id = auth.uid()
+    )
+  );
+create policy "anon_users_insert_todo_tags"
+  on public.todo_tags for insert to anon with check (false);
+create policy "authenticated_users_update_own_todo_tags"
+  on public.todo_tags for update to authenticated
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "anon_users_update_todo_tags"
+  on public.todo_tags for update to anon using (false) with check (false);
+create policy "authenticated_users_delete_own_todo_tags"
+  on public.todo_tags for delete to authenticated using (auth.uid() = user_id);
+create policy "anon_users_delete_todo_tags"
+  on public.todo_tags for delete to anon using (false);
+
+/*
+ * RLS Policy Summary for public.api_tokens:
+ * 
+ * Authenticated users can list, create and delete (revoke) their own
+ * tokens. There is no update policy, and anonymous users get no access:
+ * tokens are resolved through public.authenticate_api_token() only.
+ */
+
+alter table public.api_tokens enable row level security;
+
+create policy "authenticated_users_select_own_api_tokens"
+  on public.api_tokens for select to authenticated using (auth.uid() = user_id);
+create policy "authenticated_users_insert_own_api_tokens"
+  on public.api_tokens for insert to authenticated with check (auth.uid() = user_id);
+create policy "authenticated_users_delete_own_api_tokens"
+  on public.api_tokens for delete to authenticated using (auth.uid() = user_id);
+
+/*
+ * RLS Policy Summary for public.webhook_endpoints and public.webhook_deliveries:
+ * 
+ * Authenticated users have full CRUD on their own rows; a delivery can only
+ * be logged against one of the caller's endpoints. Anonymous users get no
+ * access, since endpoints hold signing secrets.
+ */
+
+alter table public.webhook_endpoints enable row level security;
+alter table public.webhook_deliveries enable row level security;
+
+create policy "authenticated_users_select_own_webhook_endpoints"
+  on public.webhook_endpoints for select to authenticated using (auth.uid() = user_id);
+create policy "authenticated_users_insert_own_webhook_endpoints"
+  on public.webhook_endpoints for insert to authenticated with check (auth.uid() = user_id);
+create policy "authenticated_users_update_own_webhook_endpoints"
+  on public.webhook_endpoints for update to authenticated
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "authenticated_users_delete_own_webhook_endpoints"
+  on public.webhook_endpoints for delete to authenticated using (auth.uid() = user_id);
+create policy "authenticated_users_select_own_webhook_deliveries"
+  on public.webhook_deliveries for select to authenticated using (auth.uid() = user_id);
+create policy "authenticated_users_insert_own_webhook_deliveries"
+  on public.webhook_deliveries for insert to authenticated
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.webhook_endpoints
+      where public.webhook_endpoints.id = endpoint_id
+        and public.webhook_endpoints.user_id = auth.uid()
+    )
+  );
+create policy "authenticated_users_update_own_webhook_deliveries"
+  on public.webhook_deliveries for update to authenticated
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "authenticated_users_delete_own_webhook_deliveries"
+  on public.webhook_deliveries for delete to authenticated using (auth.uid() = user_id);
+
+/*
+ * RLS Policy Summary for public.calendar_feeds:
+ * 
+ * Authenticated users have full CRUD on their own feed. Anonymous users get
+ * no access: calendar apps are resolved through
+ * public.authenticate_calendar_feed() only.
+ */
+
+alter table public.calendar_feeds enable row level security;
+
+create policy "authenticated_users_select_own_calendar_feeds"
+  on public.calendar_feeds for select to authenticated using (auth.uid() = user_id);
+create policy "authenticated_users_insert_own_calendar_feeds"
+  on public.calendar_feeds for insert to authenticated with check (auth.uid() = user_id);
+create policy "authenticated_users_update_own_calendar_feeds"
+  on public.calendar_feeds for update to authenticated
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "authenticated_users_delete_own_calendar_feeds"
+  on public.calendar_feeds for delete to authenticated using (auth.uid() = user_id);
+
 -- ==================================================================
 -- 5. INDEXES
 -- ==================================================================
@@ -203,6 +699,22 @@ create policy "anon_users_delete_todos"
  * Index Strategy:
  * - todos_user_id_idx: Fast filtering by user (primary access pattern)
  * - todos_done_idx: Fast filtering by completion status
+ * - todos_user_id_due_at_idx: Grouping a user's tasks by due date
+ * - todos_user_id_priority_idx: Sorting a user's tasks by priority
+ * - todos_project_id_idx: Listing a project's tasks
+ * - todos_user_id_position_idx: Listing a user's tasks in manual order
+ * - todos_user_id_deleted_at_idx: Listing and purging a user's trash
+ * - todos_user_id_completed_at_idx: Archive history, newest completions first
+ * - todos_search_vector_idx: Full-text search
+ * - projects_user_id_inbox_key: One inbox project per user
+ * - projects_user_id_idx: Listing a user's projects
+ * - tags_user_id_name_key: Case-insensitive unique tag names per user
+ * - tags_user_id_idx: Listing a user's tags
+ * - todo_tags_tag_id_idx: Filtering todos by tag
+ * - todo_tags_user_id_idx: Loading a user's todo/tag links
+ * - api_tokens_user_id_idx: Listing a user's API tokens
+ * - webhook_endpoints_user_id_idx: Listing a user's webhook endpoints
+ * - webhook_deliveries_endpoint_id_created_at_idx: An endpoint's delivery log, newest first
  * 
  * Query Optimization:
  * - Gets user's active tasks: Uses todos_user_id_idx + todos_done_idx
@@ -212,6 +724,27 @@ create policy "anon_users_delete_todos"
 
 create index todos_user_id_idx on public.todos (user_id);
 create index todos_done_idx on public.todos (done);
+create index todos_user_id_due_at_idx on public.todos (user_id, due_at);
+create index todos_user_id_priority_idx on public.todos (user_id, priority);
+create index todos_project_id_idx on public.todos (project_id);
+create index todos_user_id_position_idx on public.todos (user_id, position);
+create index todos_user_id_deleted_at_idx on public.todos (user_id, deleted_at)
+  where deleted_at is not null;
+create index todos_user_id_completed_at_idx on public.todos (user_id, completed_at desc)
+  where archived_at is not null;
+create index todos_search_vector_idx on public.todos using gin (search_vector);
+create index todos_parent_id_idx on public.todos (parent_id, subtask_position)
+  where parent_id is not null;
+create unique index projects_user_id_inbox_key on public.projects (user_id) where is_inbox;
+create index projects_user_id_idx on public.projects (user_id);
+create unique index tags_user_id_name_key on public.tags (user_id, lower(name));
+create index tags_user_id_idx on public.tags (user_id);
+create index todo_tags_tag_id_idx on public.todo_tags (tag_id);
+create index todo_tags_user_id_idx on public.todo_tags (user_id);
+create index api_tokens_user_id_idx on public.api_tokens (user_id);
+create index webhook_endpoints_user_id_idx on public.webhook_endpoints (user_id);
+create index webhook_deliveries_endpoint_id_created_at_idx
+  on public.webhook_deliveries (endpoint_id, created_at desc);
 
 -- ==================================================================
 -- 6. FUNCTIONS & TRIGGERS
@@ -252,6 +785,734 @@ create trigger set_updated_at
   for each row
   execute function public.handle_updated_at();
 
+/*
+ * Function: public.enforce_todo_parent()
+ * 
+ * Purpose: Validate subtask parents and keep subtasks in their parent's project
+ * 
+ * Behavior:
+ * - Called before INSERT or UPDATE OF parent_id on public.todos
+ * - Rejects parents owned by another user, parents that are subtasks,
+ *   and todos that already have subtasks of their own
+ * - Copies the parent's project_id onto the subtask
+ */
+
+create or replace function public.enforce_todo_parent()
+returns trigger as $$
+declare
+  parent record;
+begin
+  if new.parent_id is null then
+    return new;
+  end if;
+
+  select user_id, parent_id, project_id
+  into parent
+  from public.todos
+  where id = new.parent_id;
+
+  if not found or parent.user_id <> new.user_id then
+    raise exception 'parent todo % not found', new.parent_id
+      using errcode = 'foreign_key_violation';
+  end if;
+
+  if parent.parent_id is not null then
+    raise exception 'subtasks cannot have subtasks'
+      using errcode = 'check_violation';
+  end if;
+
+  if exists (select 1 from public.todos where parent_id = new.id) then
+    raise exception 'a todo with subtasks cannot become a subtask'
+      using errcode = 'check_violation';
+  end if;
+
+  new.project_id = parent.project_id;
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger enforce_todo_parent
+  before insert or update of parent_id on public.todos
+  for each row
+  execute function public.enforce_todo_parent();
+
+/*
+ * Function: public.search_todos(search text, max_results integer)
+ *
+ * Purpose: Ranked full-text search over the caller's list (neither archived nor trashed)
+ *
+ * Behavior:
+ * - Every word of the search matches as a prefix, so results keep up with typing
+ * - Returns id, rank and a snippet whose matches are wrapped in U+E000 / U+E001
+ * - Runs as the caller, so row level security applies
+ */
+
+create or replace function public.search_todos(search text, max_results integer default 50)
+returns table (id bigint, rank real, snippet text) as $$
+#variable_conflict use_column
+declare
+  prefix_query text;
+  search_query tsquery;
+begin
+  select string_agg(quote_literal(term) || ':*', ' & ')
+  into prefix_query
+  from regexp_split_to_table(lower(search), '[^[:alnum:]]+') as term
+  where term <> '';
+
+  if prefix_query is null then
+    return;
+  end if;
+
+  search_query := to_tsquery('english', prefix_query);
+
+  return query
+  select
+    todos.id,
+    ts_rank_cd(todos.search_vector, search_query) as rank,
+    ts_headline(
+      'english',
+      concat_ws(' — ', todos.text, todos.description, nullif(public.todo_content_plain_text(todos.content), '')),
+      search_query,
+      'StartSel=' || U&'\E000' || ', StopSel=' || U&'\E001' || ', MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+    ) as snippet
+  from public.todos
+  where todos.search_vector @@ search_query
+    and todos.user_id = auth.uid()
+    and todos.archived_at is null
+    and todos.deleted_at is null
+  order by rank desc, todos.created_at desc
+  limit greatest(1, least(max_results, 200));
+end;
+$$ language plpgsql stable security invoker;
+
+/*
+ * Functions: public.bulk_set_todos_done(todo_ids bigint[], mark_done boolean,
+ *              next_occurrences jsonb default '[]'),
+ *            public.bulk_trash_todos(todo_ids bigint[]),
+ *            public.bulk_move_todos(todo_ids bigint[], target_project_id bigint),
+ *            public.bulk_set_todo_tag(todo_ids bigint[], target_tag_id bigint, attach boolean)
+ *
+ * Purpose: Apply one change to a multi-selection in a single round trip and transaction
+ *
+ * Behavior:
+ * - Run as the caller, so row level security applies; ids the caller does not own,
+ *   or that are in the trash, are skipped
+ * - Return the ids they changed so the application can read those rows back
+ * - Trashing and moving take subtasks along with their parent; trashed subtasks share
+ *   the parent's deleted_at so they are restored together
+ * - Moving and tagging raise foreign_key_violation for a project or tag the caller does not own
+ * - Completing hands each recurring todo's rule over to a new occurrence, like
+ *   complete_recurring_todo; next_occurrences carries the { todo_id, start_at, due_at, position }
+ *   of each one, and bulk_set_todos_done returns (id, is_next_occurrence) rather than (id)
+ */
+
+create or replace function public.bulk_set_todos_done(
+  todo_ids bigint[],
+  mark_done boolean,
+  next_occurrences jsonb default '[]'::jsonb
+)
+returns table (id bigint, is_next_occurrence boolean) as $$
+#variable_conflict use_column
+declare
+  completed public.todos;
+  schedule record;
+  next_id bigint;
+  next_ids bigint[] := '{}';
+begin
+  if mark_done then
+    for completed in
+      select * from public.todos
+      where todos.id = any(todo_ids)
+        and todos.user_id = auth.uid()
+        and todos.deleted_at is null
+        and todos.done = false
+      order by todos.id
+      for update
+    loop
+      continue when completed.recurrence is null;
+
+      select *
+      into schedule
+      from jsonb_to_recordset(next_occurrences)
+        as next_occurrence(todo_id bigint, start_at timestamptz, due_at timestamptz, position text)
+      where next_occurrence.todo_id = completed.id
+      limit 1;
+
+      if not found then
+        raise exception 'no next occurrence given for todo %', completed.id
+          using errcode = 'invalid_parameter_value';
+      end if;
+
+      insert into public.todos (
+        text, description, content, start_at, due_at, priority, project_id,
+        parent_id, subtask_position, recurrence, position, user_id, done
+      )
+      values (
+        completed.text, completed.description, completed.content, schedule.start_at,
+        schedule.due_at, completed.priority, completed.project_id, completed.parent_id,
+        completed.subtask_position, completed.recurrence, schedule.position,
+        completed.user_id, false
+      )
+      returning todos.id into next_id;
+
+      insert into public.todo_tags (todo_id, tag_id, user_id)
+      select next_id, todo_tags.tag_id, todo_tags.user_id
+      from public.todo_tags
+      where todo_tags.todo_id = completed.id;
+
+      next_ids := next_ids || next_id;
+    end loop;
+  end if;
+
+  return query
+  with changed as (
+    update public.todos
+    set done = mark_done,
+        completed_at = case when mark_done then now() else null end,
+        archived_at = case when mark_done then todos.archived_at else null end,
+        recurrence = case when mark_done then null else todos.recurrence end
+    where todos.id = any(todo_ids)
+      and todos.user_id = auth.uid()
+      and todos.deleted_at is null
+      and todos.done <> mark_done
+    returning todos.id
+  )
+  select changed.id, false from changed
+  union all
+  select next_occurrence_id, true from unnest(next_ids) as next_occurrence_id;
+end;
+$$ language plpgsql volatile security invoker;
+
+create or replace function public.bulk_trash_todos(todo_ids bigint[])
+returns table (id bigint) as $$
+  update public.todos
+  set deleted_at = now()
+  where (id = any(todo_ids) or parent_id = any(todo_ids))
+    and user_id = auth.uid()
+    and deleted_at is null
+  returning id;
+$$ language sql volatile security invoker;
+
+create or replace function public.bulk_move_todos(todo_ids bigint[], target_project_id bigint)
+returns table (id bigint) as $$
+#variable_conflict use_column
+begin
+  if not exists (
+    select 1 from public.projects
+    where id = target_project_id and user_id = auth.uid()
+  ) then
+    raise exception 'project % not found', target_project_id
+      using errcode = 'foreign_key_violation';
+  end if;
+
+  return query
+  with moved_parents as (
+    update public.todos
+    set project_id = target_project_id
+    where id = any(todo_ids)
+      and parent_id is null
+      and user_id = auth.uid()
+      and deleted_at is null
+    returning id
+  ),
+  moved_subtasks as (
+    update public.todos
+    set project_id = target_project_id
+    where parent_id in (select moved_parents.id from moved_parents)
+      and user_id = auth.uid()
+    returning id
+  )
+  select moved_parents.id from moved_parents
+  union all
+  select moved_subtasks.id from moved_subtasks;
+end;
+$$ language plpgsql volatile security invoker;
+
+create or replace function public.bulk_set_todo_tag(todo_ids bigint[], target_tag_id bigint, attach boolean)
+returns table (id bigint) as $$
+#variable_conflict use_column
+begin
+  if not exists (
+    select 1 from public.tags
+    where id = target_tag_id and user_id = auth.uid()
+  ) then
+    raise exception 'tag % not found', target_tag_id
+      using errcode = 'foreign_key_violation';
+  end if;
+
+  if attach then
+    return query
+    with attached as (
+      insert into public.todo_tags (todo_id, tag_id, user_id)
+      select todos.id, target_tag_id, auth.uid()
+      from public.todos
+      where todos.id = any(todo_ids)
+        and todos.user_id = auth.uid()
+        and todos.deleted_at is null
+      on conflict (todo_id, tag_id) do nothing
+      returning todo_tags.todo_id
+    )
+    select attached.todo_id from attached;
+  else
+    return query
+    with detached as (
+      delete from public.todo_tags
+      where todo_tags.todo_id = any(todo_ids)
+        and todo_tags.tag_id = target_tag_id
+        and todo_tags.user_id = auth.uid()
+      returning todo_tags.todo_id
+    )
+    select detached.todo_id from detached;
+  end if;
+end;
+$$ language plpgsql volatile security invoker;
+
+/*
+ * Functions: public.restore_todos(todo_ids bigint[]),
+ *            public.unarchive_todos(todo_ids bigint[])
+ *
+ * Purpose: Undo a trash or an archive of many todos in a single round trip
+ *
+ * Behavior:
+ * - Run as the caller, so row level security applies
+ * - Restore exactly the ids given (subtasks included) and return the restored rows
+ */
+
+create or replace function public.restore_todos(todo_ids bigint[])
+returns setof public.todos as $$
+  update public.todos
+  set deleted_at = null
+  where id = any(todo_ids)
+    and user_id = auth.uid()
+    and deleted_at is not null
+  returning *;
+$$ language sql volatile security invoker;
+
+create or replace function public.unarchive_todos(todo_ids bigint[])
+returns setof public.todos as $$
+  update public.todos
+  set archived_at = null
+  where id = any(todo_ids)
+    and user_id = auth.uid()
+    and archived_at is not null
+    and deleted_at is null
+  returning *;
+$$ language sql volatile security invoker;
+
+/*
+ * Function: public.complete_recurring_todo(target_todo_id bigint, next_start_at timestamptz,
+ *   next_due_at timestamptz, next_position text, complete_subtasks boolean default false)
+ *
+ * Purpose: Hand a recurring todo's rule over to its next occurrence in one transaction
+ *
+ * Behavior:
+ * - Runs as the caller, so row level security applies
+ * - Locks the todo, skips it unless it is open, recurring and out of the trash, then
+ *   inserts the next occurrence with the given dates and position, copies the tags,
+ *   and completes the todo (and its open subtasks when asked) with its rule cleared
+ * - Returns (id, is_next_occurrence) for every completed todo and the new occurrence
+ */
+
+create or replace function public.complete_recurring_todo(
+  target_todo_id bigint,
+  next_start_at timestamptz,
+  next_due_at timestamptz,
+  next_position text,
+  complete_subtasks boolean default false
+)
+returns table (id bigint, is_next_occurrence boolean) as $$
+#variable_conflict use_column
+declare
+  completed public.todos;
+  next_id bigint;
+begin
+  select * into completed
+  from public.todos
+  where todos.id = target_todo_id
+    and todos.user_id = auth.uid()
+    and todos.deleted_at is null
+    and todos.done = false
+    and todos.recurrence is not null
+  for update;
+
+  if not found then
+    return;
+  end if;
+
+  insert into public.todos (
+    text, description, content, start_at, due_at, priority, project_id,
+    parent_id, subtask_position, recurrence, position, user_id, done
+  )
+  values (
+    completed.text, completed.description, completed.content, next_start_at,
+    next_due_at, completed.priority, completed.project_id, completed.parent_id,
+    completed.subtask_position, completed.recurrence, next_position,
+    completed.user_id, false
+  )
+  returning todos.id into next_id;
+
+  insert into public.todo_tags (todo_id, tag_id, user_id)
+  select next_id, todo_tags.tag_id, todo_tags.user_id
+  from public.todo_tags
+  where todo_tags.todo_id = completed.id;
+
+  return query
+  with completed_todos as (
+    update public.todos
+    set done = true,
+        completed_at = now(),
+        recurrence = case when todos.id = completed.id then null else todos.recurrence end
+    where todos.user_id = auth.uid()
+      and todos.deleted_at is null
+      and (
+        todos.id = completed.id
+        or (complete_subtasks and todos.parent_id = completed.id and todos.done = false)
+      )
+    returning todos.id
+  )
+  select completed_todos.id, false from completed_todos
+  union all
+  select next_id, true;
+end;
+$$ language plpgsql volatile security invoker;
+
+/*
+ * Function: public.import_todos(import_plan jsonb)
+ *
+ * Purpose: Write an import in one transaction, so a failed import or replace changes nothing
+ *
+ * Behavior:
+ * - Runs as the caller, so row level security applies; every row is written for auth.uid()
+ * - Inserts the new projects, tags and todos of the plan (parents before subtasks), links the
+ *   tags, then deletes the todos, tags and projects a replace removes
+ * - New projects, tags and parents are referred to by their key in the document; a row that
+ *   cannot be saved is reported in errors and left out, along with the subtasks of its todo
+ * - Returns { project_keys, tag_keys, todo_keys, removed_todos, errors }
+ */
+
+create or replace function public.import_todos(import_plan jsonb)
+returns jsonb as $$
+declare
+  item jsonb;
+  fields jsonb;
+  new_id bigint;
+  parent_todo_id bigint;
+  project_ids jsonb := '{}'::jsonb;
+  tag_ids jsonb := '{}'::jsonb;
+  todo_ids jsonb := '{}'::jsonb;
+  errors jsonb := '[]'::jsonb;
+  removed_todos integer := 0;
+begin
+  for item in
+    select value from jsonb_array_elements(import_plan->'projects')
+  loop
+    fields := item->'row';
+    begin
+      insert into public.projects (name, color, icon, archived, user_id, created_at, updated_at)
+      values (
+        fields->>'name',
+        coalesce(fields->>'color', '#7c9885'),
+        coalesce(fields->>'icon', 'folder'),
+        coalesce((fields->>'archived')::boolean, false),
+        auth.uid(),
+        coalesce((fields->>'created_at')::timestamptz, now()),
+        coalesce((fields->>'updated_at')::timestamptz, now())
+      )
+      returning id into new_id;
+      project_ids := project_ids || jsonb_build_object(item->>'key', new_id);
+    exception when others then
+      errors := errors || jsonb_build_object(
+        'list', 'projects', 'index', item->'index', 'label', item->'label',
+        'message', 'Could not be saved'
+      );
+    end;
+  end loop;
+
+  for item in
+    select value from jsonb_array_elements(import_plan->'tags')
+  loop
+    fields := item->'row';
+    begin
+      insert into public.tags (name, color, user_id, created_at, updated_at)
+      values (
+        fields->>'name',
+        coalesce(fields->>'color', '#7c9885'),
+        auth.uid(),
+        coalesce((fields->>'created_at')::timestamptz, now()),
+        coalesce((fields->>'updated_at')::timestamptz, now())
+      )
+      returning id into new_id;
+      tag_ids := tag_ids || jsonb_build_object(item->>'key', new_id);
+    exception when others then
+      errors := errors || jsonb_build_object(
+        'list', 'tags', 'index', item->'index', 'label', item->'label',
+        'message', 'Could not be saved'
+      );
+    end;
+  end loop;
+
+  -- Parents come before their subtasks, so a subtask finds its parent's new id
+  for item in
+    select value from jsonb_array_elements(import_plan->'todos')
+  loop
+    fields := item->'row';
+    parent_todo_id := (fields->>'parent_id')::bigint;
+    if item->>'parent_key' is not null then
+      parent_todo_id := (todo_ids->>(item->>'parent_key'))::bigint;
+      if parent_todo_id is null then
+        errors := errors || jsonb_build_object(
+          'list', 'todos', 'index', item->'index', 'label', item->'label',
+          'message', 'Its parent todo could not be imported'
+        );
+        continue;
+      end if;
+    end if;
+
+    begin
+      insert into public.todos (
+        text, description, content, done, start_at, due_at, priority, recurrence,
+        project_id, parent_id, subtask_position, position, deleted_at, completed_at,
+        archived_at, user_id, created_at, updated_at
+      )
+      values (
+        fields->>'text',
+        fields->>'description',
+        coalesce(nullif(fields->'content', 'null'::jsonb), '[]'::jsonb),
+        coalesce((fields->>'done')::boolean, false),
+        (fields->>'start_at')::timestamptz,
+        (fields->>'due_at')::timestamptz,
+        coalesce((fields->>'priority')::public.todo_priority, 'none'),
+        nullif(fields->'recurrence', 'null'::jsonb),
+        coalesce(
+          (project_ids->>(item->>'project_key'))::bigint,
+          (fields->>'project_id')::bigint
+        ),
+        parent_todo_id,
+        coalesce((fields->>'subtask_position')::integer, 0),
+        fields->>'position',
+        (fields->>'deleted_at')::timestamptz,
+        (fields->>'completed_at')::timestamptz,
+        (fields->>'archived_at')::timestamptz,
+        auth.uid(),
+        coalesce((fields->>'created_at')::timestamptz, now()),
+        coalesce((fields->>'updated_at')::timestamptz, now())
+      )
+      returning id into new_id;
+    exception when others then
+      errors := errors || jsonb_build_object(
+        'list', 'todos', 'index', item->'index', 'label', item->'label',
+        'message', 'Could not be saved'
+      );
+      continue;
+    end;
+    todo_ids := todo_ids || jsonb_build_object(item->>'key', new_id);
+
+    -- Tags that could not be saved are dropped; repeated names share a tag
+    insert into public.todo_tags (todo_id, tag_id, user_id)
+    select new_id, linked.tag_id, auth.uid()
+    from (
+      select existing.tag_id::bigint as tag_id
+      from jsonb_array_elements_text(item->'tag_ids') as existing(tag_id)
+      union
+      select (tag_ids->>created.tag_key)::bigint
+      from jsonb_array_elements_text(item->'tag_keys') as created(tag_key)
+    ) as linked
+    where linked.tag_id is not null
+    on conflict (todo_id, tag_id) do nothing;
+  end loop;
+
+  -- Subtasks and tag links go with their todos
+  delete from public.todos
+  where todos.id in (
+      select removed.id::bigint
+      from jsonb_array_elements_text(import_plan->'remove_todo_ids') as removed(id)
+    )
+    and todos.user_id = auth.uid();
+  get diagnostics removed_todos = row_count;
+
+  delete from public.tags
+  where tags.id in (
+      select removed.id::bigint
+      from jsonb_array_elements_text(import_plan->'remove_tag_ids') as removed(id)
+    )
+    and tags.user_id = auth.uid();
+
+  delete from public.projects
+  where projects.id in (
+      select removed.id::bigint
+      from jsonb_array_elements_text(import_plan->'remove_project_ids') as removed(id)
+    )
+    and projects.user_id = auth.uid();
+
+  return jsonb_build_object(
+    'project_keys',
+    (select coalesce(jsonb_agg(created.key::bigint), '[]'::jsonb)
+     from jsonb_object_keys(project_ids) as created(key)),
+    'tag_keys',
+    (select coalesce(jsonb_agg(created.key::bigint), '[]'::jsonb)
+     from jsonb_object_keys(tag_ids) as created(key)),
+    'todo_keys',
+    (select coalesce(jsonb_agg(created.key::bigint), '[]'::jsonb)
+     from jsonb_object_keys(todo_ids) as created(key)),
+    'removed_todos', removed_todos,
+    'errors', errors
+  );
+end;
+$$ language plpgsql volatile security invoker;
+
+/*
+ * Function: public.reorder_subtasks(target_parent_id bigint, ordered_ids bigint[])
+ *
+ * Purpose: Reorder a todo's subtasks in one statement, so positions never end up half updated
+ *
+ * Behavior:
+ * - Runs as the caller, so row level security applies
+ * - Locks the subtasks and raises invalid_parameter_value unless ordered_ids lists every
+ *   subtask out of the trash exactly once
+ * - Sets subtask_position to each id's place in the list and returns the ids, as rows of (id)
+ */
+
+create or replace function public.reorder_subtasks(target_parent_id bigint, ordered_ids bigint[])
+returns table (id bigint) as $$
+#variable_conflict use_column
+begin
+  -- A subtask added meanwhile would otherwise be left out of the check
+  perform 1
+  from public.todos
+  where todos.parent_id = target_parent_id
+    and todos.user_id = auth.uid()
+    and todos.deleted_at is null
+  for update;
+
+  if cardinality(ordered_ids) <> (
+      select count(distinct ordered.id) from unnest(ordered_ids) as ordered(id)
+    )
+    or exists (
+      select 1
+      from public.todos
+      where todos.parent_id = target_parent_id
+        and todos.user_id = auth.uid()
+        and todos.deleted_at is null
+        and not (todos.id = any(ordered_ids))
+    )
+    or exists (
+      select 1
+      from unnest(ordered_ids) as ordered(id)
+      where not exists (
+        select 1
+        from public.todos
+        where todos.id = ordered.id
+          and todos.parent_id = target_parent_id
+          and todos.user_id = auth.uid()
+          and todos.deleted_at is null
+      )
+    )
+  then
+    raise exception 'order must list every subtask of todo % exactly once', target_parent_id
+      using errcode = 'invalid_parameter_value';
+  end if;
+
+  return query
+  with reordered as (
+    update public.todos
+    set subtask_position = ordered.ordinal - 1
+    from unnest(ordered_ids) with ordinality as ordered(id, ordinal)
+    where todos.id = ordered.id
+      and todos.user_id = auth.uid()
+    returning todos.id
+  )
+  select reordered.id from reordered;
+end;
+$$ language plpgsql volatile security invoker;
+
+/*
+ * Function: public.authenticate_api_token(hash text)
+ *
+ * Purpose: Resolve a personal access token sent as a bearer token
+ *
+ * Behavior:
+ * - Runs as its owner, since the caller is not signed in yet; it only ever
+ *   touches the one row whose hash it is given
+ * - Sets last_used_at and returns (user_id, scope); no rows for an unknown
+ *   or revoked token
+ * - Executable by anon and authenticated only
+ */
+
+create or replace function public.authenticate_api_token(hash text)
+returns table (user_id uuid, scope text) as $$
+  update public.api_tokens
+  set last_used_at = now()
+  where token_hash = hash
+  returning user_id, scope;
+$$ language sql volatile security definer set search_path = '';
+
+revoke execute on function public.authenticate_api_token(text) from public;
+grant execute on function public.authenticate_api_token(text) to anon, authenticated;
+
+/*
+ * Function: public.authenticate_calendar_feed(hash text)
+ *
+ * Purpose: Resolve the token in a calendar feed URL
+ *
+ * Behavior:
+ * - Runs as its owner, since calendar apps are not signed in; it only ever
+ *   touches the one row whose hash it is given
+ * - Sets last_fetched_at, at most every 15 minutes, and returns
+ *   (user_id, time_zone); no rows for an unknown or regenerated token
+ * - Executable by anon and authenticated only
+ */
+
+create or replace function public.authenticate_calendar_feed(hash text)
+returns table (user_id uuid, time_zone text) as $$
+  update public.calendar_feeds
+  set last_fetched_at = now()
+  where token_hash = hash
+    and (last_fetched_at is null or last_fetched_at < now() - interval '15 minutes');
+
+  select calendar_feeds.user_id, calendar_feeds.time_zone
+  from public.calendar_feeds
+  where token_hash = hash;
+$$ language sql volatile security definer set search_path = '';
+
+revoke execute on function public.authenticate_calendar_feed(text) from public;
+grant execute on function public.authenticate_calendar_feed(text) to anon, authenticated;
+
+/*
+ * Function: public.calendar_feed_version()
+ *
+ * Purpose: Let calendar apps poll cheaply; the feed's ETag is derived from this summary
+ *
+ * Behavior:
+ * - Runs as the caller, so row level security applies
+ * - Returns (todo_count, last_updated_at, last_todo_id) over the todos the feed serves:
+ *   dated, out of the trash and the archive
+ */
+
+create or replace function public.calendar_feed_version()
+returns table (todo_count bigint, last_updated_at timestamptz, last_todo_id bigint) as $$
+  select count(*), max(updated_at), max(id)
+  from public.todos
+  where user_id = auth.uid()
+    and (start_at is not null or due_at is not null)
+    and deleted_at is null
+    and archived_at is null;
+$$ language sql stable security invoker;
+
+create trigger set_updated_at
+  before update on public.projects
+  for each row
+  execute function public.handle_updated_at();
+
+create trigger set_updated_at
+  before update on public.tags
+  for each row
+  execute function public.handle_updated_at();
+
+create trigger set_updated_at
+  before update on public.webhook_endpoints
+  for each row
+  execute function public.handle_updated_at();
+
 -- ==================================================================
 -- 7. COMMON QUERY PATTERNS
 -- ==================================================================
@@ -308,6 +1569,54 @@ create trigger set_updated_at
 -- from public.todos
 -- where user_id = auth.uid();
 
+/*
+ * Pattern 9: Get todos carrying any of the given tags
+ * Use case: Tag filter with "any" semantics
+ */
+-- select distinct public.todos.*
+-- from public.todos
+-- join public.todo_tags on public.todo_tags.todo_id = public.todos.id
+-- where public.todos.user_id = auth.uid() and public.todo_tags.tag_id in (1, 2);
+
+/*
+ * Pattern 10: Get a todo's subtasks in order
+ * Use case: Checklist beneath a parent todo
+ */
+-- select * from public.todos where parent_id = 123 and user_id = auth.uid() order by subtask_position;
+
+/*
+ * Pattern 11: Get todos in manual order
+ * Use case: Active list sorted by hand
+ */
+-- select * from public.todos where user_id = auth.uid() and done = false order by position;
+
+/*
+ * Pattern 12: Get the trash, most recently deleted first
+ * Use case: Trash view with restore and permanent delete
+ */
+-- select * from public.todos where user_id = auth.uid() and deleted_at is not null order by deleted_at desc;
+
+/*
+ * Pattern 13: Get the archive, most recently completed first
+ * Use case: History view grouped by completion week
+ */
+-- select * from public.todos
+-- where user_id = auth.uid() and archived_at is not null and deleted_at is null
+-- order by completed_at desc;
+
+/*
+ * Pattern 14: Search todos as the user types
+ * Use case: Search box above the list
+ */
+-- select * from public.search_todos('groceries oat', 20);
+
+/*
+ * Pattern 15: Apply one change to a selection of todos
+ * Use case: Bulk toolbar in multi-select mode
+ */
+-- select * from public.bulk_set_todos_done(array[1, 2, 3]::bigint[], true);
+-- select * from public.bulk_move_todos(array[1, 2, 3]::bigint[], 7);
+
 -- ==================================================================
 -- 8. TYPESCRIPT TYPE DEFINITIONS
 -- ==================================================================
@@ -326,6 +1635,17 @@ export type Todo = {
   description: string | null;
   done: boolean;
   content: unknown; // Block-based rich content stored as JSON array
+  start_at: string | null;
+  due_at: string | null;
+  priority: "none" | "low" | "medium" | "high" | "urgent";
+  project_id: number;
+  parent_id: number | null;
+  subtask_position: number;
+  recurrence: TodoRecurrence | null;
+  position: string;
+  deleted_at: string | null;
+  completed_at: string | null;
+  archived_at: string | null;
   user_id: string;
   created_at: string;
   updated_at: string;
@@ -336,6 +1656,14 @@ export type TodoInsert = {
   description?: string | null;
   done?: boolean;
   content?: unknown; // Defaults to []
+  start_at?: string | null;
+  due_at?: string | null;
+  priority?: "none" | "low" | "medium" | "high" | "urgent"; // Defaults to 'none'
+  project_id: number; // The user's inbox when none is chosen
+  parent_id?: number | null;
+  subtask_position?: number; // Defaults to 0
+  recurrence?: TodoRecurrence | null;
+  position: string; // Fractional index key, after the user's last todo for new todos
   user_id: string;
 };
 
@@ -344,6 +1672,98 @@ export type TodoUpdate = {
   description?: string | null;
   done?: boolean;
   content?: unknown;
+  start_at?: string | null;
+  due_at?: string | null;
+  priority?: "none" | "low" | "medium" | "high" | "urgent";
+  project_id?: number;
+  parent_id?: number | null;
+  subtask_position?: number;
+  recurrence?: TodoRecurrence | null;
+  position?: string;
+  deleted_at?: string | null;
+  completed_at?: string | null;
+  archived_at?: string | null;
+};
+
+// interval: repeat every n days/weeks/months/years; weekdays: 0 = Sunday
+export type TodoRecurrence =
+  | { freq: "daily"; interval: number }
+  | { freq: "weekdays" }
+  | { freq: "weekly"; interval: number; weekdays: number[] }
+  | { freq: "monthly"; interval: number; dayOfMonth: number }
+  | { freq: "yearly"; interval: number; month: number; day: number };
+
+export type Project = {
+  id: number;
+  name: string;
+  color: string; // #rrggbb
+  icon: string;
+  archived: boolean;
+  is_inbox: boolean;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type Tag = {
+  id: number;
+  name: string;
+  color: string; // #rrggbb
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type TodoTag = {
+  todo_id: number;
+  tag_id: number;
+  user_id: string;
+  created_at: string;
+};
+
+export type ApiToken = {
+  id: number;
+  name: string;
+  scope: "read" | "write";
+  token_hash: string; // Never sent to the browser
+  token_prefix: string;
+  user_id: string;
+  last_used_at: string | null;
+  created_at: string;
+};
+
+export type WebhookEndpoint = {
+  id: number;
+  url: string;
+  events: ("todo.created" | "todo.completed" | "todo.deleted")[];
+  secret: string;
+  enabled: boolean;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type WebhookDelivery = {
+  id: number;
+  endpoint_id: number;
+  event: string; // An endpoint event type, or webhook.test
+  payload: unknown;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  user_id: string;
+  created_at: string;
+  last_attempt_at: string | null;
+};
+
+export type CalendarFeed = {
+  user_id: string;
+  token_hash: string; // Never sent to the browser
+  token_prefix: string;
+  time_zone: string;
+  last_fetched_at: string | null;
+  created_at: string;
 };
 
 // Supabase auto-generated types (use `supabase gen types typescript` for full types)
@@ -355,6 +1775,27 @@ export type Database = {
         Insert: TodoInsert;
         Update: TodoUpdate;
       };
+      projects: {
+        Row: Project;
+      };
+      tags: {
+        Row: Tag;
+      };
+      todo_tags: {
+        Row: TodoTag;
+      };
+      api_tokens: {
+        Row: ApiToken;
+      };
+      webhook_endpoints: {
+        Row: WebhookEndpoint;
+      };
+      webhook_deliveries: {
+        Row: WebhookDelivery;
+      };
+      calendar_feeds: {
+        Row: CalendarFeed;
+      };
     };
   };
 };